@@ -15,6 +15,8 @@ import Checkout from "./pages/checkout";
 import Guests from "./pages/guests";
 import Reports from "./pages/reports";
 import Rooms from "./pages/rooms";
+import Housekeeping from "./pages/housekeeping";
+import Maintenance from "./pages/maintenance";
 import Bookings from "./pages/bookings";
 import Calendar from "./pages/calendar";
 import MultiRoomBooking from "./pages/multi-room-booking";
@@ -85,6 +87,18 @@ function Router() {
           <Rooms />
         </div>
       </Route>
+      <Route path="/housekeeping">
+        <div className="min-h-screen bg-gray-50">
+          <Header />
+          <Housekeeping />
+        </div>
+      </Route>
+      <Route path="/maintenance">
+        <div className="min-h-screen bg-gray-50">
+          <Header />
+          <Maintenance />
+        </div>
+      </Route>
       <Route path="/bookings">
         <div className="min-h-screen bg-gray-50">
           <Header />
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -20,7 +20,8 @@ import {
   Settings2, 
   Hotel,
   TrendingUp,
-  Activity
+  Activity,
+  KeyRound
 } from "lucide-react";
 
 interface SupportedChannel {
@@ -30,18 +31,35 @@ interface SupportedChannel {
   commission: number;
 }
 
+// Connected channel whose credentials are being replaced. Stored credentials only ever come
+// back masked, so the form starts empty and the full set has to be entered again.
+export interface CredentialsChannel {
+  id: string;
+  channelName: string;
+  displayName: string;
+  propertyId?: string;
+  credentials?: {
+    configured: boolean;
+    username: string;
+    password: string;
+    apiKey: string;
+    updatedAt?: string;
+  };
+}
+
 interface AddChannelModalProps {
   isOpen: boolean;
   onClose: () => void;
   supportedChannels: SupportedChannel[];
-  onSuccess: () => void;
+  onSuccess: (channel?: CredentialsChannel) => void;
   hotelId?: string;
+  replaceCredentialsFor?: CredentialsChannel | null;
 }
 
-export function AddChannelModal({ isOpen, onClose, supportedChannels, onSuccess, hotelId }: AddChannelModalProps) {
+export function AddChannelModal({ isOpen, onClose, supportedChannels, onSuccess, hotelId, replaceCredentialsFor }: AddChannelModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [step, setStep] = useState<"select" | "configure">("select");
+  const [step, setStep] = useState<"select" | "configure" | "credentials">("select");
   const [selectedChannel, setSelectedChannel] = useState<SupportedChannel | null>(null);
   
   // Channel configuration form state
@@ -63,17 +81,18 @@ export function AddChannelModal({ isOpen, onClose, supportedChannels, onSuccess,
 
   const addChannelMutation = useMutation({
     mutationFn: async (data: any) => {
-      const headers = hotelId ? { 'x-hotel-id': hotelId } : {};
-      return apiRequest("POST", "/api/channel-manager/channels", data, { headers });
+      const headers: Record<string, string> = hotelId ? { 'x-hotel-id': hotelId } : {};
+      const response = await apiRequest("POST", "/api/channel-manager/channels", data, { headers });
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (channel: CredentialsChannel) => {
       toast({
         title: "Channel Connected!",
         description: `${selectedChannel?.name} has been successfully connected`,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/channel-manager/channels"] });
       queryClient.invalidateQueries({ queryKey: ["/api/channel-manager/analytics"] });
-      onSuccess();
+      onSuccess(channel);
       handleClose();
     },
     onError: (error: any) => {
@@ -85,6 +104,36 @@ export function AddChannelModal({ isOpen, onClose, supportedChannels, onSuccess,
     },
   });
 
+  const replaceCredentialsMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const headers: Record<string, string> = hotelId ? { 'x-hotel-id': hotelId } : {};
+      return apiRequest("PUT", `/api/channel-manager/channels/${replaceCredentialsFor?.id}/credentials`, data, { headers });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Credentials Replaced",
+        description: `New credentials for ${replaceCredentialsFor?.displayName} were verified and saved`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/channel-manager/channels"] });
+      onSuccess();
+      handleClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Credentials Not Saved",
+        description: error.message || "The OTA rejected the new credentials",
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (isOpen && replaceCredentialsFor) {
+      setStep("credentials");
+      setFormData(prev => ({ ...prev, propertyId: replaceCredentialsFor.propertyId || "" }));
+    }
+  }, [isOpen, replaceCredentialsFor]);
+
   const handleClose = () => {
     setStep("select");
     setSelectedChannel(null);
@@ -115,6 +164,13 @@ export function AddChannelModal({ isOpen, onClose, supportedChannels, onSuccess,
     setStep("configure");
   };
 
+  const handleReplaceCredentials = () => {
+    replaceCredentialsMutation.mutate({
+      propertyId: formData.propertyId,
+      apiCredentials: formData.apiCredentials,
+    });
+  };
+
   const handleSubmit = () => {
     if (!selectedChannel) return;
     
@@ -133,6 +189,54 @@ export function AddChannelModal({ isOpen, onClose, supportedChannels, onSuccess,
     addChannelMutation.mutate(channelData);
   };
 
+  const credentialFields = (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="username">Username</Label>
+        <Input
+          id="username"
+          type="text"
+          value={formData.apiCredentials.username}
+          onChange={(e) => setFormData(prev => ({
+            ...prev,
+            apiCredentials: { ...prev.apiCredentials, username: e.target.value }
+          }))}
+          placeholder="API username"
+          data-testid="input-username"
+        />
+      </div>
+      
+      <div className="space-y-2">
+        <Label htmlFor="password">Password</Label>
+        <Input
+          id="password"
+          type="password"
+          value={formData.apiCredentials.password}
+          onChange={(e) => setFormData(prev => ({
+            ...prev,
+            apiCredentials: { ...prev.apiCredentials, password: e.target.value }
+          }))}
+          placeholder="API password"
+          data-testid="input-password"
+        />
+      </div>
+      
+      <div className="space-y-2 md:col-span-2">
+        <Label htmlFor="apiKey">API Key (if required)</Label>
+        <Input
+          id="apiKey"
+          value={formData.apiCredentials.apiKey}
+          onChange={(e) => setFormData(prev => ({
+            ...prev,
+            apiCredentials: { ...prev.apiCredentials, apiKey: e.target.value }
+          }))}
+          placeholder="API key or token"
+          data-testid="input-api-key"
+        />
+      </div>
+    </div>
+  );
+
   const getChannelIcon = (channelId: string) => {
     switch (channelId.toLowerCase()) {
       case "booking_com":
@@ -154,12 +258,18 @@ export function AddChannelModal({ isOpen, onClose, supportedChannels, onSuccess,
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Globe className="h-5 w-5" />
-            {step === "select" ? "Connect OTA Channel" : `Configure ${selectedChannel?.name}`}
+            {step === "select"
+              ? "Connect OTA Channel"
+              : step === "credentials"
+                ? `Replace ${replaceCredentialsFor?.displayName} Credentials`
+                : `Configure ${selectedChannel?.name}`}
           </DialogTitle>
           <DialogDescription>
             {step === "select" 
               ? "Select an OTA channel to connect to your hotel"
-              : "Enter your channel credentials and configure sync settings"
+              : step === "credentials"
+                ? "Enter the complete new credentials. They are tested against the OTA before the old ones are replaced."
+                : "Enter your channel credentials and configure sync settings"
             }
           </DialogDescription>
         </DialogHeader>
@@ -250,51 +360,7 @@ export function AddChannelModal({ isOpen, onClose, supportedChannels, onSuccess,
                 API Credentials
               </h4>
               
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="username">Username</Label>
-                  <Input
-                    id="username"
-                    type="text"
-                    value={formData.apiCredentials.username}
-                    onChange={(e) => setFormData(prev => ({
-                      ...prev,
-                      apiCredentials: { ...prev.apiCredentials, username: e.target.value }
-                    }))}
-                    placeholder="API username"
-                    data-testid="input-username"
-                  />
-                </div>
-                
-                <div className="space-y-2">
-                  <Label htmlFor="password">Password</Label>
-                  <Input
-                    id="password"
-                    type="password"
-                    value={formData.apiCredentials.password}
-                    onChange={(e) => setFormData(prev => ({
-                      ...prev,
-                      apiCredentials: { ...prev.apiCredentials, password: e.target.value }
-                    }))}
-                    placeholder="API password"
-                    data-testid="input-password"
-                  />
-                </div>
-                
-                <div className="space-y-2 md:col-span-2">
-                  <Label htmlFor="apiKey">API Key (if required)</Label>
-                  <Input
-                    id="apiKey"
-                    value={formData.apiCredentials.apiKey}
-                    onChange={(e) => setFormData(prev => ({
-                      ...prev,
-                      apiCredentials: { ...prev.apiCredentials, apiKey: e.target.value }
-                    }))}
-                    placeholder="API key or token"
-                    data-testid="input-api-key"
-                  />
-                </div>
-              </div>
+              {credentialFields}
             </div>
 
             <Separator />
@@ -388,6 +454,46 @@ export function AddChannelModal({ isOpen, onClose, supportedChannels, onSuccess,
           </div>
         )}
 
+        {step === "credentials" && replaceCredentialsFor && (
+          <div className="space-y-6">
+            <Card className="bg-blue-50 border-blue-200">
+              <CardContent className="p-4">
+                <div className="flex items-center gap-3">
+                  <KeyRound className="h-6 w-6 text-blue-600" />
+                  <div>
+                    <h3 className="font-semibold">Stored credentials</h3>
+                    {replaceCredentialsFor.credentials?.configured ? (
+                      <p className="text-sm text-gray-600" data-testid="text-stored-credentials">
+                        {[
+                          replaceCredentialsFor.credentials.username && `Username ${replaceCredentialsFor.credentials.username}`,
+                          replaceCredentialsFor.credentials.password && `Password ${replaceCredentialsFor.credentials.password}`,
+                          replaceCredentialsFor.credentials.apiKey && `API key ${replaceCredentialsFor.credentials.apiKey}`,
+                        ].filter(Boolean).join(" · ")}
+                        {replaceCredentialsFor.credentials.updatedAt && ` · updated ${new Date(replaceCredentialsFor.credentials.updatedAt).toLocaleDateString()}`}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-600">No credentials stored for this channel</p>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="space-y-2">
+              <Label htmlFor="replacePropertyId">Property ID</Label>
+              <Input
+                id="replacePropertyId"
+                value={formData.propertyId}
+                onChange={(e) => setFormData(prev => ({ ...prev, propertyId: e.target.value }))}
+                placeholder="Your property ID from the OTA"
+                data-testid="input-replace-property-id"
+              />
+            </div>
+
+            {credentialFields}
+          </div>
+        )}
+
         {/* Footer */}
         <div className="flex justify-between pt-4">
           <div>
@@ -407,6 +513,23 @@ export function AddChannelModal({ isOpen, onClose, supportedChannels, onSuccess,
               Cancel
             </Button>
             
+            {step === "credentials" && (
+              <Button
+                onClick={handleReplaceCredentials}
+                disabled={replaceCredentialsMutation.isPending || (!formData.apiCredentials.password && !formData.apiCredentials.apiKey)}
+                data-testid="button-replace-credentials"
+              >
+                {replaceCredentialsMutation.isPending ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    Testing...
+                  </>
+                ) : (
+                  "Test & Replace"
+                )}
+              </Button>
+            )}
+
             {step === "configure" && (
               <Button
                 onClick={handleSubmit}
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { BarChart3, Download, Loader2 } from "lucide-react";
+import { format, startOfMonth, endOfMonth } from "date-fns";
+
+interface ChannelPerformance {
+  source: string;
+  label: string;
+  isDirect: boolean;
+  reservations: number;
+  cancelled: number;
+  roomNights: number;
+  grossRevenue: number;
+  commission: number;
+  netRevenue: number;
+  adr: number;
+  cancellationRate: number;
+  averageLeadTimeDays: number | null;
+  roomNightShare: number;
+  revenueShare: number;
+}
+
+interface ChannelPerformanceReport {
+  startDate: string;
+  endDate: string;
+  channels: ChannelPerformance[];
+  direct: ChannelPerformance;
+  otas: ChannelPerformance;
+  total: ChannelPerformance;
+}
+
+interface ChannelPerformanceReportProps {
+  hotelId: string;
+}
+
+const formatAmount = (amount: number) => `₹${Math.round(amount).toLocaleString("en-IN")}`;
+
+export function ChannelPerformanceReport({ hotelId }: ChannelPerformanceReportProps) {
+  const { toast } = useToast();
+  const [startDate, setStartDate] = useState(() => format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(() => format(endOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [downloading, setDownloading] = useState(false);
+  const apiOptions = { headers: { 'x-hotel-id': hotelId } };
+  const validRange = !!startDate && !!endDate && startDate <= endDate;
+
+  const { data: report, isLoading } = useQuery<ChannelPerformanceReport>({
+    queryKey: [`/api/channel-manager/analytics/report?start=${startDate}&end=${endDate}`],
+    retry: false,
+    enabled: validRange,
+    meta: apiOptions,
+  });
+
+  const downloadCsv = async () => {
+    setDownloading(true);
+    try {
+      const response = await apiRequest("GET", `/api/channel-manager/analytics/report?start=${startDate}&end=${endDate}&format=csv`, undefined, apiOptions);
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `channel-performance-${startDate}-to-${endDate}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({
+        title: "Export Failed",
+        description: error.message || "Failed to export the report",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const renderRow = (row: ChannelPerformance, summary = false) => (
+    <TableRow key={row.source} className={summary ? "font-semibold bg-gray-50 dark:bg-gray-800" : undefined} data-testid={`row-channel-performance-${row.source}`}>
+      <TableCell>{row.label}</TableCell>
+      <TableCell className="text-right">{row.reservations}</TableCell>
+      <TableCell className="text-right">{row.roomNights}</TableCell>
+      <TableCell className="text-right">{formatAmount(row.adr)}</TableCell>
+      <TableCell className="text-right">{formatAmount(row.grossRevenue)}</TableCell>
+      <TableCell className="text-right">{formatAmount(row.commission)}</TableCell>
+      <TableCell className="text-right">{formatAmount(row.netRevenue)}</TableCell>
+      <TableCell className="text-right">{row.cancellationRate}%</TableCell>
+      <TableCell className="text-right">{row.averageLeadTimeDays ?? "-"}</TableCell>
+      <TableCell className="text-right">{row.revenueShare}%</TableCell>
+    </TableRow>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center">
+              <BarChart3 className="h-5 w-5 mr-2" />
+              Channel Performance
+            </CardTitle>
+            <CardDescription>
+              Reservations arriving in the period, by channel and compared with direct business. ADR and revenue are before commission.
+            </CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="performance-start">From</Label>
+              <Input id="performance-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="performance-end">To</Label>
+              <Input id="performance-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <Button variant="outline" onClick={downloadCsv} disabled={!validRange || downloading} data-testid="button-export-channel-performance">
+              {downloading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!validRange ? (
+          <p className="text-sm text-red-600">The end date must not be before the start date.</p>
+        ) : isLoading || !report ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : report.channels.length === 0 ? (
+          <p className="text-center py-8 text-gray-600 dark:text-gray-400">No arrivals in this period</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Channel</TableHead>
+                  <TableHead className="text-right">Reservations</TableHead>
+                  <TableHead className="text-right">Room nights</TableHead>
+                  <TableHead className="text-right">ADR</TableHead>
+                  <TableHead className="text-right">Gross</TableHead>
+                  <TableHead className="text-right">Commission</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                  <TableHead className="text-right">Cancelled</TableHead>
+                  <TableHead className="text-right">Lead time (days)</TableHead>
+                  <TableHead className="text-right">Share</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.channels.map(row => renderRow(row))}
+                {renderRow(report.direct, true)}
+                {renderRow(report.otas, true)}
+                {renderRow(report.total, true)}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
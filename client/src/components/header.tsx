@@ -19,6 +19,8 @@ export default function Header() {
     { href: "/checkout", label: "Checkout", id: "checkout" },
     { href: "/guests", label: "Guests", id: "guests" },
     { href: "/rooms", label: "Rooms", id: "rooms" },
+    { href: "/housekeeping", label: "Housekeeping", id: "housekeeping" },
+    { href: "/maintenance", label: "Maintenance", id: "maintenance" },
     { href: "/bookings", label: "Bookings", id: "bookings" },
     { href: "/calendar", label: "Calendar", id: "calendar" },
     { href: "/channel-manager", label: "Channel Manager", id: "channel-manager" },
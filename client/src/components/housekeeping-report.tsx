@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, Timer } from "lucide-react";
+import { format, startOfMonth, endOfMonth } from "date-fns";
+
+interface AttendantTurnaround {
+  staffId: string | null;
+  name: string;
+  tasks: number;
+  checkoutCleans: number;
+  stayovers: number;
+  inspections: number;
+  averageWorkMinutes: number | null;
+  averageTurnaroundMinutes: number | null;
+}
+
+interface TurnaroundReport {
+  startDate: string;
+  endDate: string;
+  attendants: AttendantTurnaround[];
+  total: AttendantTurnaround;
+}
+
+const formatMinutes = (minutes: number | null) => {
+  if (minutes === null) return "-";
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+// Finished housekeeping tasks per attendant with average time per task and checkout-to-clean turnaround
+export function HousekeepingReport() {
+  const [startDate, setStartDate] = useState(() => format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(() => format(endOfMonth(new Date()), 'yyyy-MM-dd'));
+  const validRange = !!startDate && !!endDate && startDate <= endDate;
+
+  const { data: report, isLoading } = useQuery<TurnaroundReport>({
+    queryKey: [`/api/housekeeping/reports/turnaround?start=${startDate}&end=${endDate}`],
+    retry: false,
+    enabled: validRange,
+  });
+
+  const renderRow = (row: AttendantTurnaround, summary = false) => (
+    <TableRow key={row.staffId ?? row.name} className={summary ? "font-semibold bg-gray-50" : undefined}>
+      <TableCell>{row.name}</TableCell>
+      <TableCell className="text-right">{row.tasks}</TableCell>
+      <TableCell className="text-right">{row.checkoutCleans}</TableCell>
+      <TableCell className="text-right">{row.stayovers}</TableCell>
+      <TableCell className="text-right">{row.inspections}</TableCell>
+      <TableCell className="text-right">{formatMinutes(row.averageWorkMinutes)}</TableCell>
+      <TableCell className="text-right">{formatMinutes(row.averageTurnaroundMinutes)}</TableCell>
+    </TableRow>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center">
+              <Timer className="h-5 w-5 mr-2" />
+              Turnaround by Attendant
+            </CardTitle>
+            <CardDescription>
+              Tasks finished in the period. Time per task runs from start to finish; turnaround from checkout to the room being cleaned.
+            </CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="turnaround-start">From</Label>
+              <Input id="turnaround-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="turnaround-end">To</Label>
+              <Input id="turnaround-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!validRange ? (
+          <p className="text-sm text-red-600">The end date must not be before the start date.</p>
+        ) : isLoading || !report ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : report.attendants.length === 0 ? (
+          <p className="text-center py-8 text-gray-600">No tasks finished in this period</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table data-testid="table-housekeeping-turnaround">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Attendant</TableHead>
+                  <TableHead className="text-right">Tasks</TableHead>
+                  <TableHead className="text-right">Checkout cleans</TableHead>
+                  <TableHead className="text-right">Stay-overs</TableHead>
+                  <TableHead className="text-right">Inspections</TableHead>
+                  <TableHead className="text-right">Time per task</TableHead>
+                  <TableHead className="text-right">Turnaround</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.attendants.map(row => renderRow(row))}
+                {renderRow(report.total, true)}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Plus, Users } from "lucide-react";
+import type { HousekeepingStaff } from "@shared/schema";
+
+const ALL_STAFF_KEY = "/api/housekeeping/staff?includeInactive=true";
+
+// Attendants the housekeeping board assigns work to, and whether cleaned rooms need inspecting
+export function HousekeepingStaffManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+
+  const { data: staff = [], isLoading } = useQuery<HousekeepingStaff[]>({
+    queryKey: [ALL_STAFF_KEY],
+  });
+
+  const { data: settings } = useQuery<{ inspectAfterCleaning: boolean }>({
+    queryKey: ["/api/housekeeping/settings"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [ALL_STAFF_KEY] });
+    queryClient.invalidateQueries({ queryKey: ["/api/housekeeping/staff"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/housekeeping/staff", { name, phone: phone || null });
+      return response.json();
+    },
+    onSuccess: (member: HousekeepingStaff) => {
+      toast({ title: "Attendant Added", description: `${member.name} can now be assigned tasks` });
+      setName("");
+      setPhone("");
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({ title: "Attendant Not Added", description: error.message || "Failed to add attendant", variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (member: HousekeepingStaff) => apiRequest("PUT", `/api/housekeeping/staff/${member.id}`, { isActive: !member.isActive }),
+    onSuccess: () => invalidate(),
+    onError: (error: any) => {
+      toast({ title: "Update Failed", description: error.message || "Failed to update attendant", variant: "destructive" });
+    },
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: async (inspectAfterCleaning: boolean) => {
+      const response = await apiRequest("PUT", "/api/housekeeping/settings", { inspectAfterCleaning });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/housekeeping/settings"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Update Failed", description: error.message || "Failed to update housekeeping settings", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Inspection</CardTitle>
+          <CardDescription>
+            When on, a cleaned room gets an inspection task and only becomes available once it passes.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={!!settings?.inspectAfterCleaning}
+              onCheckedChange={(checked) => settingsMutation.mutate(checked)}
+              disabled={!settings || settingsMutation.isPending}
+              data-testid="switch-inspect-after-cleaning"
+            />
+            <Label>Inspect rooms after cleaning</Label>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Users className="h-5 w-5 mr-2" />
+            Attendants
+          </CardTitle>
+          <CardDescription>Deactivate attendants who leave; their finished tasks stay in the reports.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="attendant-name">Name</Label>
+              <Input id="attendant-name" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-attendant-name" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="attendant-phone">Phone</Label>
+              <Input id="attendant-phone" value={phone} onChange={(e) => setPhone(e.target.value)} />
+            </div>
+            <Button onClick={() => createMutation.mutate()} disabled={!name.trim() || createMutation.isPending} data-testid="button-add-attendant">
+              {createMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Add
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : staff.length === 0 ? (
+            <p className="text-center py-8 text-sm text-gray-600">No attendants yet</p>
+          ) : (
+            <div className="divide-y border rounded">
+              {staff.map(member => (
+                <div key={member.id} className="flex items-center justify-between p-3" data-testid={`row-attendant-${member.id}`}>
+                  <div>
+                    <p className="font-medium">
+                      {member.name}
+                      {!member.isActive && <Badge variant="secondary" className="ml-2">Inactive</Badge>}
+                    </p>
+                    {member.phone && <p className="text-sm text-gray-600">{member.phone}</p>}
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => toggleMutation.mutate(member)} disabled={toggleMutation.isPending}>
+                    {member.isActive ? "Deactivate" : "Reactivate"}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
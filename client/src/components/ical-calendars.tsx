@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, Loader2, Plus, RefreshCw, Trash2, CalendarDays } from "lucide-react";
+
+interface IcalFeeds {
+  rooms: { roomId: string; roomNumber: string; roomType: string; url: string }[];
+  roomTypes: { roomType: string; url: string }[];
+}
+
+interface IcalSubscription {
+  id: string;
+  roomId?: string;
+  roomType: string;
+  name: string;
+  url: string;
+  source: string;
+  importAs: "block" | "booking";
+  isActive: boolean;
+  lastSyncedAt?: string;
+  lastSyncStatus?: "success" | "failed" | "partial";
+  lastError?: string;
+  eventsImported: number;
+}
+
+interface IcalCalendarsProps {
+  hotelId: string;
+}
+
+const emptyForm = { target: "", name: "", url: "", importAs: "block" as "block" | "booking" };
+
+// Two-way calendar sync for platforms without an API (Airbnb, VRBO, ...): export .ics feeds of
+// our blocked dates and subscribe to theirs
+export function IcalCalendars({ hotelId }: IcalCalendarsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+  const apiOptions = { headers: { 'x-hotel-id': hotelId } };
+
+  const { data: feeds } = useQuery<IcalFeeds>({
+    queryKey: ["/api/channel-manager/ical/feeds"],
+    retry: false,
+    meta: apiOptions,
+  });
+
+  const { data: subscriptions = [], isLoading: loadingSubscriptions } = useQuery<IcalSubscription[]>({
+    queryKey: ["/api/channel-manager/ical/subscriptions"],
+    retry: false,
+    meta: apiOptions,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/channel-manager/ical/subscriptions"] });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/channel-manager/sync-logs") });
+  };
+
+  const createSubscriptionMutation = useMutation({
+    mutationFn: async () => {
+      // target is "room:<id>" or "type:<roomType>"
+      const [kind, value] = form.target.split(":");
+      const response = await apiRequest("POST", "/api/channel-manager/ical/subscriptions", {
+        name: form.name,
+        url: form.url,
+        importAs: form.importAs,
+        roomId: kind === "room" ? value : undefined,
+        roomType: kind === "room" ? feeds?.rooms.find(room => room.roomId === value)?.roomType : value,
+      }, apiOptions);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: data.syncResult?.success ? "Calendar Imported" : "Calendar Added",
+        description: data.syncResult?.success
+          ? `${data.syncResult.events} events imported from ${data.name}`
+          : `The first import failed: ${data.syncResult?.error || "unknown error"}`,
+        variant: data.syncResult?.success ? undefined : "destructive",
+      });
+      setForm(emptyForm);
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to Add Calendar",
+        description: error.message || "Check the calendar URL",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const syncSubscriptionMutation = useMutation({
+    mutationFn: async (subscriptionId: string) => {
+      const response = await apiRequest("POST", `/api/channel-manager/ical/subscriptions/${subscriptionId}/sync`, {}, apiOptions);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Calendar Synced",
+        description: `${data.events} events imported, ${data.changed} changes`,
+      });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Sync Failed",
+        description: error.message || "Failed to import calendar",
+        variant: "destructive",
+      });
+      invalidate();
+    },
+  });
+
+  const deleteSubscriptionMutation = useMutation({
+    mutationFn: async (subscriptionId: string) => {
+      return apiRequest("DELETE", `/api/channel-manager/ical/subscriptions/${subscriptionId}`, undefined, apiOptions);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Calendar Removed",
+        description: "Imported blocks were released",
+      });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to Remove Calendar",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyUrl = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: "Copied", description: "Paste this URL into the other platform's calendar import" });
+  };
+
+  const targetLabel = (subscription: IcalSubscription) => {
+    const room = feeds?.rooms.find(room => room.roomId === subscription.roomId);
+    return room ? `Room ${room.roomNumber}` : `Any ${subscription.roomType} room`;
+  };
+
+  const canSubmit = form.target && form.name && form.url && !createSubscriptionMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Export Calendars</CardTitle>
+          <CardDescription>
+            Give these URLs to Airbnb or other platforms so they block dates that are booked here.
+            Feeds only contain "Not available" dates, never guest details.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {!feeds || (feeds.rooms.length === 0 && feeds.roomTypes.length === 0) ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">Add rooms to get calendar feeds</p>
+          ) : (
+            <>
+              {feeds.roomTypes.map((feed) => (
+                <div key={feed.roomType} className="flex items-center gap-3" data-testid={`ical-feed-type-${feed.roomType}`}>
+                  <span className="w-32 font-medium capitalize">{feed.roomType} rooms</span>
+                  <Input value={feed.url} readOnly className="font-mono text-xs" />
+                  <Button size="sm" variant="outline" onClick={() => copyUrl(feed.url)}>
+                    <Copy className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+              {feeds.rooms.map((feed) => (
+                <div key={feed.roomId} className="flex items-center gap-3" data-testid={`ical-feed-room-${feed.roomNumber}`}>
+                  <span className="w-32 text-sm">Room {feed.roomNumber}</span>
+                  <Input value={feed.url} readOnly className="font-mono text-xs" />
+                  <Button size="sm" variant="outline" onClick={() => copyUrl(feed.url)}>
+                    <Copy className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Import Calendars</CardTitle>
+          <CardDescription>Calendars are re-imported automatically every 30 minutes</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Blocks</Label>
+              <Select value={form.target} onValueChange={(target) => setForm({ ...form, target })}>
+                <SelectTrigger data-testid="select-ical-target">
+                  <SelectValue placeholder="Room or room type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {feeds?.roomTypes.map((feed) => (
+                    <SelectItem key={feed.roomType} value={`type:${feed.roomType}`}>
+                      Any {feed.roomType} room
+                    </SelectItem>
+                  ))}
+                  {feeds?.rooms.map((feed) => (
+                    <SelectItem key={feed.roomId} value={`room:${feed.roomId}`}>
+                      Room {feed.roomNumber}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Import as</Label>
+              <Select value={form.importAs} onValueChange={(importAs: "block" | "booking") => setForm({ ...form, importAs })}>
+                <SelectTrigger data-testid="select-ical-import-as">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="block">Blocked dates</SelectItem>
+                  <SelectItem value="booking">Reservations</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ical-name">Name</Label>
+              <Input
+                id="ical-name"
+                placeholder="Airbnb - Deluxe listing"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                data-testid="input-ical-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ical-url">Calendar URL</Label>
+              <Input
+                id="ical-url"
+                placeholder="https://www.airbnb.com/calendar/ical/....ics"
+                value={form.url}
+                onChange={(e) => setForm({ ...form, url: e.target.value })}
+                data-testid="input-ical-url"
+              />
+            </div>
+          </div>
+          <Button onClick={() => createSubscriptionMutation.mutate()} disabled={!canSubmit} data-testid="button-add-ical">
+            {createSubscriptionMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4 mr-2" />
+            )}
+            Add Calendar
+          </Button>
+
+          {loadingSubscriptions ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : subscriptions.length === 0 ? (
+            <div className="text-center py-8">
+              <CalendarDays className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600 dark:text-gray-400">No imported calendars yet</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {subscriptions.map((subscription) => (
+                <div key={subscription.id} className="flex items-center justify-between p-4 border rounded-lg" data-testid={`ical-subscription-${subscription.id}`}>
+                  <div>
+                    <p className="font-medium">{subscription.name}</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {targetLabel(subscription)} · {subscription.importAs === "booking" ? "reservations" : "blocked dates"} · {subscription.eventsImported} events
+                    </p>
+                    {subscription.lastSyncedAt && (
+                      <p className="text-xs text-gray-500">Last import {new Date(subscription.lastSyncedAt).toLocaleString()}</p>
+                    )}
+                    {subscription.lastSyncStatus === "failed" && subscription.lastError && (
+                      <p className="text-xs text-red-600 mt-1">{subscription.lastError}</p>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-3">
+                    {subscription.lastSyncStatus && (
+                      <Badge variant={subscription.lastSyncStatus === "success" ? "default" : "destructive"}>
+                        {subscription.lastSyncStatus}
+                      </Badge>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => syncSubscriptionMutation.mutate(subscription.id)}
+                      disabled={syncSubscriptionMutation.isPending}
+                      data-testid={`button-sync-ical-${subscription.id}`}
+                    >
+                      <RefreshCw className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => deleteSubscriptionMutation.mutate(subscription.id)}
+                      disabled={deleteSubscriptionMutation.isPending}
+                      data-testid={`button-delete-ical-${subscription.id}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { Badge } from "@/components/ui/badge";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import type { RoomBlock, WorkOrder } from "@shared/schema";
+
+interface MaintenanceHistoryData {
+  workOrders: WorkOrder[];
+  blocks: RoomBlock[];
+}
+
+export const WORK_ORDER_STATUS_LABELS: Record<WorkOrder["status"], string> = {
+  open: "Open",
+  in_progress: "In progress",
+  on_hold: "On hold",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+export const WORK_ORDER_CATEGORY_LABELS: Record<WorkOrder["category"], string> = {
+  plumbing: "Plumbing",
+  electrical: "Electrical",
+  hvac: "Heating & cooling",
+  furniture: "Furniture",
+  appliance: "Appliance",
+  structural: "Structural",
+  other: "Other",
+};
+
+// Block dates are stored as UTC midnight; endDate is the day the room is back in service
+export const formatBlockDate = (date: Date | string) => format(new Date(`${new Date(date).toISOString().slice(0, 10)}T00:00:00`), "MMM d, yyyy");
+
+// Work orders and out-of-order / out-of-service periods of one room, newest first
+export function MaintenanceHistory({ roomId }: { roomId: string }) {
+  const { data, isLoading } = useQuery<MaintenanceHistoryData>({
+    queryKey: [`/api/maintenance/rooms/${roomId}/history`],
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (data.workOrders.length === 0 && data.blocks.length === 0) {
+    return <p className="text-center py-8 text-sm text-gray-600">No maintenance recorded for this room</p>;
+  }
+
+  return (
+    <div className="space-y-6" data-testid={`maintenance-history-${roomId}`}>
+      <div className="space-y-2">
+        <h4 className="font-medium">Work orders</h4>
+        {data.workOrders.length === 0 ? (
+          <p className="text-sm text-gray-600">None</p>
+        ) : (
+          <div className="divide-y border rounded">
+            {data.workOrders.map(workOrder => (
+              <div key={workOrder.id} className="p-3 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium">{workOrder.issue}</p>
+                  <Badge variant={workOrder.status === "completed" ? "secondary" : "outline"}>
+                    {WORK_ORDER_STATUS_LABELS[workOrder.status]}
+                  </Badge>
+                </div>
+                <p className="text-sm text-gray-600">
+                  {WORK_ORDER_CATEGORY_LABELS[workOrder.category]}
+                  {workOrder.createdAt && ` · reported ${format(new Date(workOrder.createdAt), "MMM d, yyyy")}`}
+                  {workOrder.completedAt && ` · closed ${format(new Date(workOrder.completedAt), "MMM d, yyyy")}`}
+                  {workOrder.assignee && ` · ${workOrder.assignee}`}
+                  {workOrder.cost && ` · cost ${workOrder.cost}`}
+                </p>
+                {workOrder.resolution && <p className="text-sm text-gray-700 whitespace-pre-line">{workOrder.resolution}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="font-medium">Off-sale periods</h4>
+        {data.blocks.length === 0 ? (
+          <p className="text-sm text-gray-600">None</p>
+        ) : (
+          <div className="divide-y border rounded">
+            {data.blocks.map(block => (
+              <div key={block.id} className="p-3 flex items-center justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium">
+                    {formatBlockDate(block.startDate)} – {formatBlockDate(block.endDate)}
+                  </p>
+                  {block.reason && <p className="text-sm text-gray-600">{block.reason}</p>}
+                </div>
+                <Badge variant="outline">{block.blockType === "out_of_service" ? "Out of service" : "Out of order"}</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, ArrowUpCircle, CalendarClock, Loader2 } from "lucide-react";
+
+interface OverbookingConflict {
+  kind: "booking" | "channel_booking" | "check_in";
+  id: string;
+  guestName: string;
+  source: string;
+  checkInDate: string;
+  checkOutDate: string;
+  rooms: number;
+  inHouse: boolean;
+}
+
+interface RelocationSuggestion {
+  conflictId: string;
+  kind: "upgrade" | "move";
+  roomType: string;
+  checkInDate: string;
+  checkOutDate: string;
+  description: string;
+}
+
+interface OverbookingAlert {
+  id: string;
+  roomType: string;
+  date: string;
+  overbookedBy: number;
+  conflicts: OverbookingConflict[];
+  suggestions: RelocationSuggestion[];
+  status: "open" | "resolved" | "dismissed";
+  stopSellApplied: boolean;
+  createdAt: string;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  direct: "Direct",
+  walk_in: "Walk-in",
+  booking_com: "Booking.com",
+  makemytrip: "MakeMyTrip",
+  goibibo: "Goibibo",
+  agoda: "Agoda",
+  expedia: "Expedia",
+  airbnb: "Airbnb",
+};
+
+const formatNight = (date: string) =>
+  new Date(date).toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short", timeZone: "UTC" });
+
+// Open overbooking alerts with the reservations involved, relocation suggestions and resolve/dismiss actions
+export function OverbookingAlerts() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: alerts = [], isLoading } = useQuery<OverbookingAlert[]>({
+    queryKey: ["/api/overbooking-alerts"],
+    retry: false,
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: "resolved" | "dismissed" }) => {
+      const response = await apiRequest("POST", `/api/overbooking-alerts/${id}/close`, { status, note: notes[id] || undefined });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Overbooking Alert Closed",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/overbooking-alerts"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Still Overbooked",
+        description: error.message || "Relocate a reservation before resolving",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || alerts.length === 0) return null;
+
+  return (
+    <Card className="mb-6 border-red-300" data-testid="card-overbooking-alerts">
+      <CardHeader>
+        <CardTitle className="flex items-center text-red-700">
+          <AlertTriangle className="h-5 w-5 mr-2" />
+          Overbooked Nights ({alerts.length})
+        </CardTitle>
+        <CardDescription>
+          These room types have more reservations than rooms. Sales are stopped on every channel until the alert is closed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {alerts.map(alert => {
+          const conflictNames = new Map(alert.conflicts.map(conflict => [conflict.id, conflict.guestName]));
+          return (
+            <div key={alert.id} className="border rounded-lg p-4 space-y-3" data-testid={`overbooking-alert-${alert.id}`}>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="font-medium">
+                  <span className="capitalize">{alert.roomType}</span> on {formatNight(alert.date)}
+                  <span className="text-red-600"> · overbooked by {alert.overbookedBy}</span>
+                </p>
+                {alert.stopSellApplied && <Badge variant="destructive">Stop-sell on all channels</Badge>}
+              </div>
+
+              <div className="text-sm divide-y border rounded">
+                {alert.conflicts.map(conflict => (
+                  <div key={`${conflict.kind}-${conflict.id}`} className="flex justify-between gap-4 p-2">
+                    <span>
+                      {conflict.guestName}
+                      {conflict.rooms > 1 && ` (${conflict.rooms} rooms)`}
+                      <span className="text-gray-500"> · {SOURCE_LABELS[conflict.source] || conflict.source}</span>
+                    </span>
+                    <span className="text-gray-600">
+                      {conflict.inHouse ? "In house" : `${conflict.checkInDate} → ${conflict.checkOutDate}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              {alert.suggestions.length > 0 ? (
+                <div className="space-y-1 text-sm">
+                  <p className="font-medium">Suggested relocations</p>
+                  {alert.suggestions.map((suggestion, index) => (
+                    <p key={index} className="flex items-center gap-2 text-gray-700" title={conflictNames.get(suggestion.conflictId)}>
+                      {suggestion.kind === "upgrade"
+                        ? <ArrowUpCircle className="h-4 w-4 text-green-600" />
+                        : <CalendarClock className="h-4 w-4 text-blue-600" />}
+                      {suggestion.description}
+                    </p>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-600">No room type or nearby dates have space; consider a partner hotel.</p>
+              )}
+
+              <Textarea
+                placeholder="Resolution note (optional)"
+                value={notes[alert.id] || ""}
+                onChange={(e) => setNotes(prev => ({ ...prev, [alert.id]: e.target.value }))}
+                rows={2}
+              />
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => closeMutation.mutate({ id: alert.id, status: "resolved" })}
+                  disabled={closeMutation.isPending}
+                  data-testid={`button-resolve-overbooking-${alert.id}`}
+                >
+                  {closeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Mark Resolved
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => closeMutation.mutate({ id: alert.id, status: "dismissed" })}
+                  disabled={closeMutation.isPending}
+                  data-testid={`button-dismiss-overbooking-${alert.id}`}
+                >
+                  Dismiss
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,443 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useRoomTypes } from "@/hooks/useRoomTypes";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+type RuleType = "occupancy" | "lead_time" | "length_of_stay" | "day_of_week";
+
+interface PricingRule {
+  id: string;
+  name: string;
+  ruleType: RuleType;
+  roomType: string | null;
+  minOccupancy: number | null;
+  maxOccupancy: number | null;
+  minDaysBefore: number | null;
+  maxDaysBefore: number | null;
+  minNights: number | null;
+  maxNights: number | null;
+  daysOfWeek: number[] | null;
+  adjustmentType: "percent" | "amount";
+  adjustmentValue: string;
+  priority: number | null;
+  isActive: boolean | null;
+}
+
+type RateLimits = Record<string, { floor?: number; ceiling?: number }>;
+
+interface StayQuote {
+  total: number;
+  averageRate: number;
+  nights: { date: string; baseRate: number; rate: number; occupancy: number | null; explanation: string[] }[];
+}
+
+interface PricingRulesPanelProps {
+  hotelId: string;
+}
+
+const ALL_ROOM_TYPES = "all";
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RULE_TYPES: Record<RuleType, { label: string; min: keyof PricingRule; max: keyof PricingRule; unit: string }> = {
+  occupancy: { label: "Forecast occupancy", min: "minOccupancy", max: "maxOccupancy", unit: "%" },
+  lead_time: { label: "Days before arrival", min: "minDaysBefore", max: "maxDaysBefore", unit: "days" },
+  length_of_stay: { label: "Length of stay", min: "minNights", max: "maxNights", unit: "nights" },
+  day_of_week: { label: "Day of week", min: "daysOfWeek", max: "daysOfWeek", unit: "" },
+};
+
+const emptyRule = {
+  name: "",
+  ruleType: "occupancy" as RuleType,
+  roomType: ALL_ROOM_TYPES,
+  min: "",
+  max: "",
+  daysOfWeek: [] as number[],
+  adjustmentType: "percent" as "percent" | "amount",
+  adjustmentValue: "",
+  priority: "0",
+};
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+
+function describeCondition(rule: PricingRule): string {
+  if (rule.ruleType === "day_of_week") {
+    return (rule.daysOfWeek || []).map(day => WEEKDAYS[day]).join(", ");
+  }
+  const { min, max, unit } = RULE_TYPES[rule.ruleType];
+  const low = rule[min] as number | null;
+  const high = rule[max] as number | null;
+  if (low !== null && high !== null) return `${low}-${high} ${unit}`;
+  return low !== null ? `≥ ${low} ${unit}` : `≤ ${high} ${unit}`;
+}
+
+export function PricingRulesPanel({ hotelId }: PricingRulesPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [ruleForm, setRuleForm] = useState(emptyRule);
+  const [limits, setLimits] = useState<Record<string, { floor: string; ceiling: string }>>({});
+  const { roomTypes, roomTypeName } = useRoomTypes(hotelId);
+  const [quoteRoomType, setQuoteRoomType] = useState("");
+  const [quoteCheckIn, setQuoteCheckIn] = useState(() => toDateKey(new Date()));
+  const [quoteCheckOut, setQuoteCheckOut] = useState(() => toDateKey(new Date(Date.now() + 3 * DAY_MS)));
+  const apiOptions = { headers: { 'x-hotel-id': hotelId } };
+
+  const { data, isLoading } = useQuery<{ rules: PricingRule[]; rateLimits: RateLimits }>({
+    queryKey: ["/api/pricing/rules"],
+    meta: apiOptions,
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    setLimits(Object.fromEntries(roomTypes.map(({ code }) => [code, {
+      floor: data.rateLimits[code]?.floor?.toString() || "",
+      ceiling: data.rateLimits[code]?.ceiling?.toString() || "",
+    }])));
+  }, [data, roomTypes]);
+
+  useEffect(() => {
+    if (!quoteRoomType && roomTypes.length > 0) setQuoteRoomType(roomTypes[0].code);
+  }, [roomTypes, quoteRoomType]);
+
+  const { data: quote, isFetching: quoteLoading } = useQuery<StayQuote>({
+    queryKey: [`/api/pricing/quote?roomType=${quoteRoomType}&checkIn=${quoteCheckIn}&checkOut=${quoteCheckOut}`],
+    enabled: !!quoteRoomType && !!quoteCheckIn && !!quoteCheckOut && quoteCheckIn < quoteCheckOut,
+    retry: false,
+    meta: apiOptions,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/pricing/rules"] });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/pricing/quote") });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/channel-manager/rate-parity") });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message || "Please check the values and try again", variant: "destructive" });
+  };
+
+  const createRuleMutation = useMutation({
+    mutationFn: async () => {
+      const { min, max } = RULE_TYPES[ruleForm.ruleType];
+      const bounds = ruleForm.ruleType === "day_of_week"
+        ? { daysOfWeek: ruleForm.daysOfWeek }
+        : { [min]: ruleForm.min === "" ? null : parseInt(ruleForm.min), [max]: ruleForm.max === "" ? null : parseInt(ruleForm.max) };
+      const response = await apiRequest("POST", "/api/pricing/rules", {
+        name: ruleForm.name,
+        ruleType: ruleForm.ruleType,
+        roomType: ruleForm.roomType === ALL_ROOM_TYPES ? null : ruleForm.roomType,
+        adjustmentType: ruleForm.adjustmentType,
+        adjustmentValue: ruleForm.adjustmentValue,
+        priority: parseInt(ruleForm.priority) || 0,
+        ...bounds,
+      }, apiOptions);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Pricing Rule Added", description: "Channel rates are repriced on the next sync" });
+      setRuleForm(emptyRule);
+      invalidate();
+    },
+    onError: onError("Rule Not Added"),
+  });
+
+  const updateRuleMutation = useMutation({
+    mutationFn: async ({ rule, updates }: { rule: PricingRule; updates: Partial<PricingRule> }) => {
+      return apiRequest("PUT", `/api/pricing/rules/${rule.id}`, updates, apiOptions);
+    },
+    onSuccess: () => invalidate(),
+    onError: onError("Rule Not Updated"),
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (rule: PricingRule) => apiRequest("DELETE", `/api/pricing/rules/${rule.id}`, undefined, apiOptions),
+    onSuccess: () => invalidate(),
+    onError: onError("Rule Not Deleted"),
+  });
+
+  const saveLimitsMutation = useMutation({
+    mutationFn: async () => {
+      const rateLimits = Object.fromEntries(Object.entries(limits).map(([roomType, { floor, ceiling }]) => [roomType, {
+        ...(floor ? { floor: parseFloat(floor) } : {}),
+        ...(ceiling ? { ceiling: parseFloat(ceiling) } : {}),
+      }]));
+      return apiRequest("PUT", "/api/pricing/limits", { rateLimits }, apiOptions);
+    },
+    onSuccess: () => {
+      toast({ title: "Rate Limits Saved" });
+      invalidate();
+    },
+    onError: onError("Rate Limits Not Saved"),
+  });
+
+  const rules = data?.rules || [];
+  const ruleType = RULE_TYPES[ruleForm.ruleType];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Pricing Rules</CardTitle>
+          <CardDescription>
+            Rules adjust the direct rate and every channel's rate plan per room type and night, highest priority first. Adjustments stack.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : rules.length === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">No rules yet - rates follow the direct rate and rate plans unchanged</p>
+          ) : (
+            <table className="w-full text-sm" data-testid="table-pricing-rules">
+              <thead>
+                <tr className="border-b text-left text-gray-600 dark:text-gray-400">
+                  <th className="py-2 pr-4">Rule</th>
+                  <th className="py-2 pr-4">When</th>
+                  <th className="py-2 pr-4">Room type</th>
+                  <th className="py-2 pr-4 text-right">Adjustment</th>
+                  <th className="py-2 pr-4 text-right">Priority</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map(rule => (
+                  <tr key={rule.id} className="border-b last:border-0">
+                    <td className="py-2 pr-4 font-medium">{rule.name}</td>
+                    <td className="py-2 pr-4">
+                      <Badge variant="secondary" className="mr-2">{RULE_TYPES[rule.ruleType].label}</Badge>
+                      {describeCondition(rule)}
+                    </td>
+                    <td className="py-2 pr-4">{rule.roomType ? roomTypeName(rule.roomType) : "All"}</td>
+                    <td className={`py-2 pr-4 text-right font-medium ${parseFloat(rule.adjustmentValue) < 0 ? 'text-green-700' : 'text-orange-700'}`}>
+                      {parseFloat(rule.adjustmentValue) > 0 ? "+" : ""}
+                      {rule.adjustmentType === "percent" ? `${parseFloat(rule.adjustmentValue)}%` : `₹${parseFloat(rule.adjustmentValue).toLocaleString()}`}
+                    </td>
+                    <td className="py-2 pr-4 text-right">{rule.priority ?? 0}</td>
+                    <td className="py-2">
+                      <div className="flex items-center justify-end gap-2">
+                        <Switch
+                          checked={rule.isActive !== false}
+                          onCheckedChange={(isActive) => updateRuleMutation.mutate({ rule, updates: { isActive } })}
+                          data-testid={`switch-pricing-rule-${rule.id}`}
+                        />
+                        <Button size="sm" variant="ghost" onClick={() => deleteRuleMutation.mutate(rule)} data-testid={`button-delete-pricing-rule-${rule.id}`}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 border rounded-lg">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input value={ruleForm.name} onChange={(e) => setRuleForm(prev => ({ ...prev, name: e.target.value }))} placeholder="High demand" data-testid="input-rule-name" />
+            </div>
+            <div className="space-y-2">
+              <Label>Condition</Label>
+              <Select value={ruleForm.ruleType} onValueChange={(value) => setRuleForm(prev => ({ ...prev, ruleType: value as RuleType, min: "", max: "", daysOfWeek: [] }))}>
+                <SelectTrigger data-testid="select-rule-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(RULE_TYPES).map(([value, { label }]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {ruleForm.ruleType === "day_of_week" ? (
+              <div className="space-y-2 col-span-2">
+                <Label>Days</Label>
+                <div className="flex gap-1">
+                  {WEEKDAYS.map((day, index) => (
+                    <Button
+                      key={day}
+                      type="button"
+                      size="sm"
+                      variant={ruleForm.daysOfWeek.includes(index) ? "default" : "outline"}
+                      onClick={() => setRuleForm(prev => ({
+                        ...prev,
+                        daysOfWeek: prev.daysOfWeek.includes(index) ? prev.daysOfWeek.filter(d => d !== index) : [...prev.daysOfWeek, index],
+                      }))}
+                    >
+                      {day}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label>From ({ruleType.unit})</Label>
+                  <Input type="number" min="0" value={ruleForm.min} onChange={(e) => setRuleForm(prev => ({ ...prev, min: e.target.value }))} data-testid="input-rule-min" />
+                </div>
+                <div className="space-y-2">
+                  <Label>To ({ruleType.unit})</Label>
+                  <Input type="number" min="0" value={ruleForm.max} onChange={(e) => setRuleForm(prev => ({ ...prev, max: e.target.value }))} data-testid="input-rule-max" />
+                </div>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label>Room type</Label>
+              <Select value={ruleForm.roomType} onValueChange={(roomType) => setRuleForm(prev => ({ ...prev, roomType }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_ROOM_TYPES}>All room types</SelectItem>
+                  {roomTypes.map(roomType => (
+                    <SelectItem key={roomType.code} value={roomType.code}>{roomType.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Adjustment</Label>
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  step="0.5"
+                  value={ruleForm.adjustmentValue}
+                  onChange={(e) => setRuleForm(prev => ({ ...prev, adjustmentValue: e.target.value }))}
+                  placeholder="15 or -10"
+                  data-testid="input-rule-adjustment"
+                />
+                <Select value={ruleForm.adjustmentType} onValueChange={(value) => setRuleForm(prev => ({ ...prev, adjustmentType: value as "percent" | "amount" }))}>
+                  <SelectTrigger className="w-20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">%</SelectItem>
+                    <SelectItem value="amount">₹</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Input type="number" value={ruleForm.priority} onChange={(e) => setRuleForm(prev => ({ ...prev, priority: e.target.value }))} />
+            </div>
+            <div className="flex items-end">
+              <Button
+                onClick={() => createRuleMutation.mutate()}
+                disabled={!ruleForm.name || ruleForm.adjustmentValue === "" || createRuleMutation.isPending}
+                data-testid="button-add-pricing-rule"
+              >
+                {createRuleMutation.isPending ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Plus className="h-3 w-3 mr-1" />}
+                Add rule
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Floor &amp; Ceiling Rates</CardTitle>
+          <CardDescription>Dynamic rates never go below the floor or above the ceiling of their room type</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {roomTypes.map(({ code: roomType, name }) => (
+              <div key={roomType} className="space-y-2 p-3 border rounded-lg">
+                <Label>{name}</Label>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Floor"
+                    value={limits[roomType]?.floor || ""}
+                    onChange={(e) => setLimits(prev => ({ ...prev, [roomType]: { ...prev[roomType], floor: e.target.value } }))}
+                    data-testid={`input-floor-${roomType}`}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Ceiling"
+                    value={limits[roomType]?.ceiling || ""}
+                    onChange={(e) => setLimits(prev => ({ ...prev, [roomType]: { ...prev[roomType], ceiling: e.target.value } }))}
+                    data-testid={`input-ceiling-${roomType}`}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          <Button onClick={() => saveLimitsMutation.mutate()} disabled={saveLimitsMutation.isPending} data-testid="button-save-rate-limits">
+            {saveLimitsMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save limits
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle>Why This Rate?</CardTitle>
+              <CardDescription>Direct rate quote for a stay, night by night</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={quoteRoomType} onValueChange={setQuoteRoomType}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {roomTypes.map(roomType => (
+                    <SelectItem key={roomType.code} value={roomType.code}>{roomType.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input type="date" className="w-40" value={quoteCheckIn} onChange={(e) => setQuoteCheckIn(e.target.value)} />
+              <Input type="date" className="w-40" value={quoteCheckOut} onChange={(e) => setQuoteCheckOut(e.target.value)} />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {quoteLoading && !quote ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : !quote ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">Pick a check-out date after the check-in date</p>
+          ) : (
+            <div className="space-y-3" data-testid="list-rate-explanations">
+              {quote.nights.map(night => (
+                <div key={night.date} className="flex flex-wrap justify-between gap-4 p-3 border rounded-lg">
+                  <div className="space-y-1">
+                    <div className="font-medium">
+                      {new Date(`${night.date}T00:00:00.000Z`).toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "short", timeZone: "UTC" })}
+                      {night.occupancy !== null && <span className="ml-2 text-xs text-gray-500">{night.occupancy}% booked</span>}
+                    </div>
+                    <ul className="text-xs text-gray-600 dark:text-gray-400 list-disc list-inside">
+                      {night.explanation.map(line => <li key={line}>{line}</li>)}
+                    </ul>
+                  </div>
+                  <div className="text-right font-semibold">₹{night.rate.toLocaleString()}</div>
+                </div>
+              ))}
+              <div className="flex justify-end gap-6 text-sm font-medium pt-2">
+                <span>Average ₹{quote.averageRate.toLocaleString()}/night</span>
+                <span>Total ₹{quote.total.toLocaleString()}</span>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
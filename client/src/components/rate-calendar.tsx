@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronLeft, ChevronRight, IndianRupee, Loader2 } from "lucide-react";
+import { format, addDays, addMonths, startOfMonth, endOfMonth, startOfWeek, endOfWeek, isSameMonth } from "date-fns";
+
+interface CalendarRate {
+  date: string;
+  roomType: string;
+  baseRate: number;
+  source: "calendar" | "default";
+  rate: number;
+}
+
+interface RateCalendarProps {
+  roomTypes: { code: string; name: string }[];
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const emptyForm = {
+  roomTypes: [] as string[],
+  startDate: "",
+  endDate: "",
+  daysOfWeek: [] as number[],
+  rate: "",
+};
+
+const formatRate = (rate: number) => `₹${Math.round(rate).toLocaleString("en-IN")}`;
+
+export function RateCalendar({ roomTypes }: RateCalendarProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [form, setForm] = useState(emptyForm);
+
+  // Whole weeks covering the month
+  const gridStart = startOfWeek(month);
+  const gridEnd = endOfWeek(endOfMonth(month));
+  const days: Date[] = [];
+  for (let day = gridStart; day <= gridEnd; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  const start = format(gridStart, 'yyyy-MM-dd');
+  const end = format(addDays(gridEnd, 1), 'yyyy-MM-dd');
+
+  const { data: rates = [], isLoading } = useQuery<CalendarRate[]>({
+    queryKey: [`/api/rate-calendar?start=${start}&end=${end}`],
+  });
+
+  const ratesByDate: Record<string, Record<string, CalendarRate>> = {};
+  rates.forEach(rate => {
+    ratesByDate[rate.date] = { ...ratesByDate[rate.date], [rate.roomType]: rate };
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (clear: boolean) => {
+      const response = await apiRequest("PUT", "/api/rate-calendar", {
+        roomTypes: form.roomTypes,
+        startDate: form.startDate,
+        endDate: form.endDate,
+        daysOfWeek: form.daysOfWeek.length ? form.daysOfWeek : undefined,
+        rate: clear ? null : parseFloat(form.rate),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Rate Calendar Updated",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/rate-calendar") });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to Update Rates",
+        description: error.message || "Please check the rate and dates",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = <T,>(values: T[], value: T) =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  // First click starts a range, the second click extends it
+  const selectDay = (date: string) => {
+    setForm(prev => {
+      const roomTypesSelected = prev.roomTypes.length ? prev.roomTypes : roomTypes.map(roomType => roomType.code);
+      if (prev.startDate && prev.startDate === prev.endDate && date > prev.startDate) {
+        return { ...prev, roomTypes: roomTypesSelected, endDate: date };
+      }
+      return { ...prev, roomTypes: roomTypesSelected, startDate: date, endDate: date };
+    });
+  };
+
+  const hasRange = form.roomTypes.length > 0 && form.startDate && form.endDate && form.startDate <= form.endDate;
+  const canApply = hasRange && parseFloat(form.rate) > 0 && !updateMutation.isPending;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center">
+              <IndianRupee className="h-5 w-5 mr-2" />
+              Rate Calendar
+            </CardTitle>
+            <CardDescription>
+              Direct rate per room type and night. Check-ins and bookings without a rate are quoted from it, with pricing rules applied.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button size="icon" variant="outline" onClick={() => setMonth(addMonths(month, -1))} data-testid="button-rates-prev-month">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="w-32 text-center font-medium">{format(month, 'MMMM yyyy')}</span>
+            <Button size="icon" variant="outline" onClick={() => setMonth(addMonths(month, 1))} data-testid="button-rates-next-month">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-7 gap-1 text-xs" data-testid="grid-rate-calendar">
+            {WEEKDAYS.map(day => (
+              <div key={day} className="p-2 text-center font-medium text-gray-600">{day}</div>
+            ))}
+            {days.map(day => {
+              const key = format(day, 'yyyy-MM-dd');
+              const selected = form.startDate <= key && key <= form.endDate &&
+                (form.daysOfWeek.length === 0 || form.daysOfWeek.includes(day.getDay()));
+              return (
+                <div
+                  key={key}
+                  className={`p-1.5 border rounded cursor-pointer min-h-[4.5rem] ${isSameMonth(day, month) ? 'bg-white dark:bg-gray-900' : 'bg-gray-50 dark:bg-gray-800 text-gray-400'} ${selected ? 'ring-2 ring-blue-500 ring-inset' : ''}`}
+                  onClick={() => selectDay(key)}
+                  data-testid={`cell-rate-${key}`}
+                >
+                  <div className="font-medium mb-1">{day.getDate()}</div>
+                  {roomTypes.map(({ code: roomType, name }) => {
+                    const rate = ratesByDate[key]?.[roomType];
+                    if (!rate) return null;
+                    return (
+                      <div
+                        key={roomType}
+                        className="flex justify-between gap-1"
+                        title={rate.rate !== rate.baseRate ? `${name}: ${formatRate(rate.baseRate)} before pricing rules` : name}
+                      >
+                        <span className="text-gray-500">{name.slice(0, 3)}</span>
+                        <span className={rate.source === "calendar" ? "font-semibold text-gray-900 dark:text-gray-100" : "text-gray-500"}>
+                          {formatRate(rate.rate)}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <p className="text-xs text-gray-500">
+          Bold rates are set in the calendar; the rest come from the hotel's default pricing. Click a night, then a later night to select a range.
+        </p>
+
+        <div className="border-t pt-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>Room types</Label>
+              <div className="flex flex-wrap gap-4">
+                {roomTypes.map(({ code: roomType, name }) => (
+                  <label key={roomType} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.roomTypes.includes(roomType)}
+                      onCheckedChange={() => setForm(prev => ({ ...prev, roomTypes: toggle(prev.roomTypes, roomType) }))}
+                      data-testid={`checkbox-rate-room-${roomType}`}
+                    />
+                    {name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-start">From</Label>
+              <Input id="rate-start" type="date" value={form.startDate} onChange={(e) => setForm(prev => ({ ...prev, startDate: e.target.value }))} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-end">To (inclusive)</Label>
+              <Input id="rate-end" type="date" value={form.endDate} onChange={(e) => setForm(prev => ({ ...prev, endDate: e.target.value }))} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-amount">Rate per night (₹)</Label>
+              <Input
+                id="rate-amount"
+                type="number"
+                min="1"
+                value={form.rate}
+                onChange={(e) => setForm(prev => ({ ...prev, rate: e.target.value }))}
+                data-testid="input-rate-amount"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Days of week</Label>
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAYS.map((day, index) => (
+                <Button
+                  key={day}
+                  size="sm"
+                  variant={form.daysOfWeek.includes(index) ? "default" : "outline"}
+                  onClick={() => setForm(prev => ({ ...prev, daysOfWeek: toggle(prev.daysOfWeek, index) }))}
+                  data-testid={`button-rate-day-${index}`}
+                >
+                  {day}
+                </Button>
+              ))}
+              <span className="text-xs text-gray-500 self-center">None selected applies to every day</span>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={() => updateMutation.mutate(false)} disabled={!canApply} data-testid="button-apply-rates">
+              {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Set Rate
+            </Button>
+            <Button variant="outline" onClick={() => updateMutation.mutate(true)} disabled={!hasRange || updateMutation.isPending} data-testid="button-clear-rates">
+              Clear to Default
+            </Button>
+            <Button variant="ghost" onClick={() => setForm(emptyForm)}>
+              Reset
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
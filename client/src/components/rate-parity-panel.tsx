@@ -0,0 +1,262 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle, Loader2, RefreshCw, Scale } from "lucide-react";
+
+interface ParityChannel {
+  id: string;
+  displayName: string;
+  status: string;
+  settings: {
+    rateParity: boolean;
+    rateParityTolerance?: number;
+    rateParityAutoCorrect?: boolean;
+    [key: string]: any;
+  };
+}
+
+interface RateParityViolation {
+  channelId: string;
+  channelName: string;
+  roomType: string;
+  date: string;
+  sellRate: number;
+  directRate: number;
+  difference: number;
+  differencePercent: number;
+  tolerancePercent: number;
+  autoCorrect: boolean;
+}
+
+interface RateParityReport {
+  startDate: string;
+  endDate: string;
+  channelsChecked: number;
+  nightsChecked: number;
+  violations: RateParityViolation[];
+}
+
+interface RateParityPanelProps {
+  hotelId: string;
+  channels: ParityChannel[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function RateParityPanel({ hotelId, channels }: RateParityPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [days, setDays] = useState(30);
+  const apiOptions = { headers: { 'x-hotel-id': hotelId } };
+
+  const today = new Date().toISOString().split('T')[0];
+  const end = new Date(Date.now() + days * DAY_MS).toISOString().split('T')[0];
+
+  const { data: report, isLoading, refetch, isFetching } = useQuery<RateParityReport>({
+    queryKey: [`/api/channel-manager/rate-parity?start=${today}&end=${end}`],
+    retry: false,
+    meta: apiOptions,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/channel-manager/rate-parity") });
+    queryClient.invalidateQueries({ queryKey: ["/api/channel-manager/channels"] });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/channel-manager/sync-logs") });
+  };
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: async ({ channel, settings }: { channel: ParityChannel; settings: Partial<ParityChannel["settings"]> }) => {
+      return apiRequest("PUT", `/api/channel-manager/channels/${channel.id}`, { settings: { ...channel.settings, ...settings } }, apiOptions);
+    },
+    onSuccess: () => invalidate(),
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update parity settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const correctMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/channel-manager/rate-parity/correct", {}, apiOptions);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Parity Corrected",
+        description: data.corrected > 0
+          ? `Direct rate pushed for ${data.corrected} nights`
+          : "Nothing to correct on auto-correcting channels",
+      });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Correction Failed",
+        description: error.message || "Failed to push corrected rates",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const violations = report?.violations || [];
+  const correctable = violations.some(violation => violation.autoCorrect);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Parity Settings</CardTitle>
+          <CardDescription>
+            Monitored channels are compared with your direct rate. Auto-correct pushes the direct rate for nights outside the tolerance.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {channels.length === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">Connect a channel to monitor rate parity</p>
+          ) : (
+            <div className="space-y-4">
+              {channels.map((channel) => (
+                <div key={channel.id} className="flex flex-wrap items-center justify-between gap-4 p-4 border rounded-lg" data-testid={`parity-channel-${channel.id}`}>
+                  <span className="font-medium">{channel.displayName}</span>
+                  <div className="flex flex-wrap items-center gap-6">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={channel.settings.rateParity}
+                        onCheckedChange={(rateParity) => updateSettingsMutation.mutate({ channel, settings: { rateParity } })}
+                        data-testid={`switch-parity-${channel.id}`}
+                      />
+                      <Label>Monitor</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.5"
+                        className="w-20"
+                        defaultValue={channel.settings.rateParityTolerance ?? 1}
+                        disabled={!channel.settings.rateParity}
+                        onBlur={(e) => {
+                          const rateParityTolerance = parseFloat(e.target.value);
+                          if (!isNaN(rateParityTolerance) && rateParityTolerance !== (channel.settings.rateParityTolerance ?? 1)) {
+                            updateSettingsMutation.mutate({ channel, settings: { rateParityTolerance } });
+                          }
+                        }}
+                        data-testid={`input-parity-tolerance-${channel.id}`}
+                      />
+                      <Label>% tolerance</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={!!channel.settings.rateParityAutoCorrect}
+                        disabled={!channel.settings.rateParity}
+                        onCheckedChange={(rateParityAutoCorrect) => updateSettingsMutation.mutate({ channel, settings: { rateParityAutoCorrect } })}
+                        data-testid={`switch-parity-autocorrect-${channel.id}`}
+                      />
+                      <Label>Auto-correct</Label>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle>Parity Violations</CardTitle>
+              <CardDescription>
+                {report
+                  ? `${report.nightsChecked} channel nights checked on ${report.channelsChecked} monitored channels`
+                  : "Channel rates compared with the direct rate"}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                className="border rounded-md px-2 py-1 text-sm bg-background"
+                value={days}
+                onChange={(e) => setDays(parseInt(e.target.value))}
+                data-testid="select-parity-window"
+              >
+                <option value={7}>Next 7 days</option>
+                <option value={30}>Next 30 days</option>
+                <option value={90}>Next 90 days</option>
+                <option value={365}>Next 365 days</option>
+              </select>
+              <Button size="sm" variant="outline" onClick={() => refetch()} disabled={isFetching}>
+                <RefreshCw className={`h-3 w-3 ${isFetching ? 'animate-spin' : ''}`} />
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => correctMutation.mutate()}
+                disabled={!correctable || correctMutation.isPending}
+                data-testid="button-correct-parity"
+              >
+                {correctMutation.isPending ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Scale className="h-3 w-3 mr-1" />}
+                Correct now
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : violations.length === 0 ? (
+            <div className="text-center py-8">
+              <CheckCircle className="h-12 w-12 text-green-400 mx-auto mb-4" />
+              <p className="text-gray-600 dark:text-gray-400">All monitored channels are in parity</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm" data-testid="table-parity-violations">
+                <thead>
+                  <tr className="border-b text-left text-gray-600 dark:text-gray-400">
+                    <th className="py-2 pr-4">Date</th>
+                    <th className="py-2 pr-4">Room type</th>
+                    <th className="py-2 pr-4">Channel</th>
+                    <th className="py-2 pr-4 text-right">Channel rate</th>
+                    <th className="py-2 pr-4 text-right">Direct rate</th>
+                    <th className="py-2 pr-4 text-right">Difference</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {violations.map((violation) => (
+                    <tr key={`${violation.channelId}-${violation.roomType}-${violation.date}`} className="border-b last:border-0">
+                      <td className="py-2 pr-4">{new Date(`${violation.date}T00:00:00`).toLocaleDateString()}</td>
+                      <td className="py-2 pr-4 capitalize">{violation.roomType}</td>
+                      <td className="py-2 pr-4">{violation.channelName}</td>
+                      <td className="py-2 pr-4 text-right">₹{violation.sellRate.toLocaleString()}</td>
+                      <td className="py-2 pr-4 text-right">₹{violation.directRate.toLocaleString()}</td>
+                      <td className={`py-2 pr-4 text-right font-medium ${violation.difference < 0 ? 'text-red-600' : 'text-yellow-700'}`}>
+                        {violation.difference > 0 ? "+" : ""}{violation.differencePercent}%
+                      </td>
+                      <td className="py-2">
+                        {violation.autoCorrect && <Badge variant="secondary">Auto-correct</Badge>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,481 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useRoomTypes } from "@/hooks/useRoomTypes";
+import { Copy, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+
+interface RatePlan {
+  id: string;
+  channelId: string;
+  planName: string;
+  roomType: string;
+  baseRate: string;
+  weekendSurcharge: string | null;
+  discountPercentage: string | null;
+  seasonalRates: Record<string, { rate: number; description: string }> | null;
+  minimumStay: number | null;
+  maximumStay: number | null;
+  advanceBookingDays: number | null;
+  isActive: boolean | null;
+}
+
+interface NightlyRate {
+  date: string;
+  rate: number;
+  weekend: boolean;
+  season: string | null;
+}
+
+interface SeasonalPeriod {
+  startDate: string;
+  endDate: string;
+  rate: string;
+  description: string;
+}
+
+interface RatePlanEditorProps {
+  hotelId: string;
+  channels: { id: string; displayName: string }[];
+}
+
+const PREVIEW_NIGHTS = 28;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const emptyForm = {
+  planName: "",
+  roomType: "",
+  baseRate: "",
+  weekendSurcharge: "0",
+  discountPercentage: "0",
+  minimumStay: "1",
+  maximumStay: "30",
+  advanceBookingDays: "365",
+  isActive: true,
+  seasons: [] as SeasonalPeriod[],
+};
+
+type RatePlanForm = typeof emptyForm;
+
+function toForm(plan: RatePlan): RatePlanForm {
+  return {
+    planName: plan.planName,
+    roomType: plan.roomType,
+    baseRate: plan.baseRate,
+    weekendSurcharge: plan.weekendSurcharge || "0",
+    discountPercentage: plan.discountPercentage || "0",
+    minimumStay: String(plan.minimumStay ?? 1),
+    maximumStay: String(plan.maximumStay ?? 30),
+    advanceBookingDays: String(plan.advanceBookingDays ?? 365),
+    isActive: plan.isActive !== false,
+    seasons: Object.entries(plan.seasonalRates || {})
+      .map(([key, season]) => {
+        const [startDate, endDate] = key.split('_');
+        return { startDate, endDate, rate: String(season.rate), description: season.description || "" };
+      })
+      .sort((a, b) => a.startDate.localeCompare(b.startDate)),
+  };
+}
+
+// Same rules the server enforces, so problems show up while editing
+function seasonProblems(seasons: SeasonalPeriod[]): string[] {
+  const problems: string[] = [];
+  seasons.forEach((season, index) => {
+    if (!season.startDate || !season.endDate) problems.push(`Period ${index + 1} needs a start and end date`);
+    else if (season.startDate > season.endDate) problems.push(`Period ${index + 1} ends before it starts`);
+    if (!(parseFloat(season.rate) > 0)) problems.push(`Period ${index + 1} needs a rate above zero`);
+  });
+  const sorted = seasons.filter(season => season.startDate && season.endDate).sort((a, b) => a.startDate.localeCompare(b.startDate));
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].startDate <= sorted[i - 1].endDate) {
+      problems.push(`${sorted[i].startDate} - ${sorted[i].endDate} overlaps ${sorted[i - 1].startDate} - ${sorted[i - 1].endDate}`);
+    }
+  }
+  return problems;
+}
+
+function toPayload(form: RatePlanForm) {
+  return {
+    planName: form.planName,
+    roomType: form.roomType,
+    baseRate: form.baseRate,
+    weekendSurcharge: form.weekendSurcharge || "0",
+    discountPercentage: form.discountPercentage || "0",
+    minimumStay: parseInt(form.minimumStay) || 1,
+    maximumStay: parseInt(form.maximumStay) || 30,
+    advanceBookingDays: parseInt(form.advanceBookingDays) || 365,
+    isActive: form.isActive,
+    seasonalRates: Object.fromEntries(form.seasons.map(season => [
+      `${season.startDate}_${season.endDate}`,
+      { rate: parseFloat(season.rate), description: season.description },
+    ])),
+  };
+}
+
+export function RatePlanEditor({ hotelId, channels }: RatePlanEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedChannelId, setChannelId] = useState<string>("");
+  const [editing, setEditing] = useState<RatePlan | "new" | null>(null);
+  const [form, setForm] = useState<RatePlanForm>(emptyForm);
+  const [cloneTargets, setCloneTargets] = useState<string[]>([]);
+  const { roomTypes, roomTypeName } = useRoomTypes(hotelId);
+  const apiOptions = { headers: { 'x-hotel-id': hotelId } };
+  // Channels may still be loading on first render
+  const channelId = selectedChannelId || channels[0]?.id || "";
+  const ratePlansKey = `/api/channel-manager/channels/${channelId}/rate-plans`;
+
+  const { data: ratePlans = [], isLoading } = useQuery<RatePlan[]>({
+    queryKey: [ratePlansKey],
+    enabled: !!channelId,
+    meta: apiOptions,
+  });
+
+  const problems = seasonProblems(form.seasons);
+  const payload = toPayload(form);
+  const canPreview = !!editing && parseFloat(form.baseRate) > 0 && problems.length === 0;
+  const previewStart = new Date().toISOString().split('T')[0];
+
+  const { data: preview, isFetching: previewLoading } = useQuery<{ nights: NightlyRate[] }>({
+    queryKey: ["/api/channel-manager/rate-plans/preview", previewStart, JSON.stringify(payload)],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/channel-manager/rate-plans/preview", {
+        ratePlan: {
+          baseRate: payload.baseRate,
+          weekendSurcharge: payload.weekendSurcharge,
+          discountPercentage: payload.discountPercentage,
+          seasonalRates: payload.seasonalRates,
+        },
+        startDate: previewStart,
+        nights: PREVIEW_NIGHTS,
+      }, apiOptions);
+      return response.json();
+    },
+    enabled: canPreview,
+    retry: false,
+  });
+
+  const invalidate = (channelIds: string[] = [channelId]) => {
+    for (const id of channelIds) {
+      queryClient.invalidateQueries({ queryKey: [`/api/channel-manager/channels/${id}/rate-plans`] });
+    }
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/channel-manager/rate-parity") });
+  };
+
+  const startEditing = (plan: RatePlan | "new") => {
+    setEditing(plan);
+    setForm(plan === "new" ? { ...emptyForm, roomType: roomTypes[0]?.code || "" } : toForm(plan));
+    setCloneTargets([]);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = editing === "new"
+        ? await apiRequest("POST", ratePlansKey, payload, apiOptions)
+        : await apiRequest("PUT", `${ratePlansKey}/${(editing as RatePlan).id}`, payload, apiOptions);
+      return response.json();
+    },
+    onSuccess: (plan: RatePlan) => {
+      toast({ title: "Rate Plan Saved", description: `${plan.planName} goes out with the next channel sync` });
+      setEditing(plan);
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({ title: "Rate Plan Not Saved", description: error.message || "Failed to save rate plan", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (plan: RatePlan) => apiRequest("DELETE", `${ratePlansKey}/${plan.id}`, undefined, apiOptions),
+    onSuccess: () => {
+      toast({ title: "Rate Plan Deleted" });
+      setEditing(null);
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({ title: "Delete Failed", description: error.message || "Failed to delete rate plan", variant: "destructive" });
+    },
+  });
+
+  const cloneMutation = useMutation({
+    mutationFn: async (plan: RatePlan) => {
+      const response = await apiRequest("POST", `${ratePlansKey}/${plan.id}/clone`, { channelIds: cloneTargets }, apiOptions);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Rate Plan Cloned", description: data.message });
+      invalidate(cloneTargets);
+      setCloneTargets([]);
+    },
+    onError: (error: any) => {
+      toast({ title: "Clone Failed", description: error.message || "Failed to clone rate plan", variant: "destructive" });
+    },
+  });
+
+  const updateSeason = (index: number, updates: Partial<SeasonalPeriod>) => {
+    setForm(prev => ({ ...prev, seasons: prev.seasons.map((season, i) => (i === index ? { ...season, ...updates } : season)) }));
+  };
+
+  if (channels.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-sm text-gray-600 dark:text-gray-400">
+          Connect a channel to manage its rate plans
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle>Rate Plans</CardTitle>
+              <CardDescription>The active plan of each room type prices that room type on the channel.</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={channelId} onValueChange={(value) => { setChannelId(value); setEditing(null); }}>
+                <SelectTrigger className="w-48" data-testid="select-rate-plan-channel">
+                  <SelectValue placeholder="Channel" />
+                </SelectTrigger>
+                <SelectContent>
+                  {channels.map(channel => (
+                    <SelectItem key={channel.id} value={channel.id}>{channel.displayName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" onClick={() => startEditing("new")} data-testid="button-new-rate-plan">
+                <Plus className="h-3 w-3 mr-1" />
+                New plan
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : ratePlans.length === 0 ? (
+            <p className="text-center py-8 text-sm text-gray-600 dark:text-gray-400">No rate plans on this channel yet</p>
+          ) : (
+            <table className="w-full text-sm" data-testid="table-rate-plans">
+              <thead>
+                <tr className="border-b text-left text-gray-600 dark:text-gray-400">
+                  <th className="py-2 pr-4">Plan</th>
+                  <th className="py-2 pr-4">Room type</th>
+                  <th className="py-2 pr-4 text-right">Base</th>
+                  <th className="py-2 pr-4 text-right">Weekend</th>
+                  <th className="py-2 pr-4 text-right">Adjust</th>
+                  <th className="py-2 pr-4">Seasons</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {ratePlans.map(plan => (
+                  <tr key={plan.id} className="border-b last:border-0">
+                    <td className="py-2 pr-4 font-medium">
+                      {plan.planName}
+                      {plan.isActive === false && <Badge variant="secondary" className="ml-2">Inactive</Badge>}
+                    </td>
+                    <td className="py-2 pr-4">{roomTypeName(plan.roomType)}</td>
+                    <td className="py-2 pr-4 text-right">₹{parseFloat(plan.baseRate).toLocaleString()}</td>
+                    <td className="py-2 pr-4 text-right">+₹{parseFloat(plan.weekendSurcharge || "0").toLocaleString()}</td>
+                    <td className="py-2 pr-4 text-right">{parseFloat(plan.discountPercentage || "0")}%</td>
+                    <td className="py-2 pr-4">{Object.keys(plan.seasonalRates || {}).length}</td>
+                    <td className="py-2 text-right">
+                      <Button size="sm" variant="ghost" onClick={() => startEditing(plan)} data-testid={`button-edit-rate-plan-${plan.id}`}>
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => deleteMutation.mutate(plan)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-rate-plan-${plan.id}`}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {editing && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>{editing === "new" ? "New Rate Plan" : `Edit ${editing.planName}`}</CardTitle>
+                <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Plan name</Label>
+                  <Input value={form.planName} onChange={(e) => setForm(prev => ({ ...prev, planName: e.target.value }))} data-testid="input-plan-name" />
+                </div>
+                <div className="space-y-2">
+                  <Label>Room type</Label>
+                  <Select value={form.roomType} onValueChange={(roomType) => setForm(prev => ({ ...prev, roomType }))}>
+                    <SelectTrigger data-testid="select-plan-room-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {roomTypes.map(roomType => (
+                        <SelectItem key={roomType.code} value={roomType.code}>{roomType.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Base rate (₹)</Label>
+                  <Input type="number" min="0" value={form.baseRate} onChange={(e) => setForm(prev => ({ ...prev, baseRate: e.target.value }))} data-testid="input-base-rate" />
+                </div>
+                <div className="space-y-2">
+                  <Label>Weekend surcharge (₹)</Label>
+                  <Input type="number" min="0" value={form.weekendSurcharge} onChange={(e) => setForm(prev => ({ ...prev, weekendSurcharge: e.target.value }))} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Discount / markup (%)</Label>
+                  <Input type="number" step="0.5" value={form.discountPercentage} onChange={(e) => setForm(prev => ({ ...prev, discountPercentage: e.target.value }))} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Booking window (days)</Label>
+                  <Input type="number" min="1" value={form.advanceBookingDays} onChange={(e) => setForm(prev => ({ ...prev, advanceBookingDays: e.target.value }))} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Minimum stay</Label>
+                  <Input type="number" min="1" value={form.minimumStay} onChange={(e) => setForm(prev => ({ ...prev, minimumStay: e.target.value }))} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Maximum stay</Label>
+                  <Input type="number" min="1" value={form.maximumStay} onChange={(e) => setForm(prev => ({ ...prev, maximumStay: e.target.value }))} />
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch checked={form.isActive} onCheckedChange={(isActive) => setForm(prev => ({ ...prev, isActive }))} />
+                <Label>Active</Label>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Seasonal rates</Label>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setForm(prev => ({ ...prev, seasons: [...prev.seasons, { startDate: "", endDate: "", rate: "", description: "" }] }))}
+                    data-testid="button-add-season"
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    Add period
+                  </Button>
+                </div>
+                {form.seasons.map((season, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_6rem_1fr_auto] gap-2 items-center">
+                    <Input type="date" value={season.startDate} onChange={(e) => updateSeason(index, { startDate: e.target.value })} />
+                    <Input type="date" value={season.endDate} onChange={(e) => updateSeason(index, { endDate: e.target.value })} />
+                    <Input type="number" min="0" placeholder="Rate" value={season.rate} onChange={(e) => updateSeason(index, { rate: e.target.value })} />
+                    <Input placeholder="Description" value={season.description} onChange={(e) => updateSeason(index, { description: e.target.value })} />
+                    <Button size="sm" variant="ghost" onClick={() => setForm(prev => ({ ...prev, seasons: prev.seasons.filter((_, i) => i !== index) }))}>
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+                {problems.map(problem => (
+                  <p key={problem} className="text-xs text-red-600">{problem}</p>
+                ))}
+              </div>
+
+              <Button
+                className="w-full"
+                onClick={() => saveMutation.mutate()}
+                disabled={!form.planName || !(parseFloat(form.baseRate) > 0) || problems.length > 0 || saveMutation.isPending}
+                data-testid="button-save-rate-plan"
+              >
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save rate plan
+              </Button>
+
+              {editing !== "new" && channels.length > 1 && (
+                <div className="space-y-2 pt-4 border-t">
+                  <Label>Clone to other channels</Label>
+                  <div className="flex flex-wrap gap-4">
+                    {channels.filter(channel => channel.id !== channelId).map(channel => (
+                      <label key={channel.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={cloneTargets.includes(channel.id)}
+                          onCheckedChange={(checked) => setCloneTargets(prev => checked ? [...prev, channel.id] : prev.filter(id => id !== channel.id))}
+                        />
+                        {channel.displayName}
+                      </label>
+                    ))}
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => cloneMutation.mutate(editing)}
+                    disabled={cloneTargets.length === 0 || cloneMutation.isPending}
+                    data-testid="button-clone-rate-plan"
+                  >
+                    {cloneMutation.isPending ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Copy className="h-3 w-3 mr-1" />}
+                    Clone
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Nightly Rates</CardTitle>
+              <CardDescription>Next {PREVIEW_NIGHTS} nights as sent to the channel, before rate parity correction</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!canPreview ? (
+                <p className="text-center py-8 text-sm text-gray-600 dark:text-gray-400">Enter a base rate and valid seasonal periods to preview</p>
+              ) : previewLoading && !preview ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin" />
+                </div>
+              ) : (
+                <div className="grid grid-cols-7 gap-2" data-testid="grid-rate-preview">
+                  {(preview?.nights || []).map(night => {
+                    const date = new Date(`${night.date}T00:00:00.000Z`);
+                    return (
+                      <div
+                        key={night.date}
+                        className={`border rounded-md p-2 text-center ${night.season ? 'bg-blue-50 dark:bg-blue-950' : night.weekend ? 'bg-gray-50 dark:bg-gray-900' : ''}`}
+                        title={night.season ? `Seasonal rate ${night.season.replace('_', ' - ')}` : undefined}
+                      >
+                        <div className="text-xs text-gray-500">{WEEKDAYS[date.getUTCDay()]} {date.getUTCDate()}</div>
+                        <div className="text-sm font-medium">₹{night.rate.toLocaleString()}</div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
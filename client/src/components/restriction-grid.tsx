@@ -0,0 +1,358 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useRoomTypes } from "@/hooks/useRoomTypes";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+
+interface Restriction {
+  id: string;
+  channelId: string | null;
+  roomType: string;
+  date: string;
+  stopSell: boolean | null;
+  closedToArrival: boolean | null;
+  closedToDeparture: boolean | null;
+  minimumStay: number | null;
+  maximumStay: number | null;
+}
+
+interface RestrictionGridProps {
+  hotelId: string;
+  channels: { id: string; displayName: string }[];
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const GRID_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ALL_CHANNELS = "all";
+
+// "unchanged" leaves the value alone, "clear" removes it at the chosen level
+type FlagChoice = "unchanged" | "on" | "off" | "clear";
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+
+const emptyForm = {
+  roomTypes: [] as string[],
+  startDate: "",
+  endDate: "",
+  daysOfWeek: [] as number[],
+  stopSell: "unchanged" as FlagChoice,
+  closedToArrival: "unchanged" as FlagChoice,
+  closedToDeparture: "unchanged" as FlagChoice,
+  minimumStay: "",
+  maximumStay: "",
+  clearStays: false,
+};
+
+export function RestrictionGrid({ hotelId, channels }: RestrictionGridProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [gridStart, setGridStart] = useState(() => new Date(`${toDateKey(new Date())}T00:00:00.000Z`));
+  const [scope, setScope] = useState(ALL_CHANNELS);
+  const [form, setForm] = useState(emptyForm);
+  const { roomTypes } = useRoomTypes(hotelId);
+  const apiOptions = { headers: { 'x-hotel-id': hotelId } };
+
+  const dates = Array.from({ length: GRID_DAYS }, (_, i) => new Date(gridStart.getTime() + i * DAY_MS));
+  const start = toDateKey(dates[0]);
+  const end = toDateKey(dates[dates.length - 1]);
+
+  const { data: restrictions = [], isLoading } = useQuery<Restriction[]>({
+    queryKey: [`/api/channel-manager/restrictions?start=${start}&end=${end}`],
+    retry: false,
+    meta: apiOptions,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = await apiRequest("POST", "/api/channel-manager/restrictions/bulk", data, apiOptions);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Restrictions Applied",
+        description: `${data.message}. They go out with the next channel sync.`,
+      });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/channel-manager/restrictions") });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to Apply Restrictions",
+        description: error.message || "Please check the restriction values",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Hotel-wide values, overridden by the selected channel's own values
+  const effective = (roomType: string, date: string) => {
+    const rows = restrictions.filter(row =>
+      row.roomType === roomType &&
+      toDateKey(new Date(row.date)) === date &&
+      (row.channelId === null || row.channelId === scope)
+    ).sort((a, b) => (a.channelId === null ? -1 : 1) - (b.channelId === null ? -1 : 1));
+
+    const result = { stopSell: false, closedToArrival: false, closedToDeparture: false, minimumStay: null as number | null, maximumStay: null as number | null, channelSpecific: false };
+    for (const row of rows) {
+      if (row.stopSell !== null) result.stopSell = row.stopSell;
+      if (row.closedToArrival !== null) result.closedToArrival = row.closedToArrival;
+      if (row.closedToDeparture !== null) result.closedToDeparture = row.closedToDeparture;
+      if (row.minimumStay !== null) result.minimumStay = row.minimumStay;
+      if (row.maximumStay !== null) result.maximumStay = row.maximumStay;
+      if (row.channelId !== null) result.channelSpecific = true;
+    }
+    return result;
+  };
+
+  const selectCell = (roomType: string, date: string) => {
+    setForm(prev => ({
+      ...prev,
+      roomTypes: [roomType],
+      startDate: date,
+      endDate: date,
+    }));
+  };
+
+  const toggle = <T,>(values: T[], value: T) =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  const flagValue = (choice: FlagChoice) =>
+    choice === "on" ? true : choice === "off" ? false : choice === "clear" ? null : undefined;
+
+  const handleApply = () => {
+    const restrictionValues: Record<string, boolean | number | null | undefined> = {
+      stopSell: flagValue(form.stopSell),
+      closedToArrival: flagValue(form.closedToArrival),
+      closedToDeparture: flagValue(form.closedToDeparture),
+      minimumStay: form.clearStays ? null : form.minimumStay ? parseInt(form.minimumStay) : undefined,
+      maximumStay: form.clearStays ? null : form.maximumStay ? parseInt(form.maximumStay) : undefined,
+    };
+
+    applyMutation.mutate({
+      roomTypes: form.roomTypes,
+      startDate: form.startDate,
+      endDate: form.endDate,
+      channelIds: scope === ALL_CHANNELS ? undefined : [scope],
+      daysOfWeek: form.daysOfWeek.length ? form.daysOfWeek : undefined,
+      restrictions: Object.fromEntries(Object.entries(restrictionValues).filter(([, value]) => value !== undefined)),
+    });
+  };
+
+  const canApply = form.roomTypes.length > 0 && form.startDate && form.endDate && !applyMutation.isPending;
+
+  const flagSelect = (field: "stopSell" | "closedToArrival" | "closedToDeparture", label: string) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={form[field]} onValueChange={(value: FlagChoice) => setForm(prev => ({ ...prev, [field]: value }))}>
+        <SelectTrigger data-testid={`select-restriction-${field}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="unchanged">Leave unchanged</SelectItem>
+          <SelectItem value="on">On</SelectItem>
+          <SelectItem value="off">Off</SelectItem>
+          <SelectItem value="clear">Clear{scope === ALL_CHANNELS ? "" : " channel override"}</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle>Restrictions</CardTitle>
+              <CardDescription>Stop-sell, closed to arrival/departure and stay limits per room type and night</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger className="w-48" data-testid="select-restriction-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CHANNELS}>All channels</SelectItem>
+                  {channels.map(channel => (
+                    <SelectItem key={channel.id} value={channel.id}>{channel.displayName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" variant="outline" onClick={() => setGridStart(new Date(gridStart.getTime() - GRID_DAYS * DAY_MS))}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setGridStart(new Date(gridStart.getTime() + GRID_DAYS * DAY_MS))}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs border-collapse" data-testid="table-restrictions">
+                <thead>
+                  <tr>
+                    <th className="p-2 text-left">Room type</th>
+                    {dates.map(date => (
+                      <th key={date.toISOString()} className="p-2 text-center font-medium">
+                        <div>{WEEKDAYS[date.getUTCDay()]}</div>
+                        <div className="text-gray-500">{date.getUTCDate()}/{date.getUTCMonth() + 1}</div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {roomTypes.map(({ code: roomType, name }) => (
+                    <tr key={roomType} className="border-t">
+                      <td className="p-2 font-medium">{name}</td>
+                      {dates.map(date => {
+                        const key = toDateKey(date);
+                        const cell = effective(roomType, key);
+                        const selected = form.roomTypes.includes(roomType) && form.startDate <= key && key <= form.endDate;
+                        return (
+                          <td
+                            key={key}
+                            className={`p-1 text-center align-top cursor-pointer border ${cell.stopSell ? 'bg-red-50 dark:bg-red-900/20' : ''} ${selected ? 'ring-2 ring-blue-500 ring-inset' : ''}`}
+                            onClick={() => selectCell(roomType, key)}
+                            data-testid={`cell-restriction-${roomType}-${key}`}
+                          >
+                            <div className="flex flex-col items-center gap-0.5 min-h-[2.5rem]">
+                              {cell.stopSell && <span className="px-1 rounded bg-red-600 text-white">SS</span>}
+                              {cell.closedToArrival && <span className="px-1 rounded bg-orange-500 text-white">CTA</span>}
+                              {cell.closedToDeparture && <span className="px-1 rounded bg-yellow-500 text-white">CTD</span>}
+                              {cell.minimumStay && cell.minimumStay > 1 && <span className="text-gray-700 dark:text-gray-300">min {cell.minimumStay}</span>}
+                              {cell.maximumStay && <span className="text-gray-500">max {cell.maximumStay}</span>}
+                              {cell.channelSpecific && <span className="w-1.5 h-1.5 rounded-full bg-blue-500" title="Channel override" />}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Bulk Edit</CardTitle>
+          <CardDescription>
+            Applies to {scope === ALL_CHANNELS ? "every channel" : channels.find(channel => channel.id === scope)?.displayName}. Click a cell to start from it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Room types</Label>
+              <div className="flex flex-wrap gap-4">
+                {roomTypes.map(({ code: roomType, name }) => (
+                  <label key={roomType} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.roomTypes.includes(roomType)}
+                      onCheckedChange={() => setForm(prev => ({ ...prev, roomTypes: toggle(prev.roomTypes, roomType) }))}
+                      data-testid={`checkbox-restriction-room-${roomType}`}
+                    />
+                    {name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="restriction-start">From</Label>
+              <Input id="restriction-start" type="date" value={form.startDate} onChange={(e) => setForm(prev => ({ ...prev, startDate: e.target.value }))} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="restriction-end">To (inclusive)</Label>
+              <Input id="restriction-end" type="date" value={form.endDate} onChange={(e) => setForm(prev => ({ ...prev, endDate: e.target.value }))} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Days of week</Label>
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAYS.map((day, index) => (
+                <Button
+                  key={day}
+                  size="sm"
+                  variant={form.daysOfWeek.includes(index) ? "default" : "outline"}
+                  onClick={() => setForm(prev => ({ ...prev, daysOfWeek: toggle(prev.daysOfWeek, index) }))}
+                  data-testid={`button-restriction-day-${index}`}
+                >
+                  {day}
+                </Button>
+              ))}
+              <span className="text-xs text-gray-500 self-center">None selected applies to every day</span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {flagSelect("stopSell", "Stop-sell")}
+            {flagSelect("closedToArrival", "Closed to arrival")}
+            {flagSelect("closedToDeparture", "Closed to departure")}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="restriction-min-stay">Minimum stay</Label>
+              <Input
+                id="restriction-min-stay"
+                type="number"
+                min="1"
+                placeholder="Unchanged"
+                value={form.minimumStay}
+                disabled={form.clearStays}
+                onChange={(e) => setForm(prev => ({ ...prev, minimumStay: e.target.value }))}
+                data-testid="input-restriction-min-stay"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="restriction-max-stay">Maximum stay</Label>
+              <Input
+                id="restriction-max-stay"
+                type="number"
+                min="1"
+                placeholder="Unchanged"
+                value={form.maximumStay}
+                disabled={form.clearStays}
+                onChange={(e) => setForm(prev => ({ ...prev, maximumStay: e.target.value }))}
+                data-testid="input-restriction-max-stay"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm self-end pb-2">
+              <Checkbox
+                checked={form.clearStays}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, clearStays: !!checked }))}
+              />
+              Clear stay limits (back to rate plan)
+            </label>
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={handleApply} disabled={!canApply} data-testid="button-apply-restrictions">
+              {applyMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Apply Restrictions
+            </Button>
+            <Button variant="outline" onClick={() => setForm(emptyForm)}>
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
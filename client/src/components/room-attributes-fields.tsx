@@ -0,0 +1,87 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { Room } from "@shared/schema";
+
+export type RoomAttributes = Pick<Room, "floor" | "wing" | "view" | "bedConfiguration" | "isAccessible" | "isSmoking">;
+
+export const EMPTY_ROOM_ATTRIBUTES: RoomAttributes = {
+  floor: null,
+  wing: null,
+  view: null,
+  bedConfiguration: null,
+  isAccessible: false,
+  isSmoking: false,
+};
+
+// "Floor 1 · East wing · Sea view · 1 king · Accessible", for room cards and pickers
+export function describeRoomAttributes(room: RoomAttributes): string {
+  return [
+    room.floor !== null && room.floor !== undefined ? `Floor ${room.floor}` : null,
+    room.wing ? `${room.wing} wing` : null,
+    room.view ? `${room.view} view` : null,
+    room.bedConfiguration,
+    room.isAccessible ? "Accessible" : null,
+    room.isSmoking ? "Smoking" : null,
+  ].filter(Boolean).join(" · ");
+}
+
+interface RoomAttributesFieldsProps {
+  value: RoomAttributes;
+  onChange: (value: RoomAttributes) => void;
+  idPrefix: string;
+}
+
+// Floor, wing, view, beds, accessibility and smoking inputs shared by the add, bulk add and edit room dialogs
+export function RoomAttributesFields({ value, onChange, idPrefix }: RoomAttributesFieldsProps) {
+  const text = (field: "wing" | "view" | "bedConfiguration") => (e: React.ChangeEvent<HTMLInputElement>) =>
+    onChange({ ...value, [field]: e.target.value || null });
+
+  return (
+    <div className="grid gap-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-floor`}>Floor</Label>
+          <Input
+            id={`${idPrefix}-floor`}
+            type="number"
+            step="1"
+            value={value.floor ?? ""}
+            onChange={(e) => onChange({ ...value, floor: e.target.value === "" ? null : parseInt(e.target.value) })}
+            data-testid={`${idPrefix}-input-floor`}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-wing`}>Wing</Label>
+          <Input id={`${idPrefix}-wing`} value={value.wing ?? ""} onChange={text("wing")} maxLength={50} placeholder="e.g. East" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-view`}>View</Label>
+          <Input id={`${idPrefix}-view`} value={value.view ?? ""} onChange={text("view")} maxLength={50} placeholder="e.g. Sea" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-beds`}>Beds</Label>
+          <Input id={`${idPrefix}-beds`} value={value.bedConfiguration ?? ""} onChange={text("bedConfiguration")} maxLength={100} placeholder="e.g. 1 king" />
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-6">
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={value.isAccessible}
+            onCheckedChange={(isAccessible) => onChange({ ...value, isAccessible })}
+            data-testid={`${idPrefix}-switch-accessible`}
+          />
+          <Label>Accessible</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={value.isSmoking}
+            onCheckedChange={(isSmoking) => onChange({ ...value, isSmoking })}
+            data-testid={`${idPrefix}-switch-smoking`}
+          />
+          <Label>Smoking</Label>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useMutation, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useRoomTypes } from "@/hooks/useRoomTypes";
+import { RoomAttributesFields, EMPTY_ROOM_ATTRIBUTES, type RoomAttributes } from "@/components/room-attributes-fields";
+import { Archive, ArchiveRestore, Loader2, Trash2 } from "lucide-react";
+import type { Room } from "@shared/schema";
+
+export const ALL_ROOMS_KEY = "/api/rooms?includeArchived=true";
+
+export function invalidateRooms(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+  queryClient.invalidateQueries({ queryKey: [ALL_ROOMS_KEY] });
+  queryClient.invalidateQueries({ queryKey: ["/api/rooms/available"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/statistics/rooms"] });
+}
+
+const emptyBulk = { prefix: "", startNumber: "", endNumber: "", type: "", basePrice: "" };
+
+// Add a range of rooms sharing a type, price and attributes: "rooms 101-120, deluxe, floor 1"
+export function BulkRoomDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { roomTypes } = useRoomTypes();
+  const [form, setForm] = useState(emptyBulk);
+  const [attributes, setAttributes] = useState<RoomAttributes>(EMPTY_ROOM_ATTRIBUTES);
+
+  const start = parseInt(form.startNumber);
+  const end = parseInt(form.endNumber);
+  const count = !isNaN(start) && !isNaN(end) && end >= start ? end - start + 1 : 0;
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/rooms/bulk", {
+        ...attributes,
+        prefix: form.prefix,
+        startNumber: start,
+        endNumber: end,
+        type: form.type,
+        basePrice: form.basePrice,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Rooms Created", description: data.message });
+      invalidateRooms(queryClient);
+      setForm(emptyBulk);
+      setAttributes(EMPTY_ROOM_ATTRIBUTES);
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({ title: "Rooms Not Created", description: error.message || "Failed to create rooms", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Add a Range of Rooms</DialogTitle>
+          <DialogDescription>Creates one room per number, all with the same type, price and attributes.</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="bulk-prefix">Prefix</Label>
+              <Input id="bulk-prefix" value={form.prefix} onChange={(e) => setForm({ ...form, prefix: e.target.value })} maxLength={5} placeholder="e.g. A-" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bulk-start">From</Label>
+              <Input id="bulk-start" type="number" min="0" value={form.startNumber} onChange={(e) => setForm({ ...form, startNumber: e.target.value })} placeholder="101" data-testid="input-bulk-start" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bulk-end">To</Label>
+              <Input id="bulk-end" type="number" min="0" value={form.endNumber} onChange={(e) => setForm({ ...form, endNumber: e.target.value })} placeholder="120" data-testid="input-bulk-end" />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={form.type} onValueChange={(type) => setForm({ ...form, type })}>
+                <SelectTrigger data-testid="select-bulk-room-type">
+                  <SelectValue placeholder="Select room type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roomTypes.map(roomType => (
+                    <SelectItem key={roomType.code} value={roomType.code}>{roomType.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bulk-price">Base Price (₹)</Label>
+              <Input id="bulk-price" type="number" min="0" step="0.01" value={form.basePrice} onChange={(e) => setForm({ ...form, basePrice: e.target.value })} />
+            </div>
+          </div>
+          <RoomAttributesFields value={attributes} onChange={setAttributes} idPrefix="bulk" />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={count === 0 || count > 200 || !form.type || !form.basePrice || createMutation.isPending}
+            data-testid="button-create-rooms"
+          >
+            {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {count > 0 ? `Create ${count} Rooms` : "Create Rooms"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Edit a room's number, type, price and attributes; archive rooms that are no longer sold and
+// delete ones added by mistake
+export function RoomEditDialog({ room, onClose }: { room: Room | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { roomTypes } = useRoomTypes();
+  const [form, setForm] = useState({ number: "", type: "", basePrice: "" });
+  const [attributes, setAttributes] = useState<RoomAttributes>(EMPTY_ROOM_ATTRIBUTES);
+
+  useEffect(() => {
+    if (!room) return;
+    setForm({ number: room.number, type: room.type, basePrice: room.basePrice });
+    setAttributes({
+      floor: room.floor,
+      wing: room.wing,
+      view: room.view,
+      bedConfiguration: room.bedConfiguration,
+      isAccessible: room.isAccessible,
+      isSmoking: room.isSmoking,
+    });
+  }, [room]);
+
+  const onSuccess = (data: { message: string }) => {
+    toast({ title: "Room Updated", description: data.message });
+    invalidateRooms(queryClient);
+    onClose();
+  };
+  const onError = (error: any) => {
+    toast({ title: "Update Failed", description: error.message || "Failed to update room", variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/rooms/${room!.id}`, { ...form, ...attributes });
+      return response.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: "archive" | "restore" | "delete") => {
+      const response = action === "delete"
+        ? await apiRequest("DELETE", `/api/rooms/${room!.id}`)
+        : await apiRequest("POST", `/api/rooms/${room!.id}/${action}`, {});
+      return response.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const busy = saveMutation.isPending || actionMutation.isPending;
+
+  return (
+    <Dialog open={!!room} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Room {room?.number}</DialogTitle>
+          <DialogDescription>
+            Rooms with stays or bookings cannot be renumbered or deleted; archive them to take them out of the room list and inventory.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="edit-room-number">Number</Label>
+              <Input id="edit-room-number" value={form.number} onChange={(e) => setForm({ ...form, number: e.target.value })} maxLength={10} data-testid="input-edit-room-number" />
+            </div>
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={form.type} onValueChange={(type) => setForm({ ...form, type })}>
+                <SelectTrigger data-testid="select-edit-room-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {roomTypes.map(roomType => (
+                    <SelectItem key={roomType.code} value={roomType.code}>{roomType.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="edit-room-price">Base Price (₹)</Label>
+              <Input id="edit-room-price" type="number" min="0" step="0.01" value={form.basePrice} onChange={(e) => setForm({ ...form, basePrice: e.target.value })} />
+            </div>
+          </div>
+          <RoomAttributesFields value={attributes} onChange={setAttributes} idPrefix="edit-room" />
+        </div>
+        <DialogFooter className="flex-wrap gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            {room?.archivedAt ? (
+              <Button variant="outline" onClick={() => actionMutation.mutate("restore")} disabled={busy} data-testid="button-restore-room">
+                <ArchiveRestore className="h-4 w-4 mr-2" />
+                Restore
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={() => actionMutation.mutate("archive")} disabled={busy} data-testid="button-archive-room">
+                <Archive className="h-4 w-4 mr-2" />
+                Archive
+              </Button>
+            )}
+            <Button variant="ghost" className="text-red-600" onClick={() => actionMutation.mutate("delete")} disabled={busy} data-testid="button-delete-room">
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          </div>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!form.number.trim() || !form.type || !form.basePrice || busy}
+            data-testid="button-save-room"
+          >
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
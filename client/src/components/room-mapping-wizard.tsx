@@ -0,0 +1,240 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useRoomTypes } from "@/hooks/useRoomTypes";
+import { AlertTriangle, Link2, Loader2, RefreshCw } from "lucide-react";
+
+interface OtaRoomType {
+  id: string;
+  name: string;
+  maxOccupancy?: number;
+  ratePlans?: { id: string; name: string }[];
+}
+
+interface RoomMapping {
+  id: string;
+  hotelRoomType: string;
+  channelRoomTypeId: string;
+  channelRoomTypeName: string;
+  channelRatePlanId: string | null;
+  channelRatePlanName: string | null;
+  maxOccupancy: number | null;
+  isActive: boolean;
+}
+
+interface MappingRow {
+  key: string;
+  room: OtaRoomType;
+  ratePlan?: { id: string; name: string };
+}
+
+export interface MappingChannel {
+  id: string;
+  displayName: string;
+}
+
+interface RoomMappingWizardProps {
+  channel: MappingChannel | null;
+  hotelId?: string;
+  onClose: () => void;
+}
+
+const NOT_MAPPED = "none";
+
+const rowKey = (roomId: string, ratePlanId?: string | null) => `${roomId}|${ratePlanId || ""}`;
+
+// One row per OTA room and rate plan; rooms without rate plans get a single row
+function toRows(roomTypes: OtaRoomType[]): MappingRow[] {
+  return roomTypes.flatMap(room => room.ratePlans?.length
+    ? room.ratePlans.map(ratePlan => ({ key: rowKey(room.id, ratePlan.id), room, ratePlan }))
+    : [{ key: rowKey(room.id), room }]);
+}
+
+export function RoomMappingWizard({ channel, hotelId, onClose }: RoomMappingWizardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selection, setSelection] = useState<Record<string, string>>({});
+  const headers: Record<string, string> = hotelId ? { 'x-hotel-id': hotelId } : {};
+  const { roomTypes: hotelRoomTypes } = useRoomTypes(hotelId);
+
+  const { data, isLoading, error, refetch, isFetching } = useQuery<{ roomTypes: OtaRoomType[]; mappings: RoomMapping[] }>({
+    queryKey: [`/api/channel-manager/channels/${channel?.id}/ota-room-types`],
+    enabled: !!channel,
+    retry: false,
+    meta: { headers },
+  });
+
+  const rows = toRows(data?.roomTypes || []);
+  const rowKeys = new Set(rows.map(row => row.key));
+  // Mappings to OTA rooms the channel no longer lists are dropped on save
+  const staleMappings = (data?.mappings || []).filter(mapping =>
+    !rowKeys.has(rowKey(mapping.channelRoomTypeId, mapping.channelRatePlanId)) &&
+    !(mapping.channelRatePlanId === null && rows.some(row => row.room.id === mapping.channelRoomTypeId))
+  );
+
+  // Start from the saved mappings; a room-level mapping applies to all of the room's rate plans
+  useEffect(() => {
+    if (!data) return;
+    const initial: Record<string, string> = {};
+    for (const row of toRows(data.roomTypes)) {
+      const mapping = data.mappings.find(m => m.isActive && m.channelRoomTypeId === row.room.id && m.channelRatePlanId === (row.ratePlan?.id ?? null))
+        || data.mappings.find(m => m.isActive && m.channelRoomTypeId === row.room.id && m.channelRatePlanId === null);
+      initial[row.key] = mapping?.hotelRoomType || NOT_MAPPED;
+    }
+    setSelection(initial);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const mappings = rows
+        .filter(row => selection[row.key] && selection[row.key] !== NOT_MAPPED)
+        .map(row => ({
+          hotelRoomType: selection[row.key],
+          channelRoomTypeId: row.room.id,
+          channelRoomTypeName: row.room.name,
+          channelRatePlanId: row.ratePlan?.id ?? null,
+          channelRatePlanName: row.ratePlan?.name ?? null,
+          maxOccupancy: row.room.maxOccupancy ?? 2,
+          isActive: true,
+        }));
+      const response = await apiRequest("PUT", `/api/channel-manager/channels/${channel?.id}/mappings`, { mappings }, { headers });
+      return response.json();
+    },
+    onSuccess: (saved: RoomMapping[]) => {
+      toast({
+        title: "Room Mapping Saved",
+        description: `${saved.length} OTA rooms mapped for ${channel?.displayName}. Inventory will be re-sent on the next sync.`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/channel-manager/channels/${channel?.id}/ota-room-types`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/channel-manager/channels"] });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Mapping Not Saved",
+        description: error.message || "Failed to save room mapping",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const mappedCount = rows.filter(row => selection[row.key] && selection[row.key] !== NOT_MAPPED).length;
+  const unmappedHotelTypes = hotelRoomTypes.filter(roomType => !Object.values(selection).includes(roomType.code));
+
+  return (
+    <Dialog open={!!channel} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            Map Rooms - {channel?.displayName}
+          </DialogTitle>
+          <DialogDescription>
+            Choose which of your room types each OTA room and rate plan sells. Unmapped rooms receive no availability and their reservations are not imported.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-8 space-y-4">
+            <AlertTriangle className="h-10 w-10 text-red-500 mx-auto" />
+            <p className="text-sm text-gray-600 dark:text-gray-400">{(error as Error).message || "Failed to load room types from the channel"}</p>
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`h-3 w-3 mr-1 ${isFetching ? 'animate-spin' : ''}`} />
+              Retry
+            </Button>
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-center py-8 text-sm text-gray-600 dark:text-gray-400">
+            The channel did not return any room types. Create rooms in the extranet first, then retry.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <table className="w-full text-sm" data-testid="table-room-mapping">
+              <thead>
+                <tr className="border-b text-left text-gray-600 dark:text-gray-400">
+                  <th className="py-2 pr-4">OTA room</th>
+                  <th className="py-2 pr-4">Rate plan</th>
+                  <th className="py-2 w-48">Your room type</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.key} className="border-b last:border-0">
+                    <td className="py-2 pr-4">
+                      <div className="font-medium">{row.room.name}</div>
+                      <div className="text-xs text-gray-500">{row.room.id}</div>
+                    </td>
+                    <td className="py-2 pr-4">
+                      {row.ratePlan ? (
+                        <>
+                          <div>{row.ratePlan.name}</div>
+                          <div className="text-xs text-gray-500">{row.ratePlan.id}</div>
+                        </>
+                      ) : (
+                        <span className="text-gray-500">All</span>
+                      )}
+                    </td>
+                    <td className="py-2">
+                      <Select
+                        value={selection[row.key] || NOT_MAPPED}
+                        onValueChange={(value) => setSelection(prev => ({ ...prev, [row.key]: value }))}
+                      >
+                        <SelectTrigger data-testid={`select-mapping-${row.key}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_MAPPED}>Don't map</SelectItem>
+                          {hotelRoomTypes.map(roomType => (
+                            <SelectItem key={roomType.code} value={roomType.code}>{roomType.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {staleMappings.length > 0 && (
+              <p className="text-sm text-yellow-700 flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4" />
+                {staleMappings.length} saved mapping(s) refer to rooms the channel no longer lists and will be removed.
+              </p>
+            )}
+            {unmappedHotelTypes.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                Not sold on this channel:
+                {unmappedHotelTypes.map(roomType => (
+                  <Badge key={roomType.code} variant="secondary">{roomType.name}</Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-4">
+          <Button variant="outline" onClick={onClose}>
+            Skip for now
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={isLoading || !!error || rows.length === 0 || saveMutation.isPending}
+            data-testid="button-save-mapping"
+          >
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save mapping ({mappedCount})
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery } from "@tanstack/react-query";
+import { useRoomTypes } from "@/hooks/useRoomTypes";
+import { ROOM_STATUS_LABELS } from "@/components/room-status-timeline";
+import { ClipboardList, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import type { Room, RoomStatusChange } from "@shared/schema";
+
+type RoomStatus = Room["status"];
+
+interface RoomStatusDay {
+  roomId: string;
+  roomNumber: string;
+  roomType: string;
+  startStatus: RoomStatus;
+  endStatus: RoomStatus;
+  minutes: Record<RoomStatus, number>;
+  transitions: RoomStatusChange[];
+}
+
+interface RoomStatusReportData {
+  date: string;
+  periodMinutes: number;
+  rooms: RoomStatusDay[];
+  totals: { minutes: Record<RoomStatus, number>; transitions: number };
+}
+
+const STATUSES: RoomStatus[] = ["available", "occupied", "cleaning", "maintenance"];
+
+const formatMinutes = (minutes: number) => {
+  if (minutes === 0) return "-";
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+// Time each room spent in each status on one day, e.g. how long 204 waited for cleaning yesterday
+export function RoomStatusReport() {
+  const { roomTypeName } = useRoomTypes();
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [date, setDate] = useState(today);
+  const validDate = !!date && date <= today;
+
+  const { data: report, isLoading } = useQuery<RoomStatusReportData>({
+    queryKey: [`/api/reports/room-status?date=${date}`],
+    retry: false,
+    enabled: validDate,
+    refetchOnMount: "always",
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center">
+              <ClipboardList className="h-5 w-5 mr-2" />
+              Daily Room Status
+            </CardTitle>
+            <CardDescription>
+              Time each room spent in each status and how often it changed. Today's figures run until now.
+            </CardDescription>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="room-status-date">Date</Label>
+            <Input id="room-status-date" type="date" max={today} value={date} onChange={(e) => setDate(e.target.value)} data-testid="input-room-status-date" />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!validDate ? (
+          <p className="text-sm text-red-600">Pick today or an earlier day.</p>
+        ) : isLoading || !report ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : report.rooms.length === 0 ? (
+          <p className="text-center py-8 text-gray-600">No rooms on this day</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table data-testid="table-room-status-report">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Room</TableHead>
+                  <TableHead>Start of day</TableHead>
+                  {STATUSES.map(status => (
+                    <TableHead key={status} className="text-right">{ROOM_STATUS_LABELS[status]}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Changes</TableHead>
+                  <TableHead>End of day</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rooms.map(room => (
+                  <TableRow key={room.roomId}>
+                    <TableCell>
+                      <span className="font-medium">{room.roomNumber}</span>
+                      <span className="text-xs text-gray-500 ml-2">{roomTypeName(room.roomType)}</span>
+                    </TableCell>
+                    <TableCell>{ROOM_STATUS_LABELS[room.startStatus]}</TableCell>
+                    {STATUSES.map(status => (
+                      <TableCell key={status} className="text-right">{formatMinutes(room.minutes[status])}</TableCell>
+                    ))}
+                    <TableCell className="text-right" title={room.transitions
+                      .map(change => `${format(new Date(change.changedAt), "HH:mm")} ${ROOM_STATUS_LABELS[change.toStatus]}${change.changedBy ? ` (${change.changedBy})` : ""}`)
+                      .join("\n")}>
+                      {room.transitions.length}
+                    </TableCell>
+                    <TableCell>{ROOM_STATUS_LABELS[room.endStatus]}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-semibold bg-gray-50">
+                  <TableCell>Total</TableCell>
+                  <TableCell />
+                  {STATUSES.map(status => (
+                    <TableCell key={status} className="text-right">{formatMinutes(report.totals.minutes[status])}</TableCell>
+                  ))}
+                  <TableCell className="text-right">{report.totals.transitions}</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
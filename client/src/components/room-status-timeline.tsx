@@ -0,0 +1,59 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import type { Room, RoomStatusChange } from "@shared/schema";
+
+export const ROOM_STATUS_LABELS: Record<Room["status"], string> = {
+  available: "Available",
+  occupied: "Occupied",
+  cleaning: "Cleaning",
+  maintenance: "Maintenance",
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: "Set by hand",
+  check_in: "Check-in",
+  checkout: "Checkout",
+  housekeeping: "Housekeeping",
+  maintenance: "Maintenance",
+  system: "Automatic",
+};
+
+// Status changes of one room, newest first, with who made them and why
+export function RoomStatusTimeline({ roomId }: { roomId: string }) {
+  const { data: changes = [], isLoading } = useQuery<RoomStatusChange[]>({
+    queryKey: [`/api/rooms/${roomId}/status-history`],
+    refetchOnMount: "always", // check-ins, checkouts and housekeeping change statuses elsewhere
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (changes.length === 0) {
+    return <p className="text-center py-8 text-sm text-gray-600">No status changes recorded yet</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4" data-testid={`room-status-timeline-${roomId}`}>
+      {changes.map(change => (
+        <li key={change.id} className="ml-4">
+          <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+          <p className="text-xs text-gray-500">{format(new Date(change.changedAt), "MMM d, yyyy HH:mm")}</p>
+          <p className="text-sm font-medium">
+            {change.fromStatus ? `${ROOM_STATUS_LABELS[change.fromStatus]} → ` : ""}{ROOM_STATUS_LABELS[change.toStatus]}
+          </p>
+          <p className="text-sm text-gray-600">
+            {SOURCE_LABELS[change.source] || change.source}
+            {change.changedBy && ` · ${change.changedBy}`}
+            {change.reason && ` · ${change.reason}`}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
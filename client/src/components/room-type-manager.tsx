@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import type { RoomType } from "@shared/schema";
+
+const ALL_ROOM_TYPES_KEY = "/api/room-types?includeInactive=true";
+
+const emptyForm = {
+  name: "",
+  code: "",
+  baseOccupancy: "2",
+  maxOccupancy: "2",
+  extraBedPrice: "0",
+  defaultRate: "",
+  amenities: "",
+  photos: "",
+  sortOrder: "0",
+  isActive: true,
+};
+
+type RoomTypeForm = typeof emptyForm;
+
+function toForm(roomType: RoomType): RoomTypeForm {
+  return {
+    name: roomType.name,
+    code: roomType.code,
+    baseOccupancy: String(roomType.baseOccupancy ?? 2),
+    maxOccupancy: String(roomType.maxOccupancy ?? 2),
+    extraBedPrice: roomType.extraBedPrice || "0",
+    defaultRate: roomType.defaultRate,
+    amenities: (roomType.amenities || []).join(", "),
+    photos: (roomType.photos || []).join("\n"),
+    sortOrder: String(roomType.sortOrder ?? 0),
+    isActive: roomType.isActive !== false,
+  };
+}
+
+function toPayload(form: RoomTypeForm) {
+  return {
+    name: form.name,
+    code: form.code,
+    baseOccupancy: parseInt(form.baseOccupancy) || 1,
+    maxOccupancy: parseInt(form.maxOccupancy) || 1,
+    extraBedPrice: form.extraBedPrice || "0",
+    defaultRate: form.defaultRate,
+    amenities: form.amenities.split(",").map(amenity => amenity.trim()).filter(Boolean),
+    photos: form.photos.split("\n").map(photo => photo.trim()).filter(Boolean),
+    sortOrder: parseInt(form.sortOrder) || 0,
+    isActive: form.isActive,
+  };
+}
+
+// Suggested code for a new type's name, e.g. "Family Room" -> family_room
+const codeFor = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+
+// The hotel's room types: what rooms, bookings, rate plans and channel mappings are sold as
+export function RoomTypeManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<RoomType | "new" | null>(null);
+  const [form, setForm] = useState<RoomTypeForm>(emptyForm);
+
+  const { data: roomTypes = [], isLoading } = useQuery<RoomType[]>({
+    queryKey: [ALL_ROOM_TYPES_KEY],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [ALL_ROOM_TYPES_KEY] });
+    queryClient.invalidateQueries({ queryKey: ["/api/room-types"] });
+  };
+
+  const startEditing = (roomType: RoomType | "new") => {
+    setEditing(roomType);
+    setForm(roomType === "new" ? { ...emptyForm, sortOrder: String(roomTypes.length) } : toForm(roomType));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = editing === "new"
+        ? await apiRequest("POST", "/api/room-types", toPayload(form))
+        : await apiRequest("PUT", `/api/room-types/${(editing as RoomType).id}`, toPayload(form));
+      return response.json();
+    },
+    onSuccess: (roomType: RoomType) => {
+      toast({ title: "Room Type Saved", description: `${roomType.name} is ready to use` });
+      setEditing(null);
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({ title: "Room Type Not Saved", description: error.message || "Failed to save room type", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (roomType: RoomType) => apiRequest("DELETE", `/api/room-types/${roomType.id}`),
+    onSuccess: () => {
+      toast({ title: "Room Type Deleted" });
+      setEditing(null);
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({ title: "Delete Failed", description: error.message || "Failed to delete room type", variant: "destructive" });
+    },
+  });
+
+  const occupancyInvalid = (parseInt(form.maxOccupancy) || 0) < (parseInt(form.baseOccupancy) || 0);
+
+  return (
+    <Card className="mt-8" data-testid="card-room-types">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle>Room Types</CardTitle>
+            <CardDescription>
+              What your rooms are sold as, on the booking page and on every channel. Deactivate a type that is still in use instead of deleting it.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => startEditing("new")} data-testid="button-new-room-type">
+            <Plus className="h-3 w-3 mr-1" />
+            New room type
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <table className="w-full text-sm" data-testid="table-room-types">
+            <thead>
+              <tr className="border-b text-left text-gray-600">
+                <th className="py-2 pr-4">Name</th>
+                <th className="py-2 pr-4">Code</th>
+                <th className="py-2 pr-4 text-right">Occupancy</th>
+                <th className="py-2 pr-4 text-right">Default rate</th>
+                <th className="py-2 pr-4 text-right">Extra bed</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {roomTypes.map(roomType => (
+                <tr key={roomType.id} className="border-b last:border-0">
+                  <td className="py-2 pr-4 font-medium">
+                    {roomType.name}
+                    {roomType.isActive === false && <Badge variant="secondary" className="ml-2">Inactive</Badge>}
+                  </td>
+                  <td className="py-2 pr-4 font-mono text-xs">{roomType.code}</td>
+                  <td className="py-2 pr-4 text-right">{roomType.baseOccupancy} - {roomType.maxOccupancy}</td>
+                  <td className="py-2 pr-4 text-right">₹{parseFloat(roomType.defaultRate).toLocaleString()}</td>
+                  <td className="py-2 pr-4 text-right">₹{parseFloat(roomType.extraBedPrice || "0").toLocaleString()}</td>
+                  <td className="py-2 text-right">
+                    <Button size="sm" variant="ghost" onClick={() => startEditing(roomType)} data-testid={`button-edit-room-type-${roomType.code}`}>
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => deleteMutation.mutate(roomType)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-room-type-${roomType.code}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {editing && (
+          <div className="border rounded-lg p-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">{editing === "new" ? "New Room Type" : `Edit ${editing.name}`}</h3>
+              <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => {
+                    const name = e.target.value;
+                    setForm(prev => ({ ...prev, name, code: editing === "new" ? codeFor(name) : prev.code }));
+                  }}
+                  placeholder="e.g., Family Room"
+                  data-testid="input-room-type-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Code</Label>
+                <Input
+                  value={form.code}
+                  onChange={(e) => setForm(prev => ({ ...prev, code: e.target.value }))}
+                  disabled={editing !== "new"}
+                  placeholder="e.g., family_room"
+                  data-testid="input-room-type-code"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Default rate (₹)</Label>
+                <Input type="number" min="0" value={form.defaultRate} onChange={(e) => setForm(prev => ({ ...prev, defaultRate: e.target.value }))} data-testid="input-room-type-rate" />
+              </div>
+              <div className="space-y-2">
+                <Label>Extra bed (₹)</Label>
+                <Input type="number" min="0" value={form.extraBedPrice} onChange={(e) => setForm(prev => ({ ...prev, extraBedPrice: e.target.value }))} />
+              </div>
+              <div className="space-y-2">
+                <Label>Base occupancy</Label>
+                <Input type="number" min="1" value={form.baseOccupancy} onChange={(e) => setForm(prev => ({ ...prev, baseOccupancy: e.target.value }))} />
+              </div>
+              <div className="space-y-2">
+                <Label>Max occupancy</Label>
+                <Input type="number" min="1" value={form.maxOccupancy} onChange={(e) => setForm(prev => ({ ...prev, maxOccupancy: e.target.value }))} />
+              </div>
+              <div className="space-y-2">
+                <Label>Display order</Label>
+                <Input type="number" min="0" value={form.sortOrder} onChange={(e) => setForm(prev => ({ ...prev, sortOrder: e.target.value }))} />
+              </div>
+              <div className="flex items-center gap-2 pt-6">
+                <Switch checked={form.isActive} onCheckedChange={(isActive) => setForm(prev => ({ ...prev, isActive }))} />
+                <Label>Active</Label>
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label>Amenities (comma separated)</Label>
+                <Input value={form.amenities} onChange={(e) => setForm(prev => ({ ...prev, amenities: e.target.value }))} placeholder="AC, Balcony, Bunk beds" />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label>Photo URLs (one per line)</Label>
+                <Textarea rows={2} value={form.photos} onChange={(e) => setForm(prev => ({ ...prev, photos: e.target.value }))} />
+              </div>
+            </div>
+            {occupancyInvalid && <p className="text-xs text-red-600">Max occupancy cannot be below the base occupancy</p>}
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!form.name.trim() || !form.code || !(parseFloat(form.defaultRate) >= 0) || occupancyInvalid || saveMutation.isPending}
+              data-testid="button-save-room-type"
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save room type
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,356 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Activity, ChevronLeft, ChevronRight, Loader2, RotateCcw } from "lucide-react";
+
+interface ExplorerChannel {
+  id: string;
+  displayName: string;
+}
+
+interface SyncLogSummary {
+  id: string;
+  channelId: string | null;
+  channelName: string | null;
+  syncType: string;
+  direction: "push" | "pull";
+  status: "pending" | "success" | "failed" | "partial";
+  recordsProcessed: number | null;
+  recordsSuccessful: number | null;
+  recordsFailed: number | null;
+  errorMessage: string | null;
+  startedAt: string;
+  completedAt: string | null;
+  durationMs: number | null;
+  replayOfId: string | null;
+  replayable: boolean;
+}
+
+interface SyncLogDetail extends SyncLogSummary {
+  requestPayload: unknown;
+  responseData: unknown;
+  failures: { record: string; error: string }[];
+}
+
+interface SyncLogPage {
+  logs: SyncLogSummary[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+interface SyncLogExplorerProps {
+  hotelId: string;
+  channels: ExplorerChannel[];
+}
+
+const PAGE_SIZE = 25;
+const ALL = "all";
+
+const SYNC_TYPES = [
+  { value: "inventory", label: "Inventory" },
+  { value: "booking_import", label: "Booking import" },
+  { value: "booking_webhook", label: "Booking webhook" },
+  { value: "booking_update", label: "Booking update" },
+  { value: "ical_import", label: "iCal import" },
+];
+
+const emptyFilters = {
+  channelId: ALL,
+  syncType: ALL,
+  direction: ALL,
+  status: ALL,
+  from: "",
+  to: "",
+};
+
+const statusVariant = (status: SyncLogSummary["status"]) =>
+  status === "success" ? "default" : status === "failed" ? "destructive" : "secondary";
+
+const syncTypeLabel = (syncType: string) =>
+  SYNC_TYPES.find(type => type.value === syncType)?.label || syncType;
+
+export function SyncLogExplorer({ hotelId, channels }: SyncLogExplorerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [filters, setFilters] = useState(emptyFilters);
+  const [page, setPage] = useState(0);
+  const [selectedLogId, setSelectedLogId] = useState<string | null>(null);
+  const apiOptions = { headers: { 'x-hotel-id': hotelId } };
+
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) });
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value && value !== ALL) params.set(key, value);
+  });
+
+  const { data, isLoading } = useQuery<SyncLogPage>({
+    queryKey: [`/api/channel-manager/sync-logs?${params.toString()}`],
+    retry: false,
+    meta: apiOptions,
+  });
+
+  const { data: detail, isLoading: loadingDetail } = useQuery<SyncLogDetail>({
+    queryKey: [`/api/channel-manager/sync-logs/${selectedLogId}`],
+    retry: false,
+    enabled: !!selectedLogId,
+    meta: apiOptions,
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (logId: string) => {
+      const response = await apiRequest("POST", `/api/channel-manager/sync-logs/${logId}/replay`, {}, apiOptions);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Sync Replayed",
+        description: result.message,
+      });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/channel-manager/sync-logs") });
+      if (result.syncLogId) setSelectedLogId(result.syncLogId);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Replay Failed",
+        description: error.message || "The channel rejected the replayed payload",
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/channel-manager/sync-logs") });
+    },
+  });
+
+  const updateFilter = (key: keyof typeof emptyFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setPage(0);
+  };
+
+  const logs = data?.logs || [];
+  const total = data?.total || 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sync Logs</CardTitle>
+        <CardDescription>Every exchange with your channels. Open a sync to see what was sent, what came back, and to send it again.</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+          <div className="space-y-1">
+            <Label>Channel</Label>
+            <Select value={filters.channelId} onValueChange={(value) => updateFilter("channelId", value)}>
+              <SelectTrigger data-testid="select-sync-log-channel">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All channels</SelectItem>
+                {channels.map(channel => (
+                  <SelectItem key={channel.id} value={channel.id}>{channel.displayName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Type</Label>
+            <Select value={filters.syncType} onValueChange={(value) => updateFilter("syncType", value)}>
+              <SelectTrigger data-testid="select-sync-log-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All types</SelectItem>
+                {SYNC_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Direction</Label>
+            <Select value={filters.direction} onValueChange={(value) => updateFilter("direction", value)}>
+              <SelectTrigger data-testid="select-sync-log-direction">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Both</SelectItem>
+                <SelectItem value="push">Push</SelectItem>
+                <SelectItem value="pull">Pull</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Status</Label>
+            <Select value={filters.status} onValueChange={(value) => updateFilter("status", value)}>
+              <SelectTrigger data-testid="select-sync-log-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any status</SelectItem>
+                <SelectItem value="success">Success</SelectItem>
+                <SelectItem value="partial">Partial</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sync-log-from">From</Label>
+            <Input id="sync-log-from" type="date" value={filters.from} onChange={(e) => updateFilter("from", e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sync-log-to">To</Label>
+            <Input id="sync-log-to" type="date" value={filters.to} onChange={(e) => updateFilter("to", e.target.value)} />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : logs.length === 0 ? (
+          <div className="text-center py-8">
+            <Activity className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600 dark:text-gray-400">No sync activity matches these filters</p>
+          </div>
+        ) : (
+          <div className="border rounded-lg divide-y">
+            {logs.map(log => (
+              <button
+                key={log.id}
+                type="button"
+                className="w-full flex items-center justify-between gap-4 p-3 text-left hover:bg-gray-50 dark:hover:bg-gray-800"
+                onClick={() => setSelectedLogId(log.id)}
+                data-testid={`sync-log-${log.id}`}
+              >
+                <div className="min-w-0">
+                  <p className="font-medium">
+                    {log.channelName || "Unknown channel"} - {syncTypeLabel(log.syncType)}
+                    <span className="ml-2 text-xs uppercase text-gray-500">{log.direction}</span>
+                    {log.replayOfId && <Badge variant="outline" className="ml-2">Replay</Badge>}
+                  </p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {log.recordsProcessed ?? 0} records
+                    {!!log.recordsFailed && <span className="text-red-600"> · {log.recordsFailed} failed</span>}
+                  </p>
+                  {log.errorMessage && (
+                    <p className="text-xs text-red-600 mt-1 truncate">{log.errorMessage}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <span className="text-sm text-gray-600 dark:text-gray-400">{new Date(log.startedAt).toLocaleString()}</span>
+                  <Badge variant={statusVariant(log.status)} className="capitalize">{log.status}</Badge>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            {total} syncs · page {page + 1} of {pageCount}
+          </span>
+          <div className="flex gap-2">
+            <Button size="icon" variant="outline" onClick={() => setPage(page - 1)} disabled={page === 0} data-testid="button-sync-logs-prev">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="outline" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount} data-testid="button-sync-logs-next">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!selectedLogId} onOpenChange={(open) => !open && setSelectedLogId(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {detail ? `${detail.channelName || "Unknown channel"} - ${syncTypeLabel(detail.syncType)}` : "Sync"}
+            </DialogTitle>
+            <DialogDescription>
+              {detail && `${detail.direction === "push" ? "Sent" : "Received"} ${new Date(detail.startedAt).toLocaleString()}${detail.durationMs != null ? ` · ${detail.durationMs} ms` : ""}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {loadingDetail || !detail ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <Badge variant={statusVariant(detail.status)} className="capitalize">{detail.status}</Badge>
+                <span>{detail.recordsProcessed ?? 0} records</span>
+                <span className="text-green-600">{detail.recordsSuccessful ?? 0} succeeded</span>
+                <span className="text-red-600">{detail.recordsFailed ?? 0} failed</span>
+                {detail.replayOfId && (
+                  <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setSelectedLogId(detail.replayOfId)}>
+                    Replay of an earlier sync
+                  </Button>
+                )}
+              </div>
+
+              {detail.errorMessage && (
+                <p className="text-sm text-red-600">{detail.errorMessage}</p>
+              )}
+
+              {detail.failures.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Failed records</Label>
+                  <div className="border rounded-lg divide-y text-sm" data-testid="list-sync-log-failures">
+                    {detail.failures.map((failure, index) => (
+                      <div key={index} className="flex justify-between gap-4 p-2">
+                        <span className="font-mono">{failure.record}</span>
+                        <span className="text-red-600 text-right">{failure.error}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2 min-w-0">
+                  <Label>Request</Label>
+                  <pre className="text-xs bg-gray-50 dark:bg-gray-900 border rounded-lg p-3 overflow-auto max-h-96" data-testid="text-sync-log-request">
+                    {detail.requestPayload ? JSON.stringify(detail.requestPayload, null, 2) : "Not stored"}
+                  </pre>
+                </div>
+                <div className="space-y-2 min-w-0">
+                  <Label>Response</Label>
+                  <pre className="text-xs bg-gray-50 dark:bg-gray-900 border rounded-lg p-3 overflow-auto max-h-96" data-testid="text-sync-log-response">
+                    {detail.responseData ? JSON.stringify(detail.responseData, null, 2) : "No response"}
+                  </pre>
+                </div>
+              </div>
+
+              {detail.replayable && (
+                <div className="flex items-center justify-between gap-4 border-t pt-4">
+                  <p className="text-xs text-gray-500">
+                    {detail.syncType === "inventory"
+                      ? "Replaying sends these rates and availability as they were logged; the nights are queued for a fresh sync afterwards."
+                      : "Replaying sends the stored payload to the channel again."}
+                  </p>
+                  <Button
+                    onClick={() => replayMutation.mutate(detail.id)}
+                    disabled={replayMutation.isPending}
+                    data-testid="button-replay-sync"
+                  >
+                    {replayMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+                    Replay this sync
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
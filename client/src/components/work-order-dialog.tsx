@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, X } from "lucide-react";
+import { format, addDays } from "date-fns";
+import { WORK_ORDER_CATEGORY_LABELS } from "@/components/maintenance-history";
+import type { Room, WorkOrder } from "@shared/schema";
+
+const MAX_PHOTOS = 6;
+const MAX_PHOTO_BYTES = 2 * 1024 * 1024;
+
+interface WorkOrderDialogProps {
+  rooms: Room[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const today = () => format(new Date(), "yyyy-MM-dd");
+
+// Report a problem in a room, optionally taking the room off sale until it is fixed
+export function WorkOrderDialog({ rooms, open, onOpenChange }: WorkOrderDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [roomId, setRoomId] = useState("");
+  const [issue, setIssue] = useState("");
+  const [category, setCategory] = useState<WorkOrder["category"]>("other");
+  const [description, setDescription] = useState("");
+  const [assignee, setAssignee] = useState("");
+  const [cost, setCost] = useState("");
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [blockRoom, setBlockRoom] = useState(false);
+  const [blockType, setBlockType] = useState<"out_of_order" | "out_of_service">("out_of_order");
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(() => format(addDays(new Date(), 1), "yyyy-MM-dd"));
+
+  const reset = () => {
+    setRoomId("");
+    setIssue("");
+    setCategory("other");
+    setDescription("");
+    setAssignee("");
+    setCost("");
+    setPhotos([]);
+    setBlockRoom(false);
+    setBlockType("out_of_order");
+    setStartDate(today());
+    setEndDate(format(addDays(new Date(), 1), "yyyy-MM-dd"));
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/maintenance/work-orders", {
+        roomId,
+        issue,
+        category,
+        description: description || null,
+        assignee: assignee || null,
+        cost: cost || null,
+        photos,
+        ...(blockRoom ? { block: { blockType, startDate, endDate } } : {}),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Work Order Created", description: data.message });
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance/work-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance/blocks"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/maintenance/rooms/${roomId}/history`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/statistics/rooms"] });
+      reset();
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({ title: "Work Order Not Created", description: error.message || "Failed to create work order", variant: "destructive" });
+    },
+  });
+
+  const handlePhotos = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = "";
+    if (photos.length + files.length > MAX_PHOTOS) {
+      toast({ title: "Too Many Photos", description: `Attach up to ${MAX_PHOTOS} photos.`, variant: "destructive" });
+      return;
+    }
+    for (const file of files) {
+      if (!file.type.startsWith("image/") || file.size > MAX_PHOTO_BYTES) {
+        toast({ title: "Photo Skipped", description: `${file.name} is not an image under 2MB.`, variant: "destructive" });
+        continue;
+      }
+      const reader = new FileReader();
+      reader.onloadend = () => setPhotos(current => [...current, reader.result as string]);
+      reader.readAsDataURL(file);
+    }
+  };
+
+  const validBlock = !blockRoom || (!!startDate && !!endDate && startDate < endDate && endDate > today());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Work Order</DialogTitle>
+          <DialogDescription>Record a problem in a room and who is fixing it.</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Room</Label>
+              <Select value={roomId} onValueChange={setRoomId}>
+                <SelectTrigger data-testid="select-work-order-room">
+                  <SelectValue placeholder="Select room" />
+                </SelectTrigger>
+                <SelectContent>
+                  {rooms.map(room => (
+                    <SelectItem key={room.id} value={room.id}>Room {room.number}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={(value) => setCategory(value as WorkOrder["category"])}>
+                <SelectTrigger data-testid="select-work-order-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(WORK_ORDER_CATEGORY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="work-order-issue">Issue</Label>
+            <Input id="work-order-issue" value={issue} onChange={(e) => setIssue(e.target.value)} maxLength={200} placeholder="e.g. Shower drain blocked" data-testid="input-work-order-issue" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="work-order-description">Details</Label>
+            <Textarea id="work-order-description" value={description} onChange={(e) => setDescription(e.target.value)} rows={3} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="work-order-assignee">Assigned to</Label>
+              <Input id="work-order-assignee" value={assignee} onChange={(e) => setAssignee(e.target.value)} maxLength={100} placeholder="Technician or contractor" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="work-order-cost">Estimated cost</Label>
+              <Input id="work-order-cost" type="number" min="0" step="0.01" value={cost} onChange={(e) => setCost(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="work-order-photos">Photos</Label>
+            <Input id="work-order-photos" type="file" accept="image/*" multiple onChange={handlePhotos} disabled={photos.length >= MAX_PHOTOS} />
+            {photos.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {photos.map((photo, index) => (
+                  <div key={index} className="relative">
+                    <img src={photo} alt={`Photo ${index + 1}`} className="h-16 w-16 object-cover rounded border" />
+                    <button
+                      type="button"
+                      className="absolute -top-2 -right-2 bg-white rounded-full border p-0.5"
+                      onClick={() => setPhotos(photos.filter((_, i) => i !== index))}
+                      aria-label="Remove photo"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3 border rounded p-3">
+            <div className="flex items-center gap-2">
+              <Switch checked={blockRoom} onCheckedChange={setBlockRoom} data-testid="switch-work-order-block" />
+              <Label>Take the room off sale</Label>
+            </div>
+            {blockRoom && (
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-1">
+                  <Label>Type</Label>
+                  <Select value={blockType} onValueChange={(value) => setBlockType(value as typeof blockType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="out_of_order">Out of order</SelectItem>
+                      <SelectItem value="out_of_service">Out of service</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="work-order-block-start">From</Label>
+                  <Input id="work-order-block-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="work-order-block-end">Back in service</Label>
+                  <Input id="work-order-block-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!roomId || !issue.trim() || !validBlock || createMutation.isPending}
+            data-testid="button-create-work-order"
+          >
+            {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
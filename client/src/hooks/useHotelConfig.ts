@@ -9,7 +9,6 @@ export function useHotelConfig() {
     config: {
       maxRooms: hotel?.maxRooms || 50,
       enabledRooms: hotel?.enabledRooms || 10,
-      roomTypes: hotel?.roomTypes || ["standard", "deluxe", "suite"],
       features: hotel?.features || ["wifi", "ac", "tv", "parking"],
       policies: hotel?.policies || {
         checkInTime: "14:00",
@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import type { RoomType } from "@shared/schema";
+
+// Shared so the list stays referentially stable while loading
+const NO_ROOM_TYPES: RoomType[] = [];
+
+// The hotel's active room types in display order. Pages that send x-hotel-id pass the hotel's id.
+export function useRoomTypes(hotelId?: string) {
+  const { data: roomTypes = NO_ROOM_TYPES, isLoading } = useQuery<RoomType[]>({
+    queryKey: ["/api/room-types"],
+    meta: hotelId ? { headers: { 'x-hotel-id': hotelId } } : undefined,
+  });
+
+  return {
+    roomTypes,
+    isLoading,
+    // Display name for a stored room type code
+    roomTypeName: (code: string | null | undefined) => roomTypes.find(roomType => roomType.code === code)?.name || code || "",
+  };
+}
@@ -1103,7 +1103,7 @@ export default function AdminDashboard() {
                 <Card>
                   <CardHeader>
                     <CardTitle className="text-lg">Room Types</CardTitle>
-                    <CardDescription>Available room categories</CardDescription>
+                    <CardDescription>Starting room types for a new hotel; the hotel manages its own list under Room Management</CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-4">
                     <div className="space-y-2">
@@ -10,17 +10,19 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { Plus, Calendar, Phone, Mail, Users, IndianRupee, LogIn, DoorOpen } from "lucide-react";
+import { Plus, Calendar, Phone, Mail, Users, IndianRupee, LogIn, DoorOpen, RefreshCw } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import type { Booking, Room } from "@shared/schema";
+import { OverbookingAlerts } from "@/components/overbooking-alerts";
+import { useRoomTypes } from "@/hooks/useRoomTypes";
 
 const bookingSchema = z.object({
   guestName: z.string().min(1, "Guest name is required"),
   guestPhone: z.string().min(10, "Valid phone number is required"),
   guestEmail: z.string().email("Valid email is required").optional().or(z.literal("")),
-  roomType: z.enum(["standard", "deluxe", "suite"]),
+  roomType: z.string().min(1, "Room type is required"),
   roomNumber: z.string().optional(),
   numberOfRooms: z.number().min(1, "At least 1 room required"),
   checkInDate: z.string().min(1, "Check-in date is required"),
@@ -32,6 +34,21 @@ const bookingSchema = z.object({
 
 type BookingFormData = z.infer<typeof bookingSchema>;
 
+interface BookingSyncStatus {
+  bookingId: string;
+  channelName: string;
+  reservationId: string | null;
+  syncStatus: "pending" | "success" | "failed" | "partial" | null;
+  syncError: string | null;
+  lastSyncedAt: string | null;
+}
+
+interface StayQuote {
+  total: number;
+  averageRate: number;
+  nights: { date: string; rate: number; explanation: string[] }[];
+}
+
 export default function BookingsPage() {
   const { toast } = useToast();
   const [, setLocation] = useLocation();
@@ -41,11 +58,18 @@ export default function BookingsPage() {
   const [selectedRoomId, setSelectedRoomId] = useState<string>("");
   const [documentType, setDocumentType] = useState("aadhar");
   const [documentNumber, setDocumentNumber] = useState("");
+  const { roomTypes, roomTypeName } = useRoomTypes();
 
   const { data: bookings = [], isLoading } = useQuery<Booking[]>({
     queryKey: ["/api/bookings"],
   });
 
+  // Whether changes to OTA bookings reached the channel
+  const { data: syncStatuses = [] } = useQuery<BookingSyncStatus[]>({
+    queryKey: ["/api/bookings/channel-sync"],
+  });
+  const syncByBooking = new Map(syncStatuses.map(status => [status.bookingId, status]));
+
   const { data: availableRooms = [] } = useQuery<Room[]>({
     queryKey: ["/api/rooms/available"],
     enabled: isCheckInDialogOpen,
@@ -57,7 +81,7 @@ export default function BookingsPage() {
       guestName: "",
       guestPhone: "",
       guestEmail: "",
-      roomType: "standard",
+      roomType: "",
       roomNumber: "",
       numberOfRooms: 1,
       checkInDate: "",
@@ -88,12 +112,22 @@ export default function BookingsPage() {
         advanceAmount: (bookingData.advanceAmount || 0).toString(),
         totalAmount: calculateTotal().toString(),
       };
-      return await apiRequest("POST", "/api/bookings", payload);
+      const response = await apiRequest("POST", "/api/bookings", payload);
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
       setIsAddDialogOpen(false);
       form.reset();
+      if (data.overbookingAlerts?.length) {
+        queryClient.invalidateQueries({ queryKey: ["/api/overbooking-alerts"] });
+        toast({
+          title: "Booking created - room type overbooked",
+          description: `${data.overbookingAlerts.length} night(s) now have more reservations than rooms. Sales were stopped on all channels; see the relocation suggestions.`,
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Booking created",
         description: "Advance booking has been added successfully.",
@@ -110,13 +144,23 @@ export default function BookingsPage() {
 
   const updateBookingStatusMutation = useMutation({
     mutationFn: async ({ id, status }: { id: string; status: string }) => {
-      return await apiRequest("PATCH", `/api/bookings/${id}/status`, { status });
+      const response = await apiRequest("PATCH", `/api/bookings/${id}/status`, { status });
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/channel-sync"] });
+      if (data.channelSync && !data.channelSync.success) {
+        toast({
+          title: "Booking updated, channel not notified",
+          description: data.channelSync.message,
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Booking updated",
-        description: "Booking status has been updated successfully.",
+        description: data.channelSync ? data.channelSync.message : "Booking status has been updated successfully.",
       });
     },
     onError: () => {
@@ -128,6 +172,28 @@ export default function BookingsPage() {
     },
   });
 
+  const resendChannelSyncMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/bookings/${id}/channel-sync`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/channel-sync"] });
+      toast({
+        title: "Channel updated",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/channel-sync"] });
+      toast({
+        title: "Channel sync failed",
+        description: error.message || "The channel did not accept the update.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const checkInFromBookingMutation = useMutation({
     mutationFn: async ({ bookingId, roomId, documentType, documentNumber }: { 
       bookingId: string; 
@@ -185,6 +251,16 @@ export default function BookingsPage() {
     });
   };
 
+  // Dynamic rate suggestion for the stay being entered
+  const quoteRoomType = form.watch("roomType");
+  const quoteCheckIn = form.watch("checkInDate");
+  const quoteCheckOut = form.watch("checkOutDate");
+  const { data: quote } = useQuery<StayQuote>({
+    queryKey: [`/api/pricing/quote?roomType=${quoteRoomType}&checkIn=${quoteCheckIn}&checkOut=${quoteCheckOut}`],
+    enabled: isAddDialogOpen && !!quoteRoomType && !!quoteCheckIn && !!quoteCheckOut && quoteCheckIn < quoteCheckOut,
+    retry: false,
+  });
+
   const calculateTotal = () => {
     const checkIn = form.watch("checkInDate");
     const checkOut = form.watch("checkOutDate");
@@ -318,9 +394,9 @@ export default function BookingsPage() {
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value="standard">Standard</SelectItem>
-                            <SelectItem value="deluxe">Deluxe</SelectItem>
-                            <SelectItem value="suite">Suite</SelectItem>
+                            {roomTypes.map(roomType => (
+                              <SelectItem key={roomType.code} value={roomType.code}>{roomType.name}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                         <FormMessage />
@@ -394,6 +470,23 @@ export default function BookingsPage() {
                             data-testid="input-room-rate"
                           />
                         </FormControl>
+                        {quote && (
+                          <div className="flex items-center justify-between text-xs text-gray-600" data-testid="text-dynamic-rate">
+                            <span title={quote.nights.map(night => `${night.date}: ${night.explanation.join("; ")}`).join("\n")}>
+                              Dynamic rate ₹{quote.averageRate.toLocaleString()}/night
+                            </span>
+                            <Button
+                              type="button"
+                              variant="link"
+                              size="sm"
+                              className="h-auto p-0 text-xs"
+                              onClick={() => field.onChange(quote.averageRate)}
+                              data-testid="button-apply-dynamic-rate"
+                            >
+                              Use
+                            </Button>
+                          </div>
+                        )}
                         <FormMessage />
                       </FormItem>
                     )}
@@ -501,6 +594,8 @@ export default function BookingsPage() {
         </div>
       </div>
 
+      <OverbookingAlerts />
+
       {bookings.length === 0 ? (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-16">
@@ -522,8 +617,13 @@ export default function BookingsPage() {
               <CardHeader className="pb-3">
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-2">
-                    {getRoomTypeIcon(booking.roomType || "standard")}
+                    {getRoomTypeIcon(booking.roomType || "")}
                     <CardTitle className="text-lg">{booking.guestName}</CardTitle>
+                    {booking.source && booking.source !== "direct" && (
+                      <span className="px-2 py-0.5 rounded text-xs font-medium bg-purple-50 text-purple-700 border border-purple-200" data-testid={`badge-source-${booking.id}`}>
+                        {booking.source.replace(/_/g, ".")}
+                      </span>
+                    )}
                   </div>
                   <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(booking.bookingStatus)}`}>
                     {booking.bookingStatus.charAt(0).toUpperCase() + booking.bookingStatus.slice(1)}
@@ -544,7 +644,7 @@ export default function BookingsPage() {
                   )}
                   <div className="flex items-center space-x-2">
                     <Users className="h-4 w-4 text-gray-500" />
-                    <span>{booking.numberOfRooms} {booking.roomType} room(s)</span>
+                    <span>{booking.numberOfRooms} {roomTypeName(booking.roomType)} room(s)</span>
                   </div>
                   {booking.roomNumber && (
                     <div className="flex items-center space-x-2">
@@ -572,6 +672,31 @@ export default function BookingsPage() {
                     <span className="text-gray-600">Total:</span>
                     <span className="font-medium">₹{parseFloat(booking.totalAmount || "0").toFixed(2)}</span>
                   </div>
+                  {syncByBooking.has(booking.id) && (() => {
+                    const sync = syncByBooking.get(booking.id)!;
+                    return (
+                      <div className="flex items-center justify-between text-xs" data-testid={`channel-sync-${booking.id}`}>
+                        <span className={sync.syncStatus === "failed" ? "text-red-600" : "text-gray-500"} title={sync.syncError || undefined}>
+                          {sync.syncStatus === "failed"
+                            ? `Not synced to ${sync.channelName}: ${sync.syncError || "update failed"}`
+                            : `Synced with ${sync.channelName}${sync.lastSyncedAt ? ` ${new Date(sync.lastSyncedAt).toLocaleString()}` : ""}`}
+                        </span>
+                        {sync.syncStatus === "failed" && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-6 px-2"
+                            onClick={() => resendChannelSyncMutation.mutate(booking.id)}
+                            disabled={resendChannelSyncMutation.isPending}
+                            data-testid={`button-resync-${booking.id}`}
+                          >
+                            <RefreshCw className="h-3 w-3 mr-1" />
+                            Retry
+                          </Button>
+                        )}
+                      </div>
+                    );
+                  })()}
                 </div>
 
                 {booking.bookingStatus === "confirmed" && (
@@ -644,7 +769,7 @@ export default function BookingsPage() {
                 </div>
                 <div className="flex justify-between">
                   <span className="text-sm text-gray-600">Room Type</span>
-                  <span className="capitalize">{selectedBooking.roomType}</span>
+                  <span>{roomTypeName(selectedBooking.roomType)}</span>
                 </div>
               </div>
 
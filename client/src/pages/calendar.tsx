@@ -6,8 +6,21 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ChevronLeft, ChevronRight, Calendar, Users, Bed } from "lucide-react";
 import { format, addDays, startOfWeek, endOfWeek, isSameDay, parseISO } from "date-fns";
+import { RateCalendar } from "@/components/rate-calendar";
+import { useRoomTypes } from "@/hooks/useRoomTypes";
 import type { Room, CheckIn, Guest, Booking } from "@shared/schema";
 
+interface RoomTypeAvailability {
+  date: string;
+  roomType: string;
+  totalRooms: number;
+  outOfOrder: number;
+  occupied: number;
+  booked: number;
+  channelBooked: number;
+  available: number;
+}
+
 export default function CalendarPage() {
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [viewRange, setViewRange] = useState(7); // 7 days by default
@@ -33,6 +46,30 @@ export default function CalendarPage() {
     return dates;
   }, [selectedDate, viewRange]);
 
+  // Sellable rooms per type and night, from the same engine that feeds channel inventory
+  const availabilityStart = format(selectedDate, 'yyyy-MM-dd');
+  const availabilityEnd = format(addDays(selectedDate, viewRange), 'yyyy-MM-dd');
+  const { data: availability = [] } = useQuery<RoomTypeAvailability[]>({
+    queryKey: [`/api/calendar/availability?start=${availabilityStart}&end=${availabilityEnd}`],
+  });
+
+  const availabilityByTypeAndDate = useMemo(() => {
+    const byType: Record<string, Record<string, RoomTypeAvailability>> = {};
+    availability.forEach(slot => {
+      if (!byType[slot.roomType]) {
+        byType[slot.roomType] = {};
+      }
+      byType[slot.roomType][slot.date] = slot;
+    });
+    return byType;
+  }, [availability]);
+
+  const availabilityRoomTypes = Object.keys(availabilityByTypeAndDate)
+    .filter(roomType => rooms.some((room: Room) => room.type === roomType));
+
+  const { roomTypes, roomTypeName } = useRoomTypes();
+  const hotelRoomTypes = roomTypes.filter(roomType => rooms.some((room: Room) => room.type === roomType.code));
+
   // Create a map of room bookings by date (both current check-ins and advance bookings)
   const bookingsByRoomAndDate = useMemo(() => {
     const roomBookings: Record<string, Record<string, { 
@@ -201,6 +238,10 @@ export default function CalendarPage() {
 
   const getTotalAvailable = (date: Date) => {
     const dateKey = format(date, 'yyyy-MM-dd');
+    const slots = availability.filter(slot => slot.date === dateKey);
+    if (slots.length > 0) {
+      return slots.reduce((total, slot) => total + slot.available, 0);
+    }
     return rooms.filter((room: Room) => 
       !bookingsByRoomAndDate[room.id]?.[dateKey] && room.status === 'available'
     ).length;
@@ -362,7 +403,7 @@ export default function CalendarPage() {
                       <td className="sticky left-0 bg-white z-10 px-4 py-3 text-sm font-medium text-gray-900 border-r">
                         <div>
                           <div className="font-semibold">Room {room.number}</div>
-                          <div className="text-xs text-gray-500 capitalize">{room.type}</div>
+                          <div className="text-xs text-gray-500">{roomTypeName(room.type)}</div>
                         </div>
                       </td>
                       {dateRange.map((date) => {
@@ -406,6 +447,39 @@ export default function CalendarPage() {
                     </tr>
                   ))}
                 </tbody>
+                {availabilityRoomTypes.length > 0 && (
+                  <tfoot className="border-t-2 border-gray-300">
+                    {availabilityRoomTypes.map(roomType => (
+                      <tr key={roomType} data-testid={`row-availability-${roomType}`}>
+                        <td className="sticky left-0 bg-white z-10 px-4 py-2 text-sm border-r">
+                          <div className="font-semibold">{roomTypeName(roomType)}</div>
+                          <div className="text-xs text-gray-500">Sellable rooms</div>
+                        </td>
+                        {dateRange.map((date) => {
+                          const dateKey = format(date, 'yyyy-MM-dd');
+                          const slot = availabilityByTypeAndDate[roomType]?.[dateKey];
+
+                          return (
+                            <td
+                              key={dateKey}
+                              className="px-3 py-2 text-center text-sm"
+                              data-testid={`cell-availability-${roomType}-${dateKey}`}
+                              title={slot ? `${slot.occupied} in-house, ${slot.booked} booked, ${slot.channelBooked} OTA, ${slot.outOfOrder} out of order` : undefined}
+                            >
+                              {slot ? (
+                                <span className={`font-semibold ${slot.available === 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                  {slot.available}/{slot.totalRooms}
+                                </span>
+                              ) : (
+                                <span className="text-gray-400">-</span>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tfoot>
+                )}
               </table>
             </div>
           )}
@@ -440,6 +514,8 @@ export default function CalendarPage() {
           </div>
         </CardContent>
       </Card>
+
+      <RateCalendar roomTypes={hotelRoomTypes} />
     </div>
   );
 }
\ No newline at end of file
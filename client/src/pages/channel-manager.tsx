@@ -12,7 +12,15 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
-import { AddChannelModal } from "@/components/add-channel-modal";
+import { AddChannelModal, type CredentialsChannel } from "@/components/add-channel-modal";
+import { IcalCalendars } from "@/components/ical-calendars";
+import { RateParityPanel } from "@/components/rate-parity-panel";
+import { RestrictionGrid } from "@/components/restriction-grid";
+import { RatePlanEditor } from "@/components/rate-plan-editor";
+import { PricingRulesPanel } from "@/components/pricing-rules-panel";
+import { RoomMappingWizard, type MappingChannel } from "@/components/room-mapping-wizard";
+import { SyncLogExplorer } from "@/components/sync-log-explorer";
+import { ChannelPerformanceReport } from "@/components/channel-performance-report";
 import { 
   Wifi, 
   Globe, 
@@ -31,7 +39,10 @@ import {
   BarChart3,
   ArrowRight,
   Hotel,
-  TrendingUp
+  TrendingUp,
+  Download,
+  KeyRound,
+  Link2
 } from "lucide-react";
 
 interface SupportedChannel {
@@ -49,22 +60,28 @@ interface Channel {
   settings: {
     autoSync: boolean;
     rateParity: boolean;
+    rateParityTolerance?: number;
+    rateParityAutoCorrect?: boolean;
     inventoryBuffer: number;
     commissionRate: number;
   };
+  propertyId?: string;
+  credentials?: CredentialsChannel["credentials"];
   lastSyncAt?: string;
   nextSyncAt?: string;
 }
 
-interface SyncLog {
+interface OutboxItem {
   id: string;
-  channelName: string;
+  channelId: string;
   syncType: string;
-  status: "success" | "failed" | "partial";
-  recordsProcessed: number;
-  startedAt: string;
-  completedAt?: string;
-  errorMessage?: string;
+  status: "pending" | "processing" | "succeeded" | "dead_letter";
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  recordCount: number;
+  updatedAt: string;
 }
 
 export default function ChannelManagerPage() {
@@ -73,6 +90,8 @@ export default function ChannelManagerPage() {
   const { user, hotel } = useAuth();
   const [selectedChannel, setSelectedChannel] = useState<string | null>(null);
   const [showAddChannel, setShowAddChannel] = useState(false);
+  const [credentialsChannel, setCredentialsChannel] = useState<Channel | null>(null);
+  const [mappingChannel, setMappingChannel] = useState<MappingChannel | null>(null);
 
   // Add hotel ID header for API requests
   const apiOptions = hotel?.id ? { headers: { 'x-hotel-id': hotel.id } } : {};
@@ -93,21 +112,43 @@ export default function ChannelManagerPage() {
     meta: { headers: { 'x-hotel-id': hotel?.id } },
   });
 
-  // Fetch sync logs
-  const { data: syncLogs = [], isLoading: loadingSyncLogs } = useQuery({
-    queryKey: ["/api/channel-manager/sync-logs"],
+  // Fetch analytics
+  const { data: analytics, isLoading: loadingAnalytics } = useQuery({
+    queryKey: ["/api/channel-manager/analytics"],
     retry: false,
     enabled: !!hotel?.id,
     meta: { headers: { 'x-hotel-id': hotel?.id } },
   });
 
-  // Fetch analytics
-  const { data: analytics, isLoading: loadingAnalytics } = useQuery({
-    queryKey: ["/api/channel-manager/analytics"],
+  // Fetch channel updates waiting for retry
+  const { data: outboxItems = [] } = useQuery<OutboxItem[]>({
+    queryKey: ["/api/channel-manager/outbox"],
     retry: false,
     enabled: !!hotel?.id,
     meta: { headers: { 'x-hotel-id': hotel?.id } },
   });
+  const failedOutboxItems = outboxItems.filter(item => item.status !== "succeeded");
+
+  // Retry a queued channel update mutation
+  const retryOutboxMutation = useMutation({
+    mutationFn: async (itemId: string) => {
+      return apiRequest("POST", `/api/channel-manager/outbox/${itemId}/retry`, {}, apiOptions);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Retry Queued",
+        description: "The update will be pushed again on the next sync cycle",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/channel-manager/outbox"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Retry Failed",
+        description: error.message || "Failed to queue retry",
+        variant: "destructive",
+      });
+    },
+  });
 
   // Sync all channels mutation
   const syncAllMutation = useMutation({
@@ -119,7 +160,7 @@ export default function ChannelManagerPage() {
         title: "Sync Initiated",
         description: `Inventory sync started for ${data.syncedChannels} channels`,
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/channel-manager/sync-logs"] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/channel-manager/sync-logs") });
       queryClient.invalidateQueries({ queryKey: ["/api/channel-manager/analytics"] });
     },
     onError: (error: any) => {
@@ -141,7 +182,7 @@ export default function ChannelManagerPage() {
         title: "Channel Synced",
         description: `${data.channelName} inventory updated successfully`,
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/channel-manager/sync-logs"] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/channel-manager/sync-logs") });
     },
     onError: (error: any) => {
       toast({
@@ -152,6 +193,33 @@ export default function ChannelManagerPage() {
     },
   });
 
+  // Import reservations from a specific channel mutation
+  const pullReservationsMutation = useMutation({
+    mutationFn: async (channelId: string) => {
+      const response = await apiRequest("POST", `/api/channel-manager/channels/${channelId}/pull-reservations`, {}, apiOptions);
+      return response.json();
+    },
+    onSuccess: (data: { message: string; results: { outcome: string }[] }) => {
+      const imported = data.results.filter(result => result.outcome !== "unchanged" && result.outcome !== "skipped").length;
+      const skipped = data.results.filter(result => result.outcome === "skipped").length;
+      toast({
+        title: "Reservations Imported",
+        description: `${imported} new or changed reservation(s)${skipped > 0 ? `, ${skipped} could not be mapped` : ""}`,
+        variant: skipped > 0 ? "destructive" : undefined,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/channel-manager/bookings"] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/channel-manager/sync-logs") });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Import Failed",
+        description: error.message || "Failed to import reservations",
+        variant: "destructive",
+      });
+    },
+  });
+
   const getChannelIcon = (channelName: string) => {
     switch (channelName.toLowerCase()) {
       case "booking_com":
@@ -299,10 +367,18 @@ export default function ChannelManagerPage() {
         )}
 
         <Tabs defaultValue="channels" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-10">
             <TabsTrigger value="channels">Connected Channels</TabsTrigger>
             <TabsTrigger value="available">Available OTAs</TabsTrigger>
             <TabsTrigger value="sync-logs">Sync Logs</TabsTrigger>
+            <TabsTrigger value="failed-updates" data-testid="tab-failed-updates">
+              Failed Updates{failedOutboxItems.length > 0 && ` (${failedOutboxItems.length})`}
+            </TabsTrigger>
+            <TabsTrigger value="rate-plans" data-testid="tab-rate-plans">Rate Plans</TabsTrigger>
+            <TabsTrigger value="pricing" data-testid="tab-pricing">Dynamic Pricing</TabsTrigger>
+            <TabsTrigger value="restrictions" data-testid="tab-restrictions">Restrictions</TabsTrigger>
+            <TabsTrigger value="rate-parity" data-testid="tab-rate-parity">Rate Parity</TabsTrigger>
+            <TabsTrigger value="ical" data-testid="tab-ical">iCal Calendars</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
           </TabsList>
 
@@ -380,6 +456,38 @@ export default function ChannelManagerPage() {
                               <RefreshCw className="h-3 w-3" />
                             )}
                           </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => pullReservationsMutation.mutate(channel.id)}
+                            disabled={pullReservationsMutation.isPending}
+                            title="Import reservations"
+                            data-testid={`button-pull-reservations-${channel.channelName}`}
+                          >
+                            {pullReservationsMutation.isPending ? (
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                            ) : (
+                              <Download className="h-3 w-3" />
+                            )}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setCredentialsChannel(channel)}
+                            title="Replace credentials"
+                            data-testid={`button-replace-credentials-${channel.channelName}`}
+                          >
+                            <KeyRound className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setMappingChannel(channel)}
+                            title="Map rooms"
+                            data-testid={`button-map-rooms-${channel.channelName}`}
+                          >
+                            <Link2 className="h-3 w-3" />
+                          </Button>
                           <Button size="sm" variant="outline">
                             <Settings className="h-3 w-3" />
                           </Button>
@@ -448,58 +556,106 @@ export default function ChannelManagerPage() {
 
           {/* Sync Logs Tab */}
           <TabsContent value="sync-logs" className="space-y-6">
+            {hotel?.id && <SyncLogExplorer hotelId={hotel.id} channels={channels as Channel[]} />}
+          </TabsContent>
+
+          {/* Failed Updates Tab */}
+          <TabsContent value="failed-updates" className="space-y-6">
             <Card>
               <CardHeader>
-                <CardTitle>Recent Sync Activity</CardTitle>
-                <CardDescription>Track the status of inventory and rate synchronization</CardDescription>
+                <CardTitle>Failed Channel Updates</CardTitle>
+                <CardDescription>Pushes that an OTA rejected are retried automatically with backoff</CardDescription>
               </CardHeader>
-              
+
               <CardContent>
-                {syncLogs.length === 0 ? (
+                {failedOutboxItems.length === 0 ? (
                   <div className="text-center py-8">
-                    <Activity className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                    <p className="text-gray-600 dark:text-gray-400">No sync activity yet</p>
+                    <CheckCircle className="h-12 w-12 text-green-400 mx-auto mb-4" />
+                    <p className="text-gray-600 dark:text-gray-400">All channel updates delivered</p>
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    {syncLogs.map((log: SyncLog) => (
-                      <div key={log.id} className="flex items-center justify-between p-4 border rounded-lg">
-                        <div className="flex items-center gap-4">
-                          <div className={`w-3 h-3 rounded-full ${
-                            log.status === 'success' ? 'bg-green-500' :
-                            log.status === 'failed' ? 'bg-red-500' : 'bg-yellow-500'
-                          }`} />
-                          <div>
-                            <p className="font-medium">{log.channelName} - {log.syncType}</p>
-                            <p className="text-sm text-gray-600 dark:text-gray-400">
-                              {log.recordsProcessed} records processed
-                            </p>
+                    {failedOutboxItems.map((item) => {
+                      const channel = (channels as Channel[]).find(c => c.id === item.channelId);
+                      const isDeadLetter = item.status === "dead_letter";
+
+                      return (
+                        <div key={item.id} className="flex items-center justify-between p-4 border rounded-lg" data-testid={`outbox-item-${item.id}`}>
+                          <div className="flex items-center gap-4">
+                            <div className={`w-3 h-3 rounded-full ${isDeadLetter ? 'bg-red-500' : 'bg-yellow-500'}`} />
+                            <div>
+                              <p className="font-medium">{channel?.displayName || "Unknown channel"} - {item.syncType}</p>
+                              <p className="text-sm text-gray-600 dark:text-gray-400">
+                                {item.recordCount} records · attempt {item.attempts} of {item.maxAttempts}
+                              </p>
+                              {item.lastError && (
+                                <p className="text-xs text-red-600 mt-1">{item.lastError}</p>
+                              )}
+                            </div>
+                          </div>
+
+                          <div className="flex items-center gap-3">
+                            {isDeadLetter ? (
+                              <Badge variant="destructive">Gave up</Badge>
+                            ) : (
+                              <span className="text-sm text-gray-600 dark:text-gray-400">
+                                Next retry {new Date(item.nextAttemptAt).toLocaleString()}
+                              </span>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => retryOutboxMutation.mutate(item.id)}
+                              disabled={retryOutboxMutation.isPending || item.status === "processing"}
+                              data-testid={`button-retry-${item.id}`}
+                            >
+                              <RefreshCw className="h-3 w-3 mr-1" />
+                              Retry now
+                            </Button>
                           </div>
                         </div>
-                        
-                        <div className="text-right">
-                          <p className="text-sm text-gray-600 dark:text-gray-400">
-                            {new Date(log.startedAt).toLocaleString()}
-                          </p>
-                          {log.status === 'failed' && log.errorMessage && (
-                            <p className="text-xs text-red-600 mt-1">{log.errorMessage}</p>
-                          )}
-                        </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 )}
               </CardContent>
             </Card>
           </TabsContent>
 
+          {/* Rate Plans Tab */}
+          <TabsContent value="rate-plans" className="space-y-6">
+            {hotel?.id && <RatePlanEditor hotelId={hotel.id} channels={channels as Channel[]} />}
+          </TabsContent>
+
+          {/* Dynamic Pricing Tab */}
+          <TabsContent value="pricing" className="space-y-6">
+            {hotel?.id && <PricingRulesPanel hotelId={hotel.id} />}
+          </TabsContent>
+
+          {/* Restrictions Tab */}
+          <TabsContent value="restrictions" className="space-y-6">
+            {hotel?.id && <RestrictionGrid hotelId={hotel.id} channels={channels as Channel[]} />}
+          </TabsContent>
+
+          {/* Rate Parity Tab */}
+          <TabsContent value="rate-parity" className="space-y-6">
+            {hotel?.id && <RateParityPanel hotelId={hotel.id} channels={channels as Channel[]} />}
+          </TabsContent>
+
+          {/* iCal Tab */}
+          <TabsContent value="ical" className="space-y-6">
+            {hotel?.id && <IcalCalendars hotelId={hotel.id} />}
+          </TabsContent>
+
           {/* Analytics Tab */}
           <TabsContent value="analytics" className="space-y-6">
+            {hotel?.id && <ChannelPerformanceReport hotelId={hotel.id} />}
+
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               <Card>
                 <CardHeader>
-                  <CardTitle>Channel Performance</CardTitle>
-                  <CardDescription>Revenue and booking distribution by channel</CardDescription>
+                  <CardTitle>Revenue This Month</CardTitle>
+                  <CardDescription>OTA reservations arriving this month, by channel</CardDescription>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
@@ -575,15 +731,27 @@ export default function ChannelManagerPage() {
 
         {/* Add Channel Modal */}
         <AddChannelModal
-          isOpen={showAddChannel}
-          onClose={() => setShowAddChannel(false)}
+          isOpen={showAddChannel || !!credentialsChannel}
+          onClose={() => {
+            setShowAddChannel(false);
+            setCredentialsChannel(null);
+          }}
           supportedChannels={supportedChannels || []}
           hotelId={hotel?.id}
-          onSuccess={() => {
+          replaceCredentialsFor={credentialsChannel}
+          onSuccess={(channel) => {
             queryClient.invalidateQueries({ queryKey: ["/api/channel-manager/channels"] });
             queryClient.invalidateQueries({ queryKey: ["/api/channel-manager/analytics"] });
+            // A new channel sells nothing until its rooms are mapped
+            if (channel) setMappingChannel(channel);
           }}
         />
+
+        <RoomMappingWizard
+          channel={mappingChannel}
+          hotelId={hotel?.id}
+          onClose={() => setMappingChannel(null)}
+        />
       </div>
     </div>
   );
@@ -12,6 +12,7 @@ import { Badge } from "@/components/ui/badge";
 import { Receipt, CreditCard, User, Calendar } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useRoomTypes } from "@/hooks/useRoomTypes";
 import type { CheckIn, Guest, Room } from "@shared/schema";
 
 const checkoutSchema = z.object({
@@ -31,6 +32,7 @@ interface CheckoutPageProps {
 export default function Checkout({ checkInId }: CheckoutPageProps) {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { roomTypeName } = useRoomTypes();
   const [showInvoicePreview, setShowInvoicePreview] = useState(false);
 
   // Get active check-ins for selection
@@ -161,8 +163,8 @@ export default function Checkout({ checkInId }: CheckoutPageProps) {
                         </p>
                       </div>
                       <div className="text-right">
-                        <Badge variant={checkIn.room.type === "suite" ? "default" : "secondary"}>
-                          {checkIn.room.type}
+                        <Badge variant="secondary">
+                          {roomTypeName(checkIn.room.type)}
                         </Badge>
                         <p className="text-sm text-gray-600 mt-1">
                           ₹{checkIn.room.basePrice}/night
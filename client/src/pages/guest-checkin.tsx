@@ -45,6 +45,8 @@ interface HotelInfo {
 
 interface RoomTypeInfo {
   type: string;
+  name: string;
+  maxOccupancy: number;
   available: number;
 }
 
@@ -511,7 +513,7 @@ export default function GuestCheckIn() {
                               <SelectContent>
                                 {roomTypesData.roomTypes.map((rt) => (
                                   <SelectItem key={rt.type} value={rt.type}>
-                                    {rt.type.charAt(0).toUpperCase() + rt.type.slice(1)} ({rt.available} available)
+                                    {rt.name} - up to {rt.maxOccupancy} guests ({rt.available} available)
                                   </SelectItem>
                                 ))}
                               </SelectContent>
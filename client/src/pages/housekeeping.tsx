@@ -0,0 +1,264 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { useRoomTypes } from "@/hooks/useRoomTypes";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { HousekeepingStaffManager } from "@/components/housekeeping-staff";
+import { HousekeepingReport } from "@/components/housekeeping-report";
+import { CheckCircle2, ClipboardCheck, Loader2, Play, SkipForward, Sparkles, XCircle } from "lucide-react";
+import type { HousekeepingStaff, HousekeepingTaskWithRoom } from "@shared/schema";
+
+const TASK_LABELS: Record<HousekeepingTaskWithRoom["taskType"], string> = {
+  checkout_clean: "Checkout clean",
+  stayover_service: "Stay-over service",
+  inspection: "Inspection",
+};
+
+const PRIORITY_STYLES: Record<HousekeepingTaskWithRoom["priority"], string> = {
+  low: "bg-gray-100 text-gray-700",
+  normal: "bg-blue-100 text-blue-700",
+  high: "bg-orange-100 text-orange-700",
+  urgent: "bg-red-100 text-red-700",
+};
+
+// The attendant using this device, remembered between visits
+const ATTENDANT_STORAGE_KEY = "housekeeping-attendant";
+const ALL_ATTENDANTS = "all";
+const UNASSIGNED = "unassigned";
+
+export default function HousekeepingPage() {
+  useEffect(() => {
+    document.title = "Housekeeping - EaseInn Hotel Platform";
+  }, []);
+
+  const { toast } = useToast();
+  const { roomTypeName } = useRoomTypes();
+  const [attendant, setAttendant] = useState(() => localStorage.getItem(ATTENDANT_STORAGE_KEY) || ALL_ATTENDANTS);
+  const [showDone, setShowDone] = useState(false);
+
+  useEffect(() => {
+    localStorage.setItem(ATTENDANT_STORAGE_KEY, attendant);
+  }, [attendant]);
+
+  const { data: tasks = [], isLoading } = useQuery<HousekeepingTaskWithRoom[]>({
+    queryKey: ["/api/housekeeping/tasks"],
+    refetchInterval: 60 * 1000,
+  });
+
+  const { data: staff = [] } = useQuery<HousekeepingStaff[]>({
+    queryKey: ["/api/housekeeping/staff"],
+  });
+
+  const staffNames = new Map(staff.map(member => [member.id, member.name]));
+  const staffId = attendant !== ALL_ATTENDANTS && attendant !== UNASSIGNED ? attendant : undefined;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/housekeeping/tasks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/rooms/available"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/statistics/rooms"] });
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ task, action, body }: { task: HousekeepingTaskWithRoom; action: "start" | "complete" | "skip"; body: Record<string, unknown> }) => {
+      const response = await apiRequest("POST", `/api/housekeeping/tasks/${task.id}/${action}`, body);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Housekeeping Updated", description: data.message });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({ title: "Update Failed", description: error.message || "Failed to update the task", variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ task, updates }: { task: HousekeepingTaskWithRoom; updates: { assignedTo?: string | null; priority?: string } }) => {
+      const response = await apiRequest("PATCH", `/api/housekeeping/tasks/${task.id}`, updates);
+      return response.json();
+    },
+    onSuccess: () => invalidate(),
+    onError: (error: any) => {
+      toast({ title: "Update Failed", description: error.message || "Failed to update the task", variant: "destructive" });
+    },
+  });
+
+  const visibleTasks = tasks.filter(task => {
+    if (!showDone && (task.status === "done" || task.status === "skipped")) return false;
+    if (attendant === UNASSIGNED) return !task.assignedTo;
+    if (staffId) return task.assignedTo === staffId || !task.assignedTo;
+    return true;
+  });
+  const openCount = tasks.filter(task => task.status === "pending" || task.status === "in_progress").length;
+  const busy = actionMutation.isPending || updateMutation.isPending;
+
+  const renderActions = (task: HousekeepingTaskWithRoom) => {
+    if (task.status === "done" || task.status === "skipped") {
+      return <p className="text-sm text-gray-500">{task.status === "done" ? "Done" : "Skipped"}</p>;
+    }
+    const run = (action: "start" | "complete" | "skip", body: Record<string, unknown> = {}) =>
+      actionMutation.mutate({ task, action, body: { ...body, ...(staffId && action !== "skip" ? { staffId } : {}) } });
+
+    return (
+      <div className="grid grid-cols-2 gap-2">
+        {task.status === "pending" && (
+          <Button variant="outline" className="h-11" onClick={() => run("start")} disabled={busy} data-testid={`button-start-task-${task.id}`}>
+            <Play className="h-4 w-4 mr-2" />
+            Start
+          </Button>
+        )}
+        {task.taskType === "inspection" ? (
+          <>
+            <Button className="h-11" onClick={() => run("complete", { passed: true })} disabled={busy} data-testid={`button-pass-task-${task.id}`}>
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              Inspected
+            </Button>
+            <Button variant="destructive" className="h-11" onClick={() => run("complete", { passed: false })} disabled={busy} data-testid={`button-fail-task-${task.id}`}>
+              <XCircle className="h-4 w-4 mr-2" />
+              Failed
+            </Button>
+          </>
+        ) : (
+          <Button className="h-11" onClick={() => run("complete")} disabled={busy} data-testid={`button-complete-task-${task.id}`}>
+            <CheckCircle2 className="h-4 w-4 mr-2" />
+            {task.taskType === "checkout_clean" ? "Clean" : "Serviced"}
+          </Button>
+        )}
+        {task.taskType === "stayover_service" && (
+          <Button variant="ghost" className="h-11" onClick={() => run("skip", { notes: "Guest declined service" })} disabled={busy} data-testid={`button-skip-task-${task.id}`}>
+            <SkipForward className="h-4 w-4 mr-2" />
+            Declined
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-4 sm:p-6 max-w-5xl mx-auto">
+      <div className="mb-4">
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+          <Sparkles className="h-6 w-6 mr-2" />
+          Housekeeping
+        </h1>
+        <p className="text-gray-600 mt-1">{openCount} open tasks</p>
+      </div>
+
+      <Tabs defaultValue="board" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="board" data-testid="tab-housekeeping-board">Board</TabsTrigger>
+          <TabsTrigger value="attendants" data-testid="tab-housekeeping-attendants">Attendants</TabsTrigger>
+          <TabsTrigger value="reports" data-testid="tab-housekeeping-reports">Reports</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="board" className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1 w-full sm:w-64">
+              <Label>Showing tasks for</Label>
+              <Select value={attendant} onValueChange={setAttendant}>
+                <SelectTrigger data-testid="select-board-attendant">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_ATTENDANTS}>Everyone</SelectItem>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {staff.map(member => (
+                    <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={() => setShowDone(!showDone)} data-testid="button-toggle-done-tasks">
+              {showDone ? "Hide finished" : "Show finished"}
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : visibleTasks.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-gray-600">Nothing to do right now</CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4" data-testid="housekeeping-board">
+              {visibleTasks.map(task => (
+                <Card key={task.id} className={task.status === "in_progress" ? "border-blue-400" : undefined} data-testid={`card-task-${task.id}`}>
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <p className="text-xl font-bold">Room {task.roomNumber}</p>
+                        <p className="text-sm text-gray-600">
+                          {TASK_LABELS[task.taskType]} · {roomTypeName(task.roomType)}
+                        </p>
+                      </div>
+                      <div className="flex flex-col items-end gap-1">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${PRIORITY_STYLES[task.priority]}`}>
+                          {task.priority}
+                        </span>
+                        {task.status === "in_progress" && <Badge variant="secondary">In progress</Badge>}
+                      </div>
+                    </div>
+
+                    {task.notes && <p className="text-sm text-gray-700 whitespace-pre-line">{task.notes}</p>}
+
+                    <div className="grid grid-cols-2 gap-2">
+                      <Select
+                        value={task.assignedTo || UNASSIGNED}
+                        onValueChange={(value) => updateMutation.mutate({ task, updates: { assignedTo: value === UNASSIGNED ? null : value } })}
+                        disabled={busy || task.status === "done" || task.status === "skipped"}
+                      >
+                        <SelectTrigger className="h-9" data-testid={`select-task-assignee-${task.id}`}>
+                          <SelectValue>{task.assignedTo ? staffNames.get(task.assignedTo) || "Former attendant" : "Unassigned"}</SelectValue>
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                          {staff.map(member => (
+                            <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={task.priority}
+                        onValueChange={(priority) => updateMutation.mutate({ task, updates: { priority } })}
+                        disabled={busy || task.status === "done" || task.status === "skipped"}
+                      >
+                        <SelectTrigger className="h-9" data-testid={`select-task-priority-${task.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="low">Low</SelectItem>
+                          <SelectItem value="normal">Normal</SelectItem>
+                          <SelectItem value="high">High</SelectItem>
+                          <SelectItem value="urgent">Urgent</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {renderActions(task)}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="attendants">
+          <HousekeepingStaffManager />
+        </TabsContent>
+
+        <TabsContent value="reports">
+          <HousekeepingReport />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
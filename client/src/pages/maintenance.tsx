@@ -0,0 +1,404 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { WorkOrderDialog } from "@/components/work-order-dialog";
+import {
+  MaintenanceHistory, WORK_ORDER_CATEGORY_LABELS, WORK_ORDER_STATUS_LABELS, formatBlockDate,
+} from "@/components/maintenance-history";
+import { Ban, Loader2, Plus, Wrench } from "lucide-react";
+import { format, addDays } from "date-fns";
+import type { Room, RoomBlock, WorkOrder } from "@shared/schema";
+
+const OPEN_STATUSES: WorkOrder["status"][] = ["open", "in_progress", "on_hold"];
+const ALL_STATUSES = "all";
+const ACTIVE_STATUSES = "active";
+
+const STATUS_STYLES: Record<WorkOrder["status"], string> = {
+  open: "bg-red-100 text-red-700",
+  in_progress: "bg-blue-100 text-blue-700",
+  on_hold: "bg-yellow-100 text-yellow-700",
+  completed: "bg-green-100 text-green-700",
+  cancelled: "bg-gray-100 text-gray-700",
+};
+
+export default function MaintenancePage() {
+  useEffect(() => {
+    document.title = "Maintenance - EaseInn Hotel Platform";
+  }, []);
+
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<string>(ACTIVE_STATUSES);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [editing, setEditing] = useState<WorkOrder | null>(null);
+  const [edits, setEdits] = useState({ assignee: "", cost: "", resolution: "" });
+  const [historyRoomId, setHistoryRoomId] = useState(() => new URLSearchParams(window.location.search).get("room") || "");
+  const [block, setBlock] = useState({
+    roomId: "",
+    blockType: "out_of_service" as "out_of_order" | "out_of_service",
+    startDate: format(new Date(), "yyyy-MM-dd"),
+    endDate: format(addDays(new Date(), 1), "yyyy-MM-dd"),
+    reason: "",
+  });
+
+  const { data: workOrders = [], isLoading } = useQuery<WorkOrder[]>({
+    queryKey: ["/api/maintenance/work-orders"],
+  });
+
+  const { data: blocks = [] } = useQuery<RoomBlock[]>({
+    queryKey: ["/api/maintenance/blocks"],
+  });
+
+  const { data: rooms = [] } = useQuery<Room[]>({
+    queryKey: ["/api/rooms"],
+  });
+
+  const roomNumbers = new Map(rooms.map(room => [room.id, room.number]));
+
+  const invalidate = (roomId?: string | null) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/maintenance/work-orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/maintenance/blocks"] });
+    if (roomId) queryClient.invalidateQueries({ queryKey: [`/api/maintenance/rooms/${roomId}/history`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/rooms/available"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/statistics/rooms"] });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ workOrder, updates }: { workOrder: WorkOrder; updates: Record<string, unknown> }) => {
+      const response = await apiRequest("PUT", `/api/maintenance/work-orders/${workOrder.id}`, updates);
+      return response.json();
+    },
+    onSuccess: (data, { workOrder }) => {
+      toast({ title: "Work Order Updated", description: data.message });
+      setEditing(null);
+      invalidate(workOrder.roomId);
+    },
+    onError: (error: any) => {
+      toast({ title: "Update Failed", description: error.message || "Failed to update work order", variant: "destructive" });
+    },
+  });
+
+  const blockMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/maintenance/blocks", { ...block, reason: block.reason || undefined });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Room Blocked", description: data.message });
+      invalidate(block.roomId);
+      setBlock({ ...block, roomId: "", reason: "" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Room Not Blocked", description: error.message || "Failed to block room", variant: "destructive" });
+    },
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: async (roomBlock: RoomBlock) => {
+      const response = await apiRequest("POST", `/api/maintenance/blocks/${roomBlock.id}/release`, {});
+      return response.json();
+    },
+    onSuccess: (data, roomBlock) => {
+      toast({ title: "Room Released", description: data.message });
+      invalidate(roomBlock.roomId);
+    },
+    onError: (error: any) => {
+      toast({ title: "Release Failed", description: error.message || "Failed to release room", variant: "destructive" });
+    },
+  });
+
+  const openEdit = (workOrder: WorkOrder) => {
+    setEditing(workOrder);
+    setEdits({ assignee: workOrder.assignee || "", cost: workOrder.cost || "", resolution: workOrder.resolution || "" });
+  };
+
+  const visibleWorkOrders = workOrders.filter(workOrder => {
+    if (statusFilter === ALL_STATUSES) return true;
+    if (statusFilter === ACTIVE_STATUSES) return OPEN_STATUSES.includes(workOrder.status);
+    return workOrder.status === statusFilter;
+  });
+  const openCount = workOrders.filter(workOrder => OPEN_STATUSES.includes(workOrder.status)).length;
+  const validBlock = !!block.roomId && !!block.startDate && !!block.endDate && block.startDate < block.endDate;
+
+  return (
+    <div className="p-4 sm:p-6 max-w-5xl mx-auto">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <Wrench className="h-6 w-6 mr-2" />
+            Maintenance
+          </h1>
+          <p className="text-gray-600 mt-1">{openCount} open work orders · {blocks.length} current or upcoming off-sale periods</p>
+        </div>
+        <Button onClick={() => setIsCreateOpen(true)} data-testid="button-new-work-order">
+          <Plus className="h-4 w-4 mr-2" />
+          New Work Order
+        </Button>
+      </div>
+
+      <Tabs defaultValue={historyRoomId ? "history" : "work-orders"} className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="work-orders" data-testid="tab-work-orders">Work Orders</TabsTrigger>
+          <TabsTrigger value="off-sale" data-testid="tab-off-sale">Off Sale</TabsTrigger>
+          <TabsTrigger value="history" data-testid="tab-room-history">Room History</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="work-orders" className="space-y-4">
+          <div className="w-full sm:w-64 space-y-1">
+            <Label>Status</Label>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger data-testid="select-work-order-status-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ACTIVE_STATUSES}>Not finished</SelectItem>
+                <SelectItem value={ALL_STATUSES}>All</SelectItem>
+                {Object.entries(WORK_ORDER_STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : visibleWorkOrders.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-gray-600">No work orders</CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {visibleWorkOrders.map(workOrder => {
+                const closed = !OPEN_STATUSES.includes(workOrder.status);
+                return (
+                  <Card key={workOrder.id} data-testid={`card-work-order-${workOrder.id}`}>
+                    <CardContent className="p-4 space-y-3">
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <p className="text-lg font-bold">Room {roomNumbers.get(workOrder.roomId) || "-"}</p>
+                          <p className="font-medium">{workOrder.issue}</p>
+                          <p className="text-sm text-gray-600">
+                            {WORK_ORDER_CATEGORY_LABELS[workOrder.category]}
+                            {workOrder.createdAt && ` · ${format(new Date(workOrder.createdAt), "MMM d")}`}
+                            {workOrder.assignee && ` · ${workOrder.assignee}`}
+                          </p>
+                        </div>
+                        <div className="flex flex-col items-end gap-1">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[workOrder.status]}`}>
+                            {WORK_ORDER_STATUS_LABELS[workOrder.status]}
+                          </span>
+                          {workOrder.blockId && !closed && <Badge variant="outline">Off sale</Badge>}
+                        </div>
+                      </div>
+
+                      {workOrder.description && <p className="text-sm text-gray-700 whitespace-pre-line">{workOrder.description}</p>}
+                      {workOrder.photos && workOrder.photos.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {workOrder.photos.map((photo, index) => (
+                            <a key={index} href={photo} target="_blank" rel="noreferrer">
+                              <img src={photo} alt={`Photo ${index + 1}`} className="h-16 w-16 object-cover rounded border" />
+                            </a>
+                          ))}
+                        </div>
+                      )}
+                      {workOrder.resolution && <p className="text-sm text-gray-700">Resolution: {workOrder.resolution}</p>}
+                      {workOrder.cost && <p className="text-sm text-gray-700">Cost: {workOrder.cost}</p>}
+
+                      <div className="grid grid-cols-2 gap-2">
+                        <Select
+                          value={workOrder.status}
+                          onValueChange={(status) => updateMutation.mutate({ workOrder, updates: { status } })}
+                          disabled={closed || updateMutation.isPending}
+                        >
+                          <SelectTrigger className="h-9" data-testid={`select-work-order-status-${workOrder.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(WORK_ORDER_STATUS_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button variant="outline" className="h-9" onClick={() => openEdit(workOrder)} data-testid={`button-edit-work-order-${workOrder.id}`}>
+                          Edit
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="off-sale" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Ban className="h-5 w-5 mr-2" />
+                Take a Room Off Sale
+              </CardTitle>
+              <CardDescription>
+                Out of order rooms need repairs; out of service rooms are fine but kept empty, e.g. for a refurbishment or a photo shoot.
+                Either way they are removed from availability and channel inventory for the nights before the back-in-service date.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div className="space-y-1">
+                  <Label>Room</Label>
+                  <Select value={block.roomId} onValueChange={(roomId) => setBlock({ ...block, roomId })}>
+                    <SelectTrigger data-testid="select-block-room">
+                      <SelectValue placeholder="Select room" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {rooms.map(room => (
+                        <SelectItem key={room.id} value={room.id}>Room {room.number}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Type</Label>
+                  <Select value={block.blockType} onValueChange={(value) => setBlock({ ...block, blockType: value as typeof block.blockType })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="out_of_order">Out of order</SelectItem>
+                      <SelectItem value="out_of_service">Out of service</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="block-start">From</Label>
+                  <Input id="block-start" type="date" value={block.startDate} onChange={(e) => setBlock({ ...block, startDate: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="block-end">Back in service</Label>
+                  <Input id="block-end" type="date" value={block.endDate} onChange={(e) => setBlock({ ...block, endDate: e.target.value })} />
+                </div>
+              </div>
+              <div className="flex flex-wrap items-end gap-2 mt-4">
+                <div className="space-y-1 flex-1 min-w-[200px]">
+                  <Label htmlFor="block-reason">Reason</Label>
+                  <Input id="block-reason" value={block.reason} onChange={(e) => setBlock({ ...block, reason: e.target.value })} maxLength={500} />
+                </div>
+                <Button onClick={() => blockMutation.mutate()} disabled={!validBlock || blockMutation.isPending} data-testid="button-block-room">
+                  {blockMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Block Room
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Current and Upcoming</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {blocks.length === 0 ? (
+                <p className="text-center py-8 text-sm text-gray-600">All rooms are in service</p>
+              ) : (
+                <div className="divide-y border rounded">
+                  {blocks.map(roomBlock => (
+                    <div key={roomBlock.id} className="flex items-center justify-between gap-2 p-3" data-testid={`row-block-${roomBlock.id}`}>
+                      <div>
+                        <p className="font-medium">
+                          Room {roomBlock.roomId ? roomNumbers.get(roomBlock.roomId) || "-" : "-"}
+                          <Badge variant="outline" className="ml-2">
+                            {roomBlock.blockType === "out_of_service" ? "Out of service" : "Out of order"}
+                          </Badge>
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          {formatBlockDate(roomBlock.startDate)} – back {formatBlockDate(roomBlock.endDate)}
+                          {roomBlock.reason && ` · ${roomBlock.reason}`}
+                        </p>
+                      </div>
+                      <Button size="sm" variant="outline" onClick={() => releaseMutation.mutate(roomBlock)} disabled={releaseMutation.isPending}>
+                        Back in service
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="history" className="space-y-4">
+          <div className="w-full sm:w-64 space-y-1">
+            <Label>Room</Label>
+            <Select value={historyRoomId} onValueChange={setHistoryRoomId}>
+              <SelectTrigger data-testid="select-history-room">
+                <SelectValue placeholder="Select room" />
+              </SelectTrigger>
+              <SelectContent>
+                {rooms.map(room => (
+                  <SelectItem key={room.id} value={room.id}>Room {room.number}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {historyRoomId && (
+            <Card>
+              <CardContent className="p-4">
+                <MaintenanceHistory roomId={historyRoomId} />
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <WorkOrderDialog rooms={rooms} open={isCreateOpen} onOpenChange={setIsCreateOpen} />
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Edit Work Order</DialogTitle>
+            <DialogDescription>{editing?.issue}</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="space-y-1">
+              <Label htmlFor="edit-assignee">Assigned to</Label>
+              <Input id="edit-assignee" value={edits.assignee} onChange={(e) => setEdits({ ...edits, assignee: e.target.value })} maxLength={100} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="edit-cost">Cost</Label>
+              <Input id="edit-cost" type="number" min="0" step="0.01" value={edits.cost} onChange={(e) => setEdits({ ...edits, cost: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="edit-resolution">Resolution</Label>
+              <Textarea id="edit-resolution" value={edits.resolution} onChange={(e) => setEdits({ ...edits, resolution: e.target.value })} rows={3} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={() => editing && updateMutation.mutate({
+                workOrder: editing,
+                updates: { assignee: edits.assignee || null, cost: edits.cost || null, resolution: edits.resolution || null },
+              })}
+              disabled={updateMutation.isPending}
+              data-testid="button-save-work-order"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
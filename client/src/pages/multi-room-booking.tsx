@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -14,9 +14,10 @@ import { apiRequest } from "@/lib/queryClient";
 import { Plus, Minus, ArrowLeft, Users, IndianRupee } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useHotelConfig } from "@/hooks/useHotelConfig";
+import { useRoomTypes } from "@/hooks/useRoomTypes";
 
 const roomSchema = z.object({
-  roomType: z.enum(["standard", "deluxe", "suite"]),
+  roomType: z.string().min(1, "Room type is required"),
   roomNumber: z.string().optional(),
   roomRate: z.number().min(0),
 });
@@ -34,30 +35,18 @@ const multiRoomBookingSchema = z.object({
 
 type MultiRoomBookingForm = z.infer<typeof multiRoomBookingSchema>;
 
-// Room rates will be dynamically loaded from hotel config
-
 export default function MultiRoomBooking() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { hotel, config } = useHotelConfig();
 
-  // Get room rates from hotel configuration
+  const { roomTypes } = useRoomTypes();
+
+  // Suggested nightly rate: the room type's default rate
   const getRoomRate = (roomType: string) => {
-    if (config.pricing) {
-      const baseRate = config.pricing.baseRate || 2000;
-      switch (roomType) {
-        case "deluxe":
-          return Math.floor(baseRate * 1.5);
-        case "suite":
-          return Math.floor(baseRate * 2.5);
-        default:
-          return baseRate;
-      }
-    }
-    // Fallback rates if config not loaded
-    const fallbackRates = { standard: 2000, deluxe: 3000, suite: 5000 };
-    return fallbackRates[roomType as keyof typeof fallbackRates] || 2000;
+    const defaultRate = roomTypes.find(type => type.code === roomType)?.defaultRate;
+    return defaultRate ? parseFloat(defaultRate) : config.pricing?.baseRate || 2000;
   };
 
   const form = useForm<MultiRoomBookingForm>({
@@ -70,10 +59,18 @@ export default function MultiRoomBooking() {
       checkOutDate: "",
       advanceAmount: 0,
       specialRequests: "",
-      rooms: [{ roomType: "deluxe", roomNumber: "", roomRate: getRoomRate("deluxe") }],
+      rooms: [{ roomType: "", roomNumber: "", roomRate: 0 }],
     },
   });
 
+  // Start the first room on the hotel's first room type once the types have loaded
+  useEffect(() => {
+    const [firstRoom, ...otherRooms] = form.getValues("rooms");
+    if (roomTypes.length > 0 && firstRoom && !firstRoom.roomType) {
+      form.setValue("rooms", [{ ...firstRoom, roomType: roomTypes[0].code, roomRate: getRoomRate(roomTypes[0].code) }, ...otherRooms]);
+    }
+  }, [roomTypes]);
+
   const createMultiRoomBookingMutation = useMutation({
     mutationFn: async (data: MultiRoomBookingForm) => {
       // Calculate total amount based on stay duration and room rates
@@ -165,7 +162,7 @@ export default function MultiRoomBooking() {
     const currentRooms = form.getValues("rooms");
     form.setValue("rooms", [
       ...currentRooms,
-      { roomType: "deluxe", roomNumber: "", roomRate: getRoomRate("deluxe") },
+      { roomType: roomTypes[0]?.code || "", roomNumber: "", roomRate: roomTypes[0] ? getRoomRate(roomTypes[0].code) : 0 },
     ]);
   };
 
@@ -176,7 +173,7 @@ export default function MultiRoomBooking() {
     }
   };
 
-  const updateRoomType = (index: number, roomType: "standard" | "deluxe" | "suite") => {
+  const updateRoomType = (index: number, roomType: string) => {
     const currentRooms = form.getValues("rooms");
     currentRooms[index] = {
       ...currentRooms[index],
@@ -370,15 +367,15 @@ export default function MultiRoomBooking() {
                       <label className="text-sm font-medium">Room Type <span className="text-red-500">*</span></label>
                       <Select
                         value={room.roomType}
-                        onValueChange={(value: "standard" | "deluxe" | "suite") => updateRoomType(index, value)}
+                        onValueChange={(value) => updateRoomType(index, value)}
                       >
                         <SelectTrigger data-testid={`select-room-type-${index}`}>
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          {(config.roomTypes || ["standard", "deluxe", "suite"]).map((roomType) => (
-                            <SelectItem key={roomType} value={roomType}>
-                              {roomType.charAt(0).toUpperCase() + roomType.slice(1)} Room (₹{getRoomRate(roomType)}/night)
+                          {roomTypes.map((roomType) => (
+                            <SelectItem key={roomType.code} value={roomType.code}>
+                              {roomType.name} (₹{getRoomRate(roomType.code)}/night)
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
+import { RoomStatusReport } from "@/components/room-status-report";
 import { BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
 import { FileText, Download, TrendingUp, Users, Building2, IndianRupee, Calendar, Loader2 } from "lucide-react";
 
@@ -147,10 +148,11 @@ export default function Reports() {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4 bg-gray-100">
+        <TabsList className="grid w-full grid-cols-5 bg-gray-100">
           <TabsTrigger value="overview" data-testid="tab-overview">Overview</TabsTrigger>
           <TabsTrigger value="occupancy" data-testid="tab-occupancy">Occupancy</TabsTrigger>
           <TabsTrigger value="revenue" data-testid="tab-revenue">Revenue</TabsTrigger>
+          <TabsTrigger value="room-status" data-testid="tab-room-status">Room Status</TabsTrigger>
           <TabsTrigger value="export" data-testid="tab-export">Export Reports</TabsTrigger>
         </TabsList>
 
@@ -561,6 +563,10 @@ export default function Reports() {
           )}
         </TabsContent>
 
+        <TabsContent value="room-status" className="space-y-6">
+          <RoomStatusReport />
+        </TabsContent>
+
         <TabsContent value="export" className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <Card className="hover:shadow-md transition-shadow" data-testid="card-export-guest-register">
@@ -1,15 +1,24 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { Plus, Edit, Bed, AlertTriangle } from "lucide-react";
+import { Plus, Edit, Bed, AlertTriangle, History, Layers, ListOrdered } from "lucide-react";
+import { format, addDays } from "date-fns";
 import { useHotelConfig } from "@/hooks/useHotelConfig";
+import { useRoomTypes } from "@/hooks/useRoomTypes";
+import { RoomTypeManager } from "@/components/room-type-manager";
+import { RoomAttributesFields, EMPTY_ROOM_ATTRIBUTES, describeRoomAttributes } from "@/components/room-attributes-fields";
+import { BulkRoomDialog, RoomEditDialog, ALL_ROOMS_KEY, invalidateRooms } from "@/components/room-editor";
+import { RoomStatusTimeline } from "@/components/room-status-timeline";
 import PaymentNudge, { usePaymentNudge } from "@/components/payment-nudge";
 import type { Room, InsertRoom } from "@shared/schema";
 
@@ -26,22 +35,29 @@ export default function RoomsPage() {
   const { toast } = useToast();
   const { hotel, config } = useHotelConfig();
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [isBulkDialogOpen, setIsBulkDialogOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
   const [editingRoom, setEditingRoom] = useState<Room | null>(null);
+  const [maintenanceRoom, setMaintenanceRoom] = useState<Room | null>(null);
+  const [timelineRoom, setTimelineRoom] = useState<Room | null>(null);
+  const [maintenanceDetails, setMaintenanceDetails] = useState({ reason: "", until: "" });
   const paymentNudge = usePaymentNudge();
+  const { roomTypes, roomTypeName } = useRoomTypes();
   const [newRoom, setNewRoom] = useState<InsertRoom>({
     number: "",
-    type: "standard",
+    type: "",
     status: "available",
     basePrice: "0",
-    hotelId: ""
+    hotelId: "",
+    ...EMPTY_ROOM_ATTRIBUTES,
   });
 
   const { data: rooms = [], isLoading } = useQuery<Room[]>({
-    queryKey: ["/api/rooms"],
+    queryKey: [showArchived ? ALL_ROOMS_KEY : "/api/rooms"],
   });
 
-  // Check if hotel has reached room capacity
-  const currentRoomCount = rooms.length;
+  // Check if hotel has reached room capacity; archived rooms don't count
+  const currentRoomCount = rooms.filter(room => !room.archivedAt).length;
   const enabledRoomsLimit = config.enabledRooms;
   const isAtCapacity = currentRoomCount >= enabledRoomsLimit;
 
@@ -50,10 +66,9 @@ export default function RoomsPage() {
       return await apiRequest("POST", "/api/rooms", roomData);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/rooms/available"] });
+      invalidateRooms(queryClient);
       setIsAddDialogOpen(false);
-      setNewRoom({ number: "", type: "standard", status: "available", basePrice: "0", hotelId: "" });
+      setNewRoom({ number: "", type: "", status: "available", basePrice: "0", hotelId: "", ...EMPTY_ROOM_ATTRIBUTES });
       toast({
         title: "Room created",
         description: "Room has been added successfully.",
@@ -69,22 +84,24 @@ export default function RoomsPage() {
   });
 
   const updateRoomStatusMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: string; status: string }) => {
-      return await apiRequest("PATCH", `/api/rooms/${id}/status`, { status });
+    mutationFn: async ({ id, status, reason, until }: { id: string; status: string; reason?: string; until?: string }) => {
+      return await apiRequest("PATCH", `/api/rooms/${id}/status`, { status, reason, until });
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/rooms/available"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/statistics/rooms"] });
+    onSuccess: (_data, { id }) => {
+      invalidateRooms(queryClient);
+      queryClient.invalidateQueries({ queryKey: [`/api/rooms/${id}/status-history`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance/blocks"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/maintenance/rooms/${id}/history`] });
+      setMaintenanceRoom(null);
       toast({
         title: "Room updated",
         description: "Room status has been updated successfully.",
       });
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to update room status. Please try again.",
+        description: error.message || "Failed to update room status. Please try again.",
         variant: "destructive",
       });
     },
@@ -98,6 +115,22 @@ export default function RoomsPage() {
     setIsAddDialogOpen(true);
   };
 
+  const handleBulkAddClick = () => {
+    if (paymentNudge.hasExpiredTrial) {
+      paymentNudge.openNudge("room management", "add");
+      return;
+    }
+    setIsBulkDialogOpen(true);
+  };
+
+  const handleEditClick = (room: Room) => {
+    if (paymentNudge.hasExpiredTrial) {
+      paymentNudge.openNudge("room management", "update");
+      return;
+    }
+    setEditingRoom(room);
+  };
+
   const handleCreateRoom = () => {
     if (!newRoom.number.trim()) {
       toast({
@@ -107,6 +140,14 @@ export default function RoomsPage() {
       });
       return;
     }
+    if (!newRoom.type) {
+      toast({
+        title: "Error",
+        description: "Please select a room type.",
+        variant: "destructive",
+      });
+      return;
+    }
     if (!newRoom.basePrice || parseFloat(newRoom.basePrice) < 0) {
       toast({
         title: "Error",
@@ -124,9 +165,33 @@ export default function RoomsPage() {
       paymentNudge.openNudge("room status", "update");
       return;
     }
+    // Maintenance asks why and for how long, so the room's history has it
+    if (newStatus === "maintenance") {
+      setMaintenanceDetails({ reason: "", until: format(addDays(new Date(), 1), "yyyy-MM-dd") });
+      setMaintenanceRoom(room);
+      return;
+    }
     updateRoomStatusMutation.mutate({ id: room.id, status: newStatus });
   };
 
+  const handleMaintenanceConfirm = () => {
+    if (!maintenanceRoom) return;
+    if (!maintenanceDetails.until || maintenanceDetails.until <= format(new Date(), "yyyy-MM-dd")) {
+      toast({
+        title: "Error",
+        description: "The back-in-service date must be after today.",
+        variant: "destructive",
+      });
+      return;
+    }
+    updateRoomStatusMutation.mutate({
+      id: maintenanceRoom.id,
+      status: "maintenance",
+      reason: maintenanceDetails.reason.trim() || undefined,
+      until: maintenanceDetails.until,
+    });
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "available": return "text-green-600 bg-green-50 border-green-200";
@@ -161,12 +226,22 @@ export default function RoomsPage() {
           <h1 className="text-2xl font-bold text-gray-900">Room Management</h1>
           <p className="text-gray-600 mt-1">Manage your hotel rooms and their status</p>
         </div>
-        <Button data-testid="button-add-room" onClick={handleAddRoomClick}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Room
-        </Button>
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch checked={showArchived} onCheckedChange={setShowArchived} data-testid="switch-show-archived-rooms" />
+            <Label>Show archived</Label>
+          </div>
+          <Button variant="outline" data-testid="button-add-room-range" onClick={handleBulkAddClick}>
+            <Layers className="h-4 w-4 mr-2" />
+            Add Range
+          </Button>
+          <Button data-testid="button-add-room" onClick={handleAddRoomClick}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Room
+          </Button>
+        </div>
         <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-          <DialogContent>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Add New Room</DialogTitle>
               <DialogDescription>
@@ -199,9 +274,9 @@ export default function RoomsPage() {
                     <SelectValue placeholder="Select room type" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="standard">Standard</SelectItem>
-                    <SelectItem value="deluxe">Deluxe</SelectItem>
-                    <SelectItem value="suite">Suite</SelectItem>
+                    {roomTypes.map(roomType => (
+                      <SelectItem key={roomType.code} value={roomType.code}>{roomType.name}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -239,6 +314,18 @@ export default function RoomsPage() {
                   data-testid="input-base-price"
                 />
               </div>
+              <RoomAttributesFields
+                value={{
+                  floor: newRoom.floor ?? null,
+                  wing: newRoom.wing ?? null,
+                  view: newRoom.view ?? null,
+                  bedConfiguration: newRoom.bedConfiguration ?? null,
+                  isAccessible: newRoom.isAccessible ?? false,
+                  isSmoking: newRoom.isSmoking ?? false,
+                }}
+                onChange={(attributes) => setNewRoom({ ...newRoom, ...attributes })}
+                idPrefix="new-room"
+              />
             </div>
             <DialogFooter>
               <Button
@@ -271,25 +358,35 @@ export default function RoomsPage() {
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
           {rooms.map((room: Room) => (
-            <Card key={room.id} className="hover:shadow-md transition-shadow">
+            <Card key={room.id} className={`hover:shadow-md transition-shadow ${room.archivedAt ? "opacity-60" : ""}`}>
               <CardHeader className="pb-3">
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-2">
                     {getRoomTypeIcon(room.type)}
                     <CardTitle className="text-lg">Room {room.number}</CardTitle>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleEditClick(room)} data-testid={`button-edit-room-${room.number}`}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
                   </div>
-                  <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(room.status)}`}>
-                    {room.status.charAt(0).toUpperCase() + room.status.slice(1)}
-                  </span>
+                  {room.archivedAt ? (
+                    <Badge variant="secondary">Archived</Badge>
+                  ) : (
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(room.status)}`}>
+                      {room.status.charAt(0).toUpperCase() + room.status.slice(1)}
+                    </span>
+                  )}
                 </div>
               </CardHeader>
               <CardContent className="pt-0">
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Type:</span>
-                    <span className="font-medium capitalize">{room.type}</span>
+                    <span className="font-medium">{roomTypeName(room.type)}</span>
                   </div>
-                  <div className="pt-2">
+                  {describeRoomAttributes(room) && (
+                    <p className="text-xs text-gray-600">{describeRoomAttributes(room)}</p>
+                  )}
+                  {!room.archivedAt && <div className="pt-2">
                     <Label className="text-xs text-gray-600 mb-2 block">Change Status:</Label>
                     <Select
                       value={room.status}
@@ -306,6 +403,18 @@ export default function RoomsPage() {
                         <SelectItem value="maintenance">Maintenance</SelectItem>
                       </SelectContent>
                     </Select>
+                  </div>}
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setTimelineRoom(room)} data-testid={`button-status-history-${room.number}`}>
+                      <ListOrdered className="h-4 w-4 mr-2" />
+                      Status log
+                    </Button>
+                    <Link href={`/maintenance?room=${room.id}`}>
+                      <Button variant="ghost" size="sm" className="w-full" data-testid={`button-maintenance-history-${room.number}`}>
+                        <History className="h-4 w-4 mr-2" />
+                        Maintenance
+                      </Button>
+                    </Link>
                   </div>
                 </div>
               </CardContent>
@@ -314,6 +423,61 @@ export default function RoomsPage() {
         </div>
       )}
 
+      <RoomTypeManager />
+
+      <BulkRoomDialog open={isBulkDialogOpen} onOpenChange={setIsBulkDialogOpen} />
+
+      <Dialog open={!!timelineRoom} onOpenChange={(open) => !open && setTimelineRoom(null)}>
+        <DialogContent className="sm:max-w-[480px] max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Room {timelineRoom?.number} Status Log</DialogTitle>
+            <DialogDescription>Every status change with who made it and why.</DialogDescription>
+          </DialogHeader>
+          {timelineRoom && <RoomStatusTimeline roomId={timelineRoom.id} />}
+        </DialogContent>
+      </Dialog>
+      <RoomEditDialog room={editingRoom} onClose={() => setEditingRoom(null)} />
+
+      <Dialog open={!!maintenanceRoom} onOpenChange={(open) => !open && setMaintenanceRoom(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Room {maintenanceRoom?.number} Out of Order</DialogTitle>
+            <DialogDescription>
+              The room cannot be sold from tonight until it is back in service. Work orders and future blocks are managed under Maintenance.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="space-y-1">
+              <Label htmlFor="maintenance-reason">Reason</Label>
+              <Input
+                id="maintenance-reason"
+                value={maintenanceDetails.reason}
+                onChange={(e) => setMaintenanceDetails({ ...maintenanceDetails, reason: e.target.value })}
+                maxLength={500}
+                placeholder="e.g. Leaking air conditioner"
+                data-testid="input-maintenance-reason"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="maintenance-until">Back in service</Label>
+              <Input
+                id="maintenance-until"
+                type="date"
+                value={maintenanceDetails.until}
+                onChange={(e) => setMaintenanceDetails({ ...maintenanceDetails, until: e.target.value })}
+                data-testid="input-maintenance-until"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMaintenanceRoom(null)}>Cancel</Button>
+            <Button onClick={handleMaintenanceConfirm} disabled={updateRoomStatusMutation.isPending} data-testid="button-confirm-maintenance">
+              Take Out of Order
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Payment Nudge Dialog */}
       <PaymentNudge 
         isOpen={paymentNudge.isOpen}
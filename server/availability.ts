@@ -0,0 +1,174 @@
+import { storage } from "./storage";
+import { RoomTypeService } from "./room-types";
+import type { Room } from "@shared/schema";
+
+// A room type code, as defined in the hotel's room types
+export type RoomTypeName = string;
+
+export interface NightAvailability {
+  date: string; // YYYY-MM-DD
+  roomType: RoomTypeName;
+  totalRooms: number;
+  outOfOrder: number; // rooms in maintenance or blocked (e.g. by an imported iCal feed)
+  occupied: number; // in-house guests (active check-ins)
+  booked: number; // confirmed direct bookings not yet checked in
+  channelBooked: number; // confirmed OTA reservations
+  available: number; // sellable rooms left
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Night key for a timestamp - one stay night is [checkIn night, checkOut night)
+export function nightKey(date: Date | string): string {
+  return new Date(date).toISOString().split('T')[0];
+}
+
+function nightsBetween(start: Date | string, end: Date | string): string[] {
+  const nights: string[] = [];
+  const last = nightKey(end);
+  let current = new Date(`${nightKey(start)}T00:00:00.000Z`);
+  while (nightKey(current) < last) {
+    nights.push(nightKey(current));
+    current = new Date(current.getTime() + DAY_MS);
+  }
+  return nights;
+}
+
+// Shared availability engine: sellable rooms per room type per night, computed from
+// rooms, maintenance, room blocks, active check-ins, confirmed bookings and OTA reservations.
+// Channel inventory, /api/rooms/available and the calendar all read from here.
+export class AvailabilityService {
+  // startDate is inclusive, endDate exclusive (the departure night is not counted)
+  static async getAvailability(hotelId: string, startDate: Date, endDate: Date): Promise<NightAvailability[]> {
+    const [roomTypeCodes, rooms, activeCheckIns, bookings, channelBookings, blocks] = await Promise.all([
+      RoomTypeService.codes(hotelId),
+      storage.getRoomsByHotelId(hotelId),
+      storage.getActiveCheckIns(hotelId),
+      storage.getConfirmedBookingsWithRooms(hotelId, startDate, endDate),
+      storage.getConfirmedChannelBookings(hotelId, startDate, endDate),
+      storage.getRoomBlocks(hotelId, startDate, endDate),
+    ]);
+
+    const nights = nightsBetween(startDate, endDate);
+    const today = nightKey(new Date());
+    // Rooms still on a deactivated type keep being counted under it
+    const roomTypes = Array.from(new Set([...roomTypeCodes, ...rooms.map(room => room.type)]));
+
+    // counts[night][roomType]
+    const counts = new Map<string, Record<RoomTypeName, NightAvailability>>();
+    for (const night of nights) {
+      const byType = {} as Record<RoomTypeName, NightAvailability>;
+      for (const roomType of roomTypes) {
+        byType[roomType] = {
+          date: night,
+          roomType,
+          totalRooms: rooms.filter(room => room.type === roomType).length,
+          outOfOrder: 0,
+          occupied: 0,
+          booked: 0,
+          channelBooked: 0,
+          available: 0,
+        };
+      }
+      counts.set(night, byType);
+    }
+
+    const add = (roomType: string | null | undefined, stayStart: Date, stayEnd: Date, field: "outOfOrder" | "occupied" | "booked" | "channelBooked", quantity = 1) => {
+      if (!roomType || !roomTypes.includes(roomType)) return;
+      for (const night of nightsBetween(stayStart, stayEnd)) {
+        const slot = counts.get(night)?.[roomType];
+        if (slot) slot[field] += quantity;
+      }
+    };
+
+    const roomTypeById = new Map(rooms.map(room => [room.id, room.type]));
+    const blockedTonight = new Set<string>();
+    for (const block of blocks) {
+      add(block.roomId ? roomTypeById.get(block.roomId) : block.roomType, block.startDate, block.endDate, "outOfOrder");
+      if (block.roomId && nightsBetween(block.startDate, block.endDate).includes(today)) {
+        blockedTonight.add(block.roomId);
+      }
+    }
+
+    // Rooms in maintenance without a maintenance block have no end date, so they are out of order for tonight only
+    const tonight = counts.get(today);
+    if (tonight) {
+      for (const room of rooms) {
+        if (room.status === "maintenance" && !blockedTonight.has(room.id)) tonight[room.type].outOfOrder += 1;
+      }
+    }
+
+    for (const checkIn of activeCheckIns) {
+      // A guest past their checkout date still holds the room until they check out
+      const stayEnd = new Date(Math.max(new Date(checkIn.checkOutDate).getTime(), Date.now() + DAY_MS));
+      add(checkIn.room.type, checkIn.checkInDate, stayEnd, "occupied");
+    }
+
+    for (const booking of bookings) {
+      if (booking.rooms.length > 0) {
+        for (const bookingRoom of booking.rooms) {
+          add(bookingRoom.roomType, booking.checkInDate, booking.checkOutDate, "booked");
+        }
+      } else {
+        add(booking.roomType, booking.checkInDate, booking.checkOutDate, "booked", booking.numberOfRooms || 1);
+      }
+    }
+
+    for (const channelBooking of channelBookings) {
+      // Imported reservations are already counted through their bookings row
+      if (channelBooking.bookingId) continue;
+      add(channelBooking.roomType, channelBooking.checkInDate, channelBooking.checkOutDate, "channelBooked", channelBooking.numberOfRooms || 1);
+    }
+
+    const result: NightAvailability[] = [];
+    for (const byType of Array.from(counts.values())) {
+      for (const roomType of roomTypes) {
+        const slot = byType[roomType];
+        slot.available = Math.max(0, slot.totalRooms - slot.outOfOrder - slot.occupied - slot.booked - slot.channelBooked);
+        result.push(slot);
+      }
+    }
+    return result;
+  }
+
+  // Lowest number of sellable rooms per type across every night of a stay
+  static async getAvailableCountsForStay(hotelId: string, checkIn: Date, checkOut: Date): Promise<Record<RoomTypeName, number>> {
+    const availability = await this.getAvailability(hotelId, checkIn, checkOut);
+    const counts: Record<RoomTypeName, number> = {};
+    for (const roomType of Array.from(new Set(availability.map(night => night.roomType)))) {
+      const nights = availability.filter(night => night.roomType === roomType);
+      counts[roomType] = Math.min(...nights.map(night => night.available));
+    }
+    return counts;
+  }
+
+  // Physical rooms that can be handed out for a stay: not occupied or out of order, and never
+  // more per type than remain after bookings and OTA reservations are accounted for
+  static async getAvailableRoomsForStay(hotelId: string, checkIn: Date, checkOut: Date): Promise<Room[]> {
+    const [rooms, activeCheckIns, blocks, counts] = await Promise.all([
+      storage.getRooms(hotelId),
+      storage.getActiveCheckIns(hotelId),
+      storage.getRoomBlocks(hotelId, checkIn, checkOut),
+      this.getAvailableCountsForStay(hotelId, checkIn, checkOut),
+    ]);
+
+    const occupiedRoomIds = new Set(
+      activeCheckIns
+        .filter(stay => new Date(stay.checkInDate) < checkOut && new Date(stay.checkOutDate) > checkIn)
+        .map(stay => stay.roomId)
+    );
+    const blockedRoomIds = new Set(blocks.map(block => block.roomId).filter(Boolean));
+    const staysTonight = nightKey(checkIn) <= nightKey(new Date());
+
+    const remaining = { ...counts };
+    return rooms.filter(room => {
+      if (occupiedRoomIds.has(room.id) || blockedRoomIds.has(room.id)) return false;
+      // Current status only says something about tonight
+      if (staysTonight && room.status !== "available") return false;
+      if (!staysTonight && room.status === "maintenance") return false;
+      if ((remaining[room.type] ?? 0) <= 0) return false;
+      remaining[room.type] -= 1;
+      return true;
+    });
+  }
+}
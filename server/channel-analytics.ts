@@ -0,0 +1,282 @@
+import type { Express, Response } from "express";
+import { storage } from "./storage";
+import { authenticateToken, requireHotelOwner, checkTrialExpiration } from "./auth";
+import { nightKey } from "./availability";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_REPORT_DAYS = 366;
+
+const SOURCE_LABELS: Record<string, string> = {
+  direct: "Direct",
+  walk_in: "Walk-in",
+  booking_com: "Booking.com",
+  makemytrip: "MakeMyTrip",
+  agoda: "Agoda",
+  expedia: "Expedia",
+  goibibo: "Goibibo",
+  cleartrip: "Cleartrip",
+  trivago: "Trivago",
+  traveloka: "Traveloka",
+  airbnb: "Airbnb",
+};
+
+const DIRECT_SOURCES = ["direct", "walk_in"];
+
+export interface ChannelPerformance {
+  source: string; // booking source, or walk_in for front desk check-ins without a booking
+  label: string;
+  isDirect: boolean;
+  reservations: number; // not cancelled
+  cancelled: number;
+  roomNights: number;
+  grossRevenue: number;
+  commission: number;
+  netRevenue: number;
+  adr: number; // gross revenue per priced room night
+  cancellationRate: number; // percent of all reservations
+  averageLeadTimeDays: number | null; // booked to arrival
+  roomNightShare: number; // percent of all room nights in the report
+  revenueShare: number; // percent of all gross revenue in the report
+}
+
+export interface ChannelPerformanceReport {
+  startDate: string;
+  endDate: string; // inclusive
+  channels: ChannelPerformance[];
+  direct: ChannelPerformance;
+  otas: ChannelPerformance;
+  total: ChannelPerformance;
+}
+
+interface Stay {
+  source: string;
+  cancelled: boolean;
+  rooms: number;
+  nights: number;
+  gross: number;
+  commission: number;
+  bookedAt: Date | null;
+  arrival: Date;
+}
+
+interface Accumulator {
+  reservations: number;
+  cancelled: number;
+  roomNights: number;
+  pricedRoomNights: number;
+  grossRevenue: number;
+  commission: number;
+  leadTimeDays: number[];
+}
+
+function stayNights(checkIn: Date, checkOut: Date): number {
+  return Math.max(1, Math.round((checkOut.getTime() - checkIn.getTime()) / DAY_MS));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? round((part / whole) * 100) : 0;
+}
+
+// Per-channel business over arrivals in a date range, with direct bookings alongside for comparison.
+// OTA reservations come from channelBookings (which carry the commission), direct business from
+// bookings and from walk-in check-ins.
+export class ChannelAnalyticsService {
+  // Reservations arriving between startDate and endDate, both inclusive
+  static async getReport(hotelId: string, startDate: Date, endDate: Date): Promise<ChannelPerformanceReport> {
+    const endExclusive = new Date(endDate.getTime() + DAY_MS);
+    const [channelBookings, bookings, checkIns, channels] = await Promise.all([
+      storage.getChannelBookingsByArrival(hotelId, startDate, endExclusive),
+      storage.getBookingsByArrival(hotelId, startDate, endExclusive),
+      storage.getCheckInsByArrival(hotelId, startDate, endExclusive),
+      storage.getChannelsByHotelId(hotelId),
+    ]);
+    const stays: Stay[] = [];
+
+    for (const channelBooking of channelBookings) {
+      stays.push({
+        source: channelBooking.source,
+        cancelled: channelBooking.bookingStatus === "cancelled",
+        rooms: channelBooking.numberOfRooms || 1,
+        nights: stayNights(channelBooking.checkInDate, channelBooking.checkOutDate),
+        gross: parseFloat(channelBooking.totalAmount) || 0,
+        commission: parseFloat(channelBooking.channelCommission || "0") || 0,
+        bookedAt: channelBooking.createdAt,
+        arrival: channelBooking.checkInDate,
+      });
+    }
+
+    // Imported OTA reservations also have a bookings row; count them once, from channelBookings
+    const importedBookingIds = new Set(channelBookings.map(channelBooking => channelBooking.bookingId).filter(Boolean));
+    const commissionRates = new Map(channels.map(channel => [channel.channelName, channel.settings?.commissionRate ?? 0]));
+    for (const booking of bookings) {
+      if (importedBookingIds.has(booking.id)) continue;
+      const source = booking.source || "direct";
+      const rooms = booking.rooms.length || booking.numberOfRooms || 1;
+      const nights = stayNights(booking.checkInDate, booking.checkOutDate);
+      const gross = parseFloat(booking.totalAmount || "0") || (parseFloat(booking.roomRate || "0") || 0) * nights * rooms;
+      stays.push({
+        source,
+        cancelled: booking.bookingStatus === "cancelled",
+        rooms,
+        nights,
+        gross,
+        // OTA bookings entered by hand: estimate the commission from the channel's rate
+        commission: source === "direct" ? 0 : round(gross * (commissionRates.get(source) ?? 0) / 100),
+        bookedAt: booking.createdAt,
+        arrival: booking.checkInDate,
+      });
+    }
+
+    // Check-ins converted from a booking keep its arrival date and the guest's phone; the rest are walk-ins
+    const convertedBookings = new Set(
+      bookings
+        .filter(booking => booking.bookingStatus === "checked_in" || booking.bookingStatus === "checked_out")
+        .map(booking => `${booking.checkInDate.getTime()}|${booking.guestPhone}`)
+    );
+    for (const checkIn of checkIns) {
+      if (convertedBookings.has(`${checkIn.checkInDate.getTime()}|${checkIn.guest.phone}`)) continue;
+      const nights = stayNights(checkIn.checkInDate, checkIn.actualCheckOutDate || checkIn.checkOutDate);
+      stays.push({
+        source: "walk_in",
+        cancelled: false,
+        rooms: 1,
+        nights,
+        gross: (parseFloat(checkIn.roomRate) || 0) * nights,
+        commission: 0,
+        bookedAt: checkIn.createdAt,
+        arrival: checkIn.checkInDate,
+      });
+    }
+
+    const bySource = new Map<string, Accumulator>();
+    const direct = this.emptyAccumulator();
+    const otas = this.emptyAccumulator();
+    const total = this.emptyAccumulator();
+    for (const stay of stays) {
+      if (!bySource.has(stay.source)) bySource.set(stay.source, this.emptyAccumulator());
+      for (const accumulator of [bySource.get(stay.source)!, DIRECT_SOURCES.includes(stay.source) ? direct : otas, total]) {
+        this.add(accumulator, stay);
+      }
+    }
+
+    const channelNames = new Map(channels.map(channel => [channel.channelName, channel.displayName]));
+    const toRow = (source: string, label: string, isDirect: boolean, accumulator: Accumulator) =>
+      this.toPerformance(source, label, isDirect, accumulator, total);
+
+    return {
+      startDate: nightKey(startDate),
+      endDate: nightKey(endDate),
+      channels: Array.from(bySource.entries())
+        .map(([source, accumulator]) => toRow(source, channelNames.get(source) || SOURCE_LABELS[source] || source, DIRECT_SOURCES.includes(source), accumulator))
+        .sort((a, b) => b.grossRevenue - a.grossRevenue),
+      direct: toRow("direct_total", "All direct", true, direct),
+      otas: toRow("ota_total", "All OTAs", false, otas),
+      total: toRow("total", "Total", false, total),
+    };
+  }
+
+  static toCsv(report: ChannelPerformanceReport): string {
+    const columns: [keyof ChannelPerformance, string][] = [
+      ["label", "Channel"],
+      ["reservations", "Reservations"],
+      ["cancelled", "Cancelled"],
+      ["cancellationRate", "Cancellation rate %"],
+      ["roomNights", "Room nights"],
+      ["adr", "ADR"],
+      ["grossRevenue", "Gross revenue"],
+      ["commission", "Commission"],
+      ["netRevenue", "Net revenue"],
+      ["averageLeadTimeDays", "Avg lead time (days)"],
+      ["roomNightShare", "Room night share %"],
+      ["revenueShare", "Revenue share %"],
+    ];
+    const escape = (value: unknown) => {
+      const text = value === null || value === undefined ? "" : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const rows = [...report.channels, report.direct, report.otas, report.total];
+    return [
+      `Channel performance ${report.startDate} to ${report.endDate}`,
+      columns.map(([, header]) => escape(header)).join(","),
+      ...rows.map(row => columns.map(([key]) => escape(row[key])).join(",")),
+    ].join("\n") + "\n";
+  }
+
+  private static emptyAccumulator(): Accumulator {
+    return { reservations: 0, cancelled: 0, roomNights: 0, pricedRoomNights: 0, grossRevenue: 0, commission: 0, leadTimeDays: [] };
+  }
+
+  private static add(accumulator: Accumulator, stay: Stay) {
+    if (stay.cancelled) {
+      accumulator.cancelled += 1;
+      return;
+    }
+    const roomNights = stay.rooms * stay.nights;
+    accumulator.reservations += 1;
+    accumulator.roomNights += roomNights;
+    // iCal stays carry no amounts and would drag the ADR down
+    if (stay.gross > 0) accumulator.pricedRoomNights += roomNights;
+    accumulator.grossRevenue += stay.gross;
+    accumulator.commission += stay.commission;
+    if (stay.bookedAt) {
+      accumulator.leadTimeDays.push(Math.max(0, (stay.arrival.getTime() - stay.bookedAt.getTime()) / DAY_MS));
+    }
+  }
+
+  private static toPerformance(source: string, label: string, isDirect: boolean, accumulator: Accumulator, total: Accumulator): ChannelPerformance {
+    const leadTimes = accumulator.leadTimeDays;
+    return {
+      source,
+      label,
+      isDirect,
+      reservations: accumulator.reservations,
+      cancelled: accumulator.cancelled,
+      roomNights: accumulator.roomNights,
+      grossRevenue: round(accumulator.grossRevenue),
+      commission: round(accumulator.commission),
+      netRevenue: round(accumulator.grossRevenue - accumulator.commission),
+      adr: accumulator.pricedRoomNights > 0 ? round(accumulator.grossRevenue / accumulator.pricedRoomNights) : 0,
+      cancellationRate: percent(accumulator.cancelled, accumulator.reservations + accumulator.cancelled),
+      averageLeadTimeDays: leadTimes.length > 0 ? Math.round((leadTimes.reduce((sum, days) => sum + days, 0) / leadTimes.length) * 10) / 10 : null,
+      roomNightShare: percent(accumulator.roomNights, total.roomNights),
+      revenueShare: percent(accumulator.grossRevenue, total.grossRevenue),
+    };
+  }
+}
+
+export function setupChannelAnalyticsRoutes(app: Express) {
+  // Channel performance for arrivals between start and end (inclusive); format=csv downloads it
+  app.get("/api/channel-manager/analytics/report", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+
+      const start = new Date(`${req.query.start}T00:00:00.000Z`);
+      const end = new Date(`${req.query.end}T00:00:00.000Z`);
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+      if ((end.getTime() - start.getTime()) / DAY_MS >= MAX_REPORT_DAYS) {
+        return res.status(400).json({ message: `Date range cannot exceed ${MAX_REPORT_DAYS} days` });
+      }
+
+      const report = await ChannelAnalyticsService.getReport(hotelId, start, end);
+      if (req.query.format === "csv") {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="channel-performance-${report.startDate}-to-${report.endDate}.csv"`);
+        return res.send(ChannelAnalyticsService.toCsv(report));
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Error building channel performance report:", error);
+      res.status(500).json({ message: "Failed to build channel performance report" });
+    }
+  });
+}
@@ -0,0 +1,152 @@
+import { storage } from "./storage";
+import { ChannelSyncService } from "./channel-manager";
+import { nightKey } from "./availability";
+import type { Booking, ChannelBooking } from "@shared/schema";
+import type { OtaReservationUpdate } from "./services/ota-adapter";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BookingSyncResult {
+  success: boolean;
+  message: string;
+  channelBookingId: string;
+  syncLogId?: string;
+  unsupported?: boolean;
+}
+
+export interface BookingSyncStatus {
+  bookingId: string;
+  channelId: string;
+  channelName: string;
+  reservationId: string | null;
+  syncStatus: ChannelBooking["syncStatus"];
+  syncError: string | null;
+  lastSyncedAt: Date | null;
+}
+
+// Sends changes made on the bookings page to the OTA a reservation came from: cancellations,
+// confirmations (acknowledgement) and, where the OTA accepts them, modified stays. The channel
+// booking row mirrors the local booking either way, and each push is kept in channelSyncLogs.
+export class ChannelBookingSync {
+  // Call after a booking was updated. Returns null for bookings that did not come from a
+  // connected channel and for statuses the OTA has no use for (checked in / out).
+  static async propagate(booking: Booking, options: { modified?: boolean } = {}): Promise<BookingSyncResult | null> {
+    const channelBooking = await storage.getChannelBookingByBookingId(booking.id);
+    if (!channelBooking?.channelId || !channelBooking.channelBookingId) return null;
+
+    const numberOfNights = Math.max(1, Math.round((booking.checkOutDate.getTime() - booking.checkInDate.getTime()) / DAY_MS));
+    const mirrored = await storage.updateChannelBooking(channelBooking.id, {
+      bookingStatus: booking.bookingStatus,
+      guestName: booking.guestName,
+      roomType: booking.roomType || channelBooking.roomType,
+      numberOfRooms: booking.numberOfRooms ?? channelBooking.numberOfRooms,
+      checkInDate: booking.checkInDate,
+      checkOutDate: booking.checkOutDate,
+      numberOfNights,
+      roomRate: booking.roomRate || channelBooking.roomRate,
+      totalAmount: booking.totalAmount || channelBooking.totalAmount,
+      ...(options.modified ? { isModified: true, modificationNotes: `Modified by the hotel on ${new Date().toISOString()}` } : {}),
+    }) || channelBooking;
+
+    const update = await this.toReservationUpdate(mirrored, options.modified);
+    if (!update) return null;
+    return await this.push(mirrored, update);
+  }
+
+  // Push the booking's current state again, e.g. after a failed sync
+  static async resend(booking: Booking): Promise<BookingSyncResult | null> {
+    const channelBooking = await storage.getChannelBookingByBookingId(booking.id);
+    if (!channelBooking?.channelId || !channelBooking.channelBookingId) return null;
+    return await this.propagate(booking, { modified: !!channelBooking.isModified });
+  }
+
+  static async getSyncStatuses(hotelId: string): Promise<BookingSyncStatus[]> {
+    const [channelBookings, channels] = await Promise.all([
+      storage.getLinkedChannelBookings(hotelId),
+      storage.getChannelsByHotelId(hotelId),
+    ]);
+    const channelNames = new Map(channels.map(channel => [channel.id, channel.displayName]));
+
+    return channelBookings.map(channelBooking => ({
+      bookingId: channelBooking.bookingId!,
+      channelId: channelBooking.channelId!,
+      channelName: channelNames.get(channelBooking.channelId!) || channelBooking.source,
+      reservationId: channelBooking.channelBookingId,
+      syncStatus: channelBooking.syncStatus,
+      syncError: channelBooking.syncError,
+      lastSyncedAt: channelBooking.lastSyncedAt,
+    }));
+  }
+
+  private static async toReservationUpdate(channelBooking: ChannelBooking, modified?: boolean): Promise<OtaReservationUpdate | null> {
+    if (channelBooking.bookingStatus === "cancelled") {
+      return { status: "cancelled" };
+    }
+    if (channelBooking.bookingStatus !== "confirmed") {
+      return null;
+    }
+    if (!modified) {
+      return { status: "confirmed" };
+    }
+
+    // The OTA knows the room by its own id; prefer a room-level mapping
+    const mappings = (await storage.getChannelRoomMappings(channelBooking.channelId!))
+      .filter(mapping => mapping.isActive && mapping.hotelRoomType === channelBooking.roomType);
+    const mapping = mappings.find(m => !m.channelRatePlanId) || mappings[0];
+
+    return {
+      status: "modified",
+      guestName: channelBooking.guestName,
+      checkIn: nightKey(channelBooking.checkInDate),
+      checkOut: nightKey(channelBooking.checkOutDate),
+      roomType: mapping?.channelRoomTypeId,
+      numberOfRooms: channelBooking.numberOfRooms ?? 1,
+      totalAmount: parseFloat(channelBooking.totalAmount),
+    };
+  }
+
+  private static async push(channelBooking: ChannelBooking, update: OtaReservationUpdate): Promise<BookingSyncResult> {
+    const reservationId = channelBooking.channelBookingId!;
+    const syncLog = await storage.createChannelSyncLog({
+      hotelId: channelBooking.hotelId,
+      channelId: channelBooking.channelId,
+      syncType: "booking_update",
+      direction: "push",
+      status: "pending",
+      startedAt: new Date(),
+      requestPayload: { reservationId, ...update },
+    });
+
+    const channel = await storage.getOtaChannel(channelBooking.channelId!);
+    const response = channel && channel.status === "active"
+      ? await ChannelSyncService.updateChannelReservation(channel, reservationId, update)
+      : { success: false, error: "Channel is not active" };
+
+    const errorMessage = response.success ? null : (response.error || response.message || "Reservation update failed");
+    const completedAt = new Date();
+    await storage.updateChannelSyncLog(syncLog.id, {
+      status: response.success ? "success" : "failed",
+      responseData: response,
+      completedAt,
+      durationMs: completedAt.getTime() - syncLog.startedAt.getTime(),
+      recordsProcessed: 1,
+      recordsSuccessful: response.success ? 1 : 0,
+      recordsFailed: response.success ? 0 : 1,
+      errorMessage,
+    });
+
+    await storage.updateChannelBooking(channelBooking.id, {
+      syncStatus: response.success ? "success" : "failed",
+      syncError: errorMessage,
+      ...(response.success ? { lastSyncedAt: completedAt } : {}),
+    });
+
+    return {
+      success: response.success,
+      message: response.success ? `Reservation ${reservationId} ${update.status} on ${channel?.displayName}` : errorMessage!,
+      channelBookingId: channelBooking.id,
+      syncLogId: syncLog.id,
+      unsupported: "unsupported" in response ? response.unsupported : undefined,
+    };
+  }
+}
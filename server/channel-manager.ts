@@ -1,9 +1,20 @@
-import type { Express, Request, Response } from "express";
+import type { Express, Response } from "express";
 import { storage } from "./storage";
 import { authenticateToken, requireHotelOwner, checkTrialExpiration } from "./auth";
 import { z } from "zod";
-import { insertOtaChannelSchema, insertChannelRatePlanSchema, insertChannelInventorySchema, insertChannelRoomMappingSchema } from "@shared/schema";
-import { createBookingComAPI, type BookingComCredentials } from "./services/booking-com-api";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { insertOtaChannelSchema, insertChannelRatePlanSchema, insertChannelInventorySchema, insertChannelRoomMappingSchema, type OtaChannel, type ChannelRoomMapping } from "@shared/schema";
+import { getOtaAdapter, type OtaAdapter, type OtaChannelConnection, type OtaInventoryRecord, type OtaReservation, type OtaReservationUpdate, type OtaResult, type OtaRoomType } from "./services/ota-adapter";
+import { ChannelSyncOutbox } from "./channel-sync-outbox";
+import { AvailabilityService } from "./availability";
+import { ChannelReservationImporter } from "./channel-reservations";
+import { CredentialVault } from "./credential-vault";
+import { RateParityService } from "./rate-parity";
+import { ChannelRestrictionService, bulkRestrictionSchema } from "./channel-restrictions";
+import { PricingEngine } from "./pricing-engine";
+import { RatePlanService, ratePlanPreviewSchema, cloneRatePlanSchema } from "./rate-plans";
+import { SyncLogExplorer, syncLogQuerySchema } from "./sync-log-explorer";
+import { RoomTypeService } from "./room-types";
 
 // Channel sync service class
 export class ChannelSyncService {
@@ -22,15 +33,38 @@ export class ChannelSyncService {
     return this.supportedChannels;
   }
 
-  // Sync inventory to a specific channel
-  static async syncInventoryToChannel(channelId: string, inventoryData: any[]) {
+  // Translate inventory records to the OTA's room types and rate plans. A hotel room type can
+  // be sold as several OTA rooms / rate plans; room types without an active mapping are not sent.
+  // Our rate plan ids mean nothing to the OTA, so a mapping without an OTA rate plan sends none
+  // and the OTA applies the room's default plan.
+  static toOtaRecords(inventoryData: any[], mappings: ChannelRoomMapping[]) {
+    const activeMappings = mappings.filter(mapping => mapping.isActive);
+    const unmappedRoomTypes = new Set<string>();
+    const records = inventoryData.flatMap(({ ratePlanId, ...record }) => {
+      const matches = activeMappings.filter(mapping => mapping.hotelRoomType === record.roomType);
+      if (matches.length === 0) unmappedRoomTypes.add(record.roomType);
+      return matches.map(mapping => ({
+        ...record,
+        roomType: mapping.channelRoomTypeId,
+        ...(mapping.channelRatePlanId ? { ratePlanId: mapping.channelRatePlanId } : {}),
+      }));
+    });
+    return { records, unmappedRoomTypes: Array.from(unmappedRoomTypes) };
+  }
+
+  // Sync inventory to a specific channel. Failed pushes are queued in the outbox for retry,
+  // unless this call already is an outbox retry (the caller records that attempt itself).
+  static async syncInventoryToChannel(channelId: string, inventoryData: any[], options: { isRetry?: boolean } = {}): Promise<OtaResult & { recordsUpdated?: number; syncLogId?: string }> {
     try {
       const channel = await storage.getOtaChannel(channelId);
       if (!channel || channel.status !== "active") {
         throw new Error("Channel not active or not found");
       }
 
-      // Log sync attempt
+      // Mapping is resolved at send time, so retries pick up mapping changes
+      const { records, unmappedRoomTypes } = this.toOtaRecords(inventoryData, await storage.getChannelRoomMappings(channelId));
+
+      // Log sync attempt with the payload as the OTA receives it
       const syncLog = await storage.createChannelSyncLog({
         hotelId: channel.hotelId,
         channelId: channelId,
@@ -38,209 +72,270 @@ export class ChannelSyncService {
         direction: "push",
         status: "pending",
         startedAt: new Date(),
-        requestPayload: inventoryData,
+        requestPayload: records,
       });
 
-      // Make real API call to OTA (now includes Booking.com integration)
-      const response = await this.makeOtaApiCall(channel, {
-        type: "inventory_update",
-        propertyId: channel.propertyId,
-        data: inventoryData,
-      });
+      // Nothing can be sent until the room types are mapped; retrying would not help either
+      if (records.length === 0) {
+        const error = `No room mapping for ${unmappedRoomTypes.join(", ") || "any room type"} - map the channel's rooms first`;
+        const completedAt = new Date();
+        await storage.updateChannelSyncLog(syncLog.id, {
+          status: "failed",
+          completedAt,
+          durationMs: completedAt.getTime() - syncLog.startedAt.getTime(),
+          recordsProcessed: inventoryData.length,
+          recordsFailed: inventoryData.length,
+          errorMessage: error,
+        });
+        return { success: false, error, syncLogId: syncLog.id };
+      }
+
+      const response = await this.callOtaAdapter(channel, (adapter, connection) => adapter.pushRatesAndAvailability(connection, records));
 
       // Update sync log
+      const completedAt = new Date();
       await storage.updateChannelSyncLog(syncLog.id, {
-        status: response.success ? "success" : "failed",
-        responseData: response,
-        completedAt: new Date(),
-        recordsProcessed: inventoryData.length,
-        recordsSuccessful: response.success ? inventoryData.length : 0,
-        recordsFailed: response.success ? 0 : inventoryData.length,
-        errorMessage: response.error || null,
+        status: !response.success ? "failed" : unmappedRoomTypes.length > 0 ? "partial" : "success",
+        responseData: unmappedRoomTypes.length > 0 ? { ...response, unmappedRoomTypes } : response,
+        completedAt,
+        durationMs: completedAt.getTime() - syncLog.startedAt.getTime(),
+        recordsProcessed: records.length,
+        recordsSuccessful: response.success ? records.length : 0,
+        recordsFailed: response.success ? 0 : records.length,
+        errorMessage: response.success ? null : (response.error || response.message || null),
       });
 
-      return response;
+      if (response.success) {
+        await ChannelSyncOutbox.supersede(channelId, "inventory", inventoryData);
+      } else if (!options.isRetry) {
+        await ChannelSyncOutbox.enqueue(channel, "inventory", inventoryData, response, syncLog.id);
+      }
+
+      return { ...response, syncLogId: syncLog.id };
     } catch (error) {
       console.error("Channel sync error:", error);
       throw error;
     }
   }
 
-  // Real OTA API call - now uses actual Booking.com API for booking_com channels
-  private static async makeOtaApiCall(channel: any, payload: any): Promise<any> {
-    try {
-      // Handle Booking.com integration with real API
-      if (channel.channelName === 'booking_com') {
-        return await this.callBookingComAPI(channel, payload);
-      }
-      
-      // For other channels, fall back to mock for now
-      return await this.mockOtaApiCall(channel.apiEndpoint, payload);
-    } catch (error) {
-      console.error(`API call failed for ${channel.channelName}:`, error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown API error'
-      };
-    }
+  // Fetch reservations arriving between startDate and endDate (YYYY-MM-DD) from a channel
+  static async fetchChannelReservations(channel: OtaChannel, startDate: string, endDate: string): Promise<OtaResult & { reservations: OtaReservation[] }> {
+    const response = await this.callOtaAdapter(channel, (adapter, connection) => adapter.fetchReservations(connection, startDate, endDate));
+    return { ...response, reservations: "reservations" in response ? response.reservations : [] };
   }
 
-  // Real Booking.com API integration
-  private static async callBookingComAPI(channel: any, payload: any): Promise<any> {
-    try {
-      // Handle both testing (with apiCredentials object) and stored channel data
-      const apiCredentials = channel.apiCredentials || {};
-      const credentials: BookingComCredentials = {
-        username: apiCredentials.username || '',
-        password: apiCredentials.password || '',
-        propertyId: channel.propertyId,
-      };
+  // Tell the OTA a reservation has been imported, so it stops redelivering it
+  static async acknowledgeReservation(channel: OtaChannel, reservationId: string): Promise<OtaResult> {
+    return await this.callOtaAdapter(channel, (adapter, connection) => adapter.ackReservation(connection, reservationId));
+  }
 
-      const bookingAPI = createBookingComAPI(credentials);
-
-      if (payload.type === 'connection_test') {
-        return await bookingAPI.testConnection();
-      } else if (payload.type === 'inventory_update') {
-        // Convert our internal format to Booking.com format
-        const roomRates = payload.data.map((item: any) => ({
-          roomTypeId: item.roomTypeId,
-          ratePlanId: item.ratePlanId || 'default',
-          date: item.date,
-          rate: item.rate,
-          availability: item.availability,
-          minStay: item.minStay,
-          maxStay: item.maxStay,
-          closedToArrival: item.closedToArrival || false,
-          closedToDeparture: item.closedToDeparture || false,
-        }));
-
-        return await bookingAPI.updateRatesAndAvailability(roomRates);
-      } else if (payload.type === 'fetch_reservations') {
-        const result = await bookingAPI.fetchReservations(payload.startDate, payload.endDate);
-        return {
-          success: result.success,
-          data: result.reservations,
-          message: result.message
-        };
-      }
-
-      return { success: false, error: 'Unknown payload type' };
-    } catch (error) {
-      console.error('Booking.com API call failed:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Booking.com API error'
-      };
-    }
+  // Send already mapped inventory records as they are, without logging or queueing a retry
+  static async sendInventoryRecords(channel: OtaChannel, records: OtaInventoryRecord[]): Promise<OtaResult & { recordsUpdated?: number }> {
+    return await this.callOtaAdapter(channel, (adapter, connection) => adapter.pushRatesAndAvailability(connection, records));
   }
 
-  // Mock OTA API call (for non-Booking.com channels)
-  private static async mockOtaApiCall(endpoint: string, payload: any): Promise<any> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Mock successful response (90% success rate)
-    const success = Math.random() > 0.1;
-    
-    if (success) {
-      return {
-        success: true,
-        message: "Inventory updated successfully",
-        timestamp: new Date().toISOString(),
-        recordsUpdated: payload.data?.length || 0,
+  // Send a confirmation, cancellation or modification made on our side to the OTA
+  static async updateChannelReservation(channel: OtaChannel, reservationId: string, update: OtaReservationUpdate): Promise<OtaResult & { unsupported?: boolean }> {
+    return await this.callOtaAdapter(channel, (adapter, connection) => adapter.updateReservation(connection, reservationId, update));
+  }
+
+  // Room types and rate plans configured on the OTA side
+  static async fetchChannelRoomTypes(channel: OtaChannelConnection): Promise<OtaResult & { roomTypes: OtaRoomType[] }> {
+    const response = await this.callOtaAdapter(channel, (adapter, connection) => adapter.getRoomTypes(connection));
+    return { ...response, roomTypes: "roomTypes" in response ? response.roomTypes : [] };
+  }
+
+  static generateWebhookSecret(): string {
+    return randomBytes(32).toString("hex");
+  }
+
+  // Inbound webhooks are signed with HMAC-SHA256 of the raw request body using the channel's secret
+  static verifyWebhookSignature(secret: string, body: Buffer | string, signature: string): boolean {
+    const expected = Buffer.from(createHmac("sha256", secret).update(body).digest("hex"));
+    const received = Buffer.from(signature);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  // Run an operation against the channel's registered OTA adapter. Stored credentials are only
+  // decrypted here, for the duration of the call. Connector errors are returned as failed
+  // results so callers can log them and queue retries.
+  private static async callOtaAdapter<T extends OtaResult>(
+    channel: OtaChannelConnection & Partial<Pick<OtaChannel, "encryptedCredentials">>,
+    operation: (adapter: OtaAdapter, connection: OtaChannelConnection) => Promise<T>
+  ): Promise<T | OtaResult> {
+    const adapter = getOtaAdapter(channel);
+    if (!adapter) {
+      return { success: false, error: `No connector available for ${channel.channelName}` };
+    }
+
+    try {
+      const connection: OtaChannelConnection = {
+        channelName: channel.channelName,
+        propertyId: channel.propertyId,
+        apiEndpoint: channel.apiEndpoint,
+        apiCredentials: CredentialVault.credentialsOf(channel),
       };
-    } else {
+      return await operation(adapter, connection);
+    } catch (error) {
+      console.error(`API call failed for ${channel.channelName}:`, error);
       return {
         success: false,
-        error: "OTA API temporarily unavailable",
-        errorCode: "TEMP_UNAVAILABLE",
-        retryAfter: 300, // 5 minutes
+        error: error instanceof Error ? error.message : 'Unknown API error'
       };
     }
   }
 
   // Test channel connection
-  static async testChannelConnection(channelData: any): Promise<{ success: boolean; message: string }> {
-    try {
-      console.log('Testing channel connection for:', channelData.channelName);
-      
-      if (channelData.channelName === 'booking_com') {
-        // Handle different possible data structures
-        const apiCredentials = channelData.apiCredentials || {};
-        
-        const credentials: BookingComCredentials = {
-          username: apiCredentials.username || '',
-          password: apiCredentials.password || '',
-          propertyId: channelData.propertyId || '',
-        };
-        
-        // Validate that all required credentials are present
-        if (!credentials.username || !credentials.password || !credentials.propertyId) {
-          return {
-            success: false,
-            message: `Missing required credentials: ${!credentials.username ? 'username ' : ''}${!credentials.password ? 'password ' : ''}${!credentials.propertyId ? 'property ID' : ''}`
-          };
-        }
+  static async testChannelConnection(channelData: OtaChannelConnection): Promise<{ success: boolean; message: string }> {
+    console.log('Testing channel connection for:', channelData.channelName);
+    const result = await this.callOtaAdapter(channelData, (adapter, connection) => adapter.testConnection(connection));
+    return {
+      success: result.success,
+      message: result.message || result.error || (result.success ? 'Connection successful' : 'Connection test failed'),
+    };
+  }
 
-        const bookingAPI = createBookingComAPI(credentials);
-        const result = await bookingAPI.testConnection();
-        
-        return result;
-      }
-      
-      // For other channels, return success for now
-      return { success: true, message: 'Connection test not implemented for this channel' };
-    } catch (error) {
-      console.error('Channel connection test failed:', error);
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : 'Connection test failed'
-      };
-    }
+
+  // Inventory rows are keyed by calendar night, stored as UTC midnight
+  static toInventoryDate(date: Date): Date {
+    return new Date(`${date.toISOString().split('T')[0]}T00:00:00.000Z`);
   }
 
-  // Generate inventory data for date range
-  static async generateInventoryForDateRange(hotelId: string, startDate: Date, endDate: Date) {
-    const rooms = await storage.getRoomsByHotelId(hotelId);
-    const channels = await storage.getActiveChannelsByHotelId(hotelId);
+  // Generate inventory data for date range. Rate plans are loaded once per channel.
+  static async generateInventoryForDateRange(hotelId: string, startDate: Date, endDate: Date, channelId?: string) {
+    const channels = (await storage.getActiveChannelsByHotelId(hotelId))
+      .filter(channel => !channelId || channel.id === channelId);
+    
+    if (channels.length === 0) return [];
     
     const inventoryUpdates = [];
-    const currentDate = new Date(startDate);
+    const hotel = await storage.getHotel(hotelId);
+
+    const firstDate = this.toInventoryDate(startDate);
+    const lastDate = this.toInventoryDate(endDate);
+    const dayAfterLast = new Date(lastDate.getTime() + 24 * 60 * 60 * 1000);
+    // endDate is inclusive here, the availability engine takes an exclusive end
+    const availability = await AvailabilityService.getAvailability(hotelId, firstDate, dayAfterLast);
+    const availabilityBySlot = new Map(availability.map(slot => [`${slot.date}|${slot.roomType}`, slot]));
+    const roomTypes = Array.from(new Set(availability.map(slot => slot.roomType)));
+    const restrictions = ChannelRestrictionService.index(await storage.getChannelRestrictions(hotelId, firstDate, lastDate));
+    const pricing = await PricingEngine.loadContext(hotelId, firstDate, dayAfterLast, { hotel, availability });
+    // Dynamic direct rate per night and room type, shared by every channel's parity check
+    const directRates = new Map<string, number>();
     
-    while (currentDate <= endDate) {
-      for (const channel of channels) {
-        for (const roomType of ["standard", "deluxe", "suite"] as const) {
-          const roomsOfType = rooms.filter(r => r.type === roomType);
+    for (const channel of channels) {
+      const ratePlans = await storage.getChannelRatePlansByChannelId(channel.id);
+      const ratePlanByRoomType = new Map(
+        ratePlans.filter(plan => plan.isActive).map(plan => [plan.roomType, plan])
+      );
+      
+      const currentDate = new Date(firstDate);
+      while (currentDate <= lastDate) {
+        const night = currentDate.toISOString().split('T')[0];
+        for (const roomType of roomTypes) {
+          const slot = availabilityBySlot.get(`${night}|${roomType}`);
+          const ratePlan = ratePlanByRoomType.get(roomType);
           
-          if (roomsOfType.length > 0) {
-            const ratePlan = await storage.getChannelRatePlanByChannelAndRoomType(channel.id, roomType);
-            
-            if (ratePlan) {
-              inventoryUpdates.push({
-                channelId: channel.id,
-                ratePlanId: ratePlan.id,
-                roomType,
-                date: new Date(currentDate),
-                totalRooms: roomsOfType.length,
-                availableRooms: Math.max(0, roomsOfType.length - (channel.settings.inventoryBuffer || 0)),
-                sellRate: this.calculateDynamicRate(ratePlan, currentDate),
-              });
+          if (slot && slot.totalRooms > 0 && ratePlan) {
+            const restriction = ChannelRestrictionService.resolve(restrictions, channel.id, night, roomType, ratePlan);
+            const slotKey = `${night}|${roomType}`;
+            if (hotel && !directRates.has(slotKey)) {
+              directRates.set(slotKey, PricingEngine.priceNight(pricing, roomType, currentDate, PricingEngine.directBaseRate(pricing, roomType, currentDate).rate).rate);
             }
+            const directRate = directRates.get(slotKey);
+            inventoryUpdates.push({
+              channelId: channel.id,
+              ratePlanId: ratePlan.id,
+              roomType,
+              date: new Date(currentDate),
+              totalRooms: slot.totalRooms,
+              // Stop-sell is sent as zero availability, which every OTA understands
+              availableRooms: restriction.stopSell ? 0 : Math.max(0, slot.available - (channel.settings?.inventoryBuffer || 0)),
+              sellRate: RateParityService.paritySellRate(channel, directRate, PricingEngine.priceNight(pricing, roomType, currentDate, this.calculateDynamicRate(ratePlan, currentDate)).rate),
+              closedToArrival: restriction.closedToArrival,
+              closedToDeparture: restriction.closedToDeparture,
+              minimumStay: restriction.minimumStay,
+              maximumStay: restriction.maximumStay,
+            });
           }
         }
+        currentDate.setUTCDate(currentDate.getUTCDate() + 1);
       }
-      currentDate.setDate(currentDate.getDate() + 1);
     }
     
     return inventoryUpdates;
   }
 
-  // Calculate dynamic pricing based on date and rate plan
-  private static calculateDynamicRate(ratePlan: any, date: Date): number {
+  // Recompute stored inventory for the given nights. Only rows whose values changed are flagged
+  // dirty, so the next push sends just those nights. Never throws: callers are booking, check-in
+  // and room flows that must not fail because channel bookkeeping did.
+  static async markInventoryDirty(hotelId: string, startDate: Date, endDate: Date, options: { channelId?: string; force?: boolean } = {}) {
+    try {
+      const inventory = await this.generateInventoryForDateRange(hotelId, startDate, endDate, options.channelId);
+      await storage.upsertChannelInventory(
+        inventory.map(record => ({ ...record, sellRate: record.sellRate.toString() })),
+        { forceDirty: options.force },
+      );
+    } catch (error) {
+      console.error(`Failed to mark channel inventory dirty for hotel ${hotelId}:`, error);
+    }
+  }
+
+  // Extend stored inventory so it always covers today + daysAhead; new nights start dirty
+  static async ensureInventoryHorizon(channel: { id: string; hotelId: string }, daysAhead: number) {
+    const today = this.toInventoryDate(new Date());
+    const horizon = new Date(today);
+    horizon.setUTCDate(horizon.getUTCDate() + daysAhead);
+
+    const latest = await storage.getLatestChannelInventoryDate(channel.id);
+    const start = latest && latest >= today ? new Date(latest.getTime() + 24 * 60 * 60 * 1000) : today;
+    if (start <= horizon) {
+      await this.markInventoryDirty(channel.hotelId, start, horizon, { channelId: channel.id });
+    }
+  }
+
+  // Push only the nights that changed since the last successful push
+  static async pushDirtyInventory(channelId: string) {
+    // Read from the database, whose clock stamps updatedAt, so app clock skew can't clear rows
+    // that were re-dirtied during the push
+    const pushStartedAt = await storage.getDatabaseTime();
+    const dirtyRows = await storage.getDirtyChannelInventory(channelId, this.toInventoryDate(pushStartedAt));
+    if (dirtyRows.length === 0) {
+      return { success: true, message: "Inventory already up to date", recordsUpdated: 0 };
+    }
+
+    const payload = dirtyRows.map(row => ({
+      id: row.id,
+      channelId: row.channelId,
+      ratePlanId: row.ratePlanId,
+      roomType: row.roomType,
+      date: row.date.toISOString().split('T')[0],
+      totalRooms: row.totalRooms,
+      availableRooms: row.availableRooms,
+      sellRate: parseFloat(row.sellRate),
+      closedToArrival: row.closedToArrival,
+      closedToDeparture: row.closedToDeparture,
+      minimumStay: row.minimumStay,
+      maximumStay: row.maximumStay,
+    }));
+
+    const result = await this.syncInventoryToChannel(channelId, payload);
+    // Failed rows are handed to the outbox, so they are no longer dirty either way
+    await storage.markChannelInventorySynced(
+      dirtyRows.map(row => row.id),
+      result.success ? "success" : "failed",
+      { errorMessage: result.success ? null : (result.error || result.message), clearDirtyBefore: pushStartedAt },
+    );
+
+    return result;
+  }
+
+  // Calculate dynamic pricing based on date (a UTC midnight night) and rate plan
+  static calculateDynamicRate(ratePlan: any, date: Date): number {
     let baseRate = parseFloat(ratePlan.baseRate);
     
     // Weekend surcharge (Friday, Saturday)
-    const dayOfWeek = date.getDay();
+    const dayOfWeek = date.getUTCDay();
     if (dayOfWeek === 5 || dayOfWeek === 6) {
       baseRate += parseFloat(ratePlan.weekendSurcharge || "0");
     }
@@ -262,20 +357,22 @@ export class ChannelSyncService {
     return Math.round(baseRate * 100) / 100; // Round to 2 decimal places
   }
 
-  // Bulk sync all channels for a hotel
-  static async syncAllChannels(hotelId: string) {
+  // Bulk sync all channels for a hotel. Only changed nights are pushed unless full is set.
+  static async syncAllChannels(hotelId: string, options: { full?: boolean } = {}) {
     const channels = await storage.getActiveChannelsByHotelId(hotelId);
-    const startDate = new Date();
-    const endDate = new Date();
-    endDate.setDate(endDate.getDate() + 365); // 1 year ahead
     
-    const inventoryData = await this.generateInventoryForDateRange(hotelId, startDate, endDate);
+    if (options.full) {
+      const startDate = new Date();
+      const endDate = new Date();
+      endDate.setDate(endDate.getDate() + 365); // 1 year ahead
+      await this.markInventoryDirty(hotelId, startDate, endDate, { force: true });
+    }
     
     const results = [];
     for (const channel of channels) {
-      if (channel.settings.autoSync) {
-        const channelInventory = inventoryData.filter(inv => inv.channelId === channel.id);
-        const result = await this.syncInventoryToChannel(channel.id, channelInventory);
+      if (channel.settings?.autoSync) {
+        await this.ensureInventoryHorizon(channel, 365);
+        const result = await this.pushDirtyInventory(channel.id);
         results.push({ channelId: channel.id, result });
       }
     }
@@ -284,6 +381,44 @@ export class ChannelSyncService {
   }
 }
 
+const channelCredentialsSchema = z.object({
+  username: z.string().default(""),
+  password: z.string().default(""),
+  apiKey: z.string().optional(),
+}).transform(({ apiKey, ...credentials }) => (apiKey ? { ...credentials, apiKey } : credentials));
+
+const channelMappingInputSchema = insertChannelRoomMappingSchema.omit({ channelId: true }).extend({
+  amenities: z.array(z.string()).optional(),
+});
+const channelMappingUpdateSchema = channelMappingInputSchema.partial();
+
+const ratePlanUpdateSchema = insertChannelRatePlanSchema.partial();
+
+// Error message for room types the hotel has not defined, null when all are known
+async function unknownRoomTypeMessage(hotelId: string, codes: (string | null | undefined)[]): Promise<string | null> {
+  const unknown = await RoomTypeService.unknownCodes(hotelId, codes.filter((code): code is string => !!code));
+  return unknown.length > 0 ? `Unknown room type: ${unknown.join(", ")}` : null;
+}
+
+// Regenerate the channel's inventory after its rate plans changed; changed nights go out on the next push
+async function repushRatePlanInventory(channel: OtaChannel) {
+  const horizon = new Date();
+  horizon.setDate(horizon.getDate() + 365);
+  await ChannelSyncService.markInventoryDirty(channel.hotelId, new Date(), horizon, { channelId: channel.id });
+}
+
+// Mapping changes don't touch the stored inventory, so force a full re-push of the horizon
+async function repushMappedInventory(channel: OtaChannel) {
+  const horizon = new Date();
+  horizon.setDate(horizon.getDate() + (channel.settings?.advanceBookingDays || 365));
+  await ChannelSyncService.markInventoryDirty(channel.hotelId, new Date(), horizon, { channelId: channel.id, force: true });
+}
+
+// Postgres unique_violation on channel_room_mapping_ota_unique
+function isDuplicateMapping(error: unknown): boolean {
+  return (error as any)?.code === "23505";
+}
+
 export function setupChannelManagerRoutes(app: Express) {
   // Get supported OTA channels
   app.get("/api/channel-manager/supported-channels", authenticateToken, checkTrialExpiration, async (req: any, res: Response) => {
@@ -305,7 +440,7 @@ export function setupChannelManagerRoutes(app: Express) {
       }
 
       const channels = await storage.getChannelsByHotelId(hotelId);
-      res.json(channels);
+      res.json(channels.map(channel => CredentialVault.toPublicChannel(channel)));
     } catch (error) {
       console.error("Error fetching channels:", error);
       res.status(500).json({ message: "Failed to fetch channels" });
@@ -320,13 +455,14 @@ export function setupChannelManagerRoutes(app: Express) {
         return res.status(400).json({ message: "Hotel ID required" });
       }
 
-      console.log('Received channel data:', JSON.stringify(req.body, null, 2));
+      const { apiCredentials: _credentials, ...loggableData } = req.body;
+      console.log('Received channel data:', JSON.stringify(loggableData, null, 2));
       
       // Parse the channel data but be flexible with the structure
       const channelData = { ...req.body, hotelId };
       
-      // Test connection before creating channel
-      if (channelData.channelName === 'booking_com') {
+      // Test connection before creating channel, for every OTA we have a connector for
+      if (getOtaAdapter(channelData)) {
         const testResult = await ChannelSyncService.testChannelConnection(channelData);
         if (!testResult.success) {
           return res.status(400).json({ 
@@ -343,15 +479,16 @@ export function setupChannelManagerRoutes(app: Express) {
         displayName: channelData.displayName,
         propertyId: channelData.propertyId,
         apiEndpoint: channelData.apiEndpoint,
-        apiKey: channelData.apiCredentials?.apiKey || '',  // Map to existing field for now
+        ...(channelData.apiCredentials ? CredentialVault.toStoredCredentials(channelCredentialsSchema.parse(channelData.apiCredentials)) : {}),
         settings: channelData.settings || {},
         status: channelData.status || "testing",
         description: channelData.description || '',
+        webhookSecret: ChannelSyncService.generateWebhookSecret(),
       };
       
       const channel = await storage.createOtaChannel(dbChannelData);
       
-      res.status(201).json(channel);
+      res.status(201).json(CredentialVault.toPublicChannel(channel));
     } catch (error) {
       console.error("Error creating channel:", error);
       if (error instanceof z.ZodError) {
@@ -365,16 +502,55 @@ export function setupChannelManagerRoutes(app: Express) {
   app.put("/api/channel-manager/channels/:channelId", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
     try {
       const { channelId } = req.params;
-      const updates = req.body;
+      const hotelId = req.headers['x-hotel-id'];
+      const existing = await storage.getOtaChannel(channelId);
+      if (!existing || (hotelId && existing.hotelId !== hotelId)) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+
+      // Credentials and secrets only change through their own endpoints
+      const { apiCredentials, encryptedCredentials, credentialsKeyId, credentialsUpdatedAt, webhookSecret, hotelId: _hotelId, id, ...updates } = req.body;
       
       const channel = await storage.updateOtaChannel(channelId, updates);
-      res.json(channel);
+      res.json(CredentialVault.toPublicChannel(channel));
     } catch (error) {
       console.error("Error updating channel:", error);
       res.status(500).json({ message: "Failed to update channel" });
     }
   });
 
+  // Replace a channel's OTA credentials. Stored values are never sent back, so the owner always
+  // enters the complete set; it is tested against the OTA before it is saved.
+  app.put("/api/channel-manager/channels/:channelId/credentials", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      const channel = await storage.getOtaChannel(req.params.channelId);
+      if (!channel || (hotelId && channel.hotelId !== hotelId)) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+
+      const credentials = channelCredentialsSchema.parse(req.body.apiCredentials ?? req.body);
+      const propertyId = req.body.propertyId ?? channel.propertyId;
+
+      const connection = { channelName: channel.channelName, propertyId, apiEndpoint: channel.apiEndpoint, apiCredentials: credentials };
+      if (getOtaAdapter(connection)) {
+        const testResult = await ChannelSyncService.testChannelConnection(connection);
+        if (!testResult.success) {
+          return res.status(400).json({ message: "Connection test failed", error: testResult.message });
+        }
+      }
+
+      const updated = await storage.updateOtaChannel(channel.id, { propertyId, ...CredentialVault.toStoredCredentials(credentials) });
+      res.json(CredentialVault.toPublicChannel(updated));
+    } catch (error) {
+      console.error("Error replacing channel credentials:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to replace channel credentials" });
+    }
+  });
+
   // Delete channel
   app.delete("/api/channel-manager/channels/:channelId", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
     try {
@@ -400,11 +576,23 @@ export function setupChannelManagerRoutes(app: Express) {
   });
 
   // Create rate plan
-  app.post("/api/channel-manager/channels/:channelId/rate-plans", authenticateToken, checkTrialExpiration, async (req: any, res: Response) => {
+  app.post("/api/channel-manager/channels/:channelId/rate-plans", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
     try {
       const { channelId } = req.params;
+      const hotelId = req.headers['x-hotel-id'];
+      const channel = await storage.getOtaChannel(channelId);
+      if (!channel || (hotelId && channel.hotelId !== hotelId)) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+
       const ratePlanData = insertChannelRatePlanSchema.parse({ ...req.body, channelId });
+      const roomTypeError = await unknownRoomTypeMessage(channel.hotelId, [ratePlanData.roomType]);
+      if (roomTypeError) {
+        return res.status(400).json({ message: roomTypeError });
+      }
       const ratePlan = await storage.createChannelRatePlan(ratePlanData);
+      await repushRatePlanInventory(channel);
+      
       res.status(201).json(ratePlan);
     } catch (error) {
       console.error("Error creating rate plan:", error);
@@ -415,6 +603,240 @@ export function setupChannelManagerRoutes(app: Express) {
     }
   });
 
+  // Update rate plan
+  app.put("/api/channel-manager/channels/:channelId/rate-plans/:ratePlanId", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      const channel = await storage.getOtaChannel(req.params.channelId);
+      const existing = await storage.getChannelRatePlan(req.params.ratePlanId);
+      if (!channel || (hotelId && channel.hotelId !== hotelId) || !existing || existing.channelId !== channel.id) {
+        return res.status(404).json({ message: "Rate plan not found" });
+      }
+
+      // A plan stays on its channel; cloning copies it elsewhere
+      const { channelId: _channelId, ...updates } = ratePlanUpdateSchema.parse(req.body);
+      const roomTypeError = await unknownRoomTypeMessage(channel.hotelId, [updates.roomType]);
+      if (roomTypeError) {
+        return res.status(400).json({ message: roomTypeError });
+      }
+      const ratePlan = await storage.updateChannelRatePlan(existing.id, updates);
+      await repushRatePlanInventory(channel);
+      res.json(ratePlan);
+    } catch (error) {
+      console.error("Error updating rate plan:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update rate plan" });
+    }
+  });
+
+  // Delete rate plan. Its stored inventory goes with it; another active plan for the room type
+  // takes over on the next push.
+  app.delete("/api/channel-manager/channels/:channelId/rate-plans/:ratePlanId", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      const channel = await storage.getOtaChannel(req.params.channelId);
+      const existing = await storage.getChannelRatePlan(req.params.ratePlanId);
+      if (!channel || (hotelId && channel.hotelId !== hotelId) || !existing || existing.channelId !== channel.id) {
+        return res.status(404).json({ message: "Rate plan not found" });
+      }
+
+      await storage.deleteChannelRatePlan(existing.id);
+      await repushRatePlanInventory(channel);
+      res.json({ message: "Rate plan deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting rate plan:", error);
+      res.status(500).json({ message: "Failed to delete rate plan" });
+    }
+  });
+
+  // Clone a rate plan to other channels of the hotel
+  app.post("/api/channel-manager/channels/:channelId/rate-plans/:ratePlanId/clone", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      const channel = await storage.getOtaChannel(req.params.channelId);
+      const ratePlan = await storage.getChannelRatePlan(req.params.ratePlanId);
+      if (!channel || (hotelId && channel.hotelId !== hotelId) || !ratePlan || ratePlan.channelId !== channel.id) {
+        return res.status(404).json({ message: "Rate plan not found" });
+      }
+
+      const result = await RatePlanService.clonePlan(ratePlan, channel.hotelId, cloneRatePlanSchema.parse(req.body));
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.status(201).json(result);
+    } catch (error) {
+      console.error("Error cloning rate plan:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to clone rate plan" });
+    }
+  });
+
+  // Nightly rates a rate plan produces, for the editor preview. Works on unsaved plans.
+  app.post("/api/channel-manager/rate-plans/preview", authenticateToken, checkTrialExpiration, async (req: any, res: Response) => {
+    try {
+      const { ratePlan, startDate, nights } = ratePlanPreviewSchema.parse(req.body);
+      res.json({ nights: RatePlanService.previewRates({ weekendSurcharge: null, discountPercentage: null, seasonalRates: null, ...ratePlan }, startDate, nights) });
+    } catch (error) {
+      console.error("Error previewing rate plan:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to preview rate plan" });
+    }
+  });
+
+  // Discover the OTA's room types and rate plans for the mapping wizard, with the current mappings
+  app.get("/api/channel-manager/channels/:channelId/ota-room-types", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      const channel = await storage.getOtaChannel(req.params.channelId);
+      if (!channel || (hotelId && channel.hotelId !== hotelId)) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+
+      const [discovery, mappings] = await Promise.all([
+        ChannelSyncService.fetchChannelRoomTypes(channel),
+        storage.getChannelRoomMappings(channel.id),
+      ]);
+      if (!discovery.success) {
+        return res.status(502).json({ message: "Failed to fetch room types from the channel", error: discovery.error || discovery.message, mappings });
+      }
+      res.json({ roomTypes: discovery.roomTypes, mappings });
+    } catch (error) {
+      console.error("Error discovering channel room types:", error);
+      res.status(500).json({ message: "Failed to discover channel room types" });
+    }
+  });
+
+  // Get channel room mappings
+  app.get("/api/channel-manager/channels/:channelId/mappings", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      const channel = await storage.getOtaChannel(req.params.channelId);
+      if (!channel || (hotelId && channel.hotelId !== hotelId)) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+
+      res.json(await storage.getChannelRoomMappings(channel.id));
+    } catch (error) {
+      console.error("Error fetching room mappings:", error);
+      res.status(500).json({ message: "Failed to fetch room mappings" });
+    }
+  });
+
+  // Create a room mapping
+  app.post("/api/channel-manager/channels/:channelId/mappings", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      const channel = await storage.getOtaChannel(req.params.channelId);
+      if (!channel || (hotelId && channel.hotelId !== hotelId)) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+
+      const mappingData = channelMappingInputSchema.parse(req.body);
+      const roomTypeError = await unknownRoomTypeMessage(channel.hotelId, [mappingData.hotelRoomType]);
+      if (roomTypeError) {
+        return res.status(400).json({ message: roomTypeError });
+      }
+      const mapping = await storage.createChannelRoomMapping({ ...mappingData, channelId: channel.id });
+      await repushMappedInventory(channel);
+      res.status(201).json(mapping);
+    } catch (error) {
+      console.error("Error creating room mapping:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (isDuplicateMapping(error)) {
+        return res.status(409).json({ message: "This OTA room and rate plan is already mapped" });
+      }
+      res.status(500).json({ message: "Failed to create room mapping" });
+    }
+  });
+
+  // Replace all room mappings of a channel (used by the mapping wizard)
+  app.put("/api/channel-manager/channels/:channelId/mappings", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      const channel = await storage.getOtaChannel(req.params.channelId);
+      if (!channel || (hotelId && channel.hotelId !== hotelId)) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+
+      const mappingsData = z.array(channelMappingInputSchema).parse(req.body.mappings ?? req.body);
+      const otaKeys = mappingsData.map(mapping => `${mapping.channelRoomTypeId}|${mapping.channelRatePlanId ?? ""}`);
+      if (new Set(otaKeys).size !== otaKeys.length) {
+        return res.status(400).json({ message: "Each OTA room and rate plan can only be mapped once" });
+      }
+      const roomTypeError = await unknownRoomTypeMessage(channel.hotelId, mappingsData.map(mapping => mapping.hotelRoomType));
+      if (roomTypeError) {
+        return res.status(400).json({ message: roomTypeError });
+      }
+
+      const mappings = await storage.replaceChannelRoomMappings(channel.id, mappingsData.map(mapping => ({ ...mapping, channelId: channel.id })));
+      await repushMappedInventory(channel);
+      res.json(mappings);
+    } catch (error) {
+      console.error("Error replacing room mappings:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save room mappings" });
+    }
+  });
+
+  // Update a room mapping
+  app.put("/api/channel-manager/channels/:channelId/mappings/:mappingId", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      const channel = await storage.getOtaChannel(req.params.channelId);
+      const existing = await storage.getChannelRoomMapping(req.params.mappingId);
+      if (!channel || (hotelId && channel.hotelId !== hotelId) || !existing || existing.channelId !== channel.id) {
+        return res.status(404).json({ message: "Room mapping not found" });
+      }
+
+      const updates = channelMappingUpdateSchema.parse(req.body);
+      const roomTypeError = await unknownRoomTypeMessage(channel.hotelId, [updates.hotelRoomType]);
+      if (roomTypeError) {
+        return res.status(400).json({ message: roomTypeError });
+      }
+      const mapping = await storage.updateChannelRoomMapping(existing.id, updates);
+      await repushMappedInventory(channel);
+      res.json(mapping);
+    } catch (error) {
+      console.error("Error updating room mapping:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (isDuplicateMapping(error)) {
+        return res.status(409).json({ message: "This OTA room and rate plan is already mapped" });
+      }
+      res.status(500).json({ message: "Failed to update room mapping" });
+    }
+  });
+
+  // Delete a room mapping
+  app.delete("/api/channel-manager/channels/:channelId/mappings/:mappingId", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      const channel = await storage.getOtaChannel(req.params.channelId);
+      const existing = await storage.getChannelRoomMapping(req.params.mappingId);
+      if (!channel || (hotelId && channel.hotelId !== hotelId) || !existing || existing.channelId !== channel.id) {
+        return res.status(404).json({ message: "Room mapping not found" });
+      }
+
+      await storage.deleteChannelRoomMapping(existing.id);
+      await repushMappedInventory(channel);
+      res.json({ message: "Room mapping deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting room mapping:", error);
+      res.status(500).json({ message: "Failed to delete room mapping" });
+    }
+  });
+
   // Update inventory and sync to all channels
   app.post("/api/channel-manager/sync-inventory", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
     try {
@@ -427,7 +849,7 @@ export function setupChannelManagerRoutes(app: Express) {
       const start = startDate ? new Date(startDate) : new Date();
       const end = endDate ? new Date(endDate) : new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 days ahead
 
-      const results = await ChannelSyncService.syncAllChannels(hotelId);
+      const results = await ChannelSyncService.syncAllChannels(hotelId, { full: !!req.body.full });
       
       res.json({
         message: "Inventory sync initiated",
@@ -440,7 +862,7 @@ export function setupChannelManagerRoutes(app: Express) {
     }
   });
 
-  // Get sync logs
+  // Search sync logs by channel, type, direction, status and date; payloads are left out
   app.get("/api/channel-manager/sync-logs", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
     try {
       const hotelId = req.headers['x-hotel-id'];
@@ -448,16 +870,116 @@ export function setupChannelManagerRoutes(app: Express) {
         return res.status(400).json({ message: "Hotel ID required" });
       }
 
-      const { limit = 50, offset = 0 } = req.query;
-      const logs = await storage.getChannelSyncLogs(hotelId, parseInt(limit as string), parseInt(offset as string));
-      
-      res.json(logs);
+      const query = syncLogQuerySchema.parse(req.query);
+      const [{ logs, total }, channels] = await Promise.all([
+        storage.getChannelSyncLogs(hotelId, SyncLogExplorer.toFilters(query)),
+        storage.getChannelsByHotelId(hotelId),
+      ]);
+      const channelNames = new Map(channels.map(channel => [channel.id, channel.displayName]));
+
+      res.json({
+        logs: logs.map(log => ({
+          ...log,
+          channelName: log.channelId ? channelNames.get(log.channelId) || null : null,
+          // Listing has no payloads; a stored payload is assumed and checked on replay
+          replayable: SyncLogExplorer.isReplayable({ ...log, requestPayload: true }),
+        })),
+        total,
+        limit: query.limit,
+        offset: query.offset,
+      });
     } catch (error) {
       console.error("Error fetching sync logs:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch sync logs" });
     }
   });
 
+  // One sync with its request and response payloads and the records that failed
+  app.get("/api/channel-manager/sync-logs/:id", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      const log = await storage.getChannelSyncLog(req.params.id);
+      if (!log || log.hotelId !== hotelId) {
+        return res.status(404).json({ message: "Sync log not found" });
+      }
+
+      const channel = log.channelId ? await storage.getOtaChannel(log.channelId) : undefined;
+      res.json({
+        ...log,
+        channelName: channel?.displayName || null,
+        failures: SyncLogExplorer.recordFailures(log),
+        replayable: SyncLogExplorer.isReplayable(log),
+      });
+    } catch (error) {
+      console.error("Error fetching sync log:", error);
+      res.status(500).json({ message: "Failed to fetch sync log" });
+    }
+  });
+
+  // Send a logged sync's stored payload to the channel again
+  app.post("/api/channel-manager/sync-logs/:id/replay", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      const log = await storage.getChannelSyncLog(req.params.id);
+      if (!log || log.hotelId !== hotelId) {
+        return res.status(404).json({ message: "Sync log not found" });
+      }
+
+      const result = await SyncLogExplorer.replay(log);
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      console.error("Error replaying sync:", error);
+      res.status(500).json({ message: "Failed to replay sync" });
+    }
+  });
+
+  // Get queued channel updates awaiting retry (or dead-lettered)
+  app.get("/api/channel-manager/outbox", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+
+      const { channelId, status, limit = 50, offset = 0 } = req.query;
+      const items = await storage.getOutboxItems(hotelId, {
+        channelId: channelId as string,
+        status: status as string,
+        limit: parseInt(limit as string),
+        offset: parseInt(offset as string),
+      });
+
+      // Payloads can hold a year of inventory; the list only needs their size
+      res.json(items.map(({ payload, ...item }) => ({ ...item, recordCount: payload.length })));
+    } catch (error) {
+      console.error("Error fetching sync outbox:", error);
+      res.status(500).json({ message: "Failed to fetch sync outbox" });
+    }
+  });
+
+  // Retry a failed or dead-lettered channel update now
+  app.post("/api/channel-manager/outbox/:id/retry", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      const item = await storage.getOutboxItem(req.params.id);
+      if (!item || item.hotelId !== hotelId) {
+        return res.status(404).json({ message: "Outbox item not found" });
+      }
+      if (item.status === "succeeded" || item.status === "processing") {
+        return res.status(400).json({ message: `Item is already ${item.status}` });
+      }
+
+      const requeued = await ChannelSyncOutbox.requeue(item);
+      res.json({ message: "Update queued for retry", id: requeued.id, status: requeued.status });
+    } catch (error) {
+      console.error("Error requeueing outbox item:", error);
+      res.status(500).json({ message: "Failed to retry channel update" });
+    }
+  });
+
   // Get channel bookings
   app.get("/api/channel-manager/bookings", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
     try {
@@ -495,16 +1017,15 @@ export function setupChannelManagerRoutes(app: Express) {
         return res.status(404).json({ message: "Channel not found" });
       }
       
-      const inventoryData = await ChannelSyncService.generateInventoryForDateRange(channel.hotelId, start, end);
-      const channelInventory = inventoryData.filter(inv => inv.channelId === channelId);
-      
-      const result = await ChannelSyncService.syncInventoryToChannel(channelId, channelInventory);
+      // Re-send the requested window even if nothing changed, along with any other pending nights
+      await ChannelSyncService.markInventoryDirty(channel.hotelId, start, end, { channelId, force: true });
+      const result = await ChannelSyncService.pushDirtyInventory(channelId);
       
       res.json({
         message: "Channel sync completed",
         channelName: channel.displayName,
         result,
-        recordsSynced: channelInventory.length,
+        recordsSynced: result.recordsUpdated ?? 0,
       });
     } catch (error) {
       console.error("Error syncing channel:", error);
@@ -512,6 +1033,189 @@ export function setupChannelManagerRoutes(app: Express) {
     }
   });
 
+  // Import new, modified and cancelled reservations from a channel
+  app.post("/api/channel-manager/channels/:channelId/pull-reservations", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const { channelId } = req.params;
+      const hotelId = req.headers['x-hotel-id'];
+      
+      const channel = await storage.getOtaChannel(channelId);
+      if (!channel || (hotelId && channel.hotelId !== hotelId)) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+      if (channel.status !== "active") {
+        return res.status(400).json({ message: "Channel is not active" });
+      }
+
+      const summary = await ChannelReservationImporter.pullReservations(channelId);
+      res.status(summary.success ? 200 : 502).json(summary);
+    } catch (error) {
+      console.error("Error importing channel reservations:", error);
+      res.status(500).json({ message: "Failed to import reservations" });
+    }
+  });
+
+  // Webhook URL and shared secret to configure on the OTA extranet
+  app.get("/api/channel-manager/channels/:channelId/webhook", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      let channel = await storage.getOtaChannel(req.params.channelId);
+      if (!channel || (hotelId && channel.hotelId !== hotelId)) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+
+      // Channels created before webhooks existed get their secret on first request
+      if (!channel.webhookSecret) {
+        channel = await storage.updateOtaChannel(channel.id, { webhookSecret: ChannelSyncService.generateWebhookSecret() });
+      }
+
+      res.json({
+        webhookUrl: `${req.protocol}://${req.get('host')}/api/channel-manager/webhooks/${channel.id}`,
+        signatureHeader: "x-channel-signature",
+        secret: channel.webhookSecret,
+      });
+    } catch (error) {
+      console.error("Error fetching channel webhook:", error);
+      res.status(500).json({ message: "Failed to fetch webhook configuration" });
+    }
+  });
+
+  // Rotate the webhook secret; the OTA must be updated with the new value
+  app.post("/api/channel-manager/channels/:channelId/webhook/rotate", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      const channel = await storage.getOtaChannel(req.params.channelId);
+      if (!channel || (hotelId && channel.hotelId !== hotelId)) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+
+      const updated = await storage.updateOtaChannel(channel.id, { webhookSecret: ChannelSyncService.generateWebhookSecret() });
+      res.json({ secret: updated.webhookSecret });
+    } catch (error) {
+      console.error("Error rotating channel webhook secret:", error);
+      res.status(500).json({ message: "Failed to rotate webhook secret" });
+    }
+  });
+
+  // Inbound reservation notifications pushed by the OTA. Authenticated by the channel's shared
+  // secret instead of a user session.
+  app.post("/api/channel-manager/webhooks/:channelId", async (req: any, res: Response) => {
+    try {
+      const signature = req.headers['x-channel-signature'] as string;
+      if (!signature) {
+        return res.status(401).json({ message: "Missing signature" });
+      }
+
+      const channel = await storage.getOtaChannel(req.params.channelId);
+      if (!channel || !channel.webhookSecret) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+
+      // Signed over the bytes the OTA sent; re-serialising req.body can reorder keys or change escaping
+      if (!req.rawBody || !ChannelSyncService.verifyWebhookSignature(channel.webhookSecret, req.rawBody, signature)) {
+        console.log(`Channel webhook: invalid signature for channel ${channel.id}`);
+        return res.status(401).json({ message: "Invalid signature" });
+      }
+
+      if (channel.status !== "active" || !channel.isActive) {
+        return res.status(409).json({ message: "Channel is not active" });
+      }
+
+      const summary = await ChannelReservationImporter.importWebhookPayload(channel, req.body);
+      res.status(summary.success ? 200 : 400).json(summary);
+    } catch (error) {
+      console.error("Error processing channel webhook:", error);
+      res.status(500).json({ message: "Failed to process webhook" });
+    }
+  });
+
+  // Restrictions stored for a date range (both inclusive), hotel-wide and per channel
+  app.get("/api/channel-manager/restrictions", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+
+      const start = new Date(`${req.query.start}T00:00:00.000Z`);
+      const end = new Date(`${req.query.end}T00:00:00.000Z`);
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+
+      res.json(await storage.getChannelRestrictions(hotelId, start, end));
+    } catch (error) {
+      console.error("Error fetching restrictions:", error);
+      res.status(500).json({ message: "Failed to fetch restrictions" });
+    }
+  });
+
+  // Apply restrictions to room types over a date range, optionally per channel and weekday.
+  // Affected nights are regenerated and pushed with the next sync.
+  app.post("/api/channel-manager/restrictions/bulk", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+
+      const request = bulkRestrictionSchema.parse(req.body);
+      const result = await ChannelRestrictionService.applyBulk(hotelId, request);
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      console.error("Error applying restrictions:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to apply restrictions" });
+    }
+  });
+
+  // Rate parity report: channel sell rates that drift from the direct rate beyond tolerance
+  app.get("/api/channel-manager/rate-parity", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+
+      const start = req.query.start ? new Date(req.query.start as string) : new Date();
+      const end = req.query.end ? new Date(req.query.end as string) : new Date(start.getTime() + 30 * 24 * 60 * 60 * 1000);
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+
+      res.json(await RateParityService.checkParity(hotelId, start, end));
+    } catch (error) {
+      console.error("Error checking rate parity:", error);
+      res.status(500).json({ message: "Failed to check rate parity" });
+    }
+  });
+
+  // Re-push the direct rate for flagged nights of auto-correcting channels
+  app.post("/api/channel-manager/rate-parity/correct", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+
+      const start = req.body.start ? new Date(req.body.start) : new Date();
+      const end = req.body.end ? new Date(req.body.end) : new Date(start.getTime() + 365 * 24 * 60 * 60 * 1000);
+      const channels = (await storage.getActiveChannelsByHotelId(hotelId))
+        .filter(channel => !req.body.channelId || channel.id === req.body.channelId);
+
+      const results = [];
+      for (const channel of channels) {
+        results.push({ channelId: channel.id, channelName: channel.displayName, ...await RateParityService.correctChannel(channel, start, end) });
+      }
+      res.json({ results, corrected: results.reduce((sum, result) => sum + result.corrected, 0) });
+    } catch (error) {
+      console.error("Error correcting rate parity:", error);
+      res.status(500).json({ message: "Failed to correct rate parity" });
+    }
+  });
+
   // Get channel analytics
   app.get("/api/channel-manager/analytics", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
     try {
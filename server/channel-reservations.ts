@@ -0,0 +1,336 @@
+import { storage } from "./storage";
+import { ChannelSyncService } from "./channel-manager";
+import { OverbookingDetector } from "./overbooking";
+import type { RoomTypeName } from "./availability";
+import type { OtaChannel, ChannelBooking, ChannelRoomMapping } from "@shared/schema";
+import type { OtaReservation } from "./services/ota-adapter";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_PULL_DAYS_AHEAD = 365;
+
+export type ReservationImportOutcome = "created" | "updated" | "cancelled" | "unchanged" | "skipped";
+
+export interface ReservationImportResult {
+  reservationId: string;
+  outcome: ReservationImportOutcome;
+  channelBookingId?: string;
+  bookingId?: string | null;
+  error?: string;
+}
+
+export interface ReservationPullSummary {
+  success: boolean;
+  message: string;
+  syncLogId?: string;
+  results: ReservationImportResult[];
+}
+
+function isCancelled(status: string | undefined): boolean {
+  return ["cancelled", "canceled", "cancel"].includes((status || "").toLowerCase());
+}
+
+// Imports OTA reservations into channelBookings and the bookings table, so they show up on
+// the bookings page and calendar and count against availability. Safe to run repeatedly:
+// reservations are matched on (channel, channelBookingId) and only written when they changed.
+export class ChannelReservationImporter {
+  // Resolve an OTA room type (and rate plan, when the OTA sends one) through the channel's room
+  // mapping. A mapping for the specific rate plan wins over a room-level mapping.
+  static resolveRoomType(otaRoomType: string, mappings: ChannelRoomMapping[], otaRatePlanId?: string): RoomTypeName | undefined {
+    const candidates = mappings.filter(m =>
+      m.isActive && (m.channelRoomTypeId === otaRoomType || m.channelRoomTypeName.toLowerCase() === otaRoomType.toLowerCase())
+    );
+    const mapping = (otaRatePlanId && candidates.find(m => m.channelRatePlanId === otaRatePlanId))
+      || candidates.find(m => !m.channelRatePlanId)
+      || candidates[0];
+    return mapping?.hotelRoomType;
+  }
+
+  // Fetch reservations for a channel and import them, logging the pull in channelSyncLogs
+  static async pullReservations(channelId: string, options: { daysAhead?: number } = {}): Promise<ReservationPullSummary> {
+    const channel = await storage.getOtaChannel(channelId);
+    if (!channel || channel.status !== "active") {
+      throw new Error("Channel not active or not found");
+    }
+
+    // Include stays that started yesterday so late modifications to arrivals are picked up
+    const start = new Date(Date.now() - DAY_MS).toISOString().split('T')[0];
+    const daysAhead = options.daysAhead || channel.settings?.advanceBookingDays || DEFAULT_PULL_DAYS_AHEAD;
+    const end = new Date(Date.now() + daysAhead * DAY_MS).toISOString().split('T')[0];
+
+    const syncLog = await storage.createChannelSyncLog({
+      hotelId: channel.hotelId,
+      channelId: channel.id,
+      syncType: "booking_import",
+      direction: "pull",
+      status: "pending",
+      startedAt: new Date(),
+      requestPayload: { startDate: start, endDate: end },
+    });
+
+    const response = await ChannelSyncService.fetchChannelReservations(channel, start, end);
+    if (!response.success) {
+      const completedAt = new Date();
+      const errorMessage = response.error || response.message || "Reservation fetch failed";
+      await storage.updateChannelSyncLog(syncLog.id, {
+        status: "failed",
+        responseData: response,
+        completedAt,
+        durationMs: completedAt.getTime() - syncLog.startedAt.getTime(),
+        errorMessage,
+      });
+      return { success: false, message: errorMessage, syncLogId: syncLog.id, results: [] };
+    }
+
+    const results = await this.importReservations(channel, response.reservations);
+    const failed = results.filter(result => result.outcome === "skipped").length;
+
+    // Acknowledge what we stored so the OTA stops returning it; skipped ones stay in the feed
+    for (const result of results) {
+      if (result.outcome === "skipped") continue;
+      const ack = await ChannelSyncService.acknowledgeReservation(channel, result.reservationId);
+      if (!ack.success) {
+        console.error(`Failed to acknowledge reservation ${result.reservationId} on channel ${channel.id}:`, ack.error || ack.message);
+      }
+    }
+
+    const completedAt = new Date();
+    await storage.updateChannelSyncLog(syncLog.id, {
+      status: failed === 0 ? "success" : failed === results.length ? "failed" : "partial",
+      responseData: { reservations: response.reservations, results },
+      completedAt,
+      durationMs: completedAt.getTime() - syncLog.startedAt.getTime(),
+      recordsProcessed: results.length,
+      recordsSuccessful: results.length - failed,
+      recordsFailed: failed,
+      errorMessage: failed > 0 ? `${failed} reservation(s) could not be imported` : null,
+    });
+
+    return {
+      success: true,
+      message: `Processed ${results.length} reservation(s)`,
+      syncLogId: syncLog.id,
+      results,
+    };
+  }
+
+  // Process a reservation notification pushed by the OTA. Accepts a single message
+  // ({ type, reservation }) or a batch ({ reservations: [...] }); the raw payload is kept in
+  // channelSyncLogs. Redelivered messages resolve to "unchanged" and write nothing.
+  static async importWebhookPayload(channel: OtaChannel, payload: any): Promise<ReservationPullSummary> {
+    const startedAt = new Date();
+    const messages: any[] = Array.isArray(payload?.reservations)
+      ? payload.reservations
+      : payload?.reservation ? [{ ...payload.reservation, type: payload.type ?? payload.reservation.type }] : [];
+
+    const reservations: OtaReservation[] = messages.map(message => {
+      const type = (message.type || "").toString().toLowerCase();
+      // "reservation.cancelled" / "cancel" events may omit the status field
+      return type.includes("cancel") ? { ...message, status: "cancelled" } : message;
+    });
+
+    const results = reservations.length > 0 ? await this.importReservations(channel, reservations) : [];
+    const failed = results.filter(result => result.outcome === "skipped").length;
+
+    const completedAt = new Date();
+    const syncLog = await storage.createChannelSyncLog({
+      hotelId: channel.hotelId,
+      channelId: channel.id,
+      syncType: "booking_webhook",
+      direction: "pull",
+      status: reservations.length === 0 || failed === results.length ? "failed" : failed > 0 ? "partial" : "success",
+      requestPayload: payload,
+      responseData: { results },
+      errorMessage: reservations.length === 0
+        ? "Payload contained no reservations"
+        : failed > 0 ? `${failed} reservation(s) could not be imported` : null,
+      recordsProcessed: results.length,
+      recordsSuccessful: results.length - failed,
+      recordsFailed: failed,
+      startedAt,
+      completedAt,
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+    });
+
+    return {
+      success: reservations.length > 0,
+      message: reservations.length > 0 ? `Processed ${results.length} reservation(s)` : "Payload contained no reservations",
+      syncLogId: syncLog.id,
+      results,
+    };
+  }
+
+  static async importReservations(channel: OtaChannel, reservations: OtaReservation[]): Promise<ReservationImportResult[]> {
+    const mappings = await storage.getChannelRoomMappings(channel.id);
+    const results: ReservationImportResult[] = [];
+
+    for (const reservation of reservations) {
+      try {
+        results.push(await this.importReservation(channel, reservation, mappings));
+      } catch (error) {
+        console.error(`Failed to import reservation ${reservation?.reservationId} from channel ${channel.id}:`, error);
+        results.push({
+          reservationId: reservation?.reservationId,
+          outcome: "skipped",
+          error: error instanceof Error ? error.message : "Import failed",
+        });
+      }
+    }
+
+    return results;
+  }
+
+  static async importReservation(channel: OtaChannel, reservation: OtaReservation, mappings?: ChannelRoomMapping[]): Promise<ReservationImportResult> {
+    const reservationId = reservation.reservationId?.toString();
+    if (!reservationId) {
+      return { reservationId: "", outcome: "skipped", error: "Reservation has no reservationId" };
+    }
+
+    const roomType = this.resolveRoomType(reservation.roomType || "", mappings || await storage.getChannelRoomMappings(channel.id), reservation.ratePlanId);
+    if (!roomType) {
+      return { reservationId, outcome: "skipped", error: `No room mapping for OTA room type "${reservation.roomType}"` };
+    }
+
+    const checkInDate = new Date(reservation.checkIn);
+    const checkOutDate = new Date(reservation.checkOut);
+    if (isNaN(checkInDate.getTime()) || isNaN(checkOutDate.getTime()) || checkOutDate <= checkInDate) {
+      return { reservationId, outcome: "skipped", error: "Invalid stay dates" };
+    }
+
+    const numberOfRooms = reservation.numberOfRooms || 1;
+    const numberOfNights = Math.max(1, Math.round((checkOutDate.getTime() - checkInDate.getTime()) / DAY_MS));
+    const totalAmount = Number(reservation.totalAmount) || 0;
+    const roomRate = reservation.roomRate ?? totalAmount / (numberOfNights * numberOfRooms);
+    const commissionRate = channel.settings?.commissionRate ?? 0;
+    const commission = Math.round(totalAmount * commissionRate) / 100;
+    const cancelled = isCancelled(reservation.status);
+
+    const values = {
+      guestName: reservation.guestName || "OTA Guest",
+      guestPhone: reservation.guestPhone || null,
+      guestEmail: reservation.guestEmail || null,
+      guestNationality: reservation.guestNationality || null,
+      roomType,
+      numberOfRooms,
+      numberOfAdults: reservation.numberOfAdults || 1,
+      numberOfChildren: reservation.numberOfChildren || 0,
+      checkInDate,
+      checkOutDate,
+      numberOfNights,
+      roomRate: roomRate.toFixed(2),
+      totalAmount: totalAmount.toFixed(2),
+      channelCommission: commission.toFixed(2),
+      netRate: (totalAmount - commission).toFixed(2),
+      bookingStatus: cancelled ? "cancelled" : "confirmed",
+      cancellationPolicy: reservation.cancellationPolicy || null,
+      specialRequests: reservation.specialRequests || null,
+    };
+
+    const existing = await storage.getChannelBookingByReference(channel.id, reservationId);
+    if (!existing) {
+      // Claim the reservation before creating its booking, so a webhook and a pull delivering it
+      // at the same time can't both add a booking that takes rooms off sale
+      const claimed = await storage.createChannelBookingIfNew({
+        ...values,
+        hotelId: channel.hotelId,
+        channelId: channel.id,
+        channelBookingId: reservationId,
+        source: channel.channelName as ChannelBooking["source"],
+        syncStatus: "success",
+      });
+      if (!claimed) {
+        const winner = await storage.getChannelBookingByReference(channel.id, reservationId);
+        return { reservationId, outcome: "unchanged", channelBookingId: winner?.id, bookingId: winner?.bookingId };
+      }
+      const booking = await this.upsertBookingRow(channel, undefined, values);
+      const channelBooking = await storage.updateChannelBooking(claimed.id, { bookingId: booking.id, lastSyncedAt: new Date() }) || claimed;
+      await ChannelSyncService.markInventoryDirty(channel.hotelId, checkInDate, checkOutDate);
+      if (!cancelled) {
+        await OverbookingDetector.check(channel.hotelId, checkInDate, checkOutDate, `channel_booking:${channelBooking.id}`);
+      }
+      return { reservationId, outcome: cancelled ? "cancelled" : "created", channelBookingId: channelBooking.id, bookingId: booking.id };
+    }
+
+    // A claim whose booking was never created (the import died in between) still needs one
+    const missingBooking = !existing.bookingId;
+    const changed =
+      missingBooking ||
+      existing.bookingStatus !== values.bookingStatus ||
+      existing.roomType !== values.roomType ||
+      existing.numberOfRooms !== values.numberOfRooms ||
+      existing.checkInDate.getTime() !== checkInDate.getTime() ||
+      existing.checkOutDate.getTime() !== checkOutDate.getTime() ||
+      existing.totalAmount !== values.totalAmount ||
+      existing.guestName !== values.guestName;
+
+    if (!changed) {
+      await storage.updateChannelBooking(existing.id, { lastSyncedAt: new Date() });
+      return { reservationId, outcome: "unchanged", channelBookingId: existing.id, bookingId: existing.bookingId };
+    }
+
+    const booking = await this.upsertBookingRow(channel, existing.bookingId, values);
+    await storage.updateChannelBooking(existing.id, {
+      ...values,
+      bookingId: booking.id,
+      isModified: missingBooking ? existing.isModified : !cancelled,
+      modificationNotes: cancelled || missingBooking ? existing.modificationNotes : `Modified by ${channel.displayName} on ${new Date().toISOString()}`,
+      lastSyncedAt: new Date(),
+      syncStatus: "success",
+    });
+
+    // Both the old and the new stay nights may have changed availability
+    const from = new Date(Math.min(existing.checkInDate.getTime(), checkInDate.getTime()));
+    const to = new Date(Math.max(existing.checkOutDate.getTime(), checkOutDate.getTime()));
+    await ChannelSyncService.markInventoryDirty(channel.hotelId, from, to);
+    if (missingBooking && !cancelled) {
+      await OverbookingDetector.check(channel.hotelId, checkInDate, checkOutDate, `channel_booking:${existing.id}`);
+    }
+
+    return { reservationId, outcome: cancelled ? "cancelled" : missingBooking ? "created" : "updated", channelBookingId: existing.id, bookingId: booking.id };
+  }
+
+  // Create or update the bookings row that represents an OTA reservation
+  private static async upsertBookingRow(channel: OtaChannel, bookingId: string | null | undefined, values: {
+    guestName: string;
+    guestPhone: string | null;
+    guestEmail: string | null;
+    roomType: RoomTypeName;
+    numberOfRooms: number;
+    checkInDate: Date;
+    checkOutDate: Date;
+    roomRate: string;
+    totalAmount: string;
+    bookingStatus: string;
+    specialRequests: string | null;
+  }) {
+    const bookingValues = {
+      guestName: values.guestName,
+      guestPhone: values.guestPhone || "",
+      guestEmail: values.guestEmail,
+      roomType: values.roomType,
+      numberOfRooms: values.numberOfRooms,
+      checkInDate: values.checkInDate,
+      checkOutDate: values.checkOutDate,
+      roomRate: values.roomRate,
+      totalAmount: values.totalAmount,
+      specialRequests: values.specialRequests,
+      bookingStatus: values.bookingStatus,
+    };
+
+    if (bookingId) {
+      const current = await storage.getBooking(bookingId);
+      // Never reopen a booking the front desk already converted to a check-in
+      const bookingStatus = current?.bookingStatus === "checked_in" || current?.bookingStatus === "checked_out"
+        ? current.bookingStatus
+        : bookingValues.bookingStatus;
+      const updated = await storage.updateBooking(bookingId, { ...bookingValues, bookingStatus, updatedAt: new Date() });
+      if (updated) return updated;
+    }
+
+    return await storage.createBooking({
+      ...bookingValues,
+      hotelId: channel.hotelId,
+      source: channel.channelName as ChannelBooking["source"],
+      advanceAmount: "0.00",
+    });
+  }
+}
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { storage, type RestrictionField } from "./storage";
+import { ChannelSyncService } from "./channel-manager";
+import { nightKey } from "./availability";
+import { RoomTypeService } from "./room-types";
+import type { ChannelRestriction, InsertChannelRestriction } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 366;
+
+// Undefined leaves a restriction unchanged, null clears it
+export const bulkRestrictionSchema = z.object({
+  roomTypes: z.array(z.string().min(1)).min(1),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // inclusive
+  channelIds: z.array(z.string()).optional(), // omitted: every channel
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(), // 0 = Sunday; omitted: every day
+  restrictions: z.object({
+    stopSell: z.boolean().nullable().optional(),
+    closedToArrival: z.boolean().nullable().optional(),
+    closedToDeparture: z.boolean().nullable().optional(),
+    minimumStay: z.number().int().min(1).max(365).nullable().optional(),
+    maximumStay: z.number().int().min(1).max(365).nullable().optional(),
+  }),
+}).refine(request => request.startDate <= request.endDate, { message: "endDate must not be before startDate", path: ["endDate"] })
+  .refine(request => !request.restrictions.minimumStay || !request.restrictions.maximumStay || request.restrictions.minimumStay <= request.restrictions.maximumStay, {
+    message: "minimumStay cannot exceed maximumStay",
+    path: ["restrictions", "minimumStay"],
+  });
+
+export type BulkRestrictionRequest = z.infer<typeof bulkRestrictionSchema>;
+
+export interface EffectiveRestrictions {
+  stopSell: boolean;
+  closedToArrival: boolean;
+  closedToDeparture: boolean;
+  minimumStay: number | null;
+  maximumStay: number | null;
+}
+
+// Stop-sell, closed to arrival/departure and min/max stay per room type and night. Stored in
+// channelRestrictions and merged into channelInventory whenever inventory is generated, so the
+// values survive regeneration and go out with the next push.
+export class ChannelRestrictionService {
+  // Index restriction rows by channel ("*" for hotel-wide), night and room type
+  static index(restrictions: ChannelRestriction[]): Map<string, ChannelRestriction> {
+    return new Map(restrictions.map(row => [`${row.channelId || "*"}|${nightKey(row.date)}|${row.roomType}`, row]));
+  }
+
+  // Rate plan defaults, overridden by hotel-wide restrictions, overridden by channel restrictions
+  static resolve(
+    index: Map<string, ChannelRestriction>,
+    channelId: string,
+    night: string,
+    roomType: string,
+    defaults: { minimumStay?: number | null; maximumStay?: number | null },
+  ): EffectiveRestrictions {
+    const effective: EffectiveRestrictions = {
+      stopSell: false,
+      closedToArrival: false,
+      closedToDeparture: false,
+      minimumStay: defaults.minimumStay ?? null,
+      maximumStay: defaults.maximumStay ?? null,
+    };
+
+    for (const scope of ["*", channelId]) {
+      const row = index.get(`${scope}|${night}|${roomType}`);
+      if (!row) continue;
+      if (row.stopSell !== null) effective.stopSell = row.stopSell;
+      if (row.closedToArrival !== null) effective.closedToArrival = row.closedToArrival;
+      if (row.closedToDeparture !== null) effective.closedToDeparture = row.closedToDeparture;
+      if (row.minimumStay !== null) effective.minimumStay = row.minimumStay;
+      if (row.maximumStay !== null) effective.maximumStay = row.maximumStay;
+    }
+    return effective;
+  }
+
+  static async applyBulk(hotelId: string, request: BulkRestrictionRequest) {
+    const fields = (Object.keys(request.restrictions) as RestrictionField[])
+      .filter(field => request.restrictions[field] !== undefined);
+    if (fields.length === 0) {
+      return { success: false, message: "No restrictions to apply" };
+    }
+
+    const channels = await storage.getChannelsByHotelId(hotelId);
+    const channelIds = request.channelIds?.length ? request.channelIds : [null];
+    const unknown = channelIds.filter(channelId => channelId && !channels.some(channel => channel.id === channelId));
+    if (unknown.length > 0) {
+      return { success: false, message: `Unknown channel: ${unknown.join(", ")}` };
+    }
+    const unknownRoomTypes = await RoomTypeService.unknownCodes(hotelId, request.roomTypes);
+    if (unknownRoomTypes.length > 0) {
+      return { success: false, message: `Unknown room type: ${unknownRoomTypes.join(", ")}` };
+    }
+
+    const start = new Date(`${request.startDate}T00:00:00.000Z`);
+    const end = new Date(`${request.endDate}T00:00:00.000Z`);
+    if ((end.getTime() - start.getTime()) / DAY_MS >= MAX_RANGE_DAYS) {
+      return { success: false, message: `Date range cannot exceed ${MAX_RANGE_DAYS} days` };
+    }
+
+    const records: InsertChannelRestriction[] = [];
+    for (let night = start; night <= end; night = new Date(night.getTime() + DAY_MS)) {
+      if (request.daysOfWeek?.length && !request.daysOfWeek.includes(night.getUTCDay())) continue;
+      for (const roomType of request.roomTypes) {
+        for (const channelId of channelIds) {
+          records.push({ hotelId, channelId, roomType, date: night, ...request.restrictions });
+        }
+      }
+    }
+
+    await storage.upsertChannelRestrictions(records, fields);
+    if (records.length > 0) {
+      await ChannelSyncService.markInventoryDirty(hotelId, start, end);
+    }
+    return { success: true, message: `Restrictions updated for ${records.length} nights`, nightsUpdated: records.length, fields };
+  }
+}
@@ -0,0 +1,158 @@
+import { storage } from "./storage";
+import type { OtaChannel, ChannelSyncOutboxItem } from "@shared/schema";
+
+const BASE_RETRY_DELAY_MS = 60 * 1000; // first retry after a minute
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000; // never wait more than 6 hours between attempts
+const DEFAULT_MAX_ATTEMPTS = parseInt(process.env.CHANNEL_SYNC_MAX_ATTEMPTS || "", 10) || 8;
+
+export interface OtaFailure {
+  error?: string;
+  message?: string;
+  retryAfter?: number; // seconds, as returned by the OTA
+}
+
+// Durable retry queue for channel pushes that failed. Failed payloads are stored per channel
+// and sync type, retried with exponential backoff (or the OTA's retryAfter hint, whichever is
+// longer) and moved to dead_letter once maxAttempts is reached.
+export class ChannelSyncOutbox {
+  static computeRetryDelayMs(attempts: number, retryAfterSeconds?: number): number {
+    const backoff = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)));
+    const hint = retryAfterSeconds && retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : 0;
+    return Math.max(backoff, hint);
+  }
+
+  // Identifies one room type / rate plan / night within an inventory payload
+  private static recordKey(record: any): string {
+    const date = new Date(record.date).toISOString().split("T")[0];
+    return `${record.ratePlanId}|${record.roomType}|${date}`;
+  }
+
+  // Merge newer records over older ones so a retry always sends the latest value per night
+  private static mergePayload(existing: any[], incoming: any[]): any[] {
+    const merged = new Map<string, any>();
+    for (const record of [...existing, ...incoming]) {
+      merged.set(this.recordKey(record), record);
+    }
+    return Array.from(merged.values());
+  }
+
+  // Queue a failed push. Consecutive failures for the same channel collapse into one open item,
+  // including one that is being retried right now (recordAttempt keeps what that retry didn't send).
+  static async enqueue(channel: OtaChannel, syncType: string, payload: any[], failure: OtaFailure, syncLogId?: string) {
+    const lastError = failure.error || failure.message || "Channel push failed";
+    const nextAttemptAt = new Date(Date.now() + this.computeRetryDelayMs(1, failure.retryAfter));
+
+    const open = await storage.getOpenOutboxItem(channel.id, syncType);
+    if (open) {
+      return await storage.updateOutboxItem(open.id, {
+        payload: this.mergePayload(open.payload, payload),
+        lastError,
+        lastSyncLogId: syncLogId || open.lastSyncLogId,
+        // Never pull an already scheduled retry forward past an OTA retryAfter hint; a processing
+        // item's nextAttemptAt is its lease and is set again when the attempt is recorded
+        nextAttemptAt: open.status === "pending" && nextAttemptAt > open.nextAttemptAt ? nextAttemptAt : open.nextAttemptAt,
+      });
+    }
+
+    return await storage.createOutboxItem({
+      hotelId: channel.hotelId,
+      channelId: channel.id,
+      syncType,
+      payload,
+      status: "pending",
+      attempts: 0,
+      maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      nextAttemptAt,
+      lastError,
+      lastSyncLogId: syncLogId || null,
+    });
+  }
+
+  // A later push delivered these records, so stale copies must not be re-sent by a retry
+  static async supersede(channelId: string, syncType: string, payload: any[]) {
+    const open = await storage.getOpenOutboxItem(channelId, syncType);
+    if (!open) return;
+
+    const delivered = new Set(payload.map(record => this.recordKey(record)));
+    const remaining = open.payload.filter(record => !delivered.has(this.recordKey(record)));
+
+    if (remaining.length === 0) {
+      await storage.updateOutboxItem(open.id, { status: "succeeded", payload: [] });
+    } else if (remaining.length !== open.payload.length) {
+      await storage.updateOutboxItem(open.id, { payload: remaining });
+    }
+  }
+
+  // Record the outcome of a retry attempt on a claimed item. enqueue and supersede may have
+  // changed its payload while the attempt was in flight, so the stored item is read again.
+  static async recordAttempt(item: ChannelSyncOutboxItem, response: any, syncLogId?: string) {
+    const attempts = item.attempts + 1;
+    const current = await storage.getOutboxItem(item.id) || item;
+
+    if (response?.success) {
+      if (item.syncType === "inventory") {
+        // Only the sync status is updated: rows re-dirtied meanwhile still need their own push
+        const ids = item.payload.map(record => record.id).filter(Boolean);
+        await storage.markChannelInventorySynced(ids, "success");
+      }
+
+      // Records queued by a push that failed during this attempt still have to go out
+      const sent = new Set(item.payload.map(record => JSON.stringify(record)));
+      const unsent = current.payload.filter(record => !sent.has(JSON.stringify(record)));
+      if (unsent.length > 0) {
+        return await storage.updateOutboxItem(item.id, {
+          status: "pending",
+          payload: unsent,
+          attempts: 0,
+          lastError: null,
+          lastSyncLogId: syncLogId || item.lastSyncLogId,
+          nextAttemptAt: new Date(),
+        });
+      }
+
+      return await storage.updateOutboxItem(item.id, {
+        status: "succeeded",
+        attempts,
+        lastError: null,
+        lastSyncLogId: syncLogId || item.lastSyncLogId,
+      });
+    }
+
+    // A newer push delivered every record meanwhile
+    if (current.payload.length === 0) {
+      return await storage.updateOutboxItem(item.id, {
+        status: "succeeded",
+        attempts,
+        lastSyncLogId: syncLogId || item.lastSyncLogId,
+      });
+    }
+
+    const lastError = response?.error || response?.message || "Channel push failed";
+    if (attempts >= item.maxAttempts) {
+      console.error(`Channel sync outbox item ${item.id} dead-lettered after ${attempts} attempts: ${lastError}`);
+      return await storage.updateOutboxItem(item.id, {
+        status: "dead_letter",
+        attempts,
+        lastError,
+        lastSyncLogId: syncLogId || item.lastSyncLogId,
+      });
+    }
+
+    return await storage.updateOutboxItem(item.id, {
+      status: "pending",
+      attempts,
+      lastError,
+      lastSyncLogId: syncLogId || item.lastSyncLogId,
+      nextAttemptAt: new Date(Date.now() + this.computeRetryDelayMs(attempts + 1, response?.retryAfter)),
+    });
+  }
+
+  // Put a dead-lettered item back on the queue for an immediate retry
+  static async requeue(item: ChannelSyncOutboxItem) {
+    return await storage.updateOutboxItem(item.id, {
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+    });
+  }
+}
@@ -0,0 +1,151 @@
+import os from "os";
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { ChannelSyncService } from "./channel-manager";
+import { ChannelSyncOutbox } from "./channel-sync-outbox";
+import { ChannelReservationImporter } from "./channel-reservations";
+import { IcalSyncService } from "./ical-sync";
+import { RateParityService } from "./rate-parity";
+import { PricingEngine } from "./pricing-engine";
+import type { OtaChannel, ChannelSyncOutboxItem } from "@shared/schema";
+
+const DEFAULT_POLL_INTERVAL_MS = 60 * 1000; // check for due channels every minute
+const DEFAULT_LEASE_MS = 10 * 60 * 1000; // a single channel sync may hold its lock for 10 minutes
+const DEFAULT_SYNC_FREQUENCY_MINUTES = 30;
+const SYNC_DAYS_AHEAD = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// In-process job scheduler that imports reservations from and pushes inventory to OTA
+// channels whose nextSyncAt is due.
+// Several server instances may run it side by side: each channel is claimed through a
+// lease on the ota_channels row, so only one instance syncs a given channel at a time.
+// The same loop drains the retry outbox (see channel-sync-outbox.ts) and imports iCal
+// subscriptions (see ical-sync.ts).
+export class ChannelSyncScheduler {
+  private readonly instanceId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    private readonly leaseMs = DEFAULT_LEASE_MS,
+  ) {}
+
+  start() {
+    if (this.timer) return;
+
+    console.log(`Channel sync scheduler started (${this.instanceId}), polling every ${this.pollIntervalMs / 1000}s`);
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error("Channel sync scheduler tick failed:", error));
+    }, this.pollIntervalMs);
+    // Never keep the process alive just for the scheduler
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Run every channel that is currently due, retry due outbox items, then import due iCal feeds.
+  // Overlapping ticks on the same instance are skipped.
+  async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const dueChannels = await storage.getChannelsDueForSync(new Date());
+      for (const channel of dueChannels) {
+        await this.runChannel(channel);
+      }
+
+      const dueOutboxItems = await storage.getDueOutboxItems(new Date());
+      for (const item of dueOutboxItems) {
+        await this.retryOutboxItem(item);
+      }
+
+      await IcalSyncService.syncDueSubscriptions();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async runChannel(dueChannel: OtaChannel) {
+    const channel = await storage.claimChannelSync(dueChannel.id, this.instanceId, this.leaseMs);
+    if (!channel) {
+      // Another instance holds the lease, or synced the channel since we listed it
+      return;
+    }
+
+    const startedAt = new Date();
+    try {
+      // Import reservations first so the inventory pushed below already accounts for them
+      await ChannelReservationImporter.pullReservations(channel.id);
+      await ChannelSyncService.ensureInventoryHorizon(channel, SYNC_DAYS_AHEAD);
+      // Lead time rules reprice the nearest nights as days pass; only changed nights become dirty
+      const leadTimeDays = PricingEngine.leadTimeHorizonDays(await storage.getPricingRules(channel.hotelId));
+      if (leadTimeDays > 0) {
+        await ChannelSyncService.markInventoryDirty(channel.hotelId, startedAt, new Date(startedAt.getTime() + leadTimeDays * DAY_MS), { channelId: channel.id });
+      }
+      await ChannelSyncService.pushDirtyInventory(channel.id);
+      // Nights generated before parity auto-correct was enabled or pricing changed
+      await RateParityService.correctChannel(channel, startedAt, new Date(startedAt.getTime() + SYNC_DAYS_AHEAD * DAY_MS));
+    } catch (error) {
+      console.error(`Scheduled sync failed for channel ${channel.id}:`, error);
+      // pushes log their own attempts; record failures that happened before one could
+      await storage.createChannelSyncLog({
+        hotelId: channel.hotelId,
+        channelId: channel.id,
+        syncType: "inventory",
+        direction: "push",
+        status: "failed",
+        errorMessage: error instanceof Error ? error.message : "Scheduled sync failed",
+        startedAt,
+        completedAt: new Date(),
+        durationMs: Date.now() - startedAt.getTime(),
+      }).catch(logError => console.error("Failed to record scheduled sync failure:", logError));
+    } finally {
+      const frequencyMinutes = channel.syncFrequency || DEFAULT_SYNC_FREQUENCY_MINUTES;
+      await storage.releaseChannelSync(channel.id, this.instanceId, {
+        lastSyncAt: startedAt,
+        nextSyncAt: new Date(startedAt.getTime() + frequencyMinutes * 60 * 1000),
+      });
+    }
+  }
+
+  // Retries hold the channel lease too, so they never interleave with a scheduled sync of the
+  // same channel and send older values after newer ones
+  private async retryOutboxItem(dueItem: ChannelSyncOutboxItem) {
+    const channel = await storage.claimChannelLease(dueItem.channelId, this.instanceId, this.leaseMs);
+    if (!channel) {
+      // The channel is syncing on this or another instance; retry on a later tick
+      return;
+    }
+
+    try {
+      const item = await storage.claimOutboxItem(dueItem.id, this.leaseMs);
+      if (!item) {
+        // Claimed by another instance since we listed it
+        return;
+      }
+
+      try {
+        const response = await ChannelSyncService.syncInventoryToChannel(item.channelId, item.payload, { isRetry: true });
+        await ChannelSyncOutbox.recordAttempt(item, response, response.syncLogId);
+      } catch (error) {
+        await ChannelSyncOutbox.recordAttempt(item, {
+          success: false,
+          error: error instanceof Error ? error.message : "Retry failed",
+        });
+      }
+    } finally {
+      await storage.releaseChannelSync(channel.id, this.instanceId);
+    }
+  }
+}
+
+export const channelSyncScheduler = new ChannelSyncScheduler(
+  parseInt(process.env.CHANNEL_SYNC_POLL_INTERVAL_MS || "", 10) || DEFAULT_POLL_INTERVAL_MS,
+);
@@ -0,0 +1,117 @@
+import assert from "assert/strict";
+import { createIngoMmtAdapter, IngoMmtAPI } from "./services/ingo-mmt-api";
+import { createIngoMmtFixtureClient, type IngoMmtFixtureRoute } from "./services/ingo-mmt-fixtures";
+import type { OtaChannelConnection } from "./services/ota-adapter";
+
+// Replay the recorded Ingo-MMT responses through the adapter and check its parsing and error
+// mapping: npm run ota:check-ingo-mmt. Needs no credentials, network or database.
+
+const channel: OtaChannelConnection = {
+  channelName: "makemytrip",
+  propertyId: "1000123456",
+  apiCredentials: { username: "partner", password: "secret" },
+};
+
+const adapter = (overrides: Partial<Record<IngoMmtFixtureRoute, string>> = {}) =>
+  createIngoMmtAdapter(createIngoMmtFixtureClient(overrides));
+
+const checks: [string, () => Promise<void>][] = [
+  ["connection test reads the hotel profile", async () => {
+    const result = await adapter().testConnection(channel);
+    assert.equal(result.success, true);
+    assert.match(result.message ?? "", /EaseInn Demo Residency \(1000123456\)/);
+  }],
+
+  ["rejected credentials surface the partner's error", async () => {
+    const result = await adapter({ hotel: "auth-failed" }).testConnection(channel);
+    assert.equal(result.success, false);
+    assert.equal(result.message, "Invalid username or password");
+  }],
+
+  ["rooms become OTA room types with their rate plans", async () => {
+    const result = await adapter().getRoomTypes(channel);
+    assert.equal(result.success, true);
+    assert.deepEqual(result.roomTypes?.map(room => room.id), ["45000011", "45000012", "45000013"]);
+    assert.deepEqual(result.roomTypes?.[0].ratePlans, [
+      { id: "990001100", name: "Room Only" },
+      { id: "990001101", name: "Room with Breakfast" },
+    ]);
+  }],
+
+  ["ARI push succeeds", async () => {
+    const result = await adapter().pushRatesAndAvailability(channel, [
+      { roomType: "45000011", date: "2026-11-14", availableRooms: 3, sellRate: 3200 },
+    ]);
+    assert.equal(result.success, true);
+    assert.equal(result.recordsUpdated, 1);
+  }],
+
+  ["throttled ARI push fails with the Retry-After hint", async () => {
+    const result = await adapter({ ari: "ari-throttled" }).pushRatesAndAvailability(channel, [
+      { roomType: "45000011", date: "2026-11-14", availableRooms: 3, sellRate: 3200 },
+    ]);
+    assert.equal(result.success, false);
+    assert.equal(result.retryAfter, 120);
+    assert.equal(result.error, "Too many ARI requests, retry after 120 seconds");
+    assert.equal(result.recordsUpdated, 0);
+  }],
+
+  ["consecutive identical nights collapse into one ARI range", async () => {
+    const night = { roomType: "45000011", ratePlanId: "990001100", availableRooms: 3, sellRate: 3200 };
+    const updates = IngoMmtAPI.toAriUpdates([
+      { ...night, date: "2026-11-15" },
+      { ...night, date: "2026-11-14" },
+      { ...night, date: "2026-11-16", sellRate: 3500 },
+    ]);
+    assert.deepEqual(updates.map(update => [update.startDate, update.endDate, update.rate]), [
+      ["2026-11-14", "2026-11-15", 3200],
+      ["2026-11-16", "2026-11-16", 3500],
+    ]);
+  }],
+
+  ["bookings become reservations", async () => {
+    const result = await adapter().fetchReservations(channel, "2026-11-01", "2026-11-30");
+    assert.equal(result.success, true);
+    assert.deepEqual(result.reservations?.map(reservation => reservation.status), ["confirmed", "modified", "cancelled"]);
+    const [first, second] = result.reservations!;
+    assert.equal(first.reservationId, "NH7401234567890");
+    assert.equal(first.guestName, "Aarav Sharma");
+    assert.equal(first.checkIn, "2026-11-14");
+    assert.equal(first.totalAmount, 6400);
+    assert.equal(first.roomRate, 3200);
+    assert.equal(second.numberOfRooms, 2);
+    assert.equal(second.numberOfChildren, 1);
+  }],
+
+  ["failed booking fetch returns no reservations", async () => {
+    const result = await adapter({ bookings: "auth-failed" }).fetchReservations(channel, "2026-11-01", "2026-11-30");
+    assert.equal(result.success, false);
+    assert.equal(result.error, "Invalid username or password");
+    assert.deepEqual(result.reservations, []);
+  }],
+
+  ["cancellations are sent, modifications are refused", async () => {
+    const cancelled = await adapter().updateReservation(channel, "NH7401234567890", { status: "cancelled" });
+    assert.equal(cancelled.success, true);
+    const modified = await adapter().updateReservation(channel, "NH7401234567890", { status: "modified" });
+    assert.equal(modified.success, false);
+    assert.equal(modified.unsupported, true);
+  }],
+];
+
+async function run() {
+  let failed = 0;
+  for (const [name, check] of checks) {
+    try {
+      await check();
+      console.log(`ok - ${name}`);
+    } catch (error) {
+      failed += 1;
+      console.error(`not ok - ${name}\n`, error);
+    }
+  }
+  console.log(`${checks.length - failed}/${checks.length} Ingo-MMT fixture checks passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run();
@@ -0,0 +1,188 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import type { EncryptedCredentials, OtaApiCredentials, OtaChannel } from "@shared/schema";
+
+// Envelope encryption for OTA credentials stored in otaChannels.
+//
+// Master keys come from CHANNEL_CREDENTIALS_KEYS as a comma separated list of
+// `<keyId>:<base64 32-byte key>`. New credentials are wrapped with the key named by
+// CHANNEL_CREDENTIALS_ACTIVE_KEY (default: the first key in the list). To rotate, add a new key,
+// make it active, run `npm run credentials:rotate` and remove the old key afterwards - only the
+// per-channel data keys are re-wrapped, the credentials themselves are not re-encrypted.
+// Without CHANNEL_CREDENTIALS_KEYS a key derived from JWT_SECRET is used in development; in
+// production the server refuses to start.
+
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const MASK = "••••••••";
+
+function loadMasterKeys(): { keys: Map<string, Buffer>; activeKeyId: string } {
+  const keys = new Map<string, Buffer>();
+  for (const entry of (process.env.CHANNEL_CREDENTIALS_KEYS || "").split(",").map(value => value.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(":");
+    const keyId = entry.slice(0, separator);
+    const key = Buffer.from(entry.slice(separator + 1), "base64");
+    if (separator <= 0 || key.length !== 32) {
+      throw new Error(`Invalid CHANNEL_CREDENTIALS_KEYS entry "${keyId || entry.slice(0, 8)}": expected <keyId>:<base64 32-byte key>`);
+    }
+    keys.set(keyId, key);
+  }
+
+  if (keys.size === 0) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("CHANNEL_CREDENTIALS_KEYS must be set in production to encrypt OTA credentials");
+    }
+    keys.set("local", createHash("sha256").update(`channel-credentials:${process.env.JWT_SECRET || "your-super-secret-jwt-key"}`).digest());
+  }
+
+  const activeKeyId = process.env.CHANNEL_CREDENTIALS_ACTIVE_KEY || Array.from(keys.keys())[0];
+  if (!keys.has(activeKeyId)) {
+    throw new Error(`CHANNEL_CREDENTIALS_ACTIVE_KEY "${activeKeyId}" is not listed in CHANNEL_CREDENTIALS_KEYS`);
+  }
+  return { keys, activeKeyId };
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_BYTES));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+function maskValue(value: string | undefined, visible: number): string {
+  if (!value) return "";
+  return value.length <= visible * 2 ? MASK : `${MASK}${value.slice(-visible)}`;
+}
+
+// Channel as returned to the client - secrets replaced by masked values
+export type PublicOtaChannel = Omit<OtaChannel, "apiCredentials" | "encryptedCredentials" | "credentialsKeyId" | "webhookSecret"> & {
+  credentials: {
+    configured: boolean;
+    username: string;
+    password: string;
+    apiKey: string;
+    updatedAt: Date | null;
+  };
+};
+
+export class CredentialVault {
+  // Loaded on first use rather than at import, which runs before dotenv has filled in the environment
+  private static loadedKeys?: ReturnType<typeof loadMasterKeys>;
+
+  private static get masterKeys() {
+    return this.loadedKeys ??= loadMasterKeys();
+  }
+
+  // Throws when the master keys are missing or malformed; called at startup
+  static checkConfiguration(): void {
+    this.loadedKeys = loadMasterKeys();
+  }
+
+  static get activeKeyId(): string {
+    return this.masterKeys.activeKeyId;
+  }
+
+  private static masterKey(keyId: string): Buffer {
+    const key = this.masterKeys.keys.get(keyId);
+    if (!key) {
+      throw new Error(`Master key "${keyId}" for channel credentials is not configured`);
+    }
+    return key;
+  }
+
+  static encrypt(credentials: OtaApiCredentials): EncryptedCredentials {
+    const dataKey = randomBytes(32);
+    return {
+      version: 1,
+      keyId: this.activeKeyId,
+      wrappedKey: seal(this.masterKey(this.activeKeyId), dataKey),
+      ciphertext: seal(dataKey, Buffer.from(JSON.stringify(credentials), "utf8")),
+    };
+  }
+
+  static decrypt(envelope: EncryptedCredentials): OtaApiCredentials {
+    const dataKey = open(this.masterKey(envelope.keyId), envelope.wrappedKey);
+    return JSON.parse(open(dataKey, envelope.ciphertext).toString("utf8"));
+  }
+
+  // Re-wrap the data key with the active master key
+  static rewrap(envelope: EncryptedCredentials): EncryptedCredentials {
+    if (envelope.keyId === this.activeKeyId) return envelope;
+    const dataKey = open(this.masterKey(envelope.keyId), envelope.wrappedKey);
+    return { ...envelope, keyId: this.activeKeyId, wrappedKey: seal(this.masterKey(this.activeKeyId), dataKey) };
+  }
+
+  // Columns to store on otaChannels for new or replaced credentials
+  static toStoredCredentials(credentials: OtaApiCredentials) {
+    const encryptedCredentials = this.encrypt(credentials);
+    return {
+      apiCredentials: null,
+      encryptedCredentials,
+      credentialsKeyId: encryptedCredentials.keyId,
+      credentialsUpdatedAt: new Date(),
+    };
+  }
+
+  // Decrypted credentials of a stored channel. Form data that was never stored passes through.
+  static credentialsOf(channel: { apiCredentials?: Partial<OtaApiCredentials> | null; encryptedCredentials?: EncryptedCredentials | null }): Partial<OtaApiCredentials> | null {
+    if (channel.encryptedCredentials) {
+      return this.decrypt(channel.encryptedCredentials);
+    }
+    return channel.apiCredentials || null;
+  }
+
+  static toPublicChannel(channel: OtaChannel): PublicOtaChannel {
+    const { apiCredentials, encryptedCredentials, credentialsKeyId, webhookSecret, ...rest } = channel;
+
+    let credentials: Partial<OtaApiCredentials> | null = null;
+    try {
+      credentials = this.credentialsOf(channel);
+    } catch (error) {
+      // A missing master key must not take the whole channel list down
+      console.error(`Failed to decrypt credentials for channel ${channel.id}:`, error instanceof Error ? error.message : error);
+    }
+
+    return {
+      ...rest,
+      credentials: {
+        configured: !!credentials,
+        username: maskValue(credentials?.username, 2),
+        password: credentials?.password ? MASK : "",
+        apiKey: maskValue(credentials?.apiKey, 4),
+        updatedAt: channel.credentialsUpdatedAt,
+      },
+    };
+  }
+
+  // Encrypt legacy plaintext credentials and re-wrap data keys still on an old master key
+  static async rotateChannelCredentials(): Promise<{ encrypted: number; rewrapped: number; failed: number }> {
+    const result = { encrypted: 0, rewrapped: 0, failed: 0 };
+    const channels = await storage.getChannelsNeedingCredentialRewrap(this.activeKeyId);
+
+    for (const channel of channels) {
+      try {
+        if (channel.encryptedCredentials) {
+          const encryptedCredentials = this.rewrap(channel.encryptedCredentials);
+          // Plaintext left next to an envelope is stale; the envelope wins
+          await storage.updateOtaChannel(channel.id, { apiCredentials: null, encryptedCredentials, credentialsKeyId: encryptedCredentials.keyId });
+          result.rewrapped++;
+        } else if (channel.apiCredentials) {
+          await storage.updateOtaChannel(channel.id, this.toStoredCredentials(channel.apiCredentials));
+          result.encrypted++;
+        }
+      } catch (error) {
+        console.error(`Failed to rotate credentials for channel ${channel.id}:`, error instanceof Error ? error.message : error);
+        result.failed++;
+      }
+    }
+    return result;
+  }
+}
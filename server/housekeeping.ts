@@ -0,0 +1,551 @@
+import type { Express, Response } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { authenticateToken, checkTrialExpiration, requireActiveHotel } from "./auth";
+import { nightKey } from "./availability";
+import { ChannelSyncService } from "./channel-manager";
+import {
+  insertHousekeepingStaffSchema, updateHousekeepingStaffSchema, insertHousekeepingTaskSchema, updateHousekeepingTaskSchema,
+  type HousekeepingTask, type Room,
+} from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_REPORT_DAYS = 366;
+
+export const completeTaskSchema = z.object({
+  staffId: z.string().optional(), // who did it, when the task was not assigned
+  passed: z.boolean().optional(), // inspections only; a failed inspection sends the room back for cleaning
+  notes: z.string().max(1000).optional(),
+});
+
+export const housekeepingSettingsSchema = z.object({
+  inspectAfterCleaning: z.boolean(),
+});
+
+export const skipTaskSchema = z.object({
+  notes: z.string().max(1000).optional(),
+});
+
+export interface AttendantTurnaround {
+  staffId: string | null; // null for tasks finished without an attendant
+  name: string;
+  tasks: number;
+  checkoutCleans: number;
+  stayovers: number;
+  inspections: number;
+  averageWorkMinutes: number | null; // started to finished
+  averageTurnaroundMinutes: number | null; // checkout cleans: guest checked out to room cleaned
+}
+
+export interface TurnaroundReport {
+  startDate: string;
+  endDate: string; // inclusive
+  attendants: AttendantTurnaround[];
+  total: AttendantTurnaround;
+}
+
+interface Accumulator {
+  tasks: number;
+  checkoutCleans: number;
+  stayovers: number;
+  inspections: number;
+  workMinutes: number[];
+  turnaroundMinutes: number[];
+}
+
+function toNight(key: string): Date {
+  return new Date(`${key}T00:00:00.000Z`);
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+}
+
+function minutesBetween(start: Date, end: Date): number {
+  return Math.max(0, (end.getTime() - start.getTime()) / 60000);
+}
+
+function isOpen(task: HousekeepingTask): boolean {
+  return task.status === "pending" || task.status === "in_progress";
+}
+
+// Housekeeping tasks for the rooms of a hotel. Checkout leaves a room in `cleaning` with a checkout
+// clean; finishing the clean (or the inspection after it, when the hotel inspects cleaned rooms)
+// makes the room available again. Occupied rooms get a stay-over service task every day.
+export class HousekeepingService {
+  // Call after a guest checked out of the room. Never throws: the checkout has already happened.
+  static async onCheckout(roomId: string, checkInId?: string) {
+    try {
+      const room = await storage.getRoom(roomId);
+      if (!room) return;
+      const open = await storage.getOpenHousekeepingTasks(roomId);
+      if (open.some(task => task.taskType === "checkout_clean")) return;
+      await storage.createHousekeepingTask({
+        hotelId: room.hotelId,
+        roomId,
+        taskType: "checkout_clean",
+        taskDate: toNight(nightKey(new Date())),
+        checkInId: checkInId || null,
+      });
+    } catch (error) {
+      console.error(`Failed to create checkout clean for room ${roomId}:`, error);
+    }
+  }
+
+  // A room set available by hand no longer needs cleaning; its open cleans and inspections are skipped
+  static async onRoomMarkedAvailable(roomId: string) {
+    const open = await storage.getOpenHousekeepingTasks(roomId);
+    for (const task of open.filter(task => task.taskType !== "stayover_service")) {
+      await storage.updateHousekeepingTask(task.id, {
+        status: "skipped",
+        completedAt: new Date(),
+        notes: [task.notes, "Room was set available by hand"].filter(Boolean).join("\n"),
+      });
+    }
+  }
+
+  // One stay-over service per occupied room and day, from the second day of the stay up to the
+  // day before checkout. Safe to call repeatedly and concurrently: the unique index on stay-over
+  // tasks drops a second insert for the same room and day.
+  static async createStayoverTasks(hotelId: string, date: Date): Promise<number> {
+    const today = nightKey(date);
+    const [checkIns, tasks] = await Promise.all([
+      storage.getActiveCheckIns(hotelId),
+      storage.getHousekeepingTasks(hotelId, date),
+    ]);
+    const serviced = new Set(
+      tasks
+        .filter(task => task.taskType === "stayover_service" && nightKey(task.taskDate) === today)
+        .map(task => task.roomId)
+    );
+
+    let created = 0;
+    for (const checkIn of checkIns) {
+      if (nightKey(checkIn.checkInDate) >= today || nightKey(checkIn.checkOutDate) <= today) continue;
+      if (serviced.has(checkIn.roomId)) continue;
+      const task = await storage.createStayoverTaskIfMissing({
+        hotelId,
+        roomId: checkIn.roomId,
+        taskType: "stayover_service",
+        priority: "low",
+        taskDate: date,
+        checkInId: checkIn.id,
+      });
+      serviced.add(checkIn.roomId);
+      if (task) created += 1;
+    }
+    return created;
+  }
+
+  static async start(task: HousekeepingTask, staffId?: string): Promise<{ success: boolean; message: string; task?: HousekeepingTask }> {
+    if (task.status !== "pending") {
+      return { success: false, message: `The task is already ${task.status.replace("_", " ")}` };
+    }
+    const updated = await storage.updateHousekeepingTask(task.id, {
+      status: "in_progress",
+      startedAt: new Date(),
+      assignedTo: staffId || task.assignedTo,
+    });
+    return { success: true, message: "Task started", task: updated };
+  }
+
+  static async complete(task: HousekeepingTask, completion: z.infer<typeof completeTaskSchema>): Promise<{ success: boolean; message: string; task?: HousekeepingTask }> {
+    if (!isOpen(task)) {
+      return { success: false, message: `The task is already ${task.status}` };
+    }
+    const room = await storage.getRoom(task.roomId);
+    if (!room) {
+      return { success: false, message: "Room not found" };
+    }
+
+    const updated = await storage.updateHousekeepingTask(task.id, {
+      status: "done",
+      completedAt: new Date(),
+      assignedTo: completion.staffId || task.assignedTo,
+      notes: completion.notes ? [task.notes, completion.notes].filter(Boolean).join("\n") : task.notes,
+    });
+
+    if (task.taskType === "checkout_clean") {
+      const hotel = await storage.getHotel(task.hotelId);
+      if (hotel?.settings?.inspectAfterCleaning) {
+        await this.createFollowUp(task, "inspection", task.priority, null);
+        return { success: true, message: `Room ${room.number} cleaned and waiting for inspection`, task: updated };
+      }
+      await this.setRoomReady(room, updated);
+      return { success: true, message: `Room ${room.number} cleaned and available`, task: updated };
+    }
+
+    if (task.taskType === "inspection") {
+      if (completion.passed === false) {
+        await this.createFollowUp(task, "checkout_clean", "high", `Failed inspection${completion.notes ? `: ${completion.notes}` : ""}`);
+        return { success: true, message: `Room ${room.number} failed inspection and was sent back for cleaning`, task: updated };
+      }
+      await this.setRoomReady(room, updated);
+      return { success: true, message: `Room ${room.number} inspected and available`, task: updated };
+    }
+
+    return { success: true, message: `Room ${room.number} serviced`, task: updated };
+  }
+
+  // Guests may decline stay-over service; cleans and inspections have to be done
+  static async skip(task: HousekeepingTask, notes?: string): Promise<{ success: boolean; message: string; task?: HousekeepingTask }> {
+    if (!isOpen(task)) {
+      return { success: false, message: `The task is already ${task.status}` };
+    }
+    if (task.taskType !== "stayover_service") {
+      return { success: false, message: "Only stay-over service can be skipped" };
+    }
+    const updated = await storage.updateHousekeepingTask(task.id, {
+      status: "skipped",
+      completedAt: new Date(),
+      notes: notes ? [task.notes, notes].filter(Boolean).join("\n") : task.notes,
+    });
+    return { success: true, message: "Stay-over service skipped", task: updated };
+  }
+
+  // Time per task and checkout-to-clean turnaround for each attendant, over tasks finished
+  // between startDate and endDate, both inclusive
+  static async getTurnaroundReport(hotelId: string, startDate: Date, endDate: Date): Promise<TurnaroundReport> {
+    const [tasks, staff] = await Promise.all([
+      storage.getCompletedHousekeepingTasks(hotelId, startDate, new Date(endDate.getTime() + DAY_MS)),
+      storage.getHousekeepingStaff(hotelId, true),
+    ]);
+
+    const byAttendant = new Map<string | null, Accumulator>();
+    const total = this.emptyAccumulator();
+    for (const task of tasks) {
+      if (!byAttendant.has(task.assignedTo)) byAttendant.set(task.assignedTo, this.emptyAccumulator());
+      for (const accumulator of [byAttendant.get(task.assignedTo)!, total]) {
+        this.add(accumulator, task);
+      }
+    }
+
+    const names = new Map(staff.map(member => [member.id, member.name]));
+    return {
+      startDate: nightKey(startDate),
+      endDate: nightKey(endDate),
+      attendants: Array.from(byAttendant.entries())
+        .map(([staffId, accumulator]) => this.toTurnaround(staffId, staffId ? names.get(staffId) || "Former attendant" : "Unassigned", accumulator))
+        .sort((a, b) => b.tasks - a.tasks),
+      total: this.toTurnaround(null, "Total", total),
+    };
+  }
+
+  private static async createFollowUp(task: HousekeepingTask, taskType: HousekeepingTask["taskType"], priority: HousekeepingTask["priority"], notes: string | null) {
+    const open = await storage.getOpenHousekeepingTasks(task.roomId);
+    if (open.some(existing => existing.taskType === taskType)) return;
+    await storage.createHousekeepingTask({
+      hotelId: task.hotelId,
+      roomId: task.roomId,
+      taskType,
+      priority,
+      taskDate: toNight(nightKey(new Date())),
+      checkInId: task.checkInId,
+      notes,
+    });
+  }
+
+  // Only rooms waiting on housekeeping are released; a room that went into maintenance or was
+  // re-let meanwhile keeps its status
+  private static async setRoomReady(room: Room, task?: HousekeepingTask) {
+    const current = await storage.getRoom(room.id);
+    if (current?.status !== "cleaning") return;
+    const attendant = task?.assignedTo ? await storage.getHousekeepingStaffMember(task.assignedTo) : undefined;
+    await storage.updateRoomStatus(room.id, "available", {
+      source: "housekeeping",
+      changedBy: attendant?.name,
+      reason: task?.taskType === "inspection" ? "Passed inspection" : "Cleaned",
+    });
+    await ChannelSyncService.markInventoryDirty(room.hotelId, new Date(), new Date(Date.now() + DAY_MS));
+  }
+
+  private static emptyAccumulator(): Accumulator {
+    return { tasks: 0, checkoutCleans: 0, stayovers: 0, inspections: 0, workMinutes: [], turnaroundMinutes: [] };
+  }
+
+  private static add(accumulator: Accumulator, task: HousekeepingTask) {
+    accumulator.tasks += 1;
+    if (task.taskType === "checkout_clean") accumulator.checkoutCleans += 1;
+    if (task.taskType === "stayover_service") accumulator.stayovers += 1;
+    if (task.taskType === "inspection") accumulator.inspections += 1;
+    if (!task.completedAt) return;
+    if (task.startedAt) accumulator.workMinutes.push(minutesBetween(task.startedAt, task.completedAt));
+    // Checkout cleans are created at checkout
+    if (task.taskType === "checkout_clean" && task.createdAt) {
+      accumulator.turnaroundMinutes.push(minutesBetween(task.createdAt, task.completedAt));
+    }
+  }
+
+  private static toTurnaround(staffId: string | null, name: string, accumulator: Accumulator): AttendantTurnaround {
+    return {
+      staffId,
+      name,
+      tasks: accumulator.tasks,
+      checkoutCleans: accumulator.checkoutCleans,
+      stayovers: accumulator.stayovers,
+      inspections: accumulator.inspections,
+      averageWorkMinutes: average(accumulator.workMinutes),
+      averageTurnaroundMinutes: average(accumulator.turnaroundMinutes),
+    };
+  }
+}
+
+function housekeepingHotelId(req: any): string | undefined {
+  return req.hotel?.id || req.headers['x-hotel-id'];
+}
+
+// An attendant id from a request must be one of the hotel's active attendants
+async function isHotelStaff(hotelId: string, staffId: string | null | undefined): Promise<boolean> {
+  if (!staffId) return true;
+  const staff = await storage.getHousekeepingStaffMember(staffId);
+  return !!staff && staff.hotelId === hotelId && staff.isActive;
+}
+
+async function getHotelTask(hotelId: string | undefined, taskId: string): Promise<HousekeepingTask | undefined> {
+  const task = await storage.getHousekeepingTask(taskId);
+  return task && task.hotelId === hotelId ? task : undefined;
+}
+
+export function setupHousekeepingRoutes(app: Express) {
+  app.get("/api/housekeeping/settings", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotel = await storage.getHotel(housekeepingHotelId(req) || "");
+      if (!hotel) {
+        return res.status(404).json({ message: "Hotel not found" });
+      }
+      res.json({ inspectAfterCleaning: !!hotel.settings?.inspectAfterCleaning });
+    } catch (error) {
+      console.error("Error fetching housekeeping settings:", error);
+      res.status(500).json({ message: "Failed to fetch housekeeping settings" });
+    }
+  });
+
+  app.put("/api/housekeeping/settings", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotel = await storage.getHotel(housekeepingHotelId(req) || "");
+      if (!hotel) {
+        return res.status(404).json({ message: "Hotel not found" });
+      }
+      const { inspectAfterCleaning } = housekeepingSettingsSchema.parse(req.body);
+      const updated = await storage.updateHotel(hotel.id, {
+        settings: { ...hotel.settings!, inspectAfterCleaning },
+      });
+      res.json({ inspectAfterCleaning: !!updated.settings?.inspectAfterCleaning });
+    } catch (error) {
+      console.error("Error updating housekeeping settings:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update housekeeping settings" });
+    }
+  });
+
+  // includeInactive=true also returns attendants who left
+  app.get("/api/housekeeping/staff", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = housekeepingHotelId(req);
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+      res.json(await storage.getHousekeepingStaff(hotelId, req.query.includeInactive === "true"));
+    } catch (error) {
+      console.error("Error fetching housekeeping staff:", error);
+      res.status(500).json({ message: "Failed to fetch housekeeping staff" });
+    }
+  });
+
+  app.post("/api/housekeeping/staff", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = housekeepingHotelId(req);
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+      const staffData = insertHousekeepingStaffSchema.parse(req.body);
+      res.status(201).json(await storage.createHousekeepingStaff({ ...staffData, hotelId }));
+    } catch (error) {
+      console.error("Error creating housekeeping staff:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create housekeeping staff" });
+    }
+  });
+
+  app.put("/api/housekeeping/staff/:id", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = housekeepingHotelId(req);
+      const existing = await storage.getHousekeepingStaffMember(req.params.id);
+      if (!existing || existing.hotelId !== hotelId) {
+        return res.status(404).json({ message: "Attendant not found" });
+      }
+      const updates = updateHousekeepingStaffSchema.parse(req.body);
+      res.json(await storage.updateHousekeepingStaff(existing.id, updates));
+    } catch (error) {
+      console.error("Error updating housekeeping staff:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update housekeeping staff" });
+    }
+  });
+
+  // The housekeeping board for a day (default today): the day's tasks plus anything still open
+  // from earlier days. Today's stay-over services are created on first load.
+  app.get("/api/housekeeping/tasks", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = housekeepingHotelId(req);
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+      const today = nightKey(new Date());
+      const day = req.query.date ? String(req.query.date) : today;
+      const date = toNight(day);
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+      if (day === today) {
+        await HousekeepingService.createStayoverTasks(hotelId, date);
+      }
+      res.json(await storage.getHousekeepingTasks(hotelId, date));
+    } catch (error) {
+      console.error("Error fetching housekeeping tasks:", error);
+      res.status(500).json({ message: "Failed to fetch housekeeping tasks" });
+    }
+  });
+
+  // Ad hoc tasks, e.g. an inspection of a room that was cleaned outside the board
+  app.post("/api/housekeeping/tasks", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = housekeepingHotelId(req);
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+      const taskData = insertHousekeepingTaskSchema.parse(req.body);
+      const room = await storage.getRoom(taskData.roomId);
+      if (!room || room.hotelId !== hotelId) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      if (!(await isHotelStaff(hotelId, taskData.assignedTo))) {
+        return res.status(400).json({ message: "Unknown attendant" });
+      }
+      const task = await storage.createHousekeepingTask({ ...taskData, hotelId, taskDate: toNight(nightKey(new Date())) });
+      res.status(201).json(task);
+    } catch (error) {
+      console.error("Error creating housekeeping task:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create housekeeping task" });
+    }
+  });
+
+  // Assign, reprioritise or annotate a task
+  app.patch("/api/housekeeping/tasks/:id", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = housekeepingHotelId(req);
+      const task = await getHotelTask(hotelId, req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: "Housekeeping task not found" });
+      }
+      const updates = updateHousekeepingTaskSchema.parse(req.body);
+      if (!(await isHotelStaff(task.hotelId, updates.assignedTo))) {
+        return res.status(400).json({ message: "Unknown attendant" });
+      }
+      res.json(await storage.updateHousekeepingTask(task.id, updates));
+    } catch (error) {
+      console.error("Error updating housekeeping task:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update housekeeping task" });
+    }
+  });
+
+  app.post("/api/housekeeping/tasks/:id/start", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = housekeepingHotelId(req);
+      const task = await getHotelTask(hotelId, req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: "Housekeeping task not found" });
+      }
+      const { staffId } = completeTaskSchema.pick({ staffId: true }).parse(req.body);
+      if (!(await isHotelStaff(task.hotelId, staffId))) {
+        return res.status(400).json({ message: "Unknown attendant" });
+      }
+      const result = await HousekeepingService.start(task, staffId);
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      console.error("Error starting housekeeping task:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to start housekeeping task" });
+    }
+  });
+
+  // Mark a room clean, serviced or inspected
+  app.post("/api/housekeeping/tasks/:id/complete", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = housekeepingHotelId(req);
+      const task = await getHotelTask(hotelId, req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: "Housekeeping task not found" });
+      }
+      const completion = completeTaskSchema.parse(req.body);
+      if (!(await isHotelStaff(task.hotelId, completion.staffId))) {
+        return res.status(400).json({ message: "Unknown attendant" });
+      }
+      const result = await HousekeepingService.complete(task, completion);
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      console.error("Error completing housekeeping task:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to complete housekeeping task" });
+    }
+  });
+
+  app.post("/api/housekeeping/tasks/:id/skip", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = housekeepingHotelId(req);
+      const task = await getHotelTask(hotelId, req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: "Housekeeping task not found" });
+      }
+      const { notes } = skipTaskSchema.parse(req.body);
+      const result = await HousekeepingService.skip(task, notes);
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      console.error("Error skipping housekeeping task:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to skip housekeeping task" });
+    }
+  });
+
+  // Turnaround per attendant over tasks finished between start and end (inclusive)
+  app.get("/api/housekeeping/reports/turnaround", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = housekeepingHotelId(req);
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+
+      const start = toNight(String(req.query.start));
+      const end = toNight(String(req.query.end));
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+      if ((end.getTime() - start.getTime()) / DAY_MS >= MAX_REPORT_DAYS) {
+        return res.status(400).json({ message: `Date range cannot exceed ${MAX_REPORT_DAYS} days` });
+      }
+
+      res.json(await HousekeepingService.getTurnaroundReport(hotelId, start, end));
+    } catch (error) {
+      console.error("Error building housekeeping turnaround report:", error);
+      res.status(500).json({ message: "Failed to build housekeeping turnaround report" });
+    }
+  });
+}
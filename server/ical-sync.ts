@@ -0,0 +1,543 @@
+import type { Express, Request, Response } from "express";
+import axios from "axios";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { authenticateToken, requireHotelOwner, checkTrialExpiration } from "./auth";
+import { AvailabilityService, nightKey, type RoomTypeName } from "./availability";
+import { RoomTypeService } from "./room-types";
+import { ChannelSyncService } from "./channel-manager";
+import { OverbookingDetector } from "./overbooking";
+import { buildIcalCalendar, parseIcalEvents, nightsToRanges, type IcalEvent } from "./ical";
+import { insertIcalSubscriptionSchema, type IcalSubscription, type Room } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FEED_DAYS_BACK = 30;
+const FEED_DAYS_AHEAD = 365;
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+const ICAL_SYNC_LEASE_MS = 10 * 60 * 1000; // like the channel sync lease
+export const ICAL_SYNC_INTERVAL_MS = (parseInt(process.env.ICAL_SYNC_INTERVAL_MINUTES || "", 10) || 30) * 60 * 1000;
+
+// Owner blocks in Airbnb's export; everything else is a reservation
+const BLOCK_SUMMARY_PATTERN = /not available|blocked|closed/i;
+
+export interface IcalSyncResult {
+  success: boolean;
+  events: number;
+  changed: number;
+  inProgress?: boolean; // another import of the subscription holds the lease
+  error?: string;
+}
+
+// ICAL_FEED_SECRET signs the public feed links and is required in production. Development falls
+// back to JWT_SECRET, or to a per-process secret whose links stop working on restart.
+function loadFeedSecret(): string {
+  if (process.env.ICAL_FEED_SECRET) {
+    return process.env.ICAL_FEED_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("ICAL_FEED_SECRET must be set in production to sign iCal feed links");
+  }
+  return process.env.JWT_SECRET || randomBytes(32).toString("hex");
+}
+
+function nightsBetween(start: Date, end: Date): string[] {
+  const nights: string[] = [];
+  for (let night = new Date(`${nightKey(start)}T00:00:00.000Z`); night < end; night = new Date(night.getTime() + DAY_MS)) {
+    nights.push(nightKey(night));
+  }
+  return nights;
+}
+
+// iCal export of blocked dates per room and room type, and scheduled import of external iCal
+// feeds (Airbnb and other platforms that only offer calendar sync) as room blocks or
+// channelBookings.
+export class IcalSyncService {
+  // Loaded on first use like the credential master keys, after dotenv has run
+  private static feedSecret?: string;
+
+  // Throws when the feed secret is missing in production; called at startup
+  static checkConfiguration(): void {
+    this.feedSecret = loadFeedSecret();
+  }
+
+  // Feeds are public URLs, so each one carries a token derived from a server-side secret
+  static feedToken(kind: "room" | "room-type", id: string): string {
+    this.feedSecret ??= loadFeedSecret();
+    return createHmac("sha256", this.feedSecret).update(`${kind}:${id}`).digest("hex").slice(0, 32);
+  }
+
+  static verifyFeedToken(kind: "room" | "room-type", id: string, token: string): boolean {
+    const expected = Buffer.from(this.feedToken(kind, id));
+    const received = Buffer.from(token || "");
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  private static feedWindow() {
+    const today = new Date(`${nightKey(new Date())}T00:00:00.000Z`);
+    return {
+      start: new Date(today.getTime() - FEED_DAYS_BACK * DAY_MS),
+      end: new Date(today.getTime() + FEED_DAYS_AHEAD * DAY_MS),
+    };
+  }
+
+  // Nights per room type that are sold out once everything imported from iCal feeds is ignored.
+  // Echoing imported events back would keep dates blocked on the source platform forever.
+  private static async soldOutNights(hotelId: string, start: Date, end: Date): Promise<Record<RoomTypeName, Set<string>>> {
+    const [availability, blocks, channelBookings] = await Promise.all([
+      AvailabilityService.getAvailability(hotelId, start, end),
+      storage.getRoomBlocks(hotelId, start, end),
+      storage.getConfirmedChannelBookings(hotelId, start, end),
+    ]);
+
+    const imported = new Map<string, number>();
+    const addImported = (roomType: string, from: Date, to: Date, quantity: number) => {
+      for (const night of nightsBetween(from, to)) {
+        const key = `${night}|${roomType}`;
+        imported.set(key, (imported.get(key) || 0) + quantity);
+      }
+    };
+    blocks.filter(block => block.source === "ical").forEach(block => addImported(block.roomType, block.startDate, block.endDate, 1));
+    channelBookings.filter(booking => booking.icalSubscriptionId && !booking.bookingId)
+      .forEach(booking => addImported(booking.roomType, booking.checkInDate, booking.checkOutDate, booking.numberOfRooms || 1));
+
+    const soldOut: Record<RoomTypeName, Set<string>> = {};
+    for (const slot of availability) {
+      soldOut[slot.roomType] ??= new Set<string>();
+      const used = slot.outOfOrder + slot.occupied + slot.booked + slot.channelBooked - (imported.get(`${slot.date}|${slot.roomType}`) || 0);
+      if (slot.totalRooms > 0 && slot.totalRooms - used <= 0) {
+        soldOut[slot.roomType].add(slot.date);
+      }
+    }
+    return soldOut;
+  }
+
+  private static toEvents(idPrefix: string, nights: string[]): IcalEvent[] {
+    // No guest details in a public feed - every range is just "Not available"
+    return nightsToRanges(nights).map(range => ({
+      uid: `${idPrefix}-${nightKey(range.start)}@easeinn`,
+      start: range.start,
+      end: range.end,
+      summary: "Not available",
+    }));
+  }
+
+  // A single room is unavailable when it is occupied, assigned to a booking, blocked locally,
+  // or when its room type is sold out
+  static async buildRoomFeed(room: Room): Promise<string> {
+    const { start, end } = this.feedWindow();
+    const [activeCheckIns, bookings, blocks, soldOut] = await Promise.all([
+      storage.getActiveCheckIns(room.hotelId),
+      storage.getConfirmedBookingsWithRooms(room.hotelId, start, end),
+      storage.getRoomBlocks(room.hotelId, start, end),
+      this.soldOutNights(room.hotelId, start, end),
+    ]);
+
+    const nights: string[] = Array.from(soldOut[room.type]);
+    for (const stay of activeCheckIns.filter(stay => stay.roomId === room.id)) {
+      const stayEnd = new Date(Math.max(new Date(stay.checkOutDate).getTime(), Date.now() + DAY_MS));
+      nights.push(...nightsBetween(new Date(stay.checkInDate), stayEnd));
+    }
+    for (const booking of bookings) {
+      const assigned = booking.roomNumber === room.number || booking.rooms.some(bookingRoom => bookingRoom.roomNumber === room.number);
+      if (assigned) nights.push(...nightsBetween(booking.checkInDate, booking.checkOutDate));
+    }
+    for (const block of blocks.filter(block => block.roomId === room.id && block.source !== "ical")) {
+      nights.push(...nightsBetween(block.startDate, block.endDate));
+    }
+
+    return buildIcalCalendar(`Room ${room.number}`, this.toEvents(`room-${room.id}`, nights));
+  }
+
+  // A room type listing is unavailable only when no room of that type is left
+  static async buildRoomTypeFeed(hotelId: string, roomType: RoomTypeName): Promise<string> {
+    const { start, end } = this.feedWindow();
+    const [soldOut, definition] = await Promise.all([
+      this.soldOutNights(hotelId, start, end),
+      storage.getRoomTypeByCode(hotelId, roomType),
+    ]);
+    const name = `${definition?.name || roomType} rooms`;
+    return buildIcalCalendar(name, this.toEvents(`${hotelId}-${roomType}`, Array.from(soldOut[roomType] || [])));
+  }
+
+  private static async fetchFeed(url: string): Promise<string> {
+    const response = await axios.get(url, {
+      timeout: 15000,
+      responseType: "text",
+      maxContentLength: MAX_FEED_BYTES,
+      headers: { "User-Agent": "EaseInn-ChannelManager/1.0", Accept: "text/calendar" },
+    });
+    const text = String(response.data);
+    if (!text.includes("BEGIN:VCALENDAR")) {
+      throw new Error("Response is not an iCal calendar");
+    }
+    return text;
+  }
+
+  // Import one subscription: new events are created, moved events updated and events that
+  // disappeared from the feed are removed (blocks) or cancelled (bookings)
+  // Imports hold a lease on the subscription: iCal channel bookings have no channelId, so the
+  // reference constraint can't stop two concurrent imports from adding the same stay twice
+  static async syncSubscription(subscriptionId: string, syncedBefore?: Date): Promise<IcalSyncResult> {
+    const subscription = await storage.claimIcalSubscriptionSync(subscriptionId, ICAL_SYNC_LEASE_MS, syncedBefore);
+    if (!subscription) {
+      if (!await storage.getIcalSubscription(subscriptionId)) {
+        throw new Error("iCal subscription not found");
+      }
+      return { success: false, events: 0, changed: 0, inProgress: true, error: "This calendar is already being imported" };
+    }
+
+    try {
+      return await this.importSubscription(subscription);
+    } finally {
+      await storage.releaseIcalSubscriptionSync(subscription.id);
+    }
+  }
+
+  private static async importSubscription(subscription: IcalSubscription): Promise<IcalSyncResult> {
+    const startedAt = new Date();
+    try {
+      const today = new Date(`${nightKey(new Date())}T00:00:00.000Z`);
+      const events = parseIcalEvents(await this.fetchFeed(subscription.url))
+        .filter(event => event.end > today);
+
+      const importAsBooking = (event: IcalEvent) =>
+        subscription.importAs === "booking" && !BLOCK_SUMMARY_PATTERN.test(event.summary);
+      const changedRanges = [
+        ...await this.syncBlocks(subscription, events.filter(event => !importAsBooking(event))),
+        ...await this.syncBookings(subscription, events.filter(importAsBooking)),
+      ];
+
+      const completedAt = new Date();
+      await storage.updateIcalSubscription(subscription.id, {
+        lastSyncedAt: completedAt,
+        lastSyncStatus: "success",
+        lastError: null,
+        eventsImported: events.length,
+      });
+      await storage.createChannelSyncLog({
+        hotelId: subscription.hotelId,
+        syncType: "ical_import",
+        direction: "pull",
+        status: "success",
+        requestPayload: { subscriptionId: subscription.id, url: subscription.url },
+        responseData: { events: events.length, changed: changedRanges.length },
+        recordsProcessed: events.length,
+        recordsSuccessful: events.length,
+        startedAt,
+        completedAt,
+        durationMs: completedAt.getTime() - startedAt.getTime(),
+      });
+
+      if (changedRanges.length > 0) {
+        const from = new Date(Math.min(...changedRanges.map(range => range.start.getTime())));
+        const to = new Date(Math.max(...changedRanges.map(range => range.end.getTime())));
+        await ChannelSyncService.markInventoryDirty(subscription.hotelId, from, to);
+        // Imported stays and blocks both take rooms away
+        await OverbookingDetector.check(subscription.hotelId, from, to, `ical:${subscription.id}`);
+      }
+
+      return { success: true, events: events.length, changed: changedRanges.length };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "iCal import failed";
+      console.error(`iCal import failed for subscription ${subscription.id}:`, message);
+
+      const completedAt = new Date();
+      // Still counts as an attempt so a broken feed is not refetched on every scheduler tick
+      await storage.updateIcalSubscription(subscription.id, {
+        lastSyncedAt: completedAt,
+        lastSyncStatus: "failed",
+        lastError: message,
+      });
+      await storage.createChannelSyncLog({
+        hotelId: subscription.hotelId,
+        syncType: "ical_import",
+        direction: "pull",
+        status: "failed",
+        requestPayload: { subscriptionId: subscription.id, url: subscription.url },
+        errorMessage: message,
+        startedAt,
+        completedAt,
+        durationMs: completedAt.getTime() - startedAt.getTime(),
+      });
+
+      return { success: false, events: 0, changed: 0, error: message };
+    }
+  }
+
+  private static async syncBlocks(subscription: IcalSubscription, events: IcalEvent[]) {
+    const existing = await storage.getRoomBlocksBySubscription(subscription.id);
+    const byUid = new Map(existing.map(block => [block.externalUid, block]));
+    const seen = new Set<string>();
+    const changed: { start: Date; end: Date }[] = [];
+
+    for (const event of events) {
+      seen.add(event.uid);
+      const block = byUid.get(event.uid);
+      if (!block) {
+        await storage.createRoomBlock({
+          hotelId: subscription.hotelId,
+          roomId: subscription.roomId,
+          roomType: subscription.roomType,
+          startDate: event.start,
+          endDate: event.end,
+          reason: `${subscription.name}: ${event.summary || "Blocked"}`,
+          source: "ical",
+          subscriptionId: subscription.id,
+          externalUid: event.uid,
+        });
+        changed.push(event);
+      } else if (block.startDate.getTime() !== event.start.getTime() || block.endDate.getTime() !== event.end.getTime()) {
+        await storage.updateRoomBlock(block.id, { startDate: event.start, endDate: event.end });
+        changed.push({ start: new Date(Math.min(block.startDate.getTime(), event.start.getTime())), end: new Date(Math.max(block.endDate.getTime(), event.end.getTime())) });
+      }
+    }
+
+    const removed = existing.filter(block => !seen.has(block.externalUid || ""));
+    await storage.deleteRoomBlocks(removed.map(block => block.id));
+    changed.push(...removed.map(block => ({ start: block.startDate, end: block.endDate })));
+    return changed;
+  }
+
+  private static async syncBookings(subscription: IcalSubscription, events: IcalEvent[]) {
+    const existing = await storage.getChannelBookingsBySubscription(subscription.id);
+    const byUid = new Map(existing.map(booking => [booking.channelBookingId, booking]));
+    const seen = new Set<string>();
+    const changed: { start: Date; end: Date }[] = [];
+
+    for (const event of events) {
+      seen.add(event.uid);
+      const numberOfNights = Math.max(1, Math.round((event.end.getTime() - event.start.getTime()) / DAY_MS));
+      const booking = byUid.get(event.uid);
+      if (!booking) {
+        await storage.createChannelBooking({
+          hotelId: subscription.hotelId,
+          channelBookingId: event.uid,
+          source: subscription.source,
+          icalSubscriptionId: subscription.id,
+          // iCal feeds carry no guest details beyond the event summary
+          guestName: event.summary && event.summary !== "Reserved" ? event.summary : `${subscription.name} guest`,
+          roomType: subscription.roomType,
+          numberOfRooms: 1,
+          checkInDate: event.start,
+          checkOutDate: event.end,
+          numberOfNights,
+          roomRate: "0.00",
+          totalAmount: "0.00",
+          bookingStatus: "confirmed",
+          specialRequests: event.description || null,
+        });
+        changed.push(event);
+      } else if (
+        booking.bookingStatus !== "confirmed" ||
+        booking.checkInDate.getTime() !== event.start.getTime() ||
+        booking.checkOutDate.getTime() !== event.end.getTime()
+      ) {
+        await storage.updateChannelBooking(booking.id, {
+          checkInDate: event.start,
+          checkOutDate: event.end,
+          numberOfNights,
+          bookingStatus: "confirmed",
+          isModified: true,
+          lastSyncedAt: new Date(),
+        });
+        changed.push({ start: new Date(Math.min(booking.checkInDate.getTime(), event.start.getTime())), end: new Date(Math.max(booking.checkOutDate.getTime(), event.end.getTime())) });
+      }
+    }
+
+    // Past stays drop out of most feeds, so only future reservations are cancelled when missing
+    const today = new Date(`${nightKey(new Date())}T00:00:00.000Z`);
+    for (const booking of existing) {
+      if (seen.has(booking.channelBookingId || "") || booking.bookingStatus !== "confirmed" || booking.checkOutDate <= today) continue;
+      await storage.updateChannelBooking(booking.id, { bookingStatus: "cancelled", lastSyncedAt: new Date() });
+      changed.push({ start: booking.checkInDate, end: booking.checkOutDate });
+    }
+    return changed;
+  }
+
+  // Called from the channel sync scheduler
+  static async syncDueSubscriptions() {
+    const syncedBefore = new Date(Date.now() - ICAL_SYNC_INTERVAL_MS);
+    const due = await storage.getDueIcalSubscriptions(syncedBefore);
+    for (const subscription of due) {
+      // Skipped when another instance claimed it or imported it since it was listed
+      await this.syncSubscription(subscription.id, syncedBefore);
+    }
+  }
+}
+
+export function setupIcalRoutes(app: Express) {
+  // Public .ics feeds - these URLs are pasted into Airbnb and similar platforms
+  app.get("/api/ical/rooms/:roomId/:token.ics", async (req: Request, res: Response) => {
+    try {
+      const { roomId, token } = req.params;
+      if (!IcalSyncService.verifyFeedToken("room", roomId, token)) {
+        return res.status(404).json({ message: "Calendar not found" });
+      }
+
+      const room = await storage.getRoom(roomId);
+      if (!room) {
+        return res.status(404).json({ message: "Calendar not found" });
+      }
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.send(await IcalSyncService.buildRoomFeed(room));
+    } catch (error) {
+      console.error("Error building room iCal feed:", error);
+      res.status(500).json({ message: "Failed to build calendar" });
+    }
+  });
+
+  app.get("/api/ical/hotels/:hotelId/room-types/:roomType/:token.ics", async (req: Request, res: Response) => {
+    try {
+      const { hotelId, roomType, token } = req.params;
+      if (!IcalSyncService.verifyFeedToken("room-type", `${hotelId}:${roomType}`, token) || (await RoomTypeService.unknownCodes(hotelId, [roomType])).length > 0) {
+        return res.status(404).json({ message: "Calendar not found" });
+      }
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.send(await IcalSyncService.buildRoomTypeFeed(hotelId, roomType));
+    } catch (error) {
+      console.error("Error building room type iCal feed:", error);
+      res.status(500).json({ message: "Failed to build calendar" });
+    }
+  });
+
+  // Export URLs for every room and room type of the hotel
+  app.get("/api/channel-manager/ical/feeds", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+
+      const baseUrl = `${req.protocol}://${req.get('host')}/api/ical`;
+      const [rooms, roomTypeCodes] = await Promise.all([
+        storage.getRooms(hotelId),
+        RoomTypeService.codes(hotelId),
+      ]);
+      const roomTypes = roomTypeCodes.filter(roomType => rooms.some(room => room.type === roomType));
+
+      res.json({
+        rooms: rooms.map(room => ({
+          roomId: room.id,
+          roomNumber: room.number,
+          roomType: room.type,
+          url: `${baseUrl}/rooms/${room.id}/${IcalSyncService.feedToken("room", room.id)}.ics`,
+        })),
+        roomTypes: roomTypes.map(roomType => ({
+          roomType,
+          url: `${baseUrl}/hotels/${hotelId}/room-types/${roomType}/${IcalSyncService.feedToken("room-type", `${hotelId}:${roomType}`)}.ics`,
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching iCal feeds:", error);
+      res.status(500).json({ message: "Failed to fetch iCal feeds" });
+    }
+  });
+
+  app.get("/api/channel-manager/ical/subscriptions", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+
+      res.json(await storage.getIcalSubscriptions(hotelId));
+    } catch (error) {
+      console.error("Error fetching iCal subscriptions:", error);
+      res.status(500).json({ message: "Failed to fetch iCal subscriptions" });
+    }
+  });
+
+  app.post("/api/channel-manager/ical/subscriptions", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+
+      const data = insertIcalSubscriptionSchema.parse(req.body);
+      // A room subscription always blocks that room's type
+      if (data.roomId) {
+        const room = await storage.getRoom(data.roomId);
+        if (!room || room.hotelId !== hotelId) {
+          return res.status(400).json({ message: "Room not found" });
+        }
+        data.roomType = room.type;
+      } else if ((await RoomTypeService.unknownCodes(hotelId, [data.roomType])).length > 0) {
+        return res.status(400).json({ message: `Unknown room type: ${data.roomType}` });
+      }
+
+      const subscription = await storage.createIcalSubscription({ ...data, hotelId });
+      // Import right away so the owner sees the result without waiting for the scheduler
+      const result = await IcalSyncService.syncSubscription(subscription.id);
+      res.status(201).json({ ...(await storage.getIcalSubscription(subscription.id)), syncResult: result });
+    } catch (error) {
+      console.error("Error creating iCal subscription:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create iCal subscription" });
+    }
+  });
+
+  app.put("/api/channel-manager/ical/subscriptions/:id", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      const subscription = await storage.getIcalSubscription(req.params.id);
+      if (!subscription || subscription.hotelId !== hotelId) {
+        return res.status(404).json({ message: "iCal subscription not found" });
+      }
+
+      const updates = insertIcalSubscriptionSchema.pick({ name: true, url: true, isActive: true }).partial().parse(req.body);
+      res.json(await storage.updateIcalSubscription(subscription.id, updates));
+    } catch (error) {
+      console.error("Error updating iCal subscription:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update iCal subscription" });
+    }
+  });
+
+  app.delete("/api/channel-manager/ical/subscriptions/:id", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      const subscription = await storage.getIcalSubscription(req.params.id);
+      if (!subscription || subscription.hotelId !== hotelId) {
+        return res.status(404).json({ message: "iCal subscription not found" });
+      }
+
+      // Imported blocks go with the subscription; imported reservations are kept but cancelled
+      const bookings = await storage.getChannelBookingsBySubscription(subscription.id);
+      for (const booking of bookings.filter(booking => booking.bookingStatus === "confirmed")) {
+        await storage.updateChannelBooking(booking.id, { bookingStatus: "cancelled" });
+      }
+      await storage.deleteIcalSubscription(subscription.id);
+
+      const today = new Date();
+      await ChannelSyncService.markInventoryDirty(subscription.hotelId, today, new Date(today.getTime() + FEED_DAYS_AHEAD * DAY_MS));
+      res.json({ message: "iCal subscription removed" });
+    } catch (error) {
+      console.error("Error deleting iCal subscription:", error);
+      res.status(500).json({ message: "Failed to delete iCal subscription" });
+    }
+  });
+
+  app.post("/api/channel-manager/ical/subscriptions/:id/sync", authenticateToken, checkTrialExpiration, requireHotelOwner, async (req: any, res: Response) => {
+    try {
+      const hotelId = req.headers['x-hotel-id'];
+      const subscription = await storage.getIcalSubscription(req.params.id);
+      if (!subscription || subscription.hotelId !== hotelId) {
+        return res.status(404).json({ message: "iCal subscription not found" });
+      }
+
+      const result = await IcalSyncService.syncSubscription(subscription.id);
+      res.status(result.success ? 200 : result.inProgress ? 409 : 502).json(result);
+    } catch (error) {
+      console.error("Error syncing iCal subscription:", error);
+      res.status(500).json({ message: "Failed to sync iCal subscription" });
+    }
+  });
+}
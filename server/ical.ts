@@ -0,0 +1,133 @@
+// Minimal RFC 5545 support for all-day availability calendars, which is all Airbnb,
+// VRBO and similar platforms exchange: VEVENTs with DTSTART/DTEND dates, UID and SUMMARY.
+
+export interface IcalEvent {
+  uid: string;
+  start: Date; // first blocked night
+  end: Date; // exclusive, like a checkout date
+  summary: string;
+  description?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, '\n').replace(/\\([\\;,])/g, '$1');
+}
+
+// Lines longer than 75 octets must be folded
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let rest = line;
+  while (rest.length > 75) {
+    parts.push(rest.slice(0, 75));
+    rest = ' ' + rest.slice(75);
+  }
+  parts.push(rest);
+  return parts.join('\r\n');
+}
+
+export function buildIcalCalendar(name: string, events: IcalEvent[]): string {
+  const now = formatTimestamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//EaseInn//Availability Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${now}`,
+      `DTSTART;VALUE=DATE:${formatDate(event.start)}`,
+      `DTEND;VALUE=DATE:${formatDate(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// DATE (20261114) or DATE-TIME (20261114T140000Z) values; times are truncated to the UTC day
+function parseIcalDate(value: string): Date | undefined {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) return undefined;
+  return new Date(Date.UTC(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)));
+}
+
+export function parseIcalEvents(text: string): IcalEvent[] {
+  // Unfold continuation lines first
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcalEvent[] = [];
+  let current: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      if (current) {
+        const start = current.DTSTART ? parseIcalDate(current.DTSTART) : undefined;
+        // A missing DTEND on an all-day event means a single night
+        const end = current.DTEND ? parseIcalDate(current.DTEND) : start && new Date(start.getTime() + DAY_MS);
+        if (start && end && end > start) {
+          events.push({
+            uid: current.UID || `${formatDate(start)}-${formatDate(end)}`,
+            start,
+            end,
+            summary: unescapeText(current.SUMMARY || ''),
+            description: current.DESCRIPTION ? unescapeText(current.DESCRIPTION) : undefined,
+          });
+        }
+      }
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    // Drop parameters such as ";VALUE=DATE" or ";TZID=..."
+    const key = line.slice(0, separator).split(';')[0].toUpperCase();
+    current[key] = line.slice(separator + 1);
+  }
+
+  return events;
+}
+
+// Merge a sorted list of blocked nights (YYYY-MM-DD) into contiguous ranges
+export function nightsToRanges(nights: string[]): { start: Date; end: Date }[] {
+  const ranges: { start: Date; end: Date }[] = [];
+  for (const night of Array.from(new Set(nights)).sort()) {
+    const start = new Date(`${night}T00:00:00.000Z`);
+    const last = ranges[ranges.length - 1];
+    if (last && last.end.getTime() === start.getTime()) {
+      last.end = new Date(start.getTime() + DAY_MS);
+    } else {
+      ranges.push({ start, end: new Date(start.getTime() + DAY_MS) });
+    }
+  }
+  return ranges;
+}
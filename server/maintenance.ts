@@ -0,0 +1,316 @@
+import type { Express, Response } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { authenticateToken, checkTrialExpiration, requireActiveHotel } from "./auth";
+import { nightKey } from "./availability";
+import { ChannelSyncService } from "./channel-manager";
+import { OverbookingDetector } from "./overbooking";
+import {
+  insertWorkOrderSchema, updateWorkOrderSchema, workOrderStatusEnum,
+  type Room, type RoomBlock, type WorkOrder,
+} from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_BLOCK_DAYS = 366;
+
+const dateKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+// A maintenance block: the room cannot be sold for nights from startDate until endDate, the
+// day it is back in service (exclusive, like a checkout date)
+export const maintenanceBlockSchema = z.object({
+  blockType: z.enum(["out_of_order", "out_of_service"]).default("out_of_order"),
+  startDate: dateKey,
+  endDate: dateKey,
+  reason: z.string().max(500).optional(),
+}).refine(block => block.startDate < block.endDate, { message: "endDate must be after startDate", path: ["endDate"] });
+
+export const createWorkOrderRequestSchema = insertWorkOrderSchema.extend({
+  block: maintenanceBlockSchema.optional(),
+});
+
+export const roomBlockRequestSchema = maintenanceBlockSchema.and(z.object({ roomId: z.string().min(1) }));
+
+export type MaintenanceBlockRequest = z.infer<typeof maintenanceBlockSchema>;
+
+export interface MaintenanceHistory {
+  workOrders: WorkOrder[];
+  blocks: RoomBlock[];
+}
+
+function toNight(key: string): Date {
+  return new Date(`${key}T00:00:00.000Z`);
+}
+
+function isClosed(workOrder: WorkOrder): boolean {
+  return workOrder.status === "completed" || workOrder.status === "cancelled";
+}
+
+// Work orders for repairs on rooms, and out-of-order / out-of-service blocks that take a room
+// off sale for a date range. Blocks are room_blocks rows with source "maintenance", so the
+// availability engine, channel inventory and overbooking detection pick them up like any other
+// block; the room's own status only follows the block for tonight.
+export class MaintenanceService {
+  static async blockRoom(room: Room, request: MaintenanceBlockRequest, triggeredBy: string, changedBy?: string | null): Promise<{ success: boolean; message: string; block?: RoomBlock }> {
+    const start = toNight(request.startDate);
+    const end = toNight(request.endDate);
+    const today = nightKey(new Date());
+    if (request.endDate <= today) {
+      return { success: false, message: "The block must include tonight or a later night" };
+    }
+    if ((end.getTime() - start.getTime()) / DAY_MS > MAX_BLOCK_DAYS) {
+      return { success: false, message: `A block cannot exceed ${MAX_BLOCK_DAYS} nights` };
+    }
+
+    const [checkIns, blocks] = await Promise.all([
+      storage.getActiveCheckIns(room.hotelId),
+      storage.getRoomBlocks(room.hotelId, start, end),
+    ]);
+    const inHouse = checkIns.find(checkIn => checkIn.roomId === room.id && nightKey(checkIn.checkOutDate) > request.startDate);
+    if (inHouse) {
+      return { success: false, message: `Room ${room.number} has a guest in house until ${nightKey(inHouse.checkOutDate)}` };
+    }
+    if (blocks.some(block => block.roomId === room.id && block.source === "maintenance")) {
+      return { success: false, message: `Room ${room.number} is already blocked for maintenance on some of these nights` };
+    }
+
+    const block = await storage.createRoomBlock({
+      hotelId: room.hotelId,
+      roomId: room.id,
+      roomType: room.type,
+      startDate: start,
+      endDate: end,
+      reason: request.reason || null,
+      source: "maintenance",
+      blockType: request.blockType,
+    });
+
+    if (request.startDate <= today && room.status !== "occupied") {
+      await storage.updateRoomStatus(room.id, "maintenance", { source: "maintenance", changedBy, reason: request.reason });
+    }
+    await ChannelSyncService.markInventoryDirty(room.hotelId, start, end);
+    await OverbookingDetector.check(room.hotelId, start, end, triggeredBy);
+
+    const label = request.blockType === "out_of_service" ? "out of service" : "out of order";
+    return { success: true, message: `Room ${room.number} is ${label} from ${request.startDate} until ${request.endDate}`, block };
+  }
+
+  // Put the room back in service from tonight: a block that has not started is removed, a
+  // running one ends today. The room is available again once no maintenance block covers tonight.
+  static async releaseBlock(block: RoomBlock, changedBy?: string | null) {
+    const today = toNight(nightKey(new Date()));
+    if (block.endDate <= today) return;
+
+    if (block.startDate >= today) {
+      await storage.deleteRoomBlocks([block.id]);
+    } else {
+      await storage.updateRoomBlock(block.id, { endDate: today });
+    }
+    await ChannelSyncService.markInventoryDirty(block.hotelId, today, block.endDate);
+
+    if (!block.roomId) return;
+    const room = await storage.getRoom(block.roomId);
+    if (room?.status === "maintenance" && (await this.getBlocksTonight(room)).length === 0) {
+      await storage.updateRoomStatus(room.id, "available", { source: "maintenance", changedBy, reason: "Back in service" });
+    }
+  }
+
+  static async getBlocksTonight(room: Room): Promise<RoomBlock[]> {
+    const today = toNight(nightKey(new Date()));
+    const blocks = await storage.getRoomBlocks(room.hotelId, today, new Date(today.getTime() + DAY_MS));
+    return blocks.filter(block => block.roomId === room.id && block.source === "maintenance");
+  }
+
+  // End the maintenance blocks covering tonight, for a room set available by hand
+  static async releaseRoom(room: Room, changedBy?: string | null) {
+    for (const block of await this.getBlocksTonight(room)) {
+      await this.releaseBlock(block, changedBy);
+    }
+  }
+
+  static async createWorkOrder(room: Room, request: z.infer<typeof createWorkOrderRequestSchema>, reportedBy?: string): Promise<{ success: boolean; message: string; workOrder?: WorkOrder }> {
+    const { block: blockRequest, ...workOrderData } = request;
+    let block: RoomBlock | undefined;
+    if (blockRequest) {
+      const result = await this.blockRoom(room, { ...blockRequest, reason: blockRequest.reason || workOrderData.issue }, `work_order:room:${room.id}`, reportedBy);
+      if (!result.success) return result;
+      block = result.block;
+    }
+
+    const workOrder = await storage.createWorkOrder({
+      ...workOrderData,
+      hotelId: room.hotelId,
+      blockId: block?.id || null,
+      reportedBy: reportedBy || null,
+    });
+    return { success: true, message: `Work order created for room ${room.number}`, workOrder };
+  }
+
+  // Completing or cancelling a work order puts its room back in service
+  static async updateWorkOrder(workOrder: WorkOrder, updates: z.infer<typeof updateWorkOrderSchema>, changedBy?: string): Promise<{ success: boolean; message: string; workOrder?: WorkOrder }> {
+    if (updates.status && updates.status !== workOrder.status && isClosed(workOrder)) {
+      return { success: false, message: `The work order is already ${workOrder.status}` };
+    }
+
+    const closing = !!updates.status && !isClosed(workOrder) && updates.status !== workOrder.status &&
+      (updates.status === "completed" || updates.status === "cancelled");
+    const updated = await storage.updateWorkOrder(workOrder.id, {
+      ...updates,
+      ...(closing ? { completedAt: new Date() } : {}),
+    } as Partial<WorkOrder>);
+
+    if (closing && workOrder.blockId) {
+      const block = await storage.getRoomBlock(workOrder.blockId);
+      if (block) await this.releaseBlock(block, changedBy);
+    }
+    return { success: true, message: closing ? `Work order ${updates.status}` : "Work order updated", workOrder: updated };
+  }
+
+  static async getHistory(roomId: string): Promise<MaintenanceHistory> {
+    const room = await storage.getRoom(roomId);
+    if (!room) return { workOrders: [], blocks: [] };
+    const [workOrders, blocks] = await Promise.all([
+      storage.getWorkOrders(room.hotelId, { roomId }),
+      storage.getRoomBlocksForRoom(roomId),
+    ]);
+    return { workOrders, blocks: blocks.filter(block => block.source === "maintenance") };
+  }
+}
+
+function maintenanceHotelId(req: any): string | undefined {
+  return req.hotel?.id || req.headers['x-hotel-id'];
+}
+
+async function getHotelRoom(hotelId: string | undefined, roomId: string): Promise<Room | undefined> {
+  const room = await storage.getRoom(roomId);
+  return room && room.hotelId === hotelId ? room : undefined;
+}
+
+export function setupMaintenanceRoutes(app: Express) {
+  // Work orders, newest first; filter by status and room
+  app.get("/api/maintenance/work-orders", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = maintenanceHotelId(req);
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+      const status = req.query.status ? String(req.query.status) as WorkOrder["status"] : undefined;
+      if (status && !workOrderStatusEnum.enumValues.includes(status)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      res.json(await storage.getWorkOrders(hotelId, {
+        status,
+        roomId: req.query.roomId ? String(req.query.roomId) : undefined,
+      }));
+    } catch (error) {
+      console.error("Error fetching work orders:", error);
+      res.status(500).json({ message: "Failed to fetch work orders" });
+    }
+  });
+
+  // Create a work order, optionally taking the room out of order for a date range
+  app.post("/api/maintenance/work-orders", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = maintenanceHotelId(req);
+      const request = createWorkOrderRequestSchema.parse(req.body);
+      const room = await getHotelRoom(hotelId, request.roomId);
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      const result = await MaintenanceService.createWorkOrder(room, request, req.user?.email);
+      res.status(result.success ? 201 : 400).json(result);
+    } catch (error) {
+      console.error("Error creating work order:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create work order" });
+    }
+  });
+
+  app.put("/api/maintenance/work-orders/:id", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = maintenanceHotelId(req);
+      const workOrder = await storage.getWorkOrder(req.params.id);
+      if (!workOrder || workOrder.hotelId !== hotelId) {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+      const updates = updateWorkOrderSchema.parse(req.body);
+      const result = await MaintenanceService.updateWorkOrder(workOrder, updates, req.user?.email);
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      console.error("Error updating work order:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update work order" });
+    }
+  });
+
+  // Current and upcoming maintenance blocks, soonest first
+  app.get("/api/maintenance/blocks", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = maintenanceHotelId(req);
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+      const today = toNight(nightKey(new Date()));
+      const blocks = await storage.getRoomBlocks(hotelId, today, new Date(today.getTime() + MAX_BLOCK_DAYS * DAY_MS));
+      res.json(blocks
+        .filter(block => block.source === "maintenance")
+        .sort((a, b) => a.startDate.getTime() - b.startDate.getTime()));
+    } catch (error) {
+      console.error("Error fetching maintenance blocks:", error);
+      res.status(500).json({ message: "Failed to fetch maintenance blocks" });
+    }
+  });
+
+  // Block a room without a work order, e.g. out of service for a photo shoot
+  app.post("/api/maintenance/blocks", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = maintenanceHotelId(req);
+      const { roomId, ...request } = roomBlockRequestSchema.parse(req.body);
+      const room = await getHotelRoom(hotelId, roomId);
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      const result = await MaintenanceService.blockRoom(room, request, `room_block:room:${room.id}`, req.user?.email);
+      res.status(result.success ? 201 : 400).json(result);
+    } catch (error) {
+      console.error("Error blocking room:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to block room" });
+    }
+  });
+
+  // Put a room back in service from tonight
+  app.post("/api/maintenance/blocks/:id/release", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = maintenanceHotelId(req);
+      const block = await storage.getRoomBlock(req.params.id);
+      if (!block || block.hotelId !== hotelId || block.source !== "maintenance") {
+        return res.status(404).json({ message: "Maintenance block not found" });
+      }
+      await MaintenanceService.releaseBlock(block, req.user?.email);
+      res.json({ success: true, message: "Room back in service" });
+    } catch (error) {
+      console.error("Error releasing maintenance block:", error);
+      res.status(500).json({ message: "Failed to release maintenance block" });
+    }
+  });
+
+  // Work orders and maintenance blocks of one room, newest first
+  app.get("/api/maintenance/rooms/:roomId/history", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const room = await getHotelRoom(maintenanceHotelId(req), req.params.roomId);
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      res.json(await MaintenanceService.getHistory(room.id));
+    } catch (error) {
+      console.error("Error fetching maintenance history:", error);
+      res.status(500).json({ message: "Failed to fetch maintenance history" });
+    }
+  });
+}
@@ -0,0 +1,13 @@
+import { RoomTypeService } from "./room-types";
+
+// Create per-hotel room types for the old standard/deluxe/suite values and link existing rooms,
+// bookings, rate plans and mappings to them: npm run room-types:migrate
+RoomTypeService.migrateAll()
+  .then(result => {
+    console.log(`Room types: ${result.created} created across ${result.hotels} hotels`);
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error("Room type migration failed:", error);
+    process.exit(1);
+  });
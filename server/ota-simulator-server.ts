@@ -0,0 +1,4 @@
+import { startOtaSimulator } from "./ota-simulator";
+
+// Standalone OTA simulator: npm run ota:simulator
+startOtaSimulator(parseInt(process.env.OTA_SIMULATOR_PORT || "", 10) || 4010);
@@ -0,0 +1,176 @@
+import express, { type Request, type Response, type NextFunction, Router } from "express";
+import type { OtaInventoryRecord, OtaReservation, OtaRoomType } from "./services/ota-adapter";
+
+// Deterministic stand-in for an OTA partner API, used in development and tests instead of
+// random success. Channels whose apiEndpoint is `http://localhost:<PORT>/ota-simulator` talk to it through
+// the simulator adapter. Behaviour is driven entirely by the request:
+//   - credentials with password or apiKey "invalid" are rejected with 401
+//   - property ids starting with "fail-" answer pushes with 503 and Retry-After: 300
+//   - property ids starting with "throttle-" answer pushes with 429 and Retry-After: 60
+//   - every other property accepts valid records and stores them in memory
+// Reservations are seeded through POST /properties/:propertyId/reservations and returned by
+// the reservation feed until they are acknowledged; the property updates them with PATCH.
+
+interface SimulatedProperty {
+  inventory: Map<string, OtaInventoryRecord>; // keyed by roomType|ratePlanId|date
+  reservations: Map<string, OtaReservation & { acknowledged: boolean }>;
+}
+
+export const SIMULATED_ROOM_TYPES: OtaRoomType[] = [
+  { id: "SIM-STD", name: "Standard Room", maxOccupancy: 2, ratePlans: [{ id: "SIM-BAR", name: "Best Available Rate" }] },
+  { id: "SIM-DLX", name: "Deluxe Room", maxOccupancy: 3, ratePlans: [{ id: "SIM-BAR", name: "Best Available Rate" }] },
+  { id: "SIM-STE", name: "Suite", maxOccupancy: 4, ratePlans: [{ id: "SIM-BAR", name: "Best Available Rate" }, { id: "SIM-BB", name: "Bed & Breakfast" }] },
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function createOtaSimulator(): Router {
+  const router = Router();
+  const properties = new Map<string, SimulatedProperty>();
+
+  const getProperty = (propertyId: string) => {
+    let property = properties.get(propertyId);
+    if (!property) {
+      property = { inventory: new Map(), reservations: new Map() };
+      properties.set(propertyId, property);
+    }
+    return property;
+  };
+
+  router.use(express.json({ limit: "10mb" }));
+
+  // Same credential check for every property endpoint
+  router.use("/properties/:propertyId", (req: Request, res: Response, next: NextFunction) => {
+    const apiKey = req.headers["x-api-key"];
+    const authorization = req.headers.authorization || "";
+    const password = authorization.startsWith("Basic ")
+      ? Buffer.from(authorization.slice(6), "base64").toString().split(":").slice(1).join(":")
+      : undefined;
+
+    if (!apiKey && !password) {
+      return res.status(401).json({ error: "Missing credentials" });
+    }
+    if (apiKey === "invalid" || password === "invalid") {
+      return res.status(401).json({ error: "Invalid credentials" });
+    }
+    next();
+  });
+
+  router.get("/properties/:propertyId", (req: Request, res: Response) => {
+    res.json({ propertyId: req.params.propertyId, name: `Simulated property ${req.params.propertyId}`, status: "active" });
+  });
+
+  router.get("/properties/:propertyId/room-types", (_req: Request, res: Response) => {
+    res.json({ roomTypes: SIMULATED_ROOM_TYPES });
+  });
+
+  router.post("/properties/:propertyId/availability", (req: Request, res: Response) => {
+    const { propertyId } = req.params;
+    if (propertyId.startsWith("fail-")) {
+      res.setHeader("Retry-After", "300");
+      return res.status(503).json({ error: "OTA API temporarily unavailable" });
+    }
+    if (propertyId.startsWith("throttle-")) {
+      res.setHeader("Retry-After", "60");
+      return res.status(429).json({ error: "Too many requests" });
+    }
+
+    const records: OtaInventoryRecord[] = Array.isArray(req.body?.records) ? req.body.records : [];
+    const errors = records.flatMap((record, index) => {
+      const problems: string[] = [];
+      if (!record.roomType) problems.push("roomType is required");
+      if (!DATE_PATTERN.test(record.date || "")) problems.push("date must be YYYY-MM-DD");
+      if (!Number.isInteger(record.availableRooms) || record.availableRooms < 0) problems.push("availableRooms must be a non-negative integer");
+      if (typeof record.sellRate !== "number" || record.sellRate <= 0) problems.push("sellRate must be a positive number");
+      return problems.map(problem => ({ index, error: problem }));
+    });
+    if (errors.length > 0) {
+      return res.status(400).json({ error: "Invalid records", errors });
+    }
+
+    const property = getProperty(propertyId);
+    for (const record of records) {
+      property.inventory.set(`${record.roomType}|${record.ratePlanId || "default"}|${record.date}`, record);
+    }
+    res.json({ recordsUpdated: records.length });
+  });
+
+  // Inspect what has been pushed so far
+  router.get("/properties/:propertyId/availability", (req: Request, res: Response) => {
+    const property = getProperty(req.params.propertyId);
+    res.json({ records: Array.from(property.inventory.values()) });
+  });
+
+  router.get("/properties/:propertyId/reservations", (req: Request, res: Response) => {
+    const property = getProperty(req.params.propertyId);
+    const startDate = (req.query.startDate as string) || "0000-01-01";
+    const endDate = (req.query.endDate as string) || "9999-12-31";
+
+    const reservations = Array.from(property.reservations.values())
+      .filter(reservation => !reservation.acknowledged && reservation.checkIn >= startDate && reservation.checkIn <= endDate)
+      .sort((a, b) => a.reservationId.localeCompare(b.reservationId))
+      .map(({ acknowledged, ...reservation }) => reservation);
+    res.json({ reservations });
+  });
+
+  // Seed or modify reservations; re-posting an id replaces it and makes it visible again
+  router.post("/properties/:propertyId/reservations", (req: Request, res: Response) => {
+    const property = getProperty(req.params.propertyId);
+    const reservations: OtaReservation[] = Array.isArray(req.body?.reservations) ? req.body.reservations : [req.body];
+
+    for (const reservation of reservations) {
+      if (!reservation?.reservationId || !DATE_PATTERN.test(reservation.checkIn || "") || !DATE_PATTERN.test(reservation.checkOut || "")) {
+        return res.status(400).json({ error: "reservationId, checkIn and checkOut (YYYY-MM-DD) are required" });
+      }
+    }
+    for (const reservation of reservations) {
+      property.reservations.set(reservation.reservationId, { ...reservation, status: reservation.status || "new", acknowledged: false });
+    }
+    res.status(201).json({ reservationsStored: reservations.length });
+  });
+
+  router.post("/properties/:propertyId/reservations/:reservationId/ack", (req: Request, res: Response) => {
+    const reservation = getProperty(req.params.propertyId).reservations.get(req.params.reservationId);
+    if (!reservation) {
+      return res.status(404).json({ error: "Reservation not found" });
+    }
+    reservation.acknowledged = true;
+    res.json({ acknowledged: true });
+  });
+
+  // Changes made by the property: confirm, cancel or modify. The reservation stays acknowledged.
+  router.patch("/properties/:propertyId/reservations/:reservationId", (req: Request, res: Response) => {
+    const reservation = getProperty(req.params.propertyId).reservations.get(req.params.reservationId);
+    if (!reservation) {
+      return res.status(404).json({ error: "Reservation not found" });
+    }
+    const { status, ...changes } = req.body || {};
+    if (!["confirmed", "cancelled", "modified"].includes(status)) {
+      return res.status(400).json({ error: "status must be confirmed, cancelled or modified" });
+    }
+    if (reservation.status === "cancelled") {
+      return res.status(409).json({ error: "Reservation is cancelled" });
+    }
+    if ((changes.checkIn && !DATE_PATTERN.test(changes.checkIn)) || (changes.checkOut && !DATE_PATTERN.test(changes.checkOut))) {
+      return res.status(400).json({ error: "checkIn and checkOut must be YYYY-MM-DD" });
+    }
+    Object.assign(reservation, status === "modified" ? changes : {}, { status });
+    res.json({ reservation });
+  });
+
+  router.post("/reset", (_req: Request, res: Response) => {
+    properties.clear();
+    res.json({ reset: true });
+  });
+
+  return router;
+}
+
+// Run the simulator on its own port, e.g. for tests against a production build
+export function startOtaSimulator(port: number) {
+  const app = express();
+  app.use("/ota-simulator", createOtaSimulator());
+  return app.listen(port, () => {
+    console.log(`OTA simulator listening on http://localhost:${port}/ota-simulator`);
+  });
+}
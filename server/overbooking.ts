@@ -0,0 +1,329 @@
+import type { Express, Response } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { authenticateToken, checkTrialExpiration, requireActiveHotel } from "./auth";
+import { AvailabilityService, nightKey, type NightAvailability, type RoomTypeName } from "./availability";
+import { ChannelSyncService } from "./channel-manager";
+import type { OverbookingAlert, OverbookingConflict, RelocationSuggestion } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MOVE_SEARCH_DAYS = 7; // how far a stay may be moved earlier or later
+
+export const resolveOverbookingSchema = z.object({
+  status: z.enum(["resolved", "dismissed"]),
+  note: z.string().max(1000).optional(),
+});
+
+// Reservations on a night beyond the rooms that can be sold; negative availability
+function overbookedBy(slot: NightAvailability): number {
+  return slot.outOfOrder + slot.occupied + slot.booked + slot.channelBooked - slot.totalRooms;
+}
+
+function toNight(key: string): Date {
+  return new Date(`${key}T00:00:00.000Z`);
+}
+
+// Detects room types sold beyond capacity on a night, which happens when OTA reservations,
+// walk-ins and direct bookings race for the last room. Each overbooked night gets an alert with
+// the conflicting reservations and relocation suggestions, and is stop-sold on every channel.
+export class OverbookingDetector {
+  // Call after a reservation was inserted, with its stay. Never throws: the insert has already
+  // happened and must not fail because the detector did.
+  static async check(hotelId: string, checkIn: Date, checkOut: Date, triggeredBy: string): Promise<OverbookingAlert[]> {
+    try {
+      const availability = await AvailabilityService.getAvailability(hotelId, checkIn, checkOut);
+      const overbooked = availability.filter(slot => overbookedBy(slot) > 0);
+      if (overbooked.length === 0) return [];
+
+      const conflictsBySlot = await this.findConflicts(hotelId, overbooked);
+      const suggestionCache = new Map<string, RelocationSuggestion[]>();
+      const alerts: OverbookingAlert[] = [];
+
+      for (const slot of overbooked) {
+        const conflicts = conflictsBySlot.get(`${slot.date}|${slot.roomType}`) || [];
+        const suggestions: RelocationSuggestion[] = [];
+        for (const conflict of conflicts.filter(conflict => !conflict.inHouse)) {
+          const key = `${conflict.kind}|${conflict.id}`;
+          if (!suggestionCache.has(key)) {
+            suggestionCache.set(key, await this.suggestRelocations(hotelId, slot.roomType, conflict));
+          }
+          suggestions.push(...suggestionCache.get(key)!);
+        }
+
+        alerts.push(await storage.upsertOverbookingAlert({
+          hotelId,
+          roomType: slot.roomType,
+          date: toNight(slot.date),
+          overbookedBy: overbookedBy(slot),
+          conflicts,
+          suggestions,
+          triggeredBy,
+        }));
+      }
+
+      await this.stopSell(hotelId, alerts);
+      console.warn(`Overbooking detected for hotel ${hotelId}: ${overbooked.map(slot => `${slot.roomType} on ${slot.date}`).join(", ")}`);
+      return alerts;
+    } catch (error) {
+      console.error(`Overbooking check failed for hotel ${hotelId}:`, error);
+      return [];
+    }
+  }
+
+  // Close an alert. Resolving requires the night to no longer be overbooked; dismissing accepts
+  // it as is (e.g. a guest will be walked to a partner hotel). Either lifts the detector's stop-sell,
+  // putting back whatever stop-sell the hotel had set for the night itself.
+  static async close(alert: OverbookingAlert, status: "resolved" | "dismissed", note?: string) {
+    if (alert.status !== "open") {
+      return { success: false, message: `Alert is already ${alert.status}` };
+    }
+
+    const night = alert.date;
+    const [slot] = (await AvailabilityService.getAvailability(alert.hotelId, night, new Date(night.getTime() + DAY_MS)))
+      .filter(slot => slot.roomType === alert.roomType);
+    const remaining = slot ? overbookedBy(slot) : 0;
+    if (status === "resolved" && remaining > 0) {
+      return { success: false, message: `${alert.roomType} is still overbooked by ${remaining} on ${nightKey(night)} - relocate a reservation or dismiss the alert` };
+    }
+
+    if (alert.stopSellApplied) {
+      await storage.upsertChannelRestrictions(
+        [{ hotelId: alert.hotelId, channelId: null, roomType: alert.roomType, date: night, stopSell: alert.previousStopSell ?? null }],
+        ["stopSell"],
+      );
+      await ChannelSyncService.markInventoryDirty(alert.hotelId, night, night);
+    }
+
+    const updated = await storage.updateOverbookingAlert(alert.id, {
+      status,
+      resolutionNote: note || null,
+      resolvedAt: new Date(),
+      stopSellApplied: false,
+      previousStopSell: null,
+    });
+    return { success: true, message: status === "resolved" ? "Overbooking resolved" : "Overbooking alert dismissed", alert: updated };
+  }
+
+  // Stop-sell the overbooked slots hotel-wide and push them now rather than on the next scheduled sync
+  private static async stopSell(hotelId: string, alerts: OverbookingAlert[]) {
+    const dates = alerts.map(alert => alert.date.getTime());
+    // Remember stop-sells the hotel set in the restriction grid so close() can restore them
+    const hotelStopSell = new Map(
+      (await storage.getChannelRestrictions(hotelId, new Date(Math.min(...dates)), new Date(Math.max(...dates))))
+        .filter(restriction => !restriction.channelId)
+        .map(restriction => [`${nightKey(restriction.date)}|${restriction.roomType}`, restriction.stopSell]),
+    );
+
+    await storage.upsertChannelRestrictions(
+      alerts.map(alert => ({ hotelId, channelId: null, roomType: alert.roomType, date: alert.date, stopSell: true })),
+      ["stopSell"],
+    );
+    for (const alert of alerts) {
+      // An alert that already applied its stop-sell would otherwise record its own as the hotel's
+      const previousStopSell = alert.stopSellApplied
+        ? alert.previousStopSell
+        : hotelStopSell.get(`${nightKey(alert.date)}|${alert.roomType}`) ?? null;
+      await storage.updateOverbookingAlert(alert.id, { stopSellApplied: true, previousStopSell });
+      alert.stopSellApplied = true;
+      alert.previousStopSell = previousStopSell;
+    }
+
+    await ChannelSyncService.markInventoryDirty(hotelId, new Date(Math.min(...dates)), new Date(Math.max(...dates)), { force: true });
+    for (const channel of await storage.getActiveChannelsByHotelId(hotelId)) {
+      try {
+        const result = await ChannelSyncService.pushDirtyInventory(channel.id);
+        if (!result.success) {
+          console.error(`Stop-sell push to channel ${channel.id} failed:`, result.error || result.message);
+        }
+      } catch (error) {
+        console.error(`Stop-sell push to channel ${channel.id} failed:`, error);
+      }
+    }
+  }
+
+  // Every reservation that counts against an overbooked slot, keyed by "night|roomType"
+  private static async findConflicts(hotelId: string, slots: NightAvailability[]): Promise<Map<string, OverbookingConflict[]>> {
+    const nights = slots.map(slot => slot.date).sort();
+    const start = toNight(nights[0]);
+    const end = new Date(toNight(nights[nights.length - 1]).getTime() + DAY_MS);
+
+    const [bookings, channelBookings, activeCheckIns] = await Promise.all([
+      storage.getConfirmedBookingsWithRooms(hotelId, start, end),
+      storage.getConfirmedChannelBookings(hotelId, start, end),
+      storage.getActiveCheckIns(hotelId),
+    ]);
+
+    const claims: { roomType: string | null; conflict: OverbookingConflict }[] = [];
+    for (const booking of bookings) {
+      const stay = { checkInDate: nightKey(booking.checkInDate), checkOutDate: nightKey(booking.checkOutDate) };
+      const roomTypes = booking.rooms.length > 0
+        ? booking.rooms.map(room => room.roomType)
+        : Array(booking.numberOfRooms || 1).fill(booking.roomType);
+      for (const roomType of Array.from(new Set(roomTypes))) {
+        claims.push({
+          roomType,
+          conflict: {
+            kind: "booking",
+            id: booking.id,
+            guestName: booking.guestName,
+            source: booking.source || "direct",
+            ...stay,
+            rooms: roomTypes.filter(type => type === roomType).length,
+            inHouse: false,
+          },
+        });
+      }
+    }
+    for (const channelBooking of channelBookings) {
+      // Imported reservations are listed through their bookings row
+      if (channelBooking.bookingId) continue;
+      claims.push({
+        roomType: channelBooking.roomType,
+        conflict: {
+          kind: "channel_booking",
+          id: channelBooking.id,
+          guestName: channelBooking.guestName,
+          source: channelBooking.icalSubscriptionId ? `${channelBooking.source} (ical)` : channelBooking.source,
+          checkInDate: nightKey(channelBooking.checkInDate),
+          checkOutDate: nightKey(channelBooking.checkOutDate),
+          rooms: channelBooking.numberOfRooms || 1,
+          inHouse: false,
+        },
+      });
+    }
+    for (const checkIn of activeCheckIns) {
+      // Same rule as the availability engine: an overstaying guest holds the room until checkout
+      const stayEnd = new Date(Math.max(new Date(checkIn.checkOutDate).getTime(), Date.now() + DAY_MS));
+      claims.push({
+        roomType: checkIn.room.type,
+        conflict: {
+          kind: "check_in",
+          id: checkIn.id,
+          guestName: checkIn.guest.fullName,
+          source: "walk_in",
+          checkInDate: nightKey(checkIn.checkInDate),
+          checkOutDate: nightKey(stayEnd),
+          rooms: 1,
+          inHouse: true,
+        },
+      });
+    }
+
+    const conflictsBySlot = new Map<string, OverbookingConflict[]>();
+    for (const slot of slots) {
+      conflictsBySlot.set(
+        `${slot.date}|${slot.roomType}`,
+        claims
+          .filter(claim => claim.roomType === slot.roomType && claim.conflict.checkInDate <= slot.date && slot.date < claim.conflict.checkOutDate)
+          .map(claim => claim.conflict),
+      );
+    }
+    return conflictsBySlot;
+  }
+
+  // Up to two upgrades (room types with a higher default rate) for the same dates, and the nearest
+  // earlier and later dates in the same room type
+  private static async suggestRelocations(hotelId: string, roomType: RoomTypeName, conflict: OverbookingConflict): Promise<RelocationSuggestion[]> {
+    const checkIn = toNight(conflict.checkInDate);
+    const checkOut = toNight(conflict.checkOutDate);
+    const stayNights = Math.max(1, Math.round((checkOut.getTime() - checkIn.getTime()) / DAY_MS));
+    const searchStart = new Date(Math.max(checkIn.getTime() - MOVE_SEARCH_DAYS * DAY_MS, toNight(nightKey(new Date())).getTime()));
+    const searchEnd = new Date(checkOut.getTime() + MOVE_SEARCH_DAYS * DAY_MS);
+
+    const [availability, roomTypes] = await Promise.all([
+      AvailabilityService.getAvailability(hotelId, searchStart, searchEnd),
+      storage.getRoomTypes(hotelId),
+    ]);
+    const bySlot = new Map(availability.map(slot => [`${slot.date}|${slot.roomType}`, slot]));
+    // Rooms left on a night if this reservation moved away from it
+    const free = (night: string, type: string) => {
+      const slot = bySlot.get(`${night}|${type}`);
+      if (!slot) return 0;
+      const ownClaim = type === roomType && conflict.checkInDate <= night && night < conflict.checkOutDate ? conflict.rooms : 0;
+      return -overbookedBy(slot) + ownClaim;
+    };
+    const fits = (start: Date, type: string) => {
+      for (let i = 0; i < stayNights; i++) {
+        if (free(nightKey(new Date(start.getTime() + i * DAY_MS)), type) < conflict.rooms) return false;
+      }
+      return true;
+    };
+
+    const suggestions: RelocationSuggestion[] = [];
+    const currentRate = parseFloat(roomTypes.find(type => type.code === roomType)?.defaultRate || "0");
+    const higherTypes = roomTypes
+      .filter(type => parseFloat(type.defaultRate) > currentRate)
+      .sort((a, b) => parseFloat(a.defaultRate) - parseFloat(b.defaultRate));
+    for (const type of higherTypes.filter(type => fits(checkIn, type.code)).slice(0, 2)) {
+      suggestions.push({
+        conflictId: conflict.id,
+        kind: "upgrade",
+        roomType: type.code,
+        checkInDate: conflict.checkInDate,
+        checkOutDate: conflict.checkOutDate,
+        description: `Upgrade ${conflict.guestName} to ${type.name} for the same dates`,
+      });
+    }
+
+    for (const direction of [-1, 1]) {
+      for (let offset = 1; offset <= MOVE_SEARCH_DAYS; offset++) {
+        const start = new Date(checkIn.getTime() + direction * offset * DAY_MS);
+        if (start < searchStart) break;
+        if (!fits(start, roomType)) continue;
+        const end = new Date(start.getTime() + stayNights * DAY_MS);
+        suggestions.push({
+          conflictId: conflict.id,
+          kind: "move",
+          roomType,
+          checkInDate: nightKey(start),
+          checkOutDate: nightKey(end),
+          description: `Move ${conflict.guestName} ${offset} night${offset === 1 ? "" : "s"} ${direction < 0 ? "earlier" : "later"} (${nightKey(start)} to ${nightKey(end)})`,
+        });
+        break;
+      }
+    }
+    return suggestions;
+  }
+}
+
+export function setupOverbookingRoutes(app: Express) {
+  // Overbooking alerts, open ones unless a status is given
+  app.get("/api/overbooking-alerts", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = req.hotel?.id || req.headers['x-hotel-id'];
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+
+      const status = req.query.status === "all" ? undefined : (req.query.status || "open");
+      if (status && !["open", "resolved", "dismissed"].includes(status)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      res.json(await storage.getOverbookingAlerts(hotelId, status));
+    } catch (error) {
+      console.error("Error fetching overbooking alerts:", error);
+      res.status(500).json({ message: "Failed to fetch overbooking alerts" });
+    }
+  });
+
+  // Mark an alert resolved (the night is no longer overbooked) or dismissed
+  app.post("/api/overbooking-alerts/:id/close", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = req.hotel?.id || req.headers['x-hotel-id'];
+      const alert = await storage.getOverbookingAlert(req.params.id);
+      if (!alert || alert.hotelId !== hotelId) {
+        return res.status(404).json({ message: "Overbooking alert not found" });
+      }
+
+      const { status, note } = resolveOverbookingSchema.parse(req.body);
+      const result = await OverbookingDetector.close(alert, status, note);
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      console.error("Error closing overbooking alert:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to close overbooking alert" });
+    }
+  });
+}
@@ -0,0 +1,377 @@
+import type { Express, Response } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { authenticateToken, checkTrialExpiration, requireActiveHotel } from "./auth";
+import { AvailabilityService, nightKey, type NightAvailability } from "./availability";
+import { RateParityService } from "./rate-parity";
+import { RoomTypeService } from "./room-types";
+import { ChannelSyncService } from "./channel-manager";
+import { insertPricingRuleSchema, updatePricingRuleSchema, type Hotel, type PricingRule } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_QUOTE_NIGHTS = 60;
+const REPRICE_DAYS_AHEAD = 365;
+
+const rateLimitsSchema = z.record(z.string().min(1), z.object({
+  floor: z.number().positive().optional(),
+  ceiling: z.number().positive().optional(),
+}).refine(limits => limits.floor === undefined || limits.ceiling === undefined || limits.floor <= limits.ceiling, {
+  message: "Floor rate cannot exceed the ceiling rate",
+}));
+
+const quoteQuerySchema = z.object({
+  roomType: z.string().min(1),
+  checkIn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  checkOut: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+}).refine(query => query.checkIn < query.checkOut, { message: "checkOut must be after checkIn", path: ["checkOut"] });
+
+export interface RateAdjustment {
+  ruleId: string;
+  ruleName: string;
+  ruleType: PricingRule["ruleType"] | "floor" | "ceiling";
+  change: number; // amount added to the rate
+  reason: string;
+}
+
+export interface PricedNight {
+  date: string; // YYYY-MM-DD
+  roomType: string;
+  baseRate: number;
+  rate: number;
+  occupancy: number | null; // forecast occupancy percent, null without sellable rooms
+  daysBeforeArrival: number;
+  adjustments: RateAdjustment[];
+  explanation: string[];
+}
+
+export interface StayQuote {
+  roomType: string;
+  checkIn: string;
+  checkOut: string;
+  nights: PricedNight[];
+  total: number;
+  averageRate: number;
+}
+
+// Everything the rules need for a hotel and date range, loaded once and reused for every night
+export interface PricingContext {
+  rules: PricingRule[];
+  rateLimits: Record<string, { floor?: number; ceiling?: number }>;
+  occupancy: Map<string, number>; // "YYYY-MM-DD|roomType" -> percent
+  calendarRates: Map<string, number>; // "YYYY-MM-DD|roomType" -> rate set in the rate calendar
+  defaultRates: Map<string, number>; // roomType -> the room type's default rate
+  hotel?: Pick<Hotel, "pricing">;
+  today: string;
+}
+
+const formatAmount = (amount: number) => `₹${(Math.round(amount * 100) / 100).toLocaleString("en-IN")}`;
+
+function inRange(value: number, min: number | null, max: number | null): boolean {
+  return (min === null || value >= min) && (max === null || value <= max);
+}
+
+function describeBounds(min: number | null, max: number | null, unit: string): string {
+  if (min !== null && max !== null) return `${min}-${max}${unit}`;
+  return min !== null ? `≥ ${min}${unit}` : `≤ ${max}${unit}`;
+}
+
+// Rules-based revenue engine. Starting from a base rate (the direct rate or a channel rate plan's
+// rate) it applies the hotel's active pricing rules in priority order - forecast occupancy,
+// days before arrival, length of stay and day of week - then clamps to the room type's floor and
+// ceiling. Every step is recorded so the UI can explain the final rate.
+export class PricingEngine {
+  // Share of sellable rooms already taken for the night
+  static forecastOccupancy(slot: NightAvailability): number | null {
+    const sellable = slot.totalRooms - slot.outOfOrder;
+    if (sellable <= 0) return null;
+    return Math.min(100, Math.round((slot.occupied + slot.booked + slot.channelBooked) / sellable * 100));
+  }
+
+  // startDate inclusive, endDate exclusive. Pass availability when the caller already has it.
+  static async loadContext(hotelId: string, startDate: Date, endDate: Date, options: { hotel?: Hotel; availability?: NightAvailability[] } = {}): Promise<PricingContext> {
+    const [hotel, rules, availability, roomRates, roomTypes] = await Promise.all([
+      options.hotel ?? storage.getHotel(hotelId),
+      storage.getPricingRules(hotelId),
+      options.availability ?? AvailabilityService.getAvailability(hotelId, startDate, endDate),
+      storage.getRoomRates(hotelId, startDate, endDate),
+      storage.getRoomTypes(hotelId, true),
+    ]);
+
+    const occupancy = new Map<string, number>();
+    for (const slot of availability) {
+      const percent = this.forecastOccupancy(slot);
+      if (percent !== null) occupancy.set(`${slot.date}|${slot.roomType}`, percent);
+    }
+
+    const calendarRates = new Map<string, number>();
+    for (const roomRate of roomRates) {
+      calendarRates.set(`${nightKey(roomRate.date)}|${roomRate.roomType}`, parseFloat(roomRate.rate));
+    }
+
+    return {
+      rules: rules.filter(rule => rule.isActive),
+      rateLimits: hotel?.pricing?.rateLimits || {},
+      occupancy,
+      calendarRates,
+      defaultRates: new Map(roomTypes.map(roomType => [roomType.code, parseFloat(roomType.defaultRate)])),
+      hotel,
+      today: nightKey(new Date()),
+    };
+  }
+
+  // Direct rate before rules: the rate calendar, or the room type's default rate under the
+  // hotel's default pricing for nights without a calendar rate
+  static directBaseRate(context: PricingContext, roomType: string, night: Date): { rate: number; source: "calendar" | "default" } {
+    const calendarRate = context.calendarRates.get(`${nightKey(night)}|${roomType}`);
+    if (calendarRate !== undefined) {
+      return { rate: calendarRate, source: "calendar" };
+    }
+    return { rate: context.hotel ? RateParityService.directRate(context.hotel, context.defaultRates.get(roomType), night) : 0, source: "default" };
+  }
+
+  // Price one night. arrival and lengthOfStay describe the stay being quoted; channel pushes
+  // price every night as a possible arrival with an unknown length, so stay rules are skipped.
+  static priceNight(
+    context: PricingContext,
+    roomType: string,
+    night: Date,
+    baseRate: number,
+    stay: { arrival?: Date; lengthOfStay?: number; baseLabel?: string } = {},
+  ): PricedNight {
+    const date = nightKey(night);
+    const arrival = stay.arrival ? nightKey(stay.arrival) : date;
+    const daysBeforeArrival = Math.max(0, Math.round((Date.parse(arrival) - Date.parse(context.today)) / DAY_MS));
+    const occupancy = context.occupancy.get(`${date}|${roomType}`) ?? null;
+    const dayOfWeek = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+
+    const adjustments: RateAdjustment[] = [];
+    const explanation = [`${stay.baseLabel || "Base rate"} ${formatAmount(baseRate)}`];
+    let rate = baseRate;
+
+    for (const rule of context.rules) {
+      if (rule.roomType && rule.roomType !== roomType) continue;
+
+      let reason: string | null = null;
+      switch (rule.ruleType) {
+        case "occupancy":
+          if (occupancy !== null && inRange(occupancy, rule.minOccupancy, rule.maxOccupancy)) {
+            reason = `forecast occupancy ${occupancy}% (${describeBounds(rule.minOccupancy, rule.maxOccupancy, "%")})`;
+          }
+          break;
+        case "lead_time":
+          if (inRange(daysBeforeArrival, rule.minDaysBefore, rule.maxDaysBefore)) {
+            reason = `${daysBeforeArrival} days before arrival (${describeBounds(rule.minDaysBefore, rule.maxDaysBefore, " days")})`;
+          }
+          break;
+        case "length_of_stay":
+          if (stay.lengthOfStay !== undefined && inRange(stay.lengthOfStay, rule.minNights, rule.maxNights)) {
+            reason = `${stay.lengthOfStay} night stay (${describeBounds(rule.minNights, rule.maxNights, " nights")})`;
+          }
+          break;
+        case "day_of_week":
+          if (rule.daysOfWeek?.includes(dayOfWeek)) {
+            reason = `${["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"][dayOfWeek]} night`;
+          }
+          break;
+      }
+      if (!reason) continue;
+
+      const value = parseFloat(rule.adjustmentValue);
+      const change = rule.adjustmentType === "percent" ? rate * value / 100 : value;
+      rate += change;
+      adjustments.push({ ruleId: rule.id, ruleName: rule.name, ruleType: rule.ruleType, change: Math.round(change * 100) / 100, reason });
+      const sign = change >= 0 ? "+" : "-";
+      const amount = rule.adjustmentType === "percent" ? `${value >= 0 ? "+" : ""}${value}% (${sign}${formatAmount(Math.abs(change))})` : `${sign}${formatAmount(Math.abs(change))}`;
+      explanation.push(`${rule.name}: ${reason}, ${amount}`);
+    }
+
+    const limits = context.rateLimits[roomType];
+    if (limits?.floor !== undefined && rate < limits.floor) {
+      adjustments.push({ ruleId: "floor", ruleName: "Floor rate", ruleType: "floor", change: Math.round((limits.floor - rate) * 100) / 100, reason: `below the ${roomType} floor` });
+      explanation.push(`Raised to the floor rate ${formatAmount(limits.floor)}`);
+      rate = limits.floor;
+    } else if (limits?.ceiling !== undefined && rate > limits.ceiling) {
+      adjustments.push({ ruleId: "ceiling", ruleName: "Ceiling rate", ruleType: "ceiling", change: Math.round((limits.ceiling - rate) * 100) / 100, reason: `above the ${roomType} ceiling` });
+      explanation.push(`Capped at the ceiling rate ${formatAmount(limits.ceiling)}`);
+      rate = limits.ceiling;
+    }
+
+    rate = Math.max(0, Math.round(rate * 100) / 100);
+    if (adjustments.length === 0) {
+      explanation.push("No pricing rule applies");
+    }
+    return { date, roomType, baseRate, rate, occupancy, daysBeforeArrival, adjustments, explanation };
+  }
+
+  // Dynamic direct rate for every night of a stay [checkIn, checkOut)
+  static async quoteStay(hotelId: string, roomType: string, checkIn: Date, checkOut: Date): Promise<StayQuote> {
+    const first = new Date(`${nightKey(checkIn)}T00:00:00.000Z`);
+    const end = new Date(`${nightKey(checkOut)}T00:00:00.000Z`);
+    const hotel = await storage.getHotel(hotelId);
+    const lengthOfStay = Math.max(1, Math.round((end.getTime() - first.getTime()) / DAY_MS));
+    const context = await this.loadContext(hotelId, first, new Date(first.getTime() + lengthOfStay * DAY_MS), { hotel });
+
+    const nights = Array.from({ length: lengthOfStay }, (_, index) => {
+      const night = new Date(first.getTime() + index * DAY_MS);
+      const base = this.directBaseRate(context, roomType, night);
+      return this.priceNight(context, roomType, night, base.rate, { arrival: first, lengthOfStay, baseLabel: base.source === "calendar" ? "Calendar rate" : "Direct rate" });
+    });
+
+    const total = Math.round(nights.reduce((sum, night) => sum + night.rate, 0) * 100) / 100;
+    return {
+      roomType,
+      checkIn: nightKey(first),
+      checkOut: nightKey(new Date(first.getTime() + lengthOfStay * DAY_MS)),
+      nights,
+      total,
+      averageRate: Math.round(total / nights.length * 100) / 100,
+    };
+  }
+
+  // Longest lead time any rule looks at; nights beyond it don't change as the days pass
+  static leadTimeHorizonDays(rules: PricingRule[]): number {
+    return rules
+      .filter(rule => rule.isActive && rule.ruleType === "lead_time")
+      .reduce((horizon, rule) => Math.max(horizon, (rule.maxDaysBefore ?? rule.minDaysBefore ?? 0) + 1), 0);
+  }
+}
+
+// Hoteliers always work on their own hotel; admins pick one with x-hotel-id
+function pricingHotelId(req: any): string | undefined {
+  return req.hotel?.id || req.headers['x-hotel-id'];
+}
+
+// Rules and limits change the rate of every night - regenerate channel inventory so the
+// changed nights go out with the next push
+async function repriceChannels(hotelId: string) {
+  await ChannelSyncService.markInventoryDirty(hotelId, new Date(), new Date(Date.now() + REPRICE_DAYS_AHEAD * DAY_MS));
+}
+
+export function setupPricingRoutes(app: Express) {
+  app.get("/api/pricing/rules", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = pricingHotelId(req);
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+      const [rules, hotel] = await Promise.all([storage.getPricingRules(hotelId), storage.getHotel(hotelId)]);
+      res.json({ rules, rateLimits: hotel?.pricing?.rateLimits || {} });
+    } catch (error) {
+      console.error("Error fetching pricing rules:", error);
+      res.status(500).json({ message: "Failed to fetch pricing rules" });
+    }
+  });
+
+  app.post("/api/pricing/rules", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = pricingHotelId(req);
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+      const rule = await storage.createPricingRule({ ...insertPricingRuleSchema.parse(req.body), hotelId });
+      await repriceChannels(hotelId);
+      res.status(201).json(rule);
+    } catch (error) {
+      console.error("Error creating pricing rule:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create pricing rule" });
+    }
+  });
+
+  app.put("/api/pricing/rules/:id", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = pricingHotelId(req);
+      const existing = await storage.getPricingRule(req.params.id);
+      if (!existing || (hotelId && existing.hotelId !== hotelId)) {
+        return res.status(404).json({ message: "Pricing rule not found" });
+      }
+
+      // Validate the rule as it will be after the update
+      const updates = updatePricingRuleSchema.parse(req.body);
+      const { id, hotelId: _hotelId, createdAt, updatedAt, ...current } = existing;
+      const rule = insertPricingRuleSchema.parse({ ...current, ...updates });
+      const updated = await storage.updatePricingRule(existing.id, rule);
+      await repriceChannels(existing.hotelId);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating pricing rule:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update pricing rule" });
+    }
+  });
+
+  app.delete("/api/pricing/rules/:id", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = pricingHotelId(req);
+      const existing = await storage.getPricingRule(req.params.id);
+      if (!existing || (hotelId && existing.hotelId !== hotelId)) {
+        return res.status(404).json({ message: "Pricing rule not found" });
+      }
+      await storage.deletePricingRule(existing.id);
+      await repriceChannels(existing.hotelId);
+      res.json({ message: "Pricing rule deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting pricing rule:", error);
+      res.status(500).json({ message: "Failed to delete pricing rule" });
+    }
+  });
+
+  // Floor and ceiling rates per room type, stored with the hotel's pricing
+  app.put("/api/pricing/limits", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = pricingHotelId(req);
+      const hotel = hotelId ? await storage.getHotel(hotelId) : undefined;
+      if (!hotel) {
+        return res.status(404).json({ message: "Hotel not found" });
+      }
+
+      const rateLimits = rateLimitsSchema.parse(req.body.rateLimits ?? req.body);
+      const unknown = await RoomTypeService.unknownCodes(hotel.id, Object.keys(rateLimits));
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown room type: ${unknown.join(", ")}` });
+      }
+      const pricing = { baseRate: 2000, weekendSurcharge: 500, seasonalRates: {}, taxRate: 18, ...hotel.pricing, rateLimits };
+      await storage.updateHotel(hotel.id, { pricing });
+      await repriceChannels(hotel.id);
+      res.json({ rateLimits });
+    } catch (error) {
+      console.error("Error updating rate limits:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update rate limits" });
+    }
+  });
+
+  // Dynamic direct rate for a stay, night by night with the reasons behind each rate
+  app.get("/api/pricing/quote", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = pricingHotelId(req);
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+
+      const query = quoteQuerySchema.parse(req.query);
+      const checkIn = new Date(`${query.checkIn}T00:00:00.000Z`);
+      const checkOut = new Date(`${query.checkOut}T00:00:00.000Z`);
+      if ((checkOut.getTime() - checkIn.getTime()) / DAY_MS > MAX_QUOTE_NIGHTS) {
+        return res.status(400).json({ message: `Stays longer than ${MAX_QUOTE_NIGHTS} nights cannot be quoted` });
+      }
+      if ((await RoomTypeService.unknownCodes(hotelId, [query.roomType])).length > 0) {
+        return res.status(400).json({ message: `Unknown room type: ${query.roomType}` });
+      }
+
+      res.json(await PricingEngine.quoteStay(hotelId, query.roomType, checkIn, checkOut));
+    } catch (error) {
+      console.error("Error quoting stay:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to quote stay" });
+    }
+  });
+}
@@ -0,0 +1,150 @@
+import type { Express, Response } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { authenticateToken, checkTrialExpiration, requireActiveHotel } from "./auth";
+import { nightKey } from "./availability";
+import { RoomTypeService } from "./room-types";
+import { PricingEngine } from "./pricing-engine";
+import { ChannelSyncService } from "./channel-manager";
+import type { InsertRoomRate } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 366;
+const MAX_VIEW_DAYS = 93;
+
+// A null rate removes the calendar rate, so the nights fall back to the hotel's default pricing
+export const bulkRoomRateSchema = z.object({
+  roomTypes: z.array(z.string().min(1)).min(1),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // inclusive
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(), // 0 = Sunday; omitted: every day
+  rate: z.number().positive().max(10000000).nullable(),
+}).refine(request => request.startDate <= request.endDate, { message: "endDate must not be before startDate", path: ["endDate"] });
+
+export type BulkRoomRateRequest = z.infer<typeof bulkRoomRateSchema>;
+
+export interface CalendarRate {
+  date: string; // YYYY-MM-DD
+  roomType: string;
+  baseRate: number; // calendar rate, or the default rate when source is "default"
+  source: "calendar" | "default";
+  rate: number; // after pricing rules, as quoted for an arrival that night
+}
+
+// The direct rate calendar: one rate per room type and night, edited in bulk from the calendar
+// page. Every direct quote - front desk check-in, bookings, self check-in - starts from it.
+export class RateCalendarService {
+  // Rates for nights in [startDate, endDate)
+  static async getCalendar(hotelId: string, startDate: Date, endDate: Date): Promise<CalendarRate[]> {
+    const [context, roomTypes] = await Promise.all([
+      PricingEngine.loadContext(hotelId, startDate, endDate),
+      RoomTypeService.codes(hotelId),
+    ]);
+    const rates: CalendarRate[] = [];
+    for (let night = startDate; night < endDate; night = new Date(night.getTime() + DAY_MS)) {
+      for (const roomType of roomTypes) {
+        const base = PricingEngine.directBaseRate(context, roomType, night);
+        rates.push({
+          date: nightKey(night),
+          roomType,
+          baseRate: base.rate,
+          source: base.source,
+          rate: PricingEngine.priceNight(context, roomType, night, base.rate).rate,
+        });
+      }
+    }
+    return rates;
+  }
+
+  static async applyBulk(hotelId: string, request: BulkRoomRateRequest) {
+    const start = new Date(`${request.startDate}T00:00:00.000Z`);
+    const end = new Date(`${request.endDate}T00:00:00.000Z`);
+    if ((end.getTime() - start.getTime()) / DAY_MS >= MAX_RANGE_DAYS) {
+      return { success: false, message: `Date range cannot exceed ${MAX_RANGE_DAYS} days` };
+    }
+    const unknown = await RoomTypeService.unknownCodes(hotelId, request.roomTypes);
+    if (unknown.length > 0) {
+      return { success: false, message: `Unknown room type: ${unknown.join(", ")}` };
+    }
+
+    const nights: Date[] = [];
+    for (let night = start; night <= end; night = new Date(night.getTime() + DAY_MS)) {
+      if (request.daysOfWeek?.length && !request.daysOfWeek.includes(night.getUTCDay())) continue;
+      nights.push(night);
+    }
+
+    if (request.rate === null) {
+      await storage.deleteRoomRates(hotelId, request.roomTypes, nights);
+    } else {
+      const rate = request.rate.toFixed(2);
+      const records: InsertRoomRate[] = nights.flatMap(night =>
+        request.roomTypes.map(roomType => ({ hotelId, roomType, date: night, rate }))
+      );
+      await storage.upsertRoomRates(records);
+    }
+
+    // Parity-checked channels compare against the direct rate
+    if (nights.length > 0) {
+      await ChannelSyncService.markInventoryDirty(hotelId, start, end);
+    }
+    const nightsUpdated = nights.length * request.roomTypes.length;
+    return {
+      success: true,
+      message: request.rate === null ? `Calendar rates cleared for ${nightsUpdated} nights` : `Rates updated for ${nightsUpdated} nights`,
+      nightsUpdated,
+    };
+  }
+
+  // Average nightly direct rate for a stay; used wherever a check-in or booking arrives without a rate
+  static async quoteNightlyRate(hotelId: string, roomType: string | null | undefined, checkIn: Date, checkOut: Date): Promise<number> {
+    // Without a room type, quote the hotel's first one
+    const quote = await PricingEngine.quoteStay(hotelId, roomType || (await RoomTypeService.codes(hotelId))[0] || "", checkIn, checkOut);
+    return quote.averageRate;
+  }
+}
+
+export function setupRateCalendarRoutes(app: Express) {
+  // Rate calendar for nights in [start, end)
+  app.get("/api/rate-calendar", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = req.hotel?.id || req.headers['x-hotel-id'];
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+
+      const start = new Date(`${req.query.start}T00:00:00.000Z`);
+      const end = new Date(`${req.query.end}T00:00:00.000Z`);
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+      if ((end.getTime() - start.getTime()) / DAY_MS > MAX_VIEW_DAYS) {
+        return res.status(400).json({ message: `Date range cannot exceed ${MAX_VIEW_DAYS} days` });
+      }
+
+      res.json(await RateCalendarService.getCalendar(hotelId, start, end));
+    } catch (error) {
+      console.error("Error fetching rate calendar:", error);
+      res.status(500).json({ message: "Failed to fetch rate calendar" });
+    }
+  });
+
+  // Set or clear the rate of room types over a date range, optionally on some weekdays only
+  app.put("/api/rate-calendar", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = req.hotel?.id || req.headers['x-hotel-id'];
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+
+      const request = bulkRoomRateSchema.parse(req.body);
+      const result = await RateCalendarService.applyBulk(hotelId, request);
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      console.error("Error updating rate calendar:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update rate calendar" });
+    }
+  });
+}
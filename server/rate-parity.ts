@@ -0,0 +1,177 @@
+import { storage } from "./storage";
+import { ChannelSyncService } from "./channel-manager";
+import { PricingEngine } from "./pricing-engine";
+import { nightKey } from "./availability";
+import type { Hotel, OtaChannel } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_TOLERANCE_PERCENT = 1;
+
+export interface RateParityViolation {
+  channelId: string;
+  channelName: string;
+  roomType: string;
+  date: string; // YYYY-MM-DD
+  sellRate: number;
+  directRate: number;
+  difference: number; // sellRate - directRate
+  differencePercent: number;
+  tolerancePercent: number;
+  autoCorrect: boolean;
+}
+
+export interface RateParityReport {
+  startDate: string;
+  endDate: string; // exclusive
+  channelsChecked: number;
+  nightsChecked: number;
+  violations: RateParityViolation[];
+  // Final sell rate per channel for every room type / night that has a violation
+  rates: { roomType: string; date: string; directRate: number; channels: Record<string, number> }[];
+}
+
+// Keeps channel sell rates in line with the (dynamically priced) direct rate. Channels opt in with
+// settings.rateParity; nights further than settings.rateParityTolerance (percent) from the direct
+// rate are reported, and with settings.rateParityAutoCorrect the direct rate is pushed instead.
+export class RateParityService {
+  // Default direct rate for nights without a rate calendar entry: the room type's default rate
+  // (the hotel's base rate without one). A seasonal rate ("YYYY-MM-DD_YYYY-MM-DD" or single night
+  // keys) scales it by the seasonal rate over the base rate, Friday and Saturday nights add the
+  // weekend surcharge.
+  static directRate(hotel: Pick<Hotel, "pricing">, roomTypeRate: number | undefined, night: Date): number {
+    const pricing = hotel.pricing || { baseRate: 2000, weekendSurcharge: 500, seasonalRates: {}, taxRate: 18 };
+    const date = nightKey(night);
+    const baseRate = pricing.baseRate || 2000;
+
+    let rate = roomTypeRate ?? baseRate;
+    for (const [dateRange, seasonalRate] of Object.entries(pricing.seasonalRates || {})) {
+      const [start, end = start] = dateRange.split('_');
+      if (date >= start && date <= end) {
+        rate = rate * seasonalRate / baseRate;
+        break;
+      }
+    }
+
+    rate = Math.floor(rate);
+    const dayOfWeek = night.getUTCDay();
+    if (dayOfWeek === 5 || dayOfWeek === 6) {
+      rate += pricing.weekendSurcharge || 0;
+    }
+    return rate;
+  }
+
+  static tolerancePercent(channel: Pick<OtaChannel, "settings">): number {
+    return channel.settings?.rateParityTolerance ?? DEFAULT_TOLERANCE_PERCENT;
+  }
+
+  private static isViolation(sellRate: number, directRate: number, tolerancePercent: number): boolean {
+    if (directRate <= 0) return false;
+    return Math.abs(sellRate - directRate) / directRate * 100 > tolerancePercent;
+  }
+
+  // Rate to send to a channel: the rate plan's rate, or the direct rate when the channel
+  // auto-corrects parity and the plan's rate is out of tolerance. Both are dynamically priced.
+  static paritySellRate(channel: Pick<OtaChannel, "settings">, directRate: number | undefined, planRate: number): number {
+    if (directRate === undefined || !channel.settings?.rateParity || !channel.settings?.rateParityAutoCorrect) {
+      return planRate;
+    }
+    return this.isViolation(planRate, directRate, this.tolerancePercent(channel)) ? directRate : planRate;
+  }
+
+  // Compare the stored (last generated) sell rate of every parity-enabled active channel with
+  // the direct rate for nights in [startDate, endDate)
+  static async checkParity(hotelId: string, startDate: Date, endDate: Date, options: { channelId?: string } = {}): Promise<RateParityReport> {
+    const first = new Date(`${nightKey(startDate)}T00:00:00.000Z`);
+    const end = new Date(`${nightKey(endDate)}T00:00:00.000Z`);
+    const report: RateParityReport = {
+      startDate: nightKey(first),
+      endDate: nightKey(end),
+      channelsChecked: 0,
+      nightsChecked: 0,
+      violations: [],
+      rates: [],
+    };
+
+    const hotel = await storage.getHotel(hotelId);
+    if (!hotel || end <= first) return report;
+    const pricing = await PricingEngine.loadContext(hotelId, first, end, { hotel });
+
+    const channels = (await storage.getActiveChannelsByHotelId(hotelId))
+      .filter(channel => !options.channelId || channel.id === options.channelId);
+    const ratesBySlot = new Map<string, RateParityReport["rates"][number]>();
+    const directRates = new Map<string, number>();
+
+    for (const channel of channels) {
+      // getChannelInventory takes an inclusive end
+      const inventory = await storage.getChannelInventory(channel.id, first, new Date(end.getTime() - DAY_MS));
+      for (const row of inventory) {
+        const date = nightKey(row.date);
+        const key = `${date}|${row.roomType}`;
+        if (!directRates.has(key)) {
+          directRates.set(key, PricingEngine.priceNight(pricing, row.roomType, row.date, PricingEngine.directBaseRate(pricing, row.roomType, row.date).rate).rate);
+        }
+        const directRate = directRates.get(key)!;
+        const sellRate = parseFloat(row.sellRate);
+
+        let slot = ratesBySlot.get(key);
+        if (!slot) {
+          slot = { roomType: row.roomType, date, directRate, channels: {} };
+          ratesBySlot.set(key, slot);
+        }
+        slot.channels[channel.displayName] = sellRate;
+
+        if (!channel.settings?.rateParity) continue;
+        report.nightsChecked++;
+
+        const tolerancePercent = this.tolerancePercent(channel);
+        if (this.isViolation(sellRate, directRate, tolerancePercent)) {
+          report.violations.push({
+            channelId: channel.id,
+            channelName: channel.displayName,
+            roomType: row.roomType,
+            date,
+            sellRate,
+            directRate,
+            difference: Math.round((sellRate - directRate) * 100) / 100,
+            differencePercent: Math.round((sellRate - directRate) / directRate * 10000) / 100,
+            tolerancePercent,
+            autoCorrect: !!channel.settings.rateParityAutoCorrect,
+          });
+        }
+      }
+      if (channel.settings?.rateParity) report.channelsChecked++;
+    }
+
+    const violatingSlots = new Set(report.violations.map(violation => `${violation.date}|${violation.roomType}`));
+    report.rates = Array.from(ratesBySlot.entries())
+      .filter(([key]) => violatingSlots.has(key))
+      .map(([, slot]) => slot)
+      .sort((a, b) => `${a.date}|${a.roomType}`.localeCompare(`${b.date}|${b.roomType}`));
+    report.violations.sort((a, b) => `${a.date}|${a.roomType}|${a.channelName}`.localeCompare(`${b.date}|${b.roomType}|${b.channelName}`));
+    return report;
+  }
+
+  // Regenerate and push the flagged nights of a channel. Inventory generation already applies
+  // the direct rate for auto-correcting channels, so this only fixes nights stored before the
+  // setting or the hotel's pricing changed.
+  static async correctChannel(channel: OtaChannel, startDate: Date, endDate: Date) {
+    if (!channel.settings?.rateParity || !channel.settings?.rateParityAutoCorrect) {
+      return { corrected: 0 };
+    }
+
+    const report = await this.checkParity(channel.hotelId, startDate, endDate, { channelId: channel.id });
+    if (report.violations.length === 0) {
+      return { corrected: 0 };
+    }
+
+    const dates = report.violations.map(violation => violation.date).sort();
+    await ChannelSyncService.markInventoryDirty(
+      channel.hotelId,
+      new Date(`${dates[0]}T00:00:00.000Z`),
+      new Date(`${dates[dates.length - 1]}T00:00:00.000Z`),
+      { channelId: channel.id },
+    );
+    const result = await ChannelSyncService.pushDirtyInventory(channel.id);
+    return { corrected: report.violations.length, pushed: result.success, message: result.message || result.error };
+  }
+}
@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { ChannelSyncService } from "./channel-manager";
+import { nightKey } from "./availability";
+import { insertChannelRatePlanSchema, type ChannelRatePlan } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PREVIEW_NIGHTS = 366;
+
+// A rate plan as edited in the UI, saved or not. Only the pricing fields matter for the preview.
+export const ratePlanPreviewSchema = z.object({
+  ratePlan: insertChannelRatePlanSchema.pick({ baseRate: true, weekendSurcharge: true, discountPercentage: true, seasonalRates: true }),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  nights: z.number().int().min(1).max(MAX_PREVIEW_NIGHTS).default(30),
+});
+
+export const cloneRatePlanSchema = z.object({
+  channelIds: z.array(z.string()).min(1),
+  planName: z.string().min(1).max(100).optional(),
+});
+
+export interface NightlyRate {
+  date: string; // YYYY-MM-DD
+  rate: number;
+  weekend: boolean;
+  season: string | null; // seasonal period key that priced the night
+}
+
+export class RatePlanService {
+  // Nightly sell rates of a rate plan as the channel push computes them (before parity correction)
+  static previewRates(ratePlan: Pick<ChannelRatePlan, "baseRate" | "weekendSurcharge" | "discountPercentage" | "seasonalRates">, startDate: string, nights: number): NightlyRate[] {
+    const first = new Date(`${startDate}T00:00:00.000Z`);
+    const seasons = Object.keys(ratePlan.seasonalRates || {}).map(key => {
+      const [start, end] = key.split('_');
+      return { key, start, end };
+    });
+
+    return Array.from({ length: nights }, (_, index) => {
+      const night = new Date(first.getTime() + index * DAY_MS);
+      const date = nightKey(night);
+      const dayOfWeek = night.getUTCDay();
+      return {
+        date,
+        rate: ChannelSyncService.calculateDynamicRate(ratePlan, night),
+        weekend: dayOfWeek === 5 || dayOfWeek === 6,
+        season: seasons.find(season => date >= season.start && date <= season.end)?.key || null,
+      };
+    });
+  }
+
+  // Copy a rate plan to other channels of the same hotel and re-push their inventory
+  static async clonePlan(ratePlan: ChannelRatePlan, hotelId: string, request: z.infer<typeof cloneRatePlanSchema>) {
+    const channels = await storage.getChannelsByHotelId(hotelId);
+    const targets = Array.from(new Set(request.channelIds));
+    const unknown = targets.filter(channelId => !channels.some(channel => channel.id === channelId));
+    if (unknown.length > 0) {
+      return { success: false, message: `Unknown channel: ${unknown.join(", ")}`, ratePlans: [] as ChannelRatePlan[] };
+    }
+
+    const { id, channelId, createdAt, updatedAt, ...planData } = ratePlan;
+    const ratePlans: ChannelRatePlan[] = [];
+    for (const targetChannelId of targets) {
+      ratePlans.push(await storage.createChannelRatePlan({
+        ...planData,
+        planName: request.planName || planData.planName,
+        channelId: targetChannelId,
+        seasonalRates: planData.seasonalRates || {},
+      }));
+    }
+
+    const horizon = new Date(Date.now() + 365 * DAY_MS);
+    for (const targetChannelId of targets) {
+      await ChannelSyncService.markInventoryDirty(hotelId, new Date(), horizon, { channelId: targetChannelId });
+    }
+    return { success: true, message: `Rate plan cloned to ${ratePlans.length} channel(s)`, ratePlans };
+  }
+}
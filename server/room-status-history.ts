@@ -0,0 +1,133 @@
+import type { Express, Response } from "express";
+import { storage } from "./storage";
+import { authenticateToken, checkTrialExpiration, requireActiveHotel } from "./auth";
+import { nightKey } from "./availability";
+import type { Room, RoomStatusChange } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+type RoomStatus = Room["status"];
+
+const ROOM_STATUSES: RoomStatus[] = ["available", "occupied", "cleaning", "maintenance"];
+
+export interface RoomStatusDay {
+  roomId: string;
+  roomNumber: string;
+  roomType: string;
+  startStatus: RoomStatus;
+  endStatus: RoomStatus;
+  minutes: Record<RoomStatus, number>;
+  transitions: RoomStatusChange[];
+}
+
+export interface RoomStatusReport {
+  date: string;
+  periodMinutes: number; // shorter than a day for today
+  rooms: RoomStatusDay[];
+  totals: { minutes: Record<RoomStatus, number>; transitions: number };
+}
+
+function toNight(key: string): Date {
+  return new Date(`${key}T00:00:00.000Z`);
+}
+
+function emptyMinutes(): Record<RoomStatus, number> {
+  return { available: 0, occupied: 0, cleaning: 0, maintenance: 0 };
+}
+
+// Reads room_status_changes, which storage.updateRoomStatus writes on every transition
+export class RoomStatusHistoryService {
+  // How long each room spent in each status on one day (UTC, like the other reports), and the
+  // transitions that day. A room's status at the start of the day is the target of its last
+  // earlier transition, or the origin of its next one when the history starts later.
+  static async getDailyReport(hotelId: string, date: string): Promise<RoomStatusReport> {
+    const dayStart = toNight(date);
+    const dayEnd = new Date(Math.min(dayStart.getTime() + DAY_MS, Date.now()));
+
+    const [rooms, before, after, changes] = await Promise.all([
+      storage.getRooms(hotelId, true),
+      storage.getLastRoomStatusChanges(hotelId, dayStart),
+      storage.getFirstRoomStatusChanges(hotelId, dayStart),
+      storage.getRoomStatusChangesBetween(hotelId, dayStart, dayEnd),
+    ]);
+    const lastBefore = new Map(before.map(change => [change.roomId, change]));
+    const firstAfter = new Map(after.map(change => [change.roomId, change]));
+    const changesByRoom = new Map<string, RoomStatusChange[]>();
+    for (const change of changes) {
+      changesByRoom.set(change.roomId, [...(changesByRoom.get(change.roomId) || []), change]);
+    }
+
+    const totals = { minutes: emptyMinutes(), transitions: 0 };
+    const days: RoomStatusDay[] = [];
+    for (const room of rooms) {
+      const from = new Date(Math.max(dayStart.getTime(), room.createdAt?.getTime() ?? 0));
+      const until = room.archivedAt && room.archivedAt < dayEnd ? room.archivedAt : dayEnd;
+      if (from >= until) continue;
+
+      const startStatus = lastBefore.get(room.id)?.toStatus ?? firstAfter.get(room.id)?.fromStatus ?? room.status;
+      const transitions = changesByRoom.get(room.id) || [];
+      const minutes = emptyMinutes();
+      let status = startStatus;
+      let since = from;
+      for (const change of [...transitions, null]) {
+        const at = change ? new Date(Math.min(Math.max(change.changedAt.getTime(), from.getTime()), until.getTime())) : until;
+        minutes[status] += Math.round((at.getTime() - since.getTime()) / MINUTE_MS);
+        if (!change) break;
+        status = change.toStatus;
+        since = at;
+      }
+
+      for (const key of ROOM_STATUSES) totals.minutes[key] += minutes[key];
+      totals.transitions += transitions.length;
+      days.push({ roomId: room.id, roomNumber: room.number, roomType: room.type, startStatus, endStatus: status, minutes, transitions });
+    }
+
+    return {
+      date,
+      periodMinutes: Math.max(0, Math.round((dayEnd.getTime() - dayStart.getTime()) / MINUTE_MS)),
+      rooms: days,
+      totals,
+    };
+  }
+}
+
+function historyHotelId(req: any): string | undefined {
+  return req.hotel?.id || req.headers['x-hotel-id'];
+}
+
+export function setupRoomStatusHistoryRoutes(app: Express) {
+  // One room's status transitions, newest first
+  app.get("/api/rooms/:id/status-history", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const room = await storage.getRoom(req.params.id);
+      if (!room || (room.hotelId !== historyHotelId(req) && req.user?.role !== "superadmin")) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      const limit = Math.min(parseInt(req.query.limit as string) || 200, 1000);
+      res.json(await storage.getRoomStatusChanges(room.id, limit));
+    } catch (error) {
+      console.error("Error fetching room status history:", error);
+      res.status(500).json({ message: "Failed to fetch room status history" });
+    }
+  });
+
+  // Time per status and transitions for every room on one day; defaults to today
+  app.get("/api/reports/room-status", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = historyHotelId(req);
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+      const date = req.query.date ? String(req.query.date) : nightKey(new Date());
+      // Up to tomorrow (UTC), which is already today for hotels east of UTC
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(toNight(date).getTime()) || date > nightKey(new Date(Date.now() + DAY_MS))) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+      res.json(await RoomStatusHistoryService.getDailyReport(hotelId, date));
+    } catch (error) {
+      console.error("Error generating room status report:", error);
+      res.status(500).json({ message: "Failed to generate room status report" });
+    }
+  });
+}
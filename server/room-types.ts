@@ -0,0 +1,202 @@
+import type { Express, Response } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { authenticateToken, checkTrialExpiration, requireActiveHotel } from "./auth";
+import { ChannelSyncService } from "./channel-manager";
+import { insertRoomTypeSchema, updateRoomTypeSchema, type Hotel, type RoomType } from "@shared/schema";
+
+// Rate multipliers of the old fixed room types over the hotel's base rate. Only used to seed
+// default rates, so hotels keep the direct rates they had before defining their own types.
+const LEGACY_RATE_MULTIPLIERS: Record<string, number> = { standard: 1, deluxe: 1.5, suite: 2.5 };
+const LEGACY_OCCUPANCY: Record<string, { baseOccupancy: number; maxOccupancy: number }> = {
+  standard: { baseOccupancy: 2, maxOccupancy: 2 },
+  deluxe: { baseOccupancy: 2, maxOccupancy: 3 },
+  suite: { baseOccupancy: 2, maxOccupancy: 4 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REPRICE_DAYS_AHEAD = 365; // channel inventory horizon, as in the sync scheduler
+
+function toCode(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+function toName(code: string): string {
+  return code.split("_").filter(Boolean).map(word => word[0].toUpperCase() + word.slice(1)).join(" ");
+}
+
+// Room types are defined per hotel. Rooms, bookings, rate plans, channel mappings, inventory and
+// rates refer to a type by its code; the codes here decide what the availability engine, channel
+// inventory and every room type picker work with.
+export class RoomTypeService {
+  // The hotel's room types in display order. A hotel without any gets them seeded from its
+  // hotels.roomTypes list and the codes its rooms and bookings already use.
+  static async list(hotelId: string, includeInactive = false): Promise<RoomType[]> {
+    let roomTypes = await storage.getRoomTypes(hotelId, true);
+    if (roomTypes.length === 0) {
+      const hotel = await storage.getHotel(hotelId);
+      if (hotel) {
+        await this.createMissing(hotel);
+        roomTypes = await storage.getRoomTypes(hotelId, true);
+      }
+    }
+    return includeInactive ? roomTypes : roomTypes.filter(roomType => roomType.isActive);
+  }
+
+  static async codes(hotelId: string): Promise<string[]> {
+    return (await this.list(hotelId)).map(roomType => roomType.code);
+  }
+
+  // Codes that are not one of the hotel's active room types
+  static async unknownCodes(hotelId: string, codes: string[]): Promise<string[]> {
+    const known = new Set(await this.codes(hotelId));
+    return Array.from(new Set(codes.filter(code => !known.has(code))));
+  }
+
+  // Create room types for the codes in hotels.roomTypes and in use that have none yet, then
+  // point existing rows at them. Safe to run repeatedly, and concurrently: list() seeds on read
+  // while migrateAll() may be running.
+  static async createMissing(hotel: Hotel): Promise<number> {
+    const [existing, inUse] = await Promise.all([
+      storage.getRoomTypes(hotel.id, true),
+      storage.getRoomTypeCodesInUse(hotel.id),
+    ]);
+    const existingCodes = new Set(existing.map(roomType => roomType.code));
+    const baseRate = hotel.pricing?.baseRate || 2000;
+
+    let created = 0;
+    const codes = Array.from(new Set([...(hotel.roomTypes || []).map(toCode), ...inUse])).filter(Boolean);
+    for (const code of codes) {
+      if (existingCodes.has(code)) continue;
+      const roomType = await storage.createRoomTypeIfMissing({
+        hotelId: hotel.id,
+        name: toName(code),
+        code,
+        ...(LEGACY_OCCUPANCY[code] ?? { baseOccupancy: 2, maxOccupancy: 2 }),
+        defaultRate: Math.floor(baseRate * (LEGACY_RATE_MULTIPLIERS[code] ?? 1)).toString(),
+        sortOrder: existing.length + created,
+      });
+      if (roomType) created += 1;
+    }
+    await storage.assignRoomTypeIds(hotel.id);
+    return created;
+  }
+
+  // Data migration from the fixed standard/deluxe/suite enum: run at startup and by
+  // `npm run room-types:migrate`
+  static async migrateAll(): Promise<{ hotels: number; created: number }> {
+    const hotels = await storage.getHotels();
+    let created = 0;
+    for (const hotel of hotels) {
+      created += await this.createMissing(hotel);
+    }
+    return { hotels: hotels.length, created };
+  }
+
+  static async remove(roomType: RoomType): Promise<{ success: boolean; message: string }> {
+    const references = await storage.countRoomTypeReferences(roomType);
+    if (references > 0) {
+      return { success: false, message: `${roomType.name} is used by ${references} rooms, bookings, rates, pricing rules, blocks, calendars or channel records; deactivate it instead` };
+    }
+    const roomTypes = await storage.getRoomTypes(roomType.hotelId, true);
+    if (roomTypes.length <= 1) {
+      return { success: false, message: "A hotel needs at least one room type" };
+    }
+    await storage.deleteRoomType(roomType.id);
+    return { success: true, message: `${roomType.name} deleted` };
+  }
+}
+
+function roomTypeHotelId(req: any): string | undefined {
+  return req.hotel?.id || req.headers['x-hotel-id'];
+}
+
+export function setupRoomTypeRoutes(app: Express) {
+  // includeInactive=true also returns deactivated types, for the management screen
+  app.get("/api/room-types", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = roomTypeHotelId(req);
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+      res.json(await RoomTypeService.list(hotelId, req.query.includeInactive === "true"));
+    } catch (error) {
+      console.error("Error fetching room types:", error);
+      res.status(500).json({ message: "Failed to fetch room types" });
+    }
+  });
+
+  app.post("/api/room-types", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = roomTypeHotelId(req);
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+      const roomTypeData = insertRoomTypeSchema.parse(req.body);
+      if (await storage.getRoomTypeByCode(hotelId, roomTypeData.code)) {
+        return res.status(400).json({ message: `Room type code "${roomTypeData.code}" is already in use` });
+      }
+      const roomType = await storage.createRoomType({ ...roomTypeData, hotelId });
+      res.status(201).json(roomType);
+    } catch (error) {
+      console.error("Error creating room type:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create room type" });
+    }
+  });
+
+  // The code is the key other tables store, so it cannot change once the type exists
+  app.put("/api/room-types/:id", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = roomTypeHotelId(req);
+      const existing = await storage.getRoomType(req.params.id);
+      if (!existing || (hotelId && existing.hotelId !== hotelId)) {
+        return res.status(404).json({ message: "Room type not found" });
+      }
+
+      const { code, ...updates } = updateRoomTypeSchema.parse(req.body);
+      if (code && code !== existing.code) {
+        return res.status(400).json({ message: "The room type code cannot be changed" });
+      }
+      // Validate the room type as it will be after the update
+      const { id, hotelId: _hotelId, createdAt, updatedAt, ...current } = existing;
+      const roomType = insertRoomTypeSchema.parse({
+        ...current,
+        amenities: current.amenities ?? undefined,
+        photos: current.photos ?? undefined,
+        extraBedPrice: current.extraBedPrice ?? undefined,
+        ...updates,
+      });
+      const updated = await storage.updateRoomType(existing.id, roomType);
+      // The default rate is the direct base rate channels are priced from, and inactive types
+      // are not sold, so both change channel inventory
+      if (parseFloat(roomType.defaultRate) !== parseFloat(existing.defaultRate) || roomType.isActive !== existing.isActive) {
+        await ChannelSyncService.markInventoryDirty(existing.hotelId, new Date(), new Date(Date.now() + REPRICE_DAYS_AHEAD * DAY_MS));
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating room type:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update room type" });
+    }
+  });
+
+  app.delete("/api/room-types/:id", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = roomTypeHotelId(req);
+      const existing = await storage.getRoomType(req.params.id);
+      if (!existing || (hotelId && existing.hotelId !== hotelId)) {
+        return res.status(404).json({ message: "Room type not found" });
+      }
+      const result = await RoomTypeService.remove(existing);
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      console.error("Error deleting room type:", error);
+      res.status(500).json({ message: "Failed to delete room type" });
+    }
+  });
+}
@@ -0,0 +1,256 @@
+import type { Express, Response } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { authenticateToken, checkTrialExpiration, requireActiveHotel } from "./auth";
+import { checkRoomLimit } from "./subscription";
+import { RoomTypeService } from "./room-types";
+import { ChannelSyncService } from "./channel-manager";
+import { bulkCreateRoomsSchema, updateRoomSchema, type BulkCreateRooms, type Hotel, type InsertRoom, type Room } from "@shared/schema";
+
+const INVENTORY_DAYS_AHEAD = 365;
+const MAX_ROOM_NUMBER_LENGTH = 10;
+
+export interface RoomLimitError {
+  status: number;
+  body: { message?: string; limit?: number; current?: number };
+}
+
+// Subscription and admin-configured room limits for adding rooms; superadmins bypass both
+export function roomLimitError(hotel: Hotel, currentRoomCount: number, adding = 1): RoomLimitError | null {
+  const subRoomCheck = checkRoomLimit(hotel, currentRoomCount + adding - 1);
+  if (!subRoomCheck.allowed) {
+    return {
+      status: 403,
+      body: { message: subRoomCheck.reason, limit: subRoomCheck.limit, current: currentRoomCount },
+    };
+  }
+
+  const enabledRoomsLimit = hotel.enabledRooms || hotel.maxRooms || 50;
+  if (currentRoomCount + adding > enabledRoomsLimit) {
+    return {
+      status: 400,
+      body: { message: `Cannot create room. Hotel has reached its room limit of ${enabledRoomsLimit} rooms. Please contact admin to increase capacity.` },
+    };
+  }
+  return null;
+}
+
+// Type or room count changes change what every channel can sell
+async function markAllInventoryDirty(hotelId: string) {
+  const horizon = new Date();
+  horizon.setDate(horizon.getDate() + INVENTORY_DAYS_AHEAD);
+  await ChannelSyncService.markInventoryDirty(hotelId, new Date(), horizon);
+}
+
+// Editing, archiving and bulk creation of rooms; single-room creation and status changes stay in routes.ts
+export class RoomService {
+  static bulkNumbers(bulk: Pick<BulkCreateRooms, "prefix" | "startNumber" | "endNumber">): string[] {
+    const numbers: string[] = [];
+    for (let n = bulk.startNumber; n <= bulk.endNumber; n++) {
+      numbers.push(`${bulk.prefix}${n}`);
+    }
+    return numbers;
+  }
+
+  static async bulkCreate(hotel: Hotel, bulk: BulkCreateRooms, isSuperAdmin: boolean): Promise<{ success: boolean; message: string; status?: number; rooms?: Room[] }> {
+    const numbers = this.bulkNumbers(bulk);
+    if (numbers.some(number => number.length > MAX_ROOM_NUMBER_LENGTH)) {
+      return { success: false, message: `Room numbers can be at most ${MAX_ROOM_NUMBER_LENGTH} characters` };
+    }
+    if ((await RoomTypeService.unknownCodes(hotel.id, [bulk.type])).length > 0) {
+      return { success: false, message: `Unknown room type: ${bulk.type}` };
+    }
+
+    const existing = await storage.getRooms(hotel.id, true);
+    const taken = new Set(existing.map(room => room.number));
+    const duplicates = numbers.filter(number => taken.has(number));
+    if (duplicates.length > 0) {
+      return { success: false, message: `Room numbers already in use: ${duplicates.join(", ")}` };
+    }
+
+    if (!isSuperAdmin) {
+      const limitError = roomLimitError(hotel, existing.filter(room => !room.archivedAt).length, numbers.length);
+      if (limitError) {
+        return { success: false, status: limitError.status, message: limitError.body.message || "Room limit reached" };
+      }
+    }
+
+    const { prefix, startNumber, endNumber, ...attributes } = bulk;
+    const rooms = await storage.createRooms(numbers.map((number): InsertRoom => ({
+      ...attributes,
+      hotelId: hotel.id,
+      number,
+      status: "available",
+    })));
+    await markAllInventoryDirty(hotel.id);
+    return { success: true, message: `${rooms.length} rooms created`, rooms };
+  }
+
+  static async update(room: Room, updates: z.infer<typeof updateRoomSchema>): Promise<{ success: boolean; message: string; status?: number; room?: Room }> {
+    if (updates.number !== undefined && updates.number !== room.number) {
+      const duplicate = await storage.getRoomByNumber(updates.number, room.hotelId);
+      if (duplicate) {
+        return { success: false, status: 409, message: `Room ${updates.number} already exists` };
+      }
+      // Bookings refer to rooms by number, so renumbering would detach them
+      if (await storage.roomHasHistory(room)) {
+        return { success: false, message: `Room ${room.number} has stays or bookings and cannot be renumbered; archive it and add a new room instead` };
+      }
+    }
+    if (updates.type && updates.type !== room.type && (await RoomTypeService.unknownCodes(room.hotelId, [updates.type])).length > 0) {
+      return { success: false, message: `Unknown room type: ${updates.type}` };
+    }
+
+    const updated = await storage.updateRoom(room.id, updates);
+    if (updates.type && updates.type !== room.type) {
+      await markAllInventoryDirty(room.hotelId);
+    }
+    return { success: true, message: `Room ${updated?.number ?? room.number} updated`, room: updated };
+  }
+
+  // Archived rooms keep their stays, bookings and maintenance history but drop out of
+  // availability, channel inventory and the room list
+  static async archive(room: Room): Promise<{ success: boolean; message: string; room?: Room }> {
+    if (room.archivedAt) {
+      return { success: false, message: `Room ${room.number} is already archived` };
+    }
+    const checkIns = await storage.getActiveCheckIns(room.hotelId);
+    if (room.status === "occupied" || checkIns.some(checkIn => checkIn.roomId === room.id)) {
+      return { success: false, message: `Room ${room.number} has a guest in house` };
+    }
+    const updated = await storage.updateRoom(room.id, { archivedAt: new Date() });
+    await markAllInventoryDirty(room.hotelId);
+    return { success: true, message: `Room ${room.number} archived`, room: updated };
+  }
+
+  static async restore(room: Room, isSuperAdmin: boolean): Promise<{ success: boolean; message: string; status?: number; room?: Room }> {
+    if (!room.archivedAt) {
+      return { success: false, message: `Room ${room.number} is not archived` };
+    }
+    const hotel = await storage.getHotel(room.hotelId);
+    if (hotel && !isSuperAdmin) {
+      const limitError = roomLimitError(hotel, (await storage.getRooms(room.hotelId)).length);
+      if (limitError) {
+        return { success: false, status: limitError.status, message: limitError.body.message || "Room limit reached" };
+      }
+    }
+    const updated = await storage.updateRoom(room.id, { archivedAt: null });
+    await markAllInventoryDirty(room.hotelId);
+    return { success: true, message: `Room ${room.number} restored`, room: updated };
+  }
+
+  // Only rooms that were never used can be deleted; the rest are archived
+  static async remove(room: Room): Promise<{ success: boolean; message: string; status?: number }> {
+    if (await storage.roomHasHistory(room)) {
+      return { success: false, status: 409, message: `Room ${room.number} has stays, bookings, status changes or maintenance history; archive it instead` };
+    }
+    await storage.deleteRoom(room.id);
+    if (!room.archivedAt) {
+      await markAllInventoryDirty(room.hotelId);
+    }
+    return { success: true, message: `Room ${room.number} deleted` };
+  }
+}
+
+// The number lookups run before the insert, so two requests adding the same number at once both
+// pass them; the rooms_hotel_number_unique index rejects the second with a unique violation
+export function isDuplicateRoomNumber(error: unknown): boolean {
+  return (error as any)?.code === "23505";
+}
+
+function roomsHotelId(req: any): string | undefined {
+  return req.hotel?.id || req.headers['x-hotel-id'];
+}
+
+export async function getHotelRoom(req: any): Promise<Room | undefined> {
+  const room = await storage.getRoom(req.params.id);
+  return room && (room.hotelId === roomsHotelId(req) || req.user?.role === "superadmin") ? room : undefined;
+}
+
+export function setupRoomRoutes(app: Express) {
+  // "Rooms 101-120, deluxe, floor 1"
+  app.post("/api/rooms/bulk", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const hotelId = roomsHotelId(req);
+      const hotel = hotelId ? await storage.getHotel(hotelId) : undefined;
+      if (!hotel) {
+        return res.status(400).json({ message: "Hotel ID required" });
+      }
+      const bulk = bulkCreateRoomsSchema.parse(req.body);
+      const result = await RoomService.bulkCreate(hotel, bulk, req.user?.role === "superadmin");
+      res.status(result.success ? 201 : result.status || 400).json(result);
+    } catch (error) {
+      console.error("Error creating rooms:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (isDuplicateRoomNumber(error)) {
+        return res.status(409).json({ success: false, message: "Some of these room numbers are already in use" });
+      }
+      res.status(500).json({ message: "Failed to create rooms" });
+    }
+  });
+
+  app.put("/api/rooms/:id", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const room = await getHotelRoom(req);
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      const updates = updateRoomSchema.parse(req.body);
+      const result = await RoomService.update(room, updates);
+      res.status(result.success ? 200 : result.status || 400).json(result);
+    } catch (error) {
+      console.error("Error updating room:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (isDuplicateRoomNumber(error)) {
+        return res.status(409).json({ success: false, message: `Room ${req.body?.number} already exists` });
+      }
+      res.status(500).json({ message: "Failed to update room" });
+    }
+  });
+
+  app.post("/api/rooms/:id/archive", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const room = await getHotelRoom(req);
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      const result = await RoomService.archive(room);
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      console.error("Error archiving room:", error);
+      res.status(500).json({ message: "Failed to archive room" });
+    }
+  });
+
+  app.post("/api/rooms/:id/restore", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const room = await getHotelRoom(req);
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      const result = await RoomService.restore(room, req.user?.role === "superadmin");
+      res.status(result.success ? 200 : result.status || 400).json(result);
+    } catch (error) {
+      console.error("Error restoring room:", error);
+      res.status(500).json({ message: "Failed to restore room" });
+    }
+  });
+
+  app.delete("/api/rooms/:id", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res: Response) => {
+    try {
+      const room = await getHotelRoom(req);
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      const result = await RoomService.remove(room);
+      res.status(result.success ? 200 : result.status || 400).json(result);
+    } catch (error) {
+      console.error("Error deleting room:", error);
+      res.status(500).json({ message: "Failed to delete room" });
+    }
+  });
+}
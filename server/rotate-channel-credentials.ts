@@ -0,0 +1,12 @@
+import { CredentialVault } from "./credential-vault";
+
+// Re-wrap stored OTA credentials with the active master key: npm run credentials:rotate
+CredentialVault.rotateChannelCredentials()
+  .then(result => {
+    console.log(`Active key ${CredentialVault.activeKeyId}: ${result.encrypted} encrypted, ${result.rewrapped} re-wrapped, ${result.failed} failed`);
+    process.exit(result.failed > 0 ? 1 : 0);
+  })
+  .catch(error => {
+    console.error("Channel credential rotation failed:", error);
+    process.exit(1);
+  });
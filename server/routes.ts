@@ -5,12 +5,24 @@ import { storage } from "./storage";
 import { setupAuthRoutes, authenticateToken, requireRole, checkTrialExpiration, requireActiveHotel } from "./auth";
 import { setupReplitAuth } from "./replitAuth";
 import bcrypt from "bcryptjs";
-import { insertGuestSchema, insertCheckInSchema, insertRoomSchema, insertBookingSchema } from "@shared/schema";
+import { insertGuestSchema, insertCheckInSchema, insertRoomSchema, insertBookingSchema, updateBookingStatusSchema } from "@shared/schema";
 import { z } from "zod";
 import { platformSettings } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import { db } from "./db";
 import express from "express";
+import { ChannelSyncService } from "./channel-manager";
+import { CredentialVault } from "./credential-vault";
+import { IcalSyncService } from "./ical-sync";
+import { AvailabilityService, nightKey } from "./availability";
+import { PricingEngine } from "./pricing-engine";
+import { RateCalendarService } from "./rate-calendar";
+import { ChannelBookingSync } from "./channel-booking-sync";
+import { OverbookingDetector } from "./overbooking";
+import { RoomTypeService } from "./room-types";
+import { HousekeepingService } from "./housekeeping";
+import { MaintenanceService } from "./maintenance";
+import { getHotelRoom, isDuplicateRoomNumber, roomLimitError } from "./rooms";
 import { 
   createSubscriptionOrder, 
   createBookingOrder, 
@@ -38,10 +50,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Password-based authentication routes (for superadmin)
   setupAuthRoutes(app);
   
+  // Fail at startup rather than on the first OTA credential save or iCal feed request
+  CredentialVault.checkConfiguration();
+  IcalSyncService.checkConfiguration();
+
   // Channel Manager routes
   try {
     const { setupChannelManagerRoutes } = await import("./channel-manager");
     setupChannelManagerRoutes(app);
+
+    const { setupIcalRoutes } = await import("./ical-sync");
+    setupIcalRoutes(app);
+
+    const { setupPricingRoutes } = await import("./pricing-engine");
+    setupPricingRoutes(app);
+
+    const { setupRateCalendarRoutes } = await import("./rate-calendar");
+    setupRateCalendarRoutes(app);
+
+    const { setupOverbookingRoutes } = await import("./overbooking");
+    setupOverbookingRoutes(app);
+
+    const { setupChannelAnalyticsRoutes } = await import("./channel-analytics");
+    setupChannelAnalyticsRoutes(app);
+
+    const { setupRoomTypeRoutes } = await import("./room-types");
+    setupRoomTypeRoutes(app);
+
+    const { setupHousekeepingRoutes } = await import("./housekeeping");
+    setupHousekeepingRoutes(app);
+
+    const { setupMaintenanceRoutes } = await import("./maintenance");
+    setupMaintenanceRoutes(app);
+
+    const { setupRoomRoutes } = await import("./rooms");
+    setupRoomRoutes(app);
+
+    const { setupRoomStatusHistoryRoutes } = await import("./room-status-history");
+    setupRoomStatusHistoryRoutes(app);
+
+    // Hotels from before per-hotel room types get theirs created from the old fixed types
+    RoomTypeService.migrateAll()
+      .then(result => {
+        if (result.created) {
+          console.log(`Room types: ${result.created} created across ${result.hotels} hotels`);
+        }
+      })
+      .catch(error => console.error("Room type migration failed:", error));
+
+    // Encrypt credentials saved before encryption existed, and re-wrap any still on a retired master key
+    CredentialVault.rotateChannelCredentials()
+      .then(result => {
+        if (result.encrypted || result.rewrapped || result.failed) {
+          console.log(`Channel credentials: ${result.encrypted} encrypted, ${result.rewrapped} re-wrapped, ${result.failed} failed`);
+        }
+      })
+      .catch(error => console.error("Channel credential rotation failed:", error));
+
+    // Local OTA simulator for development and tests - point a channel's API endpoint at
+    // <server>/ota-simulator. Set OTA_SIMULATOR=on to mount it in production builds too.
+    if (process.env.NODE_ENV !== "production" || process.env.OTA_SIMULATOR === "on") {
+      const { createOtaSimulator } = await import("./ota-simulator");
+      const { otaSimulatorAdapter } = await import("./services/ota-simulator-adapter");
+      const { registerOtaSimulatorAdapter } = await import("./services/ota-adapter");
+      app.use("/ota-simulator", createOtaSimulator());
+      registerOtaSimulatorAdapter(otaSimulatorAdapter, parseInt(process.env.PORT || '5000', 10));
+    }
+
+    // Background OTA sync - set CHANNEL_SYNC_SCHEDULER=off to disable on an instance
+    if (process.env.CHANNEL_SYNC_SCHEDULER !== "off") {
+      const { channelSyncScheduler } = await import("./channel-sync-scheduler");
+      channelSyncScheduler.start();
+    }
   } catch (error) {
     console.log("Channel manager routes not available - will be enabled after schema update");
   }
@@ -94,21 +174,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Hotel not found or not accepting check-ins" });
       }
       
-      const rooms = await storage.getRooms(hotel.id);
+      const [rooms, roomTypes] = await Promise.all([
+        storage.getRooms(hotel.id),
+        RoomTypeService.list(hotel.id),
+      ]);
       const availableRooms = rooms.filter(r => r.status === "available");
       
-      // Get unique room types with availability count
-      const roomTypeCounts: Record<string, number> = {};
-      availableRooms.forEach(room => {
-        const type = room.type || "standard";
-        roomTypeCounts[type] = (roomTypeCounts[type] || 0) + 1;
-      });
+      // Quote tonight unless the guest asks about other dates
+      const checkIn = typeof req.query.checkIn === "string" ? new Date(req.query.checkIn) : new Date();
+      const checkOut = typeof req.query.checkOut === "string" ? new Date(req.query.checkOut) : new Date(checkIn.getTime() + 24 * 60 * 60 * 1000);
+      if (isNaN(checkIn.getTime()) || isNaN(checkOut.getTime()) || checkOut <= checkIn) {
+        return res.status(400).json({ message: "Invalid check-in/check-out dates" });
+      }
       
+      // Room types with at least one available room, with their availability count
+      const offered = roomTypes
+        .map(roomType => ({ roomType, count: availableRooms.filter(room => room.type === roomType.code).length }))
+        .filter(({ count }) => count > 0);
       res.json({
-        roomTypes: Object.entries(roomTypeCounts).map(([type, count]) => ({
-          type,
-          available: count
-        }))
+        roomTypes: await Promise.all(offered.map(async ({ roomType, count }) => ({
+          type: roomType.code,
+          name: roomType.name,
+          maxOccupancy: roomType.maxOccupancy,
+          amenities: roomType.amenities || [],
+          photos: roomType.photos || [],
+          available: count,
+          rate: await RateCalendarService.quoteNightlyRate(hotel.id, roomType.code, checkIn, checkOut)
+        })))
       });
     } catch (error) {
       console.error("Get room types error:", error);
@@ -324,7 +416,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ? new Date(request.checkOutDate) 
           : new Date(Date.now() + 24 * 60 * 60 * 1000);
       
-      // Create check-in record
+      // Create check-in record, at the rate calendar's rate unless the front desk set one
+      const rate = roomRate || await RateCalendarService.quoteNightlyRate(room.hotelId, room.type, request.checkInDate, checkOutDate);
       const checkIn = await storage.createCheckIn({
         guestId: guest.id,
         roomId: roomId,
@@ -332,12 +425,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         checkInTime: checkInTime || new Date().toLocaleTimeString("en-IN", { hour: "2-digit", minute: "2-digit", hour12: false }),
         checkOutDate: checkOutDate,
         checkOutTime: expectedCheckOutTime || "11:00",
-        roomRate: roomRate || room.basePrice || 0,
-        totalAmount: roomRate || room.basePrice || 0
+        roomRate: rate,
+        totalAmount: rate
       });
       
       // Update room status to occupied
-      await storage.updateRoomStatus(roomId, "occupied");
+      await storage.updateRoomStatus(roomId, "occupied", { source: "check_in", changedBy: req.user?.email });
+      await ChannelSyncService.markInventoryDirty(room.hotelId, request.checkInDate, checkOutDate);
+      await OverbookingDetector.check(room.hotelId, request.checkInDate, checkOutDate, `check_in:${checkIn.id}`);
       
       // Mark request as converted
       await storage.updateSelfCheckInRequest(id, {
@@ -409,7 +504,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/rooms", authenticateToken, requireActiveHotel(storage), checkTrialExpiration, async (req: any, res) => {
     try {
       const hotelId = req.user.role === "admin" ? undefined : req.hotel?.id;
-      const rooms = await storage.getRooms(hotelId);
+      const rooms = await storage.getRooms(hotelId, req.query.includeArchived === "true");
       res.json(rooms);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch rooms" });
@@ -419,9 +514,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/rooms/available", authenticateToken, requireActiveHotel(storage), checkTrialExpiration, async (req: any, res) => {
     try {
       const hotelId = req.user.role === "admin" ? undefined : req.hotel?.id;
-      const rooms = await storage.getAvailableRooms(hotelId);
+      if (!hotelId) {
+        const rooms = await storage.getAvailableRooms(hotelId);
+        return res.json(rooms);
+      }
+
+      // Defaults to tonight; pass checkIn/checkOut to search a future stay
+      const checkIn = req.query.checkIn ? new Date(req.query.checkIn as string) : new Date();
+      const checkOut = req.query.checkOut
+        ? new Date(req.query.checkOut as string)
+        : new Date(checkIn.getTime() + 24 * 60 * 60 * 1000);
+      if (isNaN(checkIn.getTime()) || isNaN(checkOut.getTime()) || checkOut <= checkIn) {
+        return res.status(400).json({ message: "Invalid checkIn/checkOut dates" });
+      }
+
+      const rooms = await AvailabilityService.getAvailableRoomsForStay(hotelId, checkIn, checkOut);
       res.json(rooms);
     } catch (error) {
+      console.error("Error fetching available rooms:", error);
       res.status(500).json({ message: "Failed to fetch available rooms" });
     }
   });
@@ -452,51 +562,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const isSuperAdmin = req.user?.role === "superadmin";
       
       if (!isSuperAdmin) {
-        // Check subscription room limit first
-        const subRoomCheck = checkRoomLimit(hotel, currentRoomCount);
-        if (!subRoomCheck.allowed) {
-          return res.status(403).json({ 
-            message: subRoomCheck.reason,
-            limit: subRoomCheck.limit,
-            current: subRoomCheck.current
-          });
-        }
-
-        // Then check against hotel's enabled room limit (admin-configurable)
-        const enabledRoomsLimit = hotel.enabledRooms || hotel.maxRooms || 50;
-        if (currentRoomCount >= enabledRoomsLimit) {
-          return res.status(400).json({ 
-            message: `Cannot create room. Hotel has reached its room limit of ${enabledRoomsLimit} rooms. Please contact admin to increase capacity.` 
-          });
+        const limitError = roomLimitError(hotel, currentRoomCount);
+        if (limitError) {
+          return res.status(limitError.status).json(limitError.body);
         }
       }
       
       const validatedData = insertRoomSchema.parse(roomData);
+      if ((await RoomTypeService.unknownCodes(validatedData.hotelId, [validatedData.type])).length > 0) {
+        return res.status(400).json({ message: `Unknown room type: ${validatedData.type}` });
+      }
+      if (await storage.getRoomByNumber(validatedData.number, validatedData.hotelId)) {
+        return res.status(409).json({ message: `Room ${validatedData.number} already exists` });
+      }
       const room = await storage.createRoom(validatedData);
       res.status(201).json(room);
     } catch (error) {
       console.error("Room creation error:", error);
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid room data", errors: error.errors });
+      } else if (isDuplicateRoomNumber(error)) {
+        res.status(409).json({ message: `Room ${req.body?.number} already exists` });
       } else {
         res.status(500).json({ message: "Failed to create room" });
       }
     }
   });
 
-  app.patch("/api/rooms/:id/status", async (req, res) => {
+  app.patch("/api/rooms/:id/status", authenticateToken, checkTrialExpiration, requireActiveHotel(storage), async (req: any, res) => {
     try {
-      const { id } = req.params;
-      const { status } = req.body;
+      const existing = await getHotelRoom(req);
+      if (!existing) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      const { id } = existing;
+      const { status, reason, until } = req.body;
       
       if (!["available", "occupied", "cleaning", "maintenance"].includes(status)) {
         return res.status(400).json({ message: "Invalid room status" });
       }
+      if (until !== undefined && (typeof until !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(until))) {
+        return res.status(400).json({ message: "Invalid back-in-service date" });
+      }
+      const note = typeof reason === "string" && reason.trim() ? reason.trim().slice(0, 500) : undefined;
+      
+      // Maintenance is recorded as an out-of-order block from tonight, one night unless a
+      // back-in-service date is given, so it has a reason and shows in the room's history
+      if (status === "maintenance") {
+        const blockedTonight = (await MaintenanceService.getBlocksTonight(existing)).length > 0;
+        if (!blockedTonight || until) {
+          const result = await MaintenanceService.blockRoom(existing, {
+            blockType: "out_of_order",
+            startDate: nightKey(new Date()),
+            endDate: until || nightKey(new Date(Date.now() + 24 * 60 * 60 * 1000)),
+            reason: note,
+          }, `room_status:${id}`, req.user?.email);
+          if (!result.success) {
+            return res.status(400).json({ message: result.message });
+          }
+        }
+      }
       
-      const room = await storage.updateRoomStatus(id, status);
+      const room = await storage.updateRoomStatus(id, status, { source: "manual", changedBy: req.user?.email, reason: note });
       if (!room) {
         return res.status(404).json({ message: "Room not found" });
       }
+      if (status === "available") {
+        await MaintenanceService.releaseRoom(room, req.user?.email);
+        await HousekeepingService.onRoomMarkedAvailable(room.id);
+      }
+      
+      // A status change affects tonight's sellable rooms
+      const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      await ChannelSyncService.markInventoryDirty(room.hotelId, new Date(), tomorrow);
       
       res.json(room);
     } catch (error) {
@@ -582,6 +720,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const checkInData = insertCheckInSchema.parse(req.body);
       const checkIn = await storage.createCheckIn(checkInData);
+      const room = await storage.getRoom(checkIn.roomId);
+      if (room) {
+        await ChannelSyncService.markInventoryDirty(room.hotelId, checkIn.checkInDate, checkIn.checkOutDate);
+        await OverbookingDetector.check(room.hotelId, checkIn.checkInDate, checkIn.checkOutDate, `check_in:${checkIn.id}`);
+      }
       res.status(201).json(checkIn);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -595,7 +738,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/checkins/checkout/:guestId", async (req, res) => {
     try {
       const { guestId } = req.params;
-      await storage.checkOutGuest(guestId);
+      const checkIn = await storage.checkOutGuest(guestId);
+      if (checkIn) {
+        await HousekeepingService.onCheckout(checkIn.roomId, checkIn.id);
+        // Leaving early frees the remaining nights of the stay
+        const room = await storage.getRoom(checkIn.roomId);
+        if (room) {
+          await ChannelSyncService.markInventoryDirty(room.hotelId, new Date(), checkIn.checkOutDate);
+        }
+      }
       res.json({ message: "Guest checked out successfully" });
     } catch (error) {
       res.status(500).json({ message: "Failed to check out guest" });
@@ -639,14 +790,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Create check-in with the new guest ID and room rate
       const room = await storage.getRoom(validatedCheckIn.roomId);
+      const roomRate = validatedCheckIn.roomRate
+        || (room ? await RateCalendarService.quoteNightlyRate(room.hotelId, room.type, validatedCheckIn.checkInDate, validatedCheckIn.checkOutDate) : 0);
       const checkIn = await storage.createCheckIn({
         ...validatedCheckIn,
         guestId: guest.id,
-        roomRate: (validatedCheckIn.roomRate || parseFloat(room?.basePrice || "0")).toString(),
+        roomRate: roomRate.toString(),
         cgstRate: validatedCheckIn.cgstRate?.toString() || "6.00",
         sgstRate: validatedCheckIn.sgstRate?.toString() || "6.00"
       });
       
+      if (room) {
+        await ChannelSyncService.markInventoryDirty(room.hotelId, checkIn.checkInDate, checkIn.checkOutDate);
+        await OverbookingDetector.check(room.hotelId, checkIn.checkInDate, checkIn.checkOutDate, `check_in:${checkIn.id}`);
+      }
+      
       res.status(201).json({ guest, checkIn });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -679,10 +837,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         bookingData.hotelId = hotels[0].id;
       }
+
+      // Without a rate the booking is priced by the dynamic pricing engine
+      if ((bookingData.roomRate === undefined || bookingData.roomRate === "") && bookingData.roomType && bookingData.checkInDate && bookingData.checkOutDate) {
+        const quote = await PricingEngine.quoteStay(bookingData.hotelId, bookingData.roomType, new Date(bookingData.checkInDate), new Date(bookingData.checkOutDate));
+        bookingData.roomRate = quote.averageRate.toString();
+        bookingData.totalAmount ??= (quote.total * (bookingData.numberOfRooms || 1)).toString();
+      }
       
       const validatedData = insertBookingSchema.parse(bookingData);
+      if (validatedData.roomType && (await RoomTypeService.unknownCodes(validatedData.hotelId, [validatedData.roomType])).length > 0) {
+        return res.status(400).json({ message: `Unknown room type: ${validatedData.roomType}` });
+      }
       const booking = await storage.createBooking(validatedData);
-      res.status(201).json(booking);
+      await ChannelSyncService.markInventoryDirty(booking.hotelId, booking.checkInDate, booking.checkOutDate);
+      const overbookingAlerts = await OverbookingDetector.check(booking.hotelId, booking.checkInDate, booking.checkOutDate, `booking:${booking.id}`);
+      res.status(201).json({ ...booking, overbookingAlerts });
     } catch (error) {
       console.error("Booking creation error:", error);
       if (error instanceof z.ZodError) {
@@ -703,13 +873,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (hotels.length === 0) {
         return res.status(400).json({ message: "No hotels found. Please create a hotel first." });
       }
+      const unknownRoomTypes = await RoomTypeService.unknownCodes(hotels[0].id, rooms.map((room: any) => room.roomType));
+      if (unknownRoomTypes.length > 0) {
+        return res.status(400).json({ message: `Unknown room type: ${unknownRoomTypes.join(", ")}` });
+      }
 
       const bookingData = {
         hotelId: hotels[0].id,
         guestName,
         guestPhone,
         guestEmail: guestEmail || null,
-        roomType: "deluxe" as const, // Default value to satisfy NOT NULL constraint, actual room types in booking_rooms table
         numberOfRooms: rooms.length,
         checkInDate: new Date(checkInDate),
         checkOutDate: new Date(checkOutDate),
@@ -719,33 +892,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
         specialRequests: specialRequests || null,
       };
 
-      const roomsData = rooms.map((room: any) => ({
+      // Rooms without a rate are priced from the rate calendar
+      const roomsData = await Promise.all(rooms.map(async (room: any) => ({
         roomType: room.roomType,
         roomNumber: room.roomNumber || null,
-        roomRate: room.roomRate?.toString() || "0.00",
-      }));
+        roomRate: room.roomRate?.toString()
+          || (await RateCalendarService.quoteNightlyRate(hotels[0].id, room.roomType, bookingData.checkInDate, bookingData.checkOutDate)).toString(),
+      })));
 
       const booking = await storage.createBookingWithRooms(bookingData, roomsData);
+      await ChannelSyncService.markInventoryDirty(booking.hotelId, booking.checkInDate, booking.checkOutDate);
+      const overbookingAlerts = await OverbookingDetector.check(booking.hotelId, booking.checkInDate, booking.checkOutDate, `booking:${booking.id}`);
 
-      res.status(201).json(booking);
+      res.status(201).json({ ...booking, overbookingAlerts });
     } catch (error) {
       console.error("Error creating multi-room booking:", error);
       res.status(500).json({ message: "Failed to create multi-room booking" });
     }
   });
 
-  app.patch("/api/bookings/:id/status", async (req, res) => {
+  // Sync state of bookings that came from an OTA, keyed by booking
+  app.get("/api/bookings/channel-sync", authenticateToken, requireActiveHotel(storage), async (req: any, res) => {
+    try {
+      const hotelId = req.hotel?.id;
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel context required" });
+      }
+      res.json(await ChannelBookingSync.getSyncStatuses(hotelId));
+    } catch (error) {
+      console.error("Booking channel sync status error:", error);
+      res.status(500).json({ message: "Failed to fetch booking sync status" });
+    }
+  });
+
+  // Send an OTA booking's current state to its channel again
+  app.post("/api/bookings/:id/channel-sync", authenticateToken, requireActiveHotel(storage), async (req: any, res) => {
+    try {
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking || (req.hotel?.id && booking.hotelId !== req.hotel.id)) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      const result = await ChannelBookingSync.resend(booking);
+      if (!result) {
+        return res.status(400).json({ message: "Booking has nothing to send to a channel" });
+      }
+      res.status(result.success ? 200 : 502).json(result);
+    } catch (error) {
+      console.error("Booking channel sync error:", error);
+      res.status(500).json({ message: "Failed to sync booking" });
+    }
+  });
+
+  app.patch("/api/bookings/:id/status", authenticateToken, requireActiveHotel(storage), async (req: any, res) => {
     try {
       const { id } = req.params;
-      const { status } = req.body;
+      const { status } = updateBookingStatusSchema.parse(req.body);
+
+      const existingBooking = await storage.getBooking(id);
+      if (!existingBooking || (existingBooking.hotelId !== req.hotel?.id && req.user?.role !== "superadmin")) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
       
       const booking = await storage.updateBookingStatus(id, status);
       if (!booking) {
         return res.status(404).json({ message: "Booking not found" });
       }
       
-      res.json(booking);
+      await ChannelSyncService.markInventoryDirty(booking.hotelId, booking.checkInDate, booking.checkOutDate);
+      
+      // OTA reservations: tell the channel about the cancellation or confirmation
+      const channelSync = existingBooking.bookingStatus !== status ? await ChannelBookingSync.propagate(booking) : null;
+      
+      res.json({ ...booking, channelSync });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update booking status" });
     }
   });
@@ -781,6 +1004,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       updates.updatedAt = new Date();
 
       const updatedBooking = await storage.updateBooking(id, updates);
+      if (updatedBooking) {
+        // Both the nights released by the old dates and the nights taken by the new ones change
+        const start = new Date(Math.min(existingBooking.checkInDate.getTime(), updatedBooking.checkInDate.getTime()));
+        const end = new Date(Math.max(existingBooking.checkOutDate.getTime(), updatedBooking.checkOutDate.getTime()));
+        await ChannelSyncService.markInventoryDirty(updatedBooking.hotelId, start, end);
+
+        // Only stay details are sent to the OTA; rates, advance and notes stay local
+        const stayChanged = updatedBooking.guestName !== existingBooking.guestName ||
+          updatedBooking.roomType !== existingBooking.roomType ||
+          updatedBooking.numberOfRooms !== existingBooking.numberOfRooms ||
+          updatedBooking.checkInDate.getTime() !== existingBooking.checkInDate.getTime() ||
+          updatedBooking.checkOutDate.getTime() !== existingBooking.checkOutDate.getTime();
+        // Status can't change here, so edits to rates, advance or notes alone aren't pushed
+        const channelSync = stayChanged ? await ChannelBookingSync.propagate(updatedBooking, { modified: true }) : null;
+        return res.json({ ...updatedBooking, channelSync });
+      }
       res.json(updatedBooking);
     } catch (error) {
       console.error("Update booking error:", error);
@@ -843,7 +1082,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         hotelId: req.hotel?.id || booking.hotelId,
         checkInDate: booking.checkInDate,
         checkOutDate: booking.checkOutDate,
-        roomRate: booking.roomRate || room.basePrice || "2000",
+        roomRate: booking.roomRate || (await RateCalendarService.quoteNightlyRate(booking.hotelId, room.type, booking.checkInDate, booking.checkOutDate)).toString(),
         cgstRate: "6",
         sgstRate: "6",
         advanceAmount: booking.advanceAmount || "0",
@@ -853,10 +1092,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const checkIn = await storage.createCheckIn(checkInData);
 
       // Update room status
-      await storage.updateRoom(roomId, { status: "occupied" });
+      await storage.updateRoomStatus(roomId, "occupied", { source: "check_in", changedBy: req.user?.email });
 
       // Update booking status to checked_in
-      await storage.updateBookingStatus(bookingId, "checked_in");
+      const checkedInBooking = await storage.updateBookingStatus(bookingId, "checked_in");
+      if (checkedInBooking) {
+        await ChannelBookingSync.propagate(checkedInBooking);
+      }
+      await ChannelSyncService.markInventoryDirty(booking.hotelId, booking.checkInDate, booking.checkOutDate);
 
       res.status(201).json({
         message: "Booking converted to check-in successfully",
@@ -926,6 +1169,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Sellable rooms per room type per night, from the shared availability engine
+  app.get("/api/calendar/availability", authenticateToken, requireActiveHotel(storage), async (req: any, res) => {
+    try {
+      const hotelId = req.hotel?.id;
+      if (!hotelId) {
+        return res.status(400).json({ message: "Hotel context required" });
+      }
+
+      const { start, end } = req.query;
+      const startDate = start ? new Date(start as string) : new Date();
+      const endDate = end ? new Date(end as string) : new Date(startDate.getTime() + 7 * 24 * 60 * 60 * 1000);
+      if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || endDate <= startDate) {
+        return res.status(400).json({ message: "Invalid start/end dates" });
+      }
+
+      const availability = await AvailabilityService.getAvailability(hotelId, startDate, endDate);
+      res.json(availability);
+    } catch (error) {
+      console.error("Calendar availability error:", error);
+      res.status(500).json({ message: "Failed to fetch availability" });
+    }
+  });
+
   // Admin statistics endpoint
   app.get("/api/admin/stats", authenticateToken, requireRole(["admin"]), async (req, res) => {
     try {
@@ -1631,7 +1897,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const checkOutDate = new Date(actualCheckOutDate);
       const nights = Math.ceil((checkOutDate.getTime() - checkInDate.getTime()) / (1000 * 60 * 60 * 24)) || 1;
       
-      const roomRate = parseFloat(checkIn.room.basePrice || "0");
+      // Bill the rate agreed at check-in
+      const roomRate = parseFloat(checkIn.roomRate || "0");
       const subtotal = (roomRate * nights) + additionalCharges - discount;
       const gstRate = 0.18; // 18% GST
       const totalTax = subtotal * gstRate;
@@ -1668,8 +1935,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         paymentStatus: "paid"
       });
       
-      // Update room status to cleaning
-      await storage.updateRoomStatus(checkIn.roomId, "cleaning");
+      // Room waits for housekeeping's checkout clean
+      await storage.updateRoomStatus(checkIn.roomId, "cleaning", { source: "checkout" });
+      await HousekeepingService.onCheckout(checkIn.roomId, checkInId);
+      
+      // Leaving early frees the remaining nights of the stay
+      await ChannelSyncService.markInventoryDirty(checkIn.room.hotelId, new Date(actualCheckOutDate), checkIn.checkOutDate);
       
       res.json({
         message: "Checkout completed successfully",
@@ -1,4 +1,5 @@
 import axios, { AxiosInstance } from 'axios';
+import type { OtaAdapter, OtaChannelConnection, OtaRoomType } from './ota-adapter';
 
 export interface BookingComCredentials {
   username: string;
@@ -100,7 +101,7 @@ export class BookingComAPI {
   }
 
   // Update room rates and availability using OTA HotelInvNotif
-  async updateRatesAndAvailability(roomRates: RoomRate[]): Promise<{ success: boolean; message: string }> {
+  async updateRatesAndAvailability(roomRates: RoomRate[]): Promise<{ success: boolean; message: string; retryAfter?: number }> {
     try {
       // Group by date for efficient batching
       const dateGroups = roomRates.reduce((groups, rate) => {
@@ -148,9 +149,12 @@ export class BookingComAPI {
       };
     } catch (error: any) {
       console.error('Booking.com rate update failed:', error);
+      // Booking.com sends Retry-After (seconds) when throttling or under maintenance
+      const retryAfter = parseInt(error.response?.headers?.['retry-after'], 10);
       return {
         success: false,
-        message: error.response?.data?.message || error.message || 'Rate update failed'
+        message: error.response?.data?.message || error.message || 'Rate update failed',
+        retryAfter: Number.isNaN(retryAfter) ? undefined : retryAfter
       };
     }
   }
@@ -281,4 +285,112 @@ export class BookingComAPI {
 // Factory function to create Booking.com API instance
 export function createBookingComAPI(credentials: BookingComCredentials): BookingComAPI {
   return new BookingComAPI(credentials);
-}
\ No newline at end of file
+}
+
+function toBookingComCredentials(channel: OtaChannelConnection): BookingComCredentials {
+  // Handle both testing (with apiCredentials object) and stored channel data
+  const apiCredentials = channel.apiCredentials || {};
+  return {
+    username: apiCredentials.username || '',
+    password: apiCredentials.password || '',
+    propertyId: channel.propertyId || '',
+  };
+}
+
+// Booking.com roomrates response: <room id=".." name=".."><rates><rate id=".." name=".."/></rates></room>
+function parseRoomTypesXML(xmlData: string): OtaRoomType[] {
+  const roomTypes: OtaRoomType[] = [];
+  const roomPattern = /<room\b[^>]*\bid="([^"]+)"[^>]*?(?:\bname="([^"]*)")?[^>]*>([\s\S]*?)<\/room>/g;
+  const ratePattern = /<rate\b[^>]*\bid="([^"]+)"[^>]*?(?:\bname="([^"]*)")?[^>]*\/?>/g;
+
+  for (const match of Array.from(String(xmlData || '').matchAll(roomPattern))) {
+    const ratePlans = Array.from(match[3].matchAll(ratePattern)).map(rate => ({ id: rate[1], name: rate[2] || rate[1] }));
+    roomTypes.push({ id: match[1], name: match[2] || match[1], ratePlans });
+  }
+  return roomTypes;
+}
+
+// OtaAdapter for Booking.com, registered for the booking_com source
+export const bookingComAdapter: OtaAdapter = {
+  async testConnection(channel) {
+    const credentials = toBookingComCredentials(channel);
+
+    // Validate that all required credentials are present
+    if (!credentials.username || !credentials.password || !credentials.propertyId) {
+      return {
+        success: false,
+        message: `Missing required credentials: ${!credentials.username ? 'username ' : ''}${!credentials.password ? 'password ' : ''}${!credentials.propertyId ? 'property ID' : ''}`
+      };
+    }
+
+    return await createBookingComAPI(credentials).testConnection();
+  },
+
+  async pushRatesAndAvailability(channel, records) {
+    // Convert our internal format to Booking.com format
+    const roomRates: RoomRate[] = records.map(record => ({
+      roomTypeId: record.roomType,
+      ratePlanId: record.ratePlanId || 'default',
+      date: record.date,
+      rate: record.sellRate,
+      availability: record.availableRooms,
+      minStay: record.minimumStay ?? undefined,
+      maxStay: record.maximumStay ?? undefined,
+      closedToArrival: record.closedToArrival || false,
+      closedToDeparture: record.closedToDeparture || false,
+    }));
+
+    const result = await createBookingComAPI(toBookingComCredentials(channel)).updateRatesAndAvailability(roomRates);
+    return {
+      ...result,
+      error: result.success ? undefined : result.message,
+      recordsUpdated: result.success ? records.length : 0,
+    };
+  },
+
+  async fetchReservations(channel, startDate, endDate) {
+    const result = await createBookingComAPI(toBookingComCredentials(channel)).fetchReservations(startDate, endDate);
+    return {
+      success: result.success,
+      message: result.message,
+      error: result.success ? undefined : result.message,
+      reservations: result.reservations.map(reservation => ({
+        reservationId: reservation.reservationId,
+        guestName: reservation.guestName,
+        checkIn: reservation.checkIn,
+        checkOut: reservation.checkOut,
+        roomType: reservation.roomType,
+        status: reservation.status,
+        totalAmount: reservation.totalAmount,
+        currency: reservation.currency,
+      })),
+    };
+  },
+
+  async ackReservation(channel, reservationId) {
+    return await createBookingComAPI(toBookingComCredentials(channel)).updateReservationStatus(reservationId, 'confirmed');
+  },
+
+  async updateReservation(channel, reservationId, update) {
+    // Booking.com only lets the property confirm or cancel; guests change their own stays
+    if (update.status === 'modified') {
+      return {
+        success: false,
+        unsupported: true,
+        message: 'Booking.com does not accept reservation changes from the property - update the stay in the extranet',
+      };
+    }
+    const result = await createBookingComAPI(toBookingComCredentials(channel)).updateReservationStatus(reservationId, update.status);
+    return { ...result, error: result.success ? undefined : result.message };
+  },
+
+  async getRoomTypes(channel) {
+    const result = await createBookingComAPI(toBookingComCredentials(channel)).getRoomTypesAndRatePlans();
+    return {
+      success: result.success,
+      message: result.message,
+      error: result.success ? undefined : result.message,
+      roomTypes: result.success ? parseRoomTypesXML(result.data) : [],
+    };
+  },
+};
@@ -0,0 +1,316 @@
+import axios, { AxiosInstance } from 'axios';
+import type { OtaAdapter, OtaChannelConnection, OtaInventoryRecord, OtaReservation, OtaRoomType } from './ota-adapter';
+
+// Ingo-MMT is the shared partner platform behind MakeMyTrip and Goibibo: one hotel code,
+// one set of credentials and one ARI/booking feed serve both storefronts.
+export const INGO_MMT_DEFAULT_ENDPOINT = 'https://partners.makemytrip.com/api';
+
+export interface IngoMmtCredentials {
+  username: string;
+  password: string;
+  apiKey?: string;
+  hotelCode: string;
+  endpoint?: string;
+}
+
+// ARI update for a contiguous date range of one room / rate plan
+export interface IngoMmtAriUpdate {
+  roomCode: string;
+  ratePlanCode: string;
+  startDate: string;
+  endDate: string; // inclusive
+  inventory: number;
+  rate: number;
+  restrictions: {
+    minLos?: number;
+    maxLos?: number;
+    closedToArrival: boolean;
+    closedToDeparture: boolean;
+  };
+}
+
+export interface IngoMmtBooking {
+  bookingId: string;
+  status: 'CONFIRMED' | 'MODIFIED' | 'CANCELLED' | string;
+  source?: 'MMT' | 'GOIBIBO' | string;
+  customer: { name: string; phone?: string; email?: string; nationality?: string };
+  checkin: string;
+  checkout: string;
+  roomCode: string;
+  ratePlanCode?: string;
+  noOfRooms?: number;
+  adults?: number;
+  children?: number;
+  amount: { total: number; perNight?: number; currency?: string };
+  specialRequest?: string;
+  cancellationPolicy?: string;
+}
+
+// Requests per ARI call; the partner API rejects larger batches
+const MAX_ARI_UPDATES_PER_REQUEST = 100;
+
+export class IngoMmtAPI {
+  private readonly client: AxiosInstance;
+  private credentials: IngoMmtCredentials;
+
+  // Pass a client to replay recorded fixtures (see ingo-mmt-fixtures.ts) instead of the live API
+  constructor(credentials: IngoMmtCredentials, client?: AxiosInstance) {
+    this.credentials = credentials;
+
+    const authHeader = Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64');
+    this.client = client || axios.create({
+      baseURL: credentials.endpoint || INGO_MMT_DEFAULT_ENDPOINT,
+      timeout: 30000,
+      headers: {
+        'Authorization': `Basic ${authHeader}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'EaseInn-ChannelManager/1.0',
+        ...(credentials.apiKey ? { 'X-Api-Key': credentials.apiKey } : {}),
+      },
+    });
+  }
+
+  private get hotelPath(): string {
+    return `/hotels/${encodeURIComponent(this.credentials.hotelCode)}`;
+  }
+
+  private errorMessage(error: any, fallback: string): string {
+    const data = error.response?.data;
+    return data?.errors?.[0]?.message || data?.message || error.message || fallback;
+  }
+
+  private retryAfter(error: any): number | undefined {
+    const retryAfter = parseInt(error.response?.headers?.['retry-after'], 10);
+    return Number.isNaN(retryAfter) ? undefined : retryAfter;
+  }
+
+  // Test connection by fetching the hotel profile
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    try {
+      const response = await this.client.get(this.hotelPath);
+      return {
+        success: true,
+        message: `Successfully connected to ${response.data.hotelName || 'MakeMyTrip'} (${this.credentials.hotelCode})`,
+      };
+    } catch (error: any) {
+      console.error('Ingo-MMT connection test failed:', error.message);
+      return { success: false, message: this.errorMessage(error, 'Connection test failed') };
+    }
+  }
+
+  // Collapse per-night records into date ranges with identical values, as the ARI API expects
+  static toAriUpdates(records: OtaInventoryRecord[]): IngoMmtAriUpdate[] {
+    const sorted = [...records].sort((a, b) =>
+      `${a.roomType}|${a.ratePlanId}|${a.date}`.localeCompare(`${b.roomType}|${b.ratePlanId}|${b.date}`)
+    );
+
+    const updates: IngoMmtAriUpdate[] = [];
+    for (const record of sorted) {
+      const update: IngoMmtAriUpdate = {
+        roomCode: record.roomType,
+        ratePlanCode: record.ratePlanId || 'default',
+        startDate: record.date,
+        endDate: record.date,
+        inventory: record.availableRooms,
+        rate: record.sellRate,
+        restrictions: {
+          minLos: record.minimumStay ?? undefined,
+          maxLos: record.maximumStay ?? undefined,
+          closedToArrival: !!record.closedToArrival,
+          closedToDeparture: !!record.closedToDeparture,
+        },
+      };
+
+      const previous = updates[updates.length - 1];
+      const nextDay = previous && new Date(Date.parse(`${previous.endDate}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      if (
+        previous &&
+        nextDay === update.startDate &&
+        previous.roomCode === update.roomCode &&
+        previous.ratePlanCode === update.ratePlanCode &&
+        previous.inventory === update.inventory &&
+        previous.rate === update.rate &&
+        JSON.stringify(previous.restrictions) === JSON.stringify(update.restrictions)
+      ) {
+        previous.endDate = update.endDate;
+      } else {
+        updates.push(update);
+      }
+    }
+    return updates;
+  }
+
+  // Push rates, availability and restrictions
+  async updateAri(updates: IngoMmtAriUpdate[]): Promise<{ success: boolean; message: string; retryAfter?: number }> {
+    try {
+      for (let i = 0; i < updates.length; i += MAX_ARI_UPDATES_PER_REQUEST) {
+        const batch = updates.slice(i, i + MAX_ARI_UPDATES_PER_REQUEST);
+        const response = await this.client.post(`${this.hotelPath}/ari`, { updates: batch });
+        if (response.data?.status !== 'success') {
+          return {
+            success: false,
+            message: response.data?.errors?.[0]?.message || 'Some ARI updates were rejected',
+          };
+        }
+      }
+
+      return { success: true, message: `Successfully updated ${updates.length} ARI ranges` };
+    } catch (error: any) {
+      console.error('Ingo-MMT ARI update failed:', error.message);
+      return {
+        success: false,
+        message: this.errorMessage(error, 'ARI update failed'),
+        retryAfter: this.retryAfter(error),
+      };
+    }
+  }
+
+  // Fetch new, modified and cancelled bookings with check-in between the two dates
+  async fetchBookings(fromDate: string, toDate: string): Promise<{ success: boolean; bookings: IngoMmtBooking[]; message: string }> {
+    try {
+      const response = await this.client.get(`${this.hotelPath}/bookings`, { params: { fromDate, toDate } });
+      const bookings: IngoMmtBooking[] = response.data?.bookings || [];
+      return { success: true, bookings, message: `Fetched ${bookings.length} bookings` };
+    } catch (error: any) {
+      console.error('Ingo-MMT booking fetch failed:', error.message);
+      return { success: false, bookings: [], message: this.errorMessage(error, 'Booking fetch failed') };
+    }
+  }
+
+  async acknowledgeBooking(bookingId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.client.post(`${this.hotelPath}/bookings/${encodeURIComponent(bookingId)}/acknowledge`);
+      return { success: true, message: `Booking ${bookingId} acknowledged` };
+    } catch (error: any) {
+      console.error('Ingo-MMT booking acknowledgement failed:', error.message);
+      return { success: false, message: this.errorMessage(error, 'Booking acknowledgement failed') };
+    }
+  }
+
+  async cancelBooking(bookingId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.client.post(`${this.hotelPath}/bookings/${encodeURIComponent(bookingId)}/cancel`, { cancelledBy: 'HOTEL' });
+      return { success: true, message: `Booking ${bookingId} cancelled` };
+    } catch (error: any) {
+      console.error('Ingo-MMT booking cancellation failed:', error.message);
+      return { success: false, message: this.errorMessage(error, 'Booking cancellation failed') };
+    }
+  }
+
+  async getRooms(): Promise<{ success: boolean; roomTypes: OtaRoomType[]; message: string }> {
+    try {
+      const response = await this.client.get(`${this.hotelPath}/rooms`);
+      const roomTypes: OtaRoomType[] = (response.data?.rooms || []).map((room: any) => ({
+        id: room.roomCode,
+        name: room.roomName,
+        maxOccupancy: room.maxOccupancy,
+        ratePlans: (room.ratePlans || []).map((plan: any) => ({ id: plan.ratePlanCode, name: plan.ratePlanName })),
+      }));
+      return { success: true, roomTypes, message: `Fetched ${roomTypes.length} room types` };
+    } catch (error: any) {
+      console.error('Ingo-MMT room fetch failed:', error.message);
+      return { success: false, roomTypes: [], message: this.errorMessage(error, 'Room fetch failed') };
+    }
+  }
+
+  static toOtaReservation(booking: IngoMmtBooking): OtaReservation {
+    return {
+      reservationId: booking.bookingId,
+      guestName: booking.customer?.name,
+      guestPhone: booking.customer?.phone,
+      guestEmail: booking.customer?.email,
+      guestNationality: booking.customer?.nationality,
+      checkIn: booking.checkin,
+      checkOut: booking.checkout,
+      roomType: booking.roomCode,
+      ratePlanId: booking.ratePlanCode,
+      status: booking.status?.toLowerCase(),
+      totalAmount: booking.amount?.total,
+      roomRate: booking.amount?.perNight,
+      currency: booking.amount?.currency,
+      numberOfRooms: booking.noOfRooms,
+      numberOfAdults: booking.adults,
+      numberOfChildren: booking.children,
+      specialRequests: booking.specialRequest,
+      cancellationPolicy: booking.cancellationPolicy,
+    };
+  }
+}
+
+// Factory function to create an Ingo-MMT API instance
+export function createIngoMmtAPI(credentials: IngoMmtCredentials, client?: AxiosInstance): IngoMmtAPI {
+  return new IngoMmtAPI(credentials, client);
+}
+
+function toIngoMmtCredentials(channel: OtaChannelConnection): IngoMmtCredentials {
+  const apiCredentials = channel.apiCredentials || {};
+  return {
+    username: apiCredentials.username || '',
+    password: apiCredentials.password || '',
+    apiKey: apiCredentials.apiKey,
+    hotelCode: channel.propertyId || '',
+    endpoint: channel.apiEndpoint || undefined,
+  };
+}
+
+// OtaAdapter for Ingo-MMT, registered for both the makemytrip and goibibo sources
+export function createIngoMmtAdapter(client?: AxiosInstance): OtaAdapter {
+  const api = (channel: OtaChannelConnection) => createIngoMmtAPI(toIngoMmtCredentials(channel), client);
+
+  return {
+    async testConnection(channel) {
+      const credentials = toIngoMmtCredentials(channel);
+      if (!credentials.username || !credentials.password || !credentials.hotelCode) {
+        return {
+          success: false,
+          message: `Missing required credentials: ${!credentials.username ? 'username ' : ''}${!credentials.password ? 'password ' : ''}${!credentials.hotelCode ? 'hotel code' : ''}`
+        };
+      }
+      return await api(channel).testConnection();
+    },
+
+    async pushRatesAndAvailability(channel, records) {
+      const result = await api(channel).updateAri(IngoMmtAPI.toAriUpdates(records));
+      return {
+        ...result,
+        error: result.success ? undefined : result.message,
+        recordsUpdated: result.success ? records.length : 0,
+      };
+    },
+
+    async fetchReservations(channel, startDate, endDate) {
+      const result = await api(channel).fetchBookings(startDate, endDate);
+      return {
+        success: result.success,
+        message: result.message,
+        error: result.success ? undefined : result.message,
+        reservations: result.bookings.map(booking => IngoMmtAPI.toOtaReservation(booking)),
+      };
+    },
+
+    async ackReservation(channel, reservationId) {
+      return await api(channel).acknowledgeBooking(reservationId);
+    },
+
+    async updateReservation(channel, reservationId, update) {
+      if (update.status === 'modified') {
+        return {
+          success: false,
+          unsupported: true,
+          message: 'Ingo-MMT does not accept booking modifications from the hotel - raise an amendment in the extranet',
+        };
+      }
+      const result = update.status === 'cancelled'
+        ? await api(channel).cancelBooking(reservationId)
+        : await api(channel).acknowledgeBooking(reservationId);
+      return { ...result, error: result.success ? undefined : result.message };
+    },
+
+    async getRoomTypes(channel) {
+      const result = await api(channel).getRooms();
+      return { ...result, error: result.success ? undefined : result.message };
+    },
+  };
+}
+
+export const ingoMmtAdapter = createIngoMmtAdapter();
@@ -0,0 +1,71 @@
+import fs from 'fs';
+import path from 'path';
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+// Replays recorded Ingo-MMT partner API responses from fixtures/ingo-mmt, so the connector
+// can be exercised without partner credentials:
+//   const api = createIngoMmtAPI(credentials, createIngoMmtFixtureClient());
+// Override the fixture per route to replay failures, e.g. { ari: 'ari-throttled' }.
+// npm run ota:check-ingo-mmt replays every fixture through the adapter (server/check-ingo-mmt.ts);
+// nothing at runtime imports this module, so it stays out of the server bundle.
+
+export type IngoMmtFixtureRoute = 'hotel' | 'rooms' | 'ari' | 'bookings' | 'acknowledge' | 'cancel';
+
+const DEFAULT_FIXTURES: Record<IngoMmtFixtureRoute, string> = {
+  hotel: 'hotel',
+  rooms: 'rooms',
+  ari: 'ari-success',
+  bookings: 'bookings',
+  acknowledge: 'acknowledge',
+  cancel: 'cancel',
+};
+
+const FIXTURE_DIR = path.resolve(import.meta.dirname, 'fixtures', 'ingo-mmt');
+
+interface RecordedResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body: any;
+}
+
+function routeFor(method: string, url: string): IngoMmtFixtureRoute | undefined {
+  const route = url.replace(/\?.*$/, '');
+  if (method === 'get' && /^\/hotels\/[^/]+$/.test(route)) return 'hotel';
+  if (method === 'get' && /^\/hotels\/[^/]+\/rooms$/.test(route)) return 'rooms';
+  if (method === 'post' && /^\/hotels\/[^/]+\/ari$/.test(route)) return 'ari';
+  if (method === 'get' && /^\/hotels\/[^/]+\/bookings$/.test(route)) return 'bookings';
+  if (method === 'post' && /^\/hotels\/[^/]+\/bookings\/[^/]+\/acknowledge$/.test(route)) return 'acknowledge';
+  if (method === 'post' && /^\/hotels\/[^/]+\/bookings\/[^/]+\/cancel$/.test(route)) return 'cancel';
+  return undefined;
+}
+
+export function loadIngoMmtFixture(name: string): RecordedResponse {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, `${name}.json`), 'utf-8'));
+}
+
+export function createIngoMmtFixtureClient(overrides: Partial<Record<IngoMmtFixtureRoute, string>> = {}): AxiosInstance {
+  const fixtures = { ...DEFAULT_FIXTURES, ...overrides };
+
+  return axios.create({
+    adapter: async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+      const method = (config.method || 'get').toLowerCase();
+      const route = routeFor(method, config.url || '');
+      const recorded: RecordedResponse = route
+        ? loadIngoMmtFixture(fixtures[route])
+        : { status: 404, body: { status: 'failure', errors: [{ code: 'NOT_FOUND', message: `No fixture for ${method.toUpperCase()} ${config.url}` }] } };
+
+      const response: AxiosResponse = {
+        data: recorded.body,
+        status: recorded.status,
+        statusText: String(recorded.status),
+        headers: recorded.headers || {},
+        config,
+      };
+
+      if (recorded.status >= 400) {
+        throw new AxiosError(`Request failed with status code ${recorded.status}`, undefined, config, undefined, response);
+      }
+      return response;
+    },
+  });
+}
@@ -0,0 +1,137 @@
+import type { bookingSourceEnum } from '@shared/schema';
+import { bookingComAdapter } from './booking-com-api';
+import { ingoMmtAdapter } from './ingo-mmt-api';
+
+export type OtaSource = typeof bookingSourceEnum.enumValues[number];
+
+// The parts of an otaChannels row (or of the add-channel form) a connector needs
+export interface OtaChannelConnection {
+  channelName: string;
+  propertyId?: string | null;
+  apiEndpoint?: string | null;
+  apiCredentials?: {
+    username?: string;
+    password?: string;
+    apiKey?: string;
+  } | null;
+}
+
+// One room type / rate plan / night as stored in channelInventory
+export interface OtaInventoryRecord {
+  roomType: string;
+  ratePlanId?: string;
+  date: string; // YYYY-MM-DD
+  totalRooms?: number;
+  availableRooms: number;
+  sellRate: number;
+  minimumStay?: number | null;
+  maximumStay?: number | null;
+  closedToArrival?: boolean | null;
+  closedToDeparture?: boolean | null;
+}
+
+// Reservation as delivered by an OTA, after the connector's own parsing
+export interface OtaReservation {
+  reservationId: string;
+  guestName: string;
+  checkIn: string;
+  checkOut: string;
+  roomType: string; // OTA room type id or name, resolved through channelRoomMapping
+  ratePlanId?: string;
+  status: string; // new/confirmed/modified/cancelled
+  totalAmount: number;
+  currency?: string;
+  roomRate?: number;
+  numberOfRooms?: number;
+  numberOfAdults?: number;
+  numberOfChildren?: number;
+  guestPhone?: string;
+  guestEmail?: string;
+  guestNationality?: string;
+  specialRequests?: string;
+  cancellationPolicy?: string;
+}
+
+// A change made on our side to a reservation the OTA delivered. "confirmed" acknowledges it;
+// "modified" carries the new stay details, with roomType already translated to the OTA's id.
+export interface OtaReservationUpdate {
+  status: 'confirmed' | 'cancelled' | 'modified';
+  guestName?: string;
+  checkIn?: string; // YYYY-MM-DD
+  checkOut?: string;
+  roomType?: string;
+  numberOfRooms?: number;
+  totalAmount?: number;
+}
+
+export interface OtaRoomType {
+  id: string;
+  name: string;
+  maxOccupancy?: number;
+  ratePlans?: { id: string; name: string }[];
+}
+
+export interface OtaResult {
+  success: boolean;
+  message?: string;
+  error?: string;
+  retryAfter?: number; // seconds, when the OTA asks us to back off
+  recordErrors?: { index: number; error: string }[]; // per-record rejections, index into the records sent
+}
+
+// Connector for a single OTA. Implementations never throw for OTA-side failures; they return
+// success: false with an error so callers can log and retry.
+export interface OtaAdapter {
+  testConnection(channel: OtaChannelConnection): Promise<OtaResult>;
+  pushRatesAndAvailability(channel: OtaChannelConnection, records: OtaInventoryRecord[]): Promise<OtaResult & { recordsUpdated?: number }>;
+  fetchReservations(channel: OtaChannelConnection, startDate: string, endDate: string): Promise<OtaResult & { reservations: OtaReservation[] }>;
+  ackReservation(channel: OtaChannelConnection, reservationId: string): Promise<OtaResult>;
+  // unsupported: the OTA's API does not accept this change; it has to be made in the extranet
+  updateReservation(channel: OtaChannelConnection, reservationId: string, update: OtaReservationUpdate): Promise<OtaResult & { unsupported?: boolean }>;
+  getRoomTypes(channel: OtaChannelConnection): Promise<OtaResult & { roomTypes: OtaRoomType[] }>;
+}
+
+const otaAdapters: Partial<Record<OtaSource, OtaAdapter>> = {};
+let simulator: { adapter: OtaAdapter; port: number } | undefined;
+
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+export function registerOtaAdapter(source: OtaSource, adapter: OtaAdapter) {
+  otaAdapters[source] = adapter;
+}
+
+// Registered by routes.ts only where it mounts the simulator, for this server's own port
+export function registerOtaSimulatorAdapter(adapter: OtaAdapter, port: number) {
+  simulator = { adapter, port };
+}
+
+// Channels pointed at the local OTA simulator (see server/ota-simulator.ts) use it whatever
+// their source, so every channel type can be exercised in development and tests. Only this
+// server's own /ota-simulator matches, so credentials never go to another host.
+export function isOtaSimulatorEndpoint(endpoint?: string | null): boolean {
+  if (!simulator || !endpoint) return false;
+  try {
+    const url = new URL(endpoint);
+    return url.protocol === 'http:' &&
+      LOOPBACK_HOSTS.has(url.hostname) &&
+      parseInt(url.port || '80', 10) === simulator.port &&
+      /^\/ota-simulator\/?$/.test(url.pathname);
+  } catch {
+    return false;
+  }
+}
+
+export function getOtaAdapter(channel: OtaChannelConnection): OtaAdapter | undefined {
+  if (simulator && isOtaSimulatorEndpoint(channel.apiEndpoint)) {
+    return simulator.adapter;
+  }
+  return otaAdapters[channel.channelName as OtaSource];
+}
+
+export function getRegisteredOtaSources(): OtaSource[] {
+  return Object.keys(otaAdapters) as OtaSource[];
+}
+
+registerOtaAdapter('booking_com', bookingComAdapter);
+registerOtaAdapter('makemytrip', ingoMmtAdapter);
+registerOtaAdapter('goibibo', ingoMmtAdapter);
@@ -0,0 +1,106 @@
+import axios, { AxiosInstance } from 'axios';
+import type { OtaAdapter, OtaChannelConnection, OtaResult } from './ota-adapter';
+
+// HTTP client for the local OTA simulator (server/ota-simulator.ts)
+function createClient(channel: OtaChannelConnection): AxiosInstance {
+  const apiCredentials = channel.apiCredentials || {};
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiCredentials.apiKey) {
+    headers['X-Api-Key'] = apiCredentials.apiKey;
+  } else if (apiCredentials.username || apiCredentials.password) {
+    headers['Authorization'] = `Basic ${Buffer.from(`${apiCredentials.username || ''}:${apiCredentials.password || ''}`).toString('base64')}`;
+  }
+
+  return axios.create({
+    baseURL: `${(channel.apiEndpoint || '').replace(/\/$/, '')}/properties/${encodeURIComponent(channel.propertyId || '')}`,
+    timeout: 10000,
+    headers,
+  });
+}
+
+function toFailure(error: any, fallback: string): OtaResult {
+  const retryAfter = parseInt(error.response?.headers?.['retry-after'], 10);
+  const message = error.response?.data?.error || error.message || fallback;
+  const recordErrors = error.response?.data?.errors;
+  return {
+    success: false,
+    message,
+    error: message,
+    retryAfter: Number.isNaN(retryAfter) ? undefined : retryAfter,
+    recordErrors: Array.isArray(recordErrors) ? recordErrors : undefined,
+  };
+}
+
+export const otaSimulatorAdapter: OtaAdapter = {
+  async testConnection(channel) {
+    try {
+      const response = await createClient(channel).get('');
+      return { success: true, message: `Connected to ${response.data.name}` };
+    } catch (error: any) {
+      return toFailure(error, 'Connection test failed');
+    }
+  },
+
+  async pushRatesAndAvailability(channel, records) {
+    try {
+      const response = await createClient(channel).post('/availability', {
+        records: records.map(record => ({
+          roomType: record.roomType,
+          ratePlanId: record.ratePlanId,
+          date: record.date,
+          totalRooms: record.totalRooms,
+          availableRooms: record.availableRooms,
+          sellRate: record.sellRate,
+          minimumStay: record.minimumStay,
+          maximumStay: record.maximumStay,
+          closedToArrival: record.closedToArrival,
+          closedToDeparture: record.closedToDeparture,
+        })),
+      });
+      return {
+        success: true,
+        message: `Updated ${response.data.recordsUpdated} records`,
+        recordsUpdated: response.data.recordsUpdated,
+      };
+    } catch (error: any) {
+      return toFailure(error, 'Rate update failed');
+    }
+  },
+
+  async fetchReservations(channel, startDate, endDate) {
+    try {
+      const response = await createClient(channel).get('/reservations', { params: { startDate, endDate } });
+      const reservations = response.data.reservations || [];
+      return { success: true, message: `Fetched ${reservations.length} reservations`, reservations };
+    } catch (error: any) {
+      return { ...toFailure(error, 'Reservation fetch failed'), reservations: [] };
+    }
+  },
+
+  async ackReservation(channel, reservationId) {
+    try {
+      await createClient(channel).post(`/reservations/${encodeURIComponent(reservationId)}/ack`);
+      return { success: true, message: `Reservation ${reservationId} acknowledged` };
+    } catch (error: any) {
+      return toFailure(error, 'Reservation acknowledgement failed');
+    }
+  },
+
+  async updateReservation(channel, reservationId, update) {
+    try {
+      await createClient(channel).patch(`/reservations/${encodeURIComponent(reservationId)}`, update);
+      return { success: true, message: `Reservation ${reservationId} ${update.status}` };
+    } catch (error: any) {
+      return toFailure(error, 'Reservation update failed');
+    }
+  },
+
+  async getRoomTypes(channel) {
+    try {
+      const response = await createClient(channel).get('/room-types');
+      return { success: true, roomTypes: response.data.roomTypes || [] };
+    } catch (error: any) {
+      return { ...toFailure(error, 'Room type fetch failed'), roomTypes: [] };
+    }
+  },
+};
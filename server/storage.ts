@@ -1,8 +1,10 @@
 import { 
-  users, rooms, guests, checkIns, hotels, invoices, bookings, bookingRooms,
-  otaChannels, channelRatePlans, channelInventory, channelSyncLogs, channelRoomMapping, channelBookings,
+  users, roomTypes, rooms, guests, checkIns, hotels, invoices, bookings, bookingRooms,
+  otaChannels, channelRatePlans, channelInventory, channelRestrictions, channelSyncLogs, channelSyncOutbox, channelRoomMapping, channelBookings, icalSubscriptions, roomBlocks, pricingRules, roomRates, overbookingAlerts,
+  housekeepingStaff, housekeepingTasks, maintenanceWorkOrders, roomStatusChanges,
   hotelLeads, auditLogs, selfCheckInRequests,
   type User, type InsertUser,
+  type RoomType, type InsertRoomType,
   type Room, type InsertRoom,
   type Guest, type InsertGuest,
   type CheckIn, type InsertCheckIn,
@@ -14,16 +16,42 @@ import {
   type OtaChannel, type InsertOtaChannel,
   type ChannelRatePlan, type InsertChannelRatePlan,
   type ChannelInventory, type InsertChannelInventory,
+  type ChannelRestriction, type InsertChannelRestriction,
   type ChannelBooking, type InsertChannelBooking,
   type ChannelRoomMapping, type InsertChannelRoomMapping,
-  type ChannelSyncLog,
+  type IcalSubscription, type InsertIcalSubscription, type RoomBlock, type InsertRoomBlock,
+  type ChannelSyncLog, type InsertChannelSyncLog,
+  type ChannelSyncOutboxItem, type InsertChannelSyncOutboxItem,
+  type PricingRule, type InsertPricingRule,
+  type RoomRate, type InsertRoomRate,
+  type OverbookingAlert, type InsertOverbookingAlert,
+  type HousekeepingStaff, type InsertHousekeepingStaff,
+  type HousekeepingTask, type InsertHousekeepingTask, type HousekeepingTaskWithRoom,
+  type WorkOrder, type InsertWorkOrder,
+  type RoomStatusChange, type RoomStatusChangeContext,
   type OtaChannelWithRatePlans,
   type HotelLead, type InsertHotelLead,
   type AuditLog, type InsertAuditLog,
   type SelfCheckInRequest, type InsertSelfCheckInRequest
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, ilike, or, sql } from "drizzle-orm";
+import { eq, desc, and, ilike, or, sql, gte, lte, lt, isNull, isNotNull, ne, inArray, getTableColumns } from "drizzle-orm";
+
+export type RestrictionField = "stopSell" | "closedToArrival" | "closedToDeparture" | "minimumStay" | "maximumStay";
+
+export interface SyncLogFilters {
+  channelId?: string;
+  syncType?: string;
+  direction?: string;
+  status?: ChannelSyncLog["status"];
+  from?: Date; // startedAt, inclusive
+  to?: Date; // startedAt, exclusive
+  limit?: number;
+  offset?: number;
+}
+
+// Sync log rows as listed, without the (potentially large) payloads
+export type ChannelSyncLogSummary = Omit<ChannelSyncLog, "requestPayload" | "responseData">;
 
 export interface IStorage {
   // User methods
@@ -40,14 +68,33 @@ export interface IStorage {
   updateHotel(id: string, updates: Partial<Hotel>): Promise<Hotel>;
   toggleHotelActive(hotelId: string): Promise<Hotel>;
   getHotelByOwnerId(ownerId: string): Promise<Hotel | undefined>;
+
+  // Room type methods
+  getRoomTypes(hotelId: string, includeInactive?: boolean): Promise<RoomType[]>;
+  getRoomType(id: string): Promise<RoomType | undefined>;
+  getRoomTypeByCode(hotelId: string, code: string): Promise<RoomType | undefined>;
+  createRoomType(roomType: InsertRoomType & { hotelId: string }): Promise<RoomType>;
+  createRoomTypeIfMissing(roomType: InsertRoomType & { hotelId: string }): Promise<RoomType | undefined>;
+  updateRoomType(id: string, updates: Partial<RoomType>): Promise<RoomType | undefined>;
+  deleteRoomType(id: string): Promise<void>;
+  countRoomTypeReferences(roomType: RoomType): Promise<number>;
+  getRoomTypeCodesInUse(hotelId: string): Promise<string[]>;
+  assignRoomTypeIds(hotelId: string): Promise<void>;
   
   // Room methods
-  getRooms(hotelId?: string): Promise<Room[]>;
+  getRooms(hotelId?: string, includeArchived?: boolean): Promise<Room[]>;
   getRoom(id: string): Promise<Room | undefined>;
-  getRoomByNumber(number: string, hotelId?: string): Promise<Room | undefined>;
+  getRoomByNumber(number: string, hotelId: string): Promise<Room | undefined>;
   createRoom(room: InsertRoom): Promise<Room>;
+  createRooms(rooms: InsertRoom[]): Promise<Room[]>;
   updateRoom(id: string, updates: Partial<Room>): Promise<Room | undefined>;
-  updateRoomStatus(id: string, status: "available" | "occupied" | "cleaning" | "maintenance"): Promise<Room | undefined>;
+  deleteRoom(id: string): Promise<void>;
+  roomHasHistory(room: Room): Promise<boolean>;
+  updateRoomStatus(id: string, status: "available" | "occupied" | "cleaning" | "maintenance", change?: RoomStatusChangeContext): Promise<Room | undefined>;
+  getRoomStatusChanges(roomId: string, limit?: number): Promise<RoomStatusChange[]>;
+  getRoomStatusChangesBetween(hotelId: string, start: Date, end: Date): Promise<RoomStatusChange[]>;
+  getLastRoomStatusChanges(hotelId: string, before: Date): Promise<RoomStatusChange[]>;
+  getFirstRoomStatusChanges(hotelId: string, from: Date): Promise<RoomStatusChange[]>;
   getAvailableRooms(hotelId?: string): Promise<Room[]>;
   
   // Guest methods
@@ -61,7 +108,7 @@ export interface IStorage {
   getCheckInWithDetails(checkInId: string): Promise<(CheckIn & { guest: Guest; room: Room & { hotel?: Hotel } }) | undefined>;
   createCheckIn(checkIn: InsertCheckIn): Promise<CheckIn>;
   updateCheckOut(checkInId: string, checkOutData: { actualCheckOutDate: Date; actualCheckOutTime: string; totalAmount: number; paymentStatus: string }): Promise<void>;
-  checkOutGuest(guestId: string): Promise<void>;
+  checkOutGuest(guestId: string): Promise<CheckIn | undefined>;
   
   // Booking methods
   getBookings(hotelId?: string): Promise<BookingWithRooms[]>;
@@ -71,6 +118,7 @@ export interface IStorage {
   updateBooking(id: string, updates: Partial<Booking>): Promise<Booking | undefined>;
   updateBookingStatus(id: string, status: string): Promise<Booking | undefined>;
   getBookingsByDateRange(startDate: Date, endDate: Date, hotelId?: string): Promise<Booking[]>;
+  getConfirmedBookingsWithRooms(hotelId: string, startDate: Date, endDate: Date): Promise<BookingWithRooms[]>;
   
   // Invoice methods
   createInvoice(invoice: InsertInvoice): Promise<Invoice>;
@@ -89,28 +137,121 @@ export interface IStorage {
   getOtaChannel(id: string): Promise<OtaChannel | undefined>;
   getChannelsByHotelId(hotelId: string): Promise<OtaChannel[]>;
   getActiveChannelsByHotelId(hotelId: string): Promise<OtaChannel[]>;
+  getChannelsDueForSync(now: Date): Promise<OtaChannel[]>;
+  getChannelsNeedingCredentialRewrap(activeKeyId: string): Promise<OtaChannel[]>;
+  claimChannelSync(id: string, owner: string, leaseMs: number): Promise<OtaChannel | undefined>;
+  claimChannelLease(id: string, owner: string, leaseMs: number): Promise<OtaChannel | undefined>;
+  releaseChannelSync(id: string, owner: string, updates?: Partial<OtaChannel>): Promise<void>;
   createOtaChannel(channel: InsertOtaChannel): Promise<OtaChannel>;
   updateOtaChannel(id: string, updates: Partial<OtaChannel>): Promise<OtaChannel>;
   deleteOtaChannel(id: string): Promise<void>;
   
   getChannelRatePlansByChannelId(channelId: string): Promise<ChannelRatePlan[]>;
+  getChannelRatePlan(id: string): Promise<ChannelRatePlan | undefined>;
   getChannelRatePlanByChannelAndRoomType(channelId: string, roomType: string): Promise<ChannelRatePlan | undefined>;
   createChannelRatePlan(ratePlan: InsertChannelRatePlan): Promise<ChannelRatePlan>;
   updateChannelRatePlan(id: string, updates: Partial<ChannelRatePlan>): Promise<ChannelRatePlan>;
+  deleteChannelRatePlan(id: string): Promise<void>;
   
   getChannelInventory(channelId: string, startDate: Date, endDate: Date): Promise<ChannelInventory[]>;
   createChannelInventory(inventory: InsertChannelInventory): Promise<ChannelInventory>;
   updateChannelInventory(id: string, updates: Partial<ChannelInventory>): Promise<ChannelInventory>;
+  upsertChannelInventory(records: InsertChannelInventory[], options?: { forceDirty?: boolean }): Promise<void>;
+  getDirtyChannelInventory(channelId: string, fromDate: Date): Promise<ChannelInventory[]>;
+  getLatestChannelInventoryDate(channelId: string): Promise<Date | undefined>;
+  markChannelInventorySynced(ids: string[], status: "success" | "failed", options?: { errorMessage?: string | null; clearDirtyBefore?: Date }): Promise<void>;
+  getDatabaseTime(): Promise<Date>;
+  getChannelRestrictions(hotelId: string, startDate: Date, endDate: Date): Promise<ChannelRestriction[]>;
+  upsertChannelRestrictions(records: InsertChannelRestriction[], fields: RestrictionField[]): Promise<void>;
   
-  getChannelSyncLogs(hotelId: string, limit?: number, offset?: number): Promise<ChannelSyncLog[]>;
-  createChannelSyncLog(log: Omit<ChannelSyncLog, 'id' | 'createdAt'>): Promise<ChannelSyncLog>;
+  getChannelSyncLogs(hotelId: string, filters?: SyncLogFilters): Promise<{ logs: ChannelSyncLogSummary[]; total: number }>;
+  getChannelSyncLog(id: string): Promise<ChannelSyncLog | undefined>;
+  createChannelSyncLog(log: InsertChannelSyncLog): Promise<ChannelSyncLog>;
   updateChannelSyncLog(id: string, updates: Partial<ChannelSyncLog>): Promise<ChannelSyncLog>;
   
+  getOutboxItems(hotelId: string, filters?: { channelId?: string; status?: string; limit?: number; offset?: number }): Promise<ChannelSyncOutboxItem[]>;
+  getOutboxItem(id: string): Promise<ChannelSyncOutboxItem | undefined>;
+  getOpenOutboxItem(channelId: string, syncType: string): Promise<ChannelSyncOutboxItem | undefined>;
+  getDueOutboxItems(now: Date, limit?: number): Promise<ChannelSyncOutboxItem[]>;
+  createOutboxItem(item: InsertChannelSyncOutboxItem): Promise<ChannelSyncOutboxItem>;
+  updateOutboxItem(id: string, updates: Partial<ChannelSyncOutboxItem>): Promise<ChannelSyncOutboxItem>;
+  claimOutboxItem(id: string, leaseMs: number): Promise<ChannelSyncOutboxItem | undefined>;
+  
   getChannelBookings(hotelId: string, filters?: { channelId?: string; status?: string; limit?: number; offset?: number }): Promise<ChannelBooking[]>;
   createChannelBooking(booking: InsertChannelBooking): Promise<ChannelBooking>;
+  createChannelBookingIfNew(booking: InsertChannelBooking): Promise<ChannelBooking | undefined>;
+  getChannelBookingByReference(channelId: string, channelBookingId: string): Promise<ChannelBooking | undefined>;
+  getChannelBookingByBookingId(bookingId: string): Promise<ChannelBooking | undefined>;
+  getLinkedChannelBookings(hotelId: string): Promise<ChannelBooking[]>;
+  updateChannelBooking(id: string, updates: Partial<ChannelBooking>): Promise<ChannelBooking | undefined>;
+  getChannelRoomMappings(channelId: string): Promise<ChannelRoomMapping[]>;
+  getChannelRoomMapping(id: string): Promise<ChannelRoomMapping | undefined>;
+  createChannelRoomMapping(mapping: InsertChannelRoomMapping): Promise<ChannelRoomMapping>;
+  updateChannelRoomMapping(id: string, updates: Partial<ChannelRoomMapping>): Promise<ChannelRoomMapping | undefined>;
+  deleteChannelRoomMapping(id: string): Promise<void>;
+  replaceChannelRoomMappings(channelId: string, mappings: InsertChannelRoomMapping[]): Promise<ChannelRoomMapping[]>;
+  getChannelBookingsBySubscription(subscriptionId: string): Promise<ChannelBooking[]>;
+  
+  // iCal subscriptions and room blocks
+  getIcalSubscriptions(hotelId: string): Promise<IcalSubscription[]>;
+  getIcalSubscription(id: string): Promise<IcalSubscription | undefined>;
+  getDueIcalSubscriptions(syncedBefore: Date): Promise<IcalSubscription[]>;
+  createIcalSubscription(subscription: InsertIcalSubscription & { hotelId: string }): Promise<IcalSubscription>;
+  updateIcalSubscription(id: string, updates: Partial<IcalSubscription>): Promise<IcalSubscription | undefined>;
+  claimIcalSubscriptionSync(id: string, leaseMs: number, syncedBefore?: Date): Promise<IcalSubscription | undefined>;
+  releaseIcalSubscriptionSync(id: string): Promise<void>;
+  deleteIcalSubscription(id: string): Promise<void>;
+  getRoomBlocks(hotelId: string, startDate: Date, endDate: Date): Promise<RoomBlock[]>;
+  getRoomBlocksBySubscription(subscriptionId: string): Promise<RoomBlock[]>;
+  getRoomBlocksForRoom(roomId: string): Promise<RoomBlock[]>;
+  getRoomBlock(id: string): Promise<RoomBlock | undefined>;
+  createRoomBlock(block: InsertRoomBlock): Promise<RoomBlock>;
+  updateRoomBlock(id: string, updates: Partial<RoomBlock>): Promise<RoomBlock | undefined>;
+  deleteRoomBlocks(ids: string[]): Promise<void>;
+  getConfirmedChannelBookings(hotelId: string, startDate: Date, endDate: Date): Promise<ChannelBooking[]>;
+  
+  // Dynamic pricing rules
+  getPricingRules(hotelId: string): Promise<PricingRule[]>;
+  getPricingRule(id: string): Promise<PricingRule | undefined>;
+  createPricingRule(rule: InsertPricingRule & { hotelId: string }): Promise<PricingRule>;
+  updatePricingRule(id: string, updates: Partial<PricingRule>): Promise<PricingRule | undefined>;
+  deletePricingRule(id: string): Promise<void>;
+  getRoomRates(hotelId: string, startDate: Date, endDate: Date): Promise<RoomRate[]>;
+  upsertRoomRates(records: InsertRoomRate[]): Promise<void>;
+  deleteRoomRates(hotelId: string, roomTypes: string[], dates: Date[]): Promise<void>;
+
+  // Overbooking alerts
+  getOverbookingAlerts(hotelId: string, status?: OverbookingAlert["status"]): Promise<OverbookingAlert[]>;
+  getOverbookingAlert(id: string): Promise<OverbookingAlert | undefined>;
+  upsertOverbookingAlert(alert: InsertOverbookingAlert): Promise<OverbookingAlert>;
+  updateOverbookingAlert(id: string, updates: Partial<OverbookingAlert>): Promise<OverbookingAlert | undefined>;
+
+  // Housekeeping
+  getHousekeepingStaff(hotelId: string, includeInactive?: boolean): Promise<HousekeepingStaff[]>;
+  getHousekeepingStaffMember(id: string): Promise<HousekeepingStaff | undefined>;
+  createHousekeepingStaff(staff: InsertHousekeepingStaff & { hotelId: string }): Promise<HousekeepingStaff>;
+  updateHousekeepingStaff(id: string, updates: Partial<HousekeepingStaff>): Promise<HousekeepingStaff | undefined>;
+  getHousekeepingTasks(hotelId: string, date: Date): Promise<HousekeepingTaskWithRoom[]>;
+  getHousekeepingTask(id: string): Promise<HousekeepingTask | undefined>;
+  getOpenHousekeepingTasks(roomId: string): Promise<HousekeepingTask[]>;
+  createHousekeepingTask(task: InsertHousekeepingTask): Promise<HousekeepingTask>;
+  createStayoverTaskIfMissing(task: InsertHousekeepingTask): Promise<HousekeepingTask | undefined>;
+  updateHousekeepingTask(id: string, updates: Partial<HousekeepingTask>): Promise<HousekeepingTask | undefined>;
+  getCompletedHousekeepingTasks(hotelId: string, startDate: Date, endDate: Date): Promise<HousekeepingTask[]>;
+
+  // Maintenance work orders
+  getWorkOrders(hotelId: string, filters?: { status?: WorkOrder["status"]; roomId?: string }): Promise<WorkOrder[]>;
+  getWorkOrder(id: string): Promise<WorkOrder | undefined>;
+  createWorkOrder(workOrder: InsertWorkOrder & { hotelId: string; blockId?: string | null; reportedBy?: string | null }): Promise<WorkOrder>;
+  updateWorkOrder(id: string, updates: Partial<WorkOrder>): Promise<WorkOrder | undefined>;
   
   getRoomsByHotelId(hotelId: string): Promise<Room[]>;
   getChannelAnalytics(hotelId: string): Promise<any>;
+
+  // Reservations of any status arriving in [startDate, endDate), for channel performance reports
+  getBookingsByArrival(hotelId: string, startDate: Date, endDate: Date): Promise<BookingWithRooms[]>;
+  getChannelBookingsByArrival(hotelId: string, startDate: Date, endDate: Date): Promise<ChannelBooking[]>;
+  getCheckInsByArrival(hotelId: string, startDate: Date, endDate: Date): Promise<(CheckIn & { guest: Guest; room: Room })[]>;
   
   // Hotel Lead methods
   getLeads(filters?: { status?: string; limit?: number; offset?: number }): Promise<{ leads: HotelLead[], total: number }>;
@@ -288,11 +429,135 @@ export class DatabaseStorage implements IStorage {
     return hotel || undefined;
   }
 
-  async getRooms(hotelId?: string): Promise<Room[]> {
-    if (hotelId) {
-      return await db.select().from(rooms).where(eq(rooms.hotelId, hotelId)).orderBy(rooms.number);
+  // Room type methods
+  async getRoomTypes(hotelId: string, includeInactive = false): Promise<RoomType[]> {
+    const conditions = [eq(roomTypes.hotelId, hotelId)];
+    if (!includeInactive) conditions.push(eq(roomTypes.isActive, true));
+    return await db.select().from(roomTypes)
+      .where(and(...conditions))
+      .orderBy(roomTypes.sortOrder, roomTypes.name);
+  }
+
+  async getRoomType(id: string): Promise<RoomType | undefined> {
+    const [roomType] = await db.select().from(roomTypes).where(eq(roomTypes.id, id));
+    return roomType || undefined;
+  }
+
+  async getRoomTypeByCode(hotelId: string, code: string): Promise<RoomType | undefined> {
+    const [roomType] = await db.select().from(roomTypes)
+      .where(and(eq(roomTypes.hotelId, hotelId), eq(roomTypes.code, code)));
+    return roomType || undefined;
+  }
+
+  async createRoomType(roomType: InsertRoomType & { hotelId: string }): Promise<RoomType> {
+    const [newRoomType] = await db
+      .insert(roomTypes)
+      .values(roomType as any)
+      .returning();
+    await this.assignRoomTypeIds(newRoomType.hotelId);
+    return newRoomType;
+  }
+
+  // Undefined when the hotel already has a type with this code, e.g. seeded by a concurrent request
+  async createRoomTypeIfMissing(roomType: InsertRoomType & { hotelId: string }): Promise<RoomType | undefined> {
+    const [newRoomType] = await db
+      .insert(roomTypes)
+      .values(roomType as any)
+      .onConflictDoNothing({ target: [roomTypes.hotelId, roomTypes.code] })
+      .returning();
+    return newRoomType;
+  }
+
+  async updateRoomType(id: string, updates: Partial<RoomType>): Promise<RoomType | undefined> {
+    const [updatedRoomType] = await db
+      .update(roomTypes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(roomTypes.id, id))
+      .returning();
+    return updatedRoomType || undefined;
+  }
+
+  async deleteRoomType(id: string): Promise<void> {
+    await db.delete(roomTypes).where(eq(roomTypes.id, id));
+  }
+
+  // Rooms, bookings, booked rooms, rate plans and mappings pointing at the room type
+  // Rows linked by id, plus the rows that only store the type's code: rates, rules, restrictions,
+  // blocks, iCal subscriptions, OTA reservations and channel inventory
+  async countRoomTypeReferences(roomType: RoomType): Promise<number> {
+    const { id: roomTypeId, hotelId, code } = roomType;
+    const hotelChannels = db.select({ id: otaChannels.id }).from(otaChannels).where(eq(otaChannels.hotelId, hotelId));
+    const counts = await Promise.all([
+      db.select({ count: sql<number>`count(*)` }).from(rooms).where(eq(rooms.roomTypeId, roomTypeId)),
+      db.select({ count: sql<number>`count(*)` }).from(bookings).where(eq(bookings.roomTypeId, roomTypeId)),
+      db.select({ count: sql<number>`count(*)` }).from(bookingRooms).where(eq(bookingRooms.roomTypeId, roomTypeId)),
+      db.select({ count: sql<number>`count(*)` }).from(channelRatePlans).where(eq(channelRatePlans.roomTypeId, roomTypeId)),
+      db.select({ count: sql<number>`count(*)` }).from(channelRoomMapping).where(eq(channelRoomMapping.roomTypeId, roomTypeId)),
+      db.select({ count: sql<number>`count(*)` }).from(channelBookings).where(and(eq(channelBookings.hotelId, hotelId), eq(channelBookings.roomType, code))),
+      db.select({ count: sql<number>`count(*)` }).from(roomRates).where(and(eq(roomRates.hotelId, hotelId), eq(roomRates.roomType, code))),
+      db.select({ count: sql<number>`count(*)` }).from(pricingRules).where(and(eq(pricingRules.hotelId, hotelId), eq(pricingRules.roomType, code))),
+      db.select({ count: sql<number>`count(*)` }).from(channelRestrictions).where(and(eq(channelRestrictions.hotelId, hotelId), eq(channelRestrictions.roomType, code))),
+      db.select({ count: sql<number>`count(*)` }).from(roomBlocks).where(and(eq(roomBlocks.hotelId, hotelId), eq(roomBlocks.roomType, code))),
+      db.select({ count: sql<number>`count(*)` }).from(icalSubscriptions).where(and(eq(icalSubscriptions.hotelId, hotelId), eq(icalSubscriptions.roomType, code))),
+      db.select({ count: sql<number>`count(*)` }).from(channelInventory).where(and(inArray(channelInventory.channelId, hotelChannels), eq(channelInventory.roomType, code))),
+    ]);
+    return counts.reduce((sum, [row]) => sum + Number(row?.count || 0), 0);
+  }
+
+  // Room type codes stored on the hotel's rooms, bookings, rate plans and mappings
+  async getRoomTypeCodesInUse(hotelId: string): Promise<string[]> {
+    const hotelBookings = db.select({ id: bookings.id }).from(bookings).where(eq(bookings.hotelId, hotelId));
+    const hotelChannels = db.select({ id: otaChannels.id }).from(otaChannels).where(eq(otaChannels.hotelId, hotelId));
+    const [roomCodes, bookingCodes, bookingRoomCodes, ratePlanCodes, mappingCodes] = await Promise.all([
+      db.selectDistinct({ code: rooms.type }).from(rooms).where(eq(rooms.hotelId, hotelId)),
+      db.selectDistinct({ code: bookings.roomType }).from(bookings).where(eq(bookings.hotelId, hotelId)),
+      db.selectDistinct({ code: bookingRooms.roomType }).from(bookingRooms).where(inArray(bookingRooms.bookingId, hotelBookings)),
+      db.selectDistinct({ code: channelRatePlans.roomType }).from(channelRatePlans).where(inArray(channelRatePlans.channelId, hotelChannels)),
+      db.selectDistinct({ code: channelRoomMapping.hotelRoomType }).from(channelRoomMapping).where(inArray(channelRoomMapping.channelId, hotelChannels)),
+    ]);
+    const codes = [...roomCodes, ...bookingCodes, ...bookingRoomCodes, ...ratePlanCodes, ...mappingCodes]
+      .map(row => row.code)
+      .filter((code): code is string => !!code);
+    return Array.from(new Set(codes));
+  }
+
+  // Fill roomTypeId on rows that only have a room type code, e.g. rows from before room types
+  // existed or written before the type was defined
+  async assignRoomTypeIds(hotelId: string): Promise<void> {
+    const hotelBookings = db.select({ id: bookings.id }).from(bookings).where(eq(bookings.hotelId, hotelId));
+    const hotelChannels = db.select({ id: otaChannels.id }).from(otaChannels).where(eq(otaChannels.hotelId, hotelId));
+    for (const roomType of await this.getRoomTypes(hotelId, true)) {
+      await db.update(rooms).set({ roomTypeId: roomType.id })
+        .where(and(eq(rooms.hotelId, hotelId), eq(rooms.type, roomType.code), isNull(rooms.roomTypeId)));
+      await db.update(bookings).set({ roomTypeId: roomType.id })
+        .where(and(eq(bookings.hotelId, hotelId), eq(bookings.roomType, roomType.code), isNull(bookings.roomTypeId)));
+      await db.update(bookingRooms).set({ roomTypeId: roomType.id })
+        .where(and(inArray(bookingRooms.bookingId, hotelBookings), eq(bookingRooms.roomType, roomType.code), isNull(bookingRooms.roomTypeId)));
+      await db.update(channelRatePlans).set({ roomTypeId: roomType.id })
+        .where(and(inArray(channelRatePlans.channelId, hotelChannels), eq(channelRatePlans.roomType, roomType.code), isNull(channelRatePlans.roomTypeId)));
+      await db.update(channelRoomMapping).set({ roomTypeId: roomType.id })
+        .where(and(inArray(channelRoomMapping.channelId, hotelChannels), eq(channelRoomMapping.hotelRoomType, roomType.code), isNull(channelRoomMapping.roomTypeId)));
     }
-    return await db.select().from(rooms).orderBy(rooms.number);
+  }
+
+  private async roomTypeIdFor(hotelId: string, code: string | null | undefined): Promise<string | null> {
+    if (!code) return null;
+    const roomType = await this.getRoomTypeByCode(hotelId, code);
+    return roomType?.id ?? null;
+  }
+
+  private async channelRoomTypeIdFor(channelId: string, code: string | null | undefined): Promise<string | null> {
+    if (!code) return null;
+    const [channel] = await db.select({ hotelId: otaChannels.hotelId }).from(otaChannels).where(eq(otaChannels.id, channelId));
+    return channel ? await this.roomTypeIdFor(channel.hotelId, code) : null;
+  }
+
+  // Archived rooms are left out unless asked for: they are no longer sold, counted or listed
+  async getRooms(hotelId?: string, includeArchived = false): Promise<Room[]> {
+    const conditions = [];
+    if (hotelId) conditions.push(eq(rooms.hotelId, hotelId));
+    if (!includeArchived) conditions.push(isNull(rooms.archivedAt));
+    return await db.select().from(rooms).where(and(...conditions)).orderBy(rooms.number);
   }
 
   async getRoom(id: string): Promise<Room | undefined> {
@@ -300,20 +565,35 @@ export class DatabaseStorage implements IStorage {
     return room || undefined;
   }
 
-  async getRoomByNumber(number: string): Promise<Room | undefined> {
-    const [room] = await db.select().from(rooms).where(eq(rooms.number, number));
+  // Room numbers are unique per hotel, archived rooms included
+  async getRoomByNumber(number: string, hotelId: string): Promise<Room | undefined> {
+    const [room] = await db.select().from(rooms).where(and(eq(rooms.hotelId, hotelId), eq(rooms.number, number)));
     return room || undefined;
   }
 
   async createRoom(room: InsertRoom): Promise<Room> {
     const [newRoom] = await db
       .insert(rooms)
-      .values(room)
+      .values({ ...room, roomTypeId: await this.roomTypeIdFor(room.hotelId, room.type) })
       .returning();
     return newRoom;
   }
 
+  // All or nothing: one insert, so a duplicate number fails the whole batch
+  async createRooms(newRooms: InsertRoom[]): Promise<Room[]> {
+    if (newRooms.length === 0) return [];
+    const values = await Promise.all(newRooms.map(async room => ({
+      ...room,
+      roomTypeId: await this.roomTypeIdFor(room.hotelId, room.type),
+    })));
+    return await db.insert(rooms).values(values).returning();
+  }
+
   async updateRoom(id: string, updates: Partial<Room>): Promise<Room | undefined> {
+    if (updates.type) {
+      const existing = await this.getRoom(id);
+      if (existing) updates = { ...updates, roomTypeId: await this.roomTypeIdFor(existing.hotelId, updates.type) };
+    }
     const [room] = await db
       .update(rooms)
       .set(updates)
@@ -322,20 +602,96 @@ export class DatabaseStorage implements IStorage {
     return room || undefined;
   }
 
-  async updateRoomStatus(id: string, status: "available" | "occupied" | "cleaning" | "maintenance"): Promise<Room | undefined> {
-    const [room] = await db
-      .update(rooms)
-      .set({ status })
-      .where(eq(rooms.id, id))
-      .returning();
-    return room || undefined;
+  async deleteRoom(id: string): Promise<void> {
+    await db.delete(rooms).where(eq(rooms.id, id));
+  }
+
+  // Check-ins, bookings, self check-ins, housekeeping tasks or work orders that mention the room
+  async roomHasHistory(room: Room): Promise<boolean> {
+    const counts = await Promise.all([
+      db.select({ count: sql<number>`count(*)` }).from(checkIns).where(eq(checkIns.roomId, room.id)),
+      db.select({ count: sql<number>`count(*)` }).from(selfCheckInRequests).where(eq(selfCheckInRequests.assignedRoomId, room.id)),
+      db.select({ count: sql<number>`count(*)` }).from(bookings)
+        .where(and(eq(bookings.hotelId, room.hotelId), eq(bookings.roomNumber, room.number))),
+      db.select({ count: sql<number>`count(*)` }).from(bookingRooms)
+        .innerJoin(bookings, eq(bookingRooms.bookingId, bookings.id))
+        .where(and(eq(bookings.hotelId, room.hotelId), eq(bookingRooms.roomNumber, room.number))),
+      db.select({ count: sql<number>`count(*)` }).from(housekeepingTasks).where(eq(housekeepingTasks.roomId, room.id)),
+      db.select({ count: sql<number>`count(*)` }).from(maintenanceWorkOrders).where(eq(maintenanceWorkOrders.roomId, room.id)),
+      // The status audit trail cascades with the room, so a room that has one is kept
+      db.select({ count: sql<number>`count(*)` }).from(roomStatusChanges).where(eq(roomStatusChanges.roomId, room.id)),
+    ]);
+    return counts.some(([row]) => Number(row?.count || 0) > 0);
+  }
+
+  // Every transition is recorded in room_status_changes; setting the status a room already has is not a transition
+  async updateRoomStatus(
+    id: string,
+    status: "available" | "occupied" | "cleaning" | "maintenance",
+    change: RoomStatusChangeContext = { source: "system" },
+  ): Promise<Room | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(rooms).where(eq(rooms.id, id)).for("update");
+      if (!existing) return undefined;
+      if (existing.status === status) return existing;
+
+      const [room] = await tx
+        .update(rooms)
+        .set({ status })
+        .where(eq(rooms.id, id))
+        .returning();
+      await tx.insert(roomStatusChanges).values({
+        hotelId: room.hotelId,
+        roomId: room.id,
+        fromStatus: existing.status,
+        toStatus: status,
+        source: change.source,
+        changedBy: change.changedBy || null,
+        reason: change.reason || null,
+      });
+      return room;
+    });
+  }
+
+  async getRoomStatusChanges(roomId: string, limit = 200): Promise<RoomStatusChange[]> {
+    return await db.select().from(roomStatusChanges)
+      .where(eq(roomStatusChanges.roomId, roomId))
+      .orderBy(desc(roomStatusChanges.changedAt))
+      .limit(limit);
+  }
+
+  // Transitions in [start, end), oldest first
+  async getRoomStatusChangesBetween(hotelId: string, start: Date, end: Date): Promise<RoomStatusChange[]> {
+    return await db.select().from(roomStatusChanges)
+      .where(and(
+        eq(roomStatusChanges.hotelId, hotelId),
+        gte(roomStatusChanges.changedAt, start),
+        lt(roomStatusChanges.changedAt, end)
+      ))
+      .orderBy(roomStatusChanges.changedAt);
+  }
+
+  // Each room's latest transition before the given time, i.e. its status at that moment
+  async getLastRoomStatusChanges(hotelId: string, before: Date): Promise<RoomStatusChange[]> {
+    return await db.selectDistinctOn([roomStatusChanges.roomId]).from(roomStatusChanges)
+      .where(and(eq(roomStatusChanges.hotelId, hotelId), lt(roomStatusChanges.changedAt, before)))
+      .orderBy(roomStatusChanges.roomId, desc(roomStatusChanges.changedAt));
+  }
+
+  // Each room's first transition at or after the given time; its fromStatus is the status the room had then
+  async getFirstRoomStatusChanges(hotelId: string, from: Date): Promise<RoomStatusChange[]> {
+    return await db.selectDistinctOn([roomStatusChanges.roomId]).from(roomStatusChanges)
+      .where(and(eq(roomStatusChanges.hotelId, hotelId), gte(roomStatusChanges.changedAt, from)))
+      .orderBy(roomStatusChanges.roomId, roomStatusChanges.changedAt);
   }
 
   async getAvailableRooms(hotelId?: string): Promise<Room[]> {
     if (hotelId) {
-      return await db.select().from(rooms).where(and(eq(rooms.status, "available"), eq(rooms.hotelId, hotelId))).orderBy(rooms.number);
+      return await db.select().from(rooms)
+        .where(and(eq(rooms.status, "available"), eq(rooms.hotelId, hotelId), isNull(rooms.archivedAt)))
+        .orderBy(rooms.number);
     }
-    return await db.select().from(rooms).where(eq(rooms.status, "available")).orderBy(rooms.number);
+    return await db.select().from(rooms).where(and(eq(rooms.status, "available"), isNull(rooms.archivedAt))).orderBy(rooms.number);
   }
 
   async getGuests(search?: string, limit = 50, offset = 0, hotelId?: string): Promise<{ guests: (Guest & { room?: Room; checkInDate?: Date })[], total: number }> {
@@ -494,12 +850,12 @@ export class DatabaseStorage implements IStorage {
       .returning();
     
     // Update room status to occupied
-    await this.updateRoomStatus(checkIn.roomId, "occupied");
+    await this.updateRoomStatus(checkIn.roomId, "occupied", { source: "check_in" });
     
     return newCheckIn;
   }
 
-  async checkOutGuest(guestId: string): Promise<void> {
+  async checkOutGuest(guestId: string): Promise<CheckIn | undefined> {
     // Find active check-in
     const [activeCheckIn] = await db
       .select()
@@ -514,8 +870,9 @@ export class DatabaseStorage implements IStorage {
         .where(eq(checkIns.id, activeCheckIn.id));
       
       // Update room status to cleaning
-      await this.updateRoomStatus(activeCheckIn.roomId, "cleaning");
+      await this.updateRoomStatus(activeCheckIn.roomId, "cleaning", { source: "checkout" });
     }
+    return activeCheckIn;
   }
 
   async getRoomStatistics(hotelId?: string): Promise<{
@@ -524,16 +881,12 @@ export class DatabaseStorage implements IStorage {
     cleaning: number;
     maintenance: number;
   }> {
-    const conditions = hotelId ? [eq(rooms.hotelId, hotelId)] : [];
+    const conditions = hotelId ? [eq(rooms.hotelId, hotelId), isNull(rooms.archivedAt)] : [isNull(rooms.archivedAt)];
     
-    const query = conditions.length > 0
-      ? db.select({ status: rooms.status, count: sql<number>`count(*)` })
-          .from(rooms)
-          .where(and(...conditions))
-          .groupBy(rooms.status)
-      : db.select({ status: rooms.status, count: sql<number>`count(*)` })
-          .from(rooms)
-          .groupBy(rooms.status);
+    const query = db.select({ status: rooms.status, count: sql<number>`count(*)` })
+      .from(rooms)
+      .where(and(...conditions))
+      .groupBy(rooms.status);
     
     const stats = await query;
     
@@ -642,7 +995,7 @@ export class DatabaseStorage implements IStorage {
   async createBooking(booking: InsertBooking): Promise<Booking> {
     const [newBooking] = await db
       .insert(bookings)
-      .values(booking)
+      .values({ ...booking, roomTypeId: await this.roomTypeIdFor(booking.hotelId, booking.roomType) })
       .returning();
     return newBooking;
   }
@@ -651,17 +1004,20 @@ export class DatabaseStorage implements IStorage {
     booking: InsertBooking,
     rooms: InsertBookingRoom[]
   ): Promise<BookingWithRooms> {
+    const roomType = booking.roomType || rooms[0]?.roomType; // Ensure roomType is never null
     const bookingData = {
       ...booking,
-      roomType: booking.roomType || "deluxe", // Ensure roomType is never null
+      roomType,
+      roomTypeId: await this.roomTypeIdFor(booking.hotelId, roomType),
       roomRate: booking.roomRate || "0.00", // Ensure roomRate is never null
     };
     const [newBooking] = await db.insert(bookings).values(bookingData).returning();
     
-    const roomsWithBookingId = rooms.map(room => ({
+    const roomsWithBookingId = await Promise.all(rooms.map(async room => ({
       ...room,
       bookingId: newBooking.id,
-    }));
+      roomTypeId: await this.roomTypeIdFor(booking.hotelId, room.roomType),
+    })));
     
     const newRooms = await db.insert(bookingRooms).values(roomsWithBookingId).returning();
     
@@ -672,6 +1028,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateBooking(id: string, updates: Partial<Booking>): Promise<Booking | undefined> {
+    if (updates.roomType) {
+      const existing = await this.getBooking(id);
+      if (existing) updates = { ...updates, roomTypeId: await this.roomTypeIdFor(existing.hotelId, updates.roomType) };
+    }
     const [booking] = await db
       .update(bookings)
       .set(updates)
@@ -717,6 +1077,22 @@ export class DatabaseStorage implements IStorage {
       .orderBy(bookings.checkInDate);
   }
 
+  // Confirmed bookings whose stay overlaps [startDate, endDate)
+  async getConfirmedBookingsWithRooms(hotelId: string, startDate: Date, endDate: Date): Promise<BookingWithRooms[]> {
+    return await db.query.bookings.findMany({
+      with: {
+        rooms: true,
+      },
+      where: and(
+        eq(bookings.hotelId, hotelId),
+        eq(bookings.bookingStatus, "confirmed"),
+        lt(bookings.checkInDate, endDate),
+        sql`${bookings.checkOutDate} > ${startDate}`
+      ),
+      orderBy: [bookings.checkInDate],
+    });
+  }
+
   // Invoice methods
   async createInvoice(invoice: InsertInvoice): Promise<Invoice> {
     const [newInvoice] = await db
@@ -737,97 +1113,998 @@ export class DatabaseStorage implements IStorage {
 
   // Channel Manager methods implementation
   async getOtaChannel(id: string): Promise<OtaChannel | undefined> {
-    // Stub implementation - will be functional once DB schema is properly deployed
-    return undefined;
+    const [channel] = await db.select().from(otaChannels).where(eq(otaChannels.id, id));
+    return channel || undefined;
   }
 
   async getChannelsByHotelId(hotelId: string): Promise<OtaChannel[]> {
-    return [];
+    return await db.select().from(otaChannels)
+      .where(eq(otaChannels.hotelId, hotelId))
+      .orderBy(otaChannels.displayName);
   }
 
   async getActiveChannelsByHotelId(hotelId: string): Promise<OtaChannel[]> {
-    return [];
+    return await db.select().from(otaChannels)
+      .where(and(
+        eq(otaChannels.hotelId, hotelId),
+        eq(otaChannels.status, "active"),
+        eq(otaChannels.isActive, true)
+      ))
+      .orderBy(otaChannels.displayName);
+  }
+
+  // Only channels with auto sync on: the others are synced by hand and never become due
+  async getChannelsDueForSync(now: Date): Promise<OtaChannel[]> {
+    return await db.select().from(otaChannels)
+      .where(and(
+        eq(otaChannels.status, "active"),
+        eq(otaChannels.isActive, true),
+        sql`${otaChannels.settings}->>'autoSync' = 'true'`,
+        or(isNull(otaChannels.nextSyncAt), lte(otaChannels.nextSyncAt, now))
+      ))
+      .orderBy(otaChannels.nextSyncAt);
+  }
+
+  // Channels with plaintext credentials, or credentials wrapped with a key other than the active one
+  async getChannelsNeedingCredentialRewrap(activeKeyId: string): Promise<OtaChannel[]> {
+    return await db.select().from(otaChannels)
+      .where(or(
+        isNotNull(otaChannels.apiCredentials),
+        and(isNotNull(otaChannels.encryptedCredentials), ne(otaChannels.credentialsKeyId, activeKeyId))
+      ));
+  }
+
+  // Claims a channel for a scheduled sync only while it is still due, so an instance that listed it
+  // before another instance synced it and moved nextSyncAt on doesn't sync it a second time
+  async claimChannelSync(id: string, owner: string, leaseMs: number): Promise<OtaChannel | undefined> {
+    const now = new Date();
+    return this.claimChannel(id, owner, now, leaseMs, [
+      eq(otaChannels.status, "active"),
+      eq(otaChannels.isActive, true),
+      sql`${otaChannels.settings}->>'autoSync' = 'true'`,
+      or(isNull(otaChannels.nextSyncAt), lte(otaChannels.nextSyncAt, now)),
+    ]);
+  }
+
+  // Lease only, for work such as outbox retries that must not interleave with a sync of the channel
+  async claimChannelLease(id: string, owner: string, leaseMs: number): Promise<OtaChannel | undefined> {
+    return this.claimChannel(id, owner, new Date(), leaseMs);
+  }
+
+  private async claimChannel(id: string, owner: string, now: Date, leaseMs: number, conditions: any[] = []): Promise<OtaChannel | undefined> {
+    // Single conditional UPDATE so that only one instance can win the lease
+    const [channel] = await db
+      .update(otaChannels)
+      .set({ syncLockedBy: owner, syncLockedUntil: new Date(now.getTime() + leaseMs) })
+      .where(and(
+        eq(otaChannels.id, id),
+        or(isNull(otaChannels.syncLockedUntil), lt(otaChannels.syncLockedUntil, now)),
+        ...conditions
+      ))
+      .returning();
+    return channel || undefined;
+  }
+
+  async releaseChannelSync(id: string, owner: string, updates: Partial<OtaChannel> = {}): Promise<void> {
+    await db
+      .update(otaChannels)
+      .set({ ...updates, syncLockedBy: null, syncLockedUntil: null, updatedAt: new Date() })
+      .where(and(eq(otaChannels.id, id), eq(otaChannels.syncLockedBy, owner)));
   }
 
   async createOtaChannel(channel: InsertOtaChannel): Promise<OtaChannel> {
-    throw new Error("Channel management requires database schema update");
+    const [newChannel] = await db
+      .insert(otaChannels)
+      .values(channel as any)
+      .returning();
+    return newChannel;
   }
 
   async updateOtaChannel(id: string, updates: Partial<OtaChannel>): Promise<OtaChannel> {
-    throw new Error("Channel management requires database schema update");
+    const [updatedChannel] = await db
+      .update(otaChannels)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(otaChannels.id, id))
+      .returning();
+    return updatedChannel;
   }
 
   async deleteOtaChannel(id: string): Promise<void> {
-    throw new Error("Channel management requires database schema update");
+    await db.delete(otaChannels).where(eq(otaChannels.id, id));
   }
 
   async getChannelRatePlansByChannelId(channelId: string): Promise<ChannelRatePlan[]> {
-    return [];
+    return await db.select().from(channelRatePlans)
+      .where(eq(channelRatePlans.channelId, channelId))
+      .orderBy(channelRatePlans.planName);
+  }
+
+  async getChannelRatePlan(id: string): Promise<ChannelRatePlan | undefined> {
+    const [ratePlan] = await db.select().from(channelRatePlans).where(eq(channelRatePlans.id, id));
+    return ratePlan || undefined;
   }
 
   async getChannelRatePlanByChannelAndRoomType(channelId: string, roomType: string): Promise<ChannelRatePlan | undefined> {
-    return undefined;
+    const [ratePlan] = await db.select().from(channelRatePlans)
+      .where(and(
+        eq(channelRatePlans.channelId, channelId),
+        eq(channelRatePlans.roomType, roomType as any),
+        eq(channelRatePlans.isActive, true)
+      ));
+    return ratePlan || undefined;
   }
 
   async createChannelRatePlan(ratePlan: InsertChannelRatePlan): Promise<ChannelRatePlan> {
-    throw new Error("Channel management requires database schema update");
+    const [newRatePlan] = await db
+      .insert(channelRatePlans)
+      .values({ ...ratePlan, roomTypeId: await this.channelRoomTypeIdFor(ratePlan.channelId, ratePlan.roomType) } as any)
+      .returning();
+    return newRatePlan;
   }
 
   async updateChannelRatePlan(id: string, updates: Partial<ChannelRatePlan>): Promise<ChannelRatePlan> {
-    throw new Error("Channel management requires database schema update");
+    if (updates.roomType) {
+      const existing = await this.getChannelRatePlan(id);
+      if (existing) updates = { ...updates, roomTypeId: await this.channelRoomTypeIdFor(existing.channelId, updates.roomType) };
+    }
+    const [updatedRatePlan] = await db
+      .update(channelRatePlans)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(channelRatePlans.id, id))
+      .returning();
+    return updatedRatePlan;
+  }
+
+  async deleteChannelRatePlan(id: string): Promise<void> {
+    await db.delete(channelRatePlans).where(eq(channelRatePlans.id, id));
   }
 
   async getChannelInventory(channelId: string, startDate: Date, endDate: Date): Promise<ChannelInventory[]> {
-    return [];
+    return await db.select().from(channelInventory)
+      .where(and(
+        eq(channelInventory.channelId, channelId),
+        gte(channelInventory.date, startDate),
+        lte(channelInventory.date, endDate)
+      ))
+      .orderBy(channelInventory.date);
   }
 
   async createChannelInventory(inventory: InsertChannelInventory): Promise<ChannelInventory> {
-    throw new Error("Channel management requires database schema update");
+    const [newInventory] = await db
+      .insert(channelInventory)
+      .values(inventory)
+      .returning();
+    return newInventory;
   }
 
   async updateChannelInventory(id: string, updates: Partial<ChannelInventory>): Promise<ChannelInventory> {
-    throw new Error("Channel management requires database schema update");
+    const [updatedInventory] = await db
+      .update(channelInventory)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(channelInventory.id, id))
+      .returning();
+    return updatedInventory;
+  }
+
+  async upsertChannelInventory(records: InsertChannelInventory[], options: { forceDirty?: boolean } = {}): Promise<void> {
+    // A row only becomes dirty when a value the OTA sees actually changed (or when forced)
+    const changed = options.forceDirty ? sql`true` : sql`(
+      ${channelInventory.isDirty}
+      OR ${channelInventory.totalRooms} IS DISTINCT FROM excluded.total_rooms
+      OR ${channelInventory.availableRooms} IS DISTINCT FROM excluded.available_rooms
+      OR ${channelInventory.sellRate} IS DISTINCT FROM excluded.sell_rate
+      OR ${channelInventory.closedToArrival} IS DISTINCT FROM excluded.closed_to_arrival
+      OR ${channelInventory.closedToDeparture} IS DISTINCT FROM excluded.closed_to_departure
+      OR ${channelInventory.minimumStay} IS DISTINCT FROM excluded.minimum_stay
+      OR ${channelInventory.maximumStay} IS DISTINCT FROM excluded.maximum_stay
+    )`;
+
+    const chunkSize = 500;
+    for (let i = 0; i < records.length; i += chunkSize) {
+      await db
+        .insert(channelInventory)
+        .values(records.slice(i, i + chunkSize).map(record => ({ ...record, isDirty: true })))
+        .onConflictDoUpdate({
+          target: [channelInventory.channelId, channelInventory.ratePlanId, channelInventory.roomType, channelInventory.date],
+          set: {
+            totalRooms: sql`excluded.total_rooms`,
+            availableRooms: sql`excluded.available_rooms`,
+            sellRate: sql`excluded.sell_rate`,
+            closedToArrival: sql`excluded.closed_to_arrival`,
+            closedToDeparture: sql`excluded.closed_to_departure`,
+            minimumStay: sql`excluded.minimum_stay`,
+            maximumStay: sql`excluded.maximum_stay`,
+            isDirty: changed,
+            updatedAt: sql`CASE WHEN ${changed} THEN now() ELSE ${channelInventory.updatedAt} END`,
+          },
+        });
+    }
+  }
+
+  async getDirtyChannelInventory(channelId: string, fromDate: Date): Promise<ChannelInventory[]> {
+    return await db.select().from(channelInventory)
+      .where(and(
+        eq(channelInventory.channelId, channelId),
+        eq(channelInventory.isDirty, true),
+        gte(channelInventory.date, fromDate)
+      ))
+      .orderBy(channelInventory.date);
   }
 
-  async getChannelSyncLogs(hotelId: string, limit?: number, offset?: number): Promise<ChannelSyncLog[]> {
-    return [];
+  async getLatestChannelInventoryDate(channelId: string): Promise<Date | undefined> {
+    const [result] = await db
+      .select({ latest: sql<Date | null>`max(${channelInventory.date})` })
+      .from(channelInventory)
+      .where(eq(channelInventory.channelId, channelId));
+    return result?.latest ? new Date(result.latest) : undefined;
   }
 
-  async createChannelSyncLog(log: Omit<ChannelSyncLog, 'id' | 'createdAt'>): Promise<ChannelSyncLog> {
-    throw new Error("Channel management requires database schema update");
+  // The clock channel_inventory.updatedAt is written with, for comparisons against it
+  async getDatabaseTime(): Promise<Date> {
+    const result = await db.execute<{ now: Date | string }>(sql`select now() as now`);
+    return new Date(result.rows[0].now);
+  }
+
+  async markChannelInventorySynced(ids: string[], status: "success" | "failed", options: { errorMessage?: string | null; clearDirtyBefore?: Date } = {}): Promise<void> {
+    if (ids.length === 0) return;
+
+    const updates: Partial<ChannelInventory> = {
+      syncStatus: status,
+      syncErrorMessage: options.errorMessage || null,
+      lastSyncedAt: new Date(),
+    };
+
+    // Rows edited after the push started carry newer values and must stay dirty
+    const clearDirty = options.clearDirtyBefore
+      ? sql`CASE WHEN ${channelInventory.updatedAt} <= ${options.clearDirtyBefore} THEN false ELSE ${channelInventory.isDirty} END`
+      : undefined;
+
+    await db
+      .update(channelInventory)
+      .set(clearDirty ? { ...updates, isDirty: clearDirty } : updates)
+      .where(inArray(channelInventory.id, ids));
+  }
+
+  async getChannelSyncLogs(hotelId: string, filters?: SyncLogFilters): Promise<{ logs: ChannelSyncLogSummary[]; total: number }> {
+    const limit = filters?.limit || 50;
+    const offset = filters?.offset || 0;
+
+    const conditions: any[] = [eq(channelSyncLogs.hotelId, hotelId)];
+    if (filters?.channelId) conditions.push(eq(channelSyncLogs.channelId, filters.channelId));
+    if (filters?.syncType) conditions.push(eq(channelSyncLogs.syncType, filters.syncType));
+    if (filters?.direction) conditions.push(eq(channelSyncLogs.direction, filters.direction));
+    if (filters?.status) conditions.push(eq(channelSyncLogs.status, filters.status));
+    if (filters?.from) conditions.push(gte(channelSyncLogs.startedAt, filters.from));
+    if (filters?.to) conditions.push(lt(channelSyncLogs.startedAt, filters.to));
+
+    const { requestPayload, responseData, ...columns } = getTableColumns(channelSyncLogs);
+    const [logs, [{ count }]] = await Promise.all([
+      db.select(columns).from(channelSyncLogs)
+        .where(and(...conditions))
+        .orderBy(desc(channelSyncLogs.startedAt))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)` }).from(channelSyncLogs).where(and(...conditions)),
+    ]);
+    return { logs, total: Number(count) };
+  }
+
+  async getChannelSyncLog(id: string): Promise<ChannelSyncLog | undefined> {
+    const [log] = await db.select().from(channelSyncLogs).where(eq(channelSyncLogs.id, id));
+    return log || undefined;
+  }
+
+  async createChannelSyncLog(log: InsertChannelSyncLog): Promise<ChannelSyncLog> {
+    const [newLog] = await db
+      .insert(channelSyncLogs)
+      .values(log)
+      .returning();
+    return newLog;
   }
 
   async updateChannelSyncLog(id: string, updates: Partial<ChannelSyncLog>): Promise<ChannelSyncLog> {
-    throw new Error("Channel management requires database schema update");
+    const [updatedLog] = await db
+      .update(channelSyncLogs)
+      .set(updates)
+      .where(eq(channelSyncLogs.id, id))
+      .returning();
+    return updatedLog;
+  }
+
+  async getOutboxItems(hotelId: string, filters?: { channelId?: string; status?: string; limit?: number; offset?: number }): Promise<ChannelSyncOutboxItem[]> {
+    const limit = filters?.limit || 50;
+    const offset = filters?.offset || 0;
+
+    const conditions: any[] = [eq(channelSyncOutbox.hotelId, hotelId)];
+    if (filters?.channelId) {
+      conditions.push(eq(channelSyncOutbox.channelId, filters.channelId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(channelSyncOutbox.status, filters.status as any));
+    }
+
+    return await db.select().from(channelSyncOutbox)
+      .where(and(...conditions))
+      .orderBy(desc(channelSyncOutbox.updatedAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async getOutboxItem(id: string): Promise<ChannelSyncOutboxItem | undefined> {
+    const [item] = await db.select().from(channelSyncOutbox).where(eq(channelSyncOutbox.id, id));
+    return item || undefined;
+  }
+
+  // The item still to be delivered, whether it waits for its next attempt or is being retried now
+  async getOpenOutboxItem(channelId: string, syncType: string): Promise<ChannelSyncOutboxItem | undefined> {
+    const [item] = await db.select().from(channelSyncOutbox)
+      .where(and(
+        eq(channelSyncOutbox.channelId, channelId),
+        eq(channelSyncOutbox.syncType, syncType),
+        inArray(channelSyncOutbox.status, ["pending", "processing"])
+      ))
+      .orderBy(channelSyncOutbox.createdAt);
+    return item || undefined;
+  }
+
+  async getDueOutboxItems(now: Date, limit = 20): Promise<ChannelSyncOutboxItem[]> {
+    // "processing" items whose lease ran out belong to an instance that died mid-retry
+    return await db.select().from(channelSyncOutbox)
+      .where(and(
+        inArray(channelSyncOutbox.status, ["pending", "processing"]),
+        lte(channelSyncOutbox.nextAttemptAt, now)
+      ))
+      .orderBy(channelSyncOutbox.nextAttemptAt)
+      .limit(limit);
+  }
+
+  async createOutboxItem(item: InsertChannelSyncOutboxItem): Promise<ChannelSyncOutboxItem> {
+    const [newItem] = await db
+      .insert(channelSyncOutbox)
+      .values(item)
+      .returning();
+    return newItem;
+  }
+
+  async updateOutboxItem(id: string, updates: Partial<ChannelSyncOutboxItem>): Promise<ChannelSyncOutboxItem> {
+    const [updatedItem] = await db
+      .update(channelSyncOutbox)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(channelSyncOutbox.id, id))
+      .returning();
+    return updatedItem;
+  }
+
+  async claimOutboxItem(id: string, leaseMs: number): Promise<ChannelSyncOutboxItem | undefined> {
+    const now = new Date();
+    const [item] = await db
+      .update(channelSyncOutbox)
+      .set({ status: "processing", nextAttemptAt: new Date(now.getTime() + leaseMs), updatedAt: now })
+      .where(and(
+        eq(channelSyncOutbox.id, id),
+        inArray(channelSyncOutbox.status, ["pending", "processing"]),
+        lte(channelSyncOutbox.nextAttemptAt, now)
+      ))
+      .returning();
+    return item || undefined;
   }
 
   async getChannelBookings(hotelId: string, filters?: { channelId?: string; status?: string; limit?: number; offset?: number }): Promise<ChannelBooking[]> {
-    return [];
+    const limit = filters?.limit || 100;
+    const offset = filters?.offset || 0;
+
+    const conditions: any[] = [eq(channelBookings.hotelId, hotelId)];
+    if (filters?.channelId) {
+      conditions.push(eq(channelBookings.channelId, filters.channelId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(channelBookings.bookingStatus, filters.status));
+    }
+
+    return await db.select().from(channelBookings)
+      .where(and(...conditions))
+      .orderBy(desc(channelBookings.createdAt))
+      .limit(limit)
+      .offset(offset);
   }
 
   async createChannelBooking(booking: InsertChannelBooking): Promise<ChannelBooking> {
-    throw new Error("Channel management requires database schema update");
+    const [newBooking] = await db
+      .insert(channelBookings)
+      .values(booking as any)
+      .returning();
+    return newBooking;
+  }
+
+  // Undefined when another import of the same reservation got there first
+  async createChannelBookingIfNew(booking: InsertChannelBooking): Promise<ChannelBooking | undefined> {
+    const [newBooking] = await db
+      .insert(channelBookings)
+      .values(booking as any)
+      .onConflictDoNothing({ target: [channelBookings.channelId, channelBookings.channelBookingId] })
+      .returning();
+    return newBooking;
+  }
+
+  async getChannelBookingByReference(channelId: string, channelBookingId: string): Promise<ChannelBooking | undefined> {
+    const [booking] = await db.select().from(channelBookings)
+      .where(and(
+        eq(channelBookings.channelId, channelId),
+        eq(channelBookings.channelBookingId, channelBookingId)
+      ));
+    return booking || undefined;
+  }
+
+  async getChannelBookingByBookingId(bookingId: string): Promise<ChannelBooking | undefined> {
+    const [booking] = await db.select().from(channelBookings)
+      .where(eq(channelBookings.bookingId, bookingId));
+    return booking || undefined;
+  }
+
+  // OTA reservations (not iCal imports) that have a row on the bookings page
+  async getLinkedChannelBookings(hotelId: string): Promise<ChannelBooking[]> {
+    return await db.select().from(channelBookings)
+      .where(and(
+        eq(channelBookings.hotelId, hotelId),
+        isNotNull(channelBookings.bookingId),
+        isNotNull(channelBookings.channelId)
+      ));
+  }
+
+  async updateChannelBooking(id: string, updates: Partial<ChannelBooking>): Promise<ChannelBooking | undefined> {
+    const [booking] = await db
+      .update(channelBookings)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(channelBookings.id, id))
+      .returning();
+    return booking || undefined;
+  }
+
+  async getChannelRoomMappings(channelId: string): Promise<ChannelRoomMapping[]> {
+    return await db.select().from(channelRoomMapping)
+      .where(eq(channelRoomMapping.channelId, channelId));
+  }
+
+  async getChannelRoomMapping(id: string): Promise<ChannelRoomMapping | undefined> {
+    const [mapping] = await db.select().from(channelRoomMapping).where(eq(channelRoomMapping.id, id));
+    return mapping || undefined;
+  }
+
+  async createChannelRoomMapping(mapping: InsertChannelRoomMapping): Promise<ChannelRoomMapping> {
+    const [newMapping] = await db
+      .insert(channelRoomMapping)
+      .values({ ...mapping, roomTypeId: await this.channelRoomTypeIdFor(mapping.channelId, mapping.hotelRoomType) } as any)
+      .returning();
+    return newMapping;
+  }
+
+  async updateChannelRoomMapping(id: string, updates: Partial<ChannelRoomMapping>): Promise<ChannelRoomMapping | undefined> {
+    if (updates.hotelRoomType) {
+      const existing = await this.getChannelRoomMapping(id);
+      if (existing) updates = { ...updates, roomTypeId: await this.channelRoomTypeIdFor(existing.channelId, updates.hotelRoomType) };
+    }
+    const [updatedMapping] = await db
+      .update(channelRoomMapping)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(channelRoomMapping.id, id))
+      .returning();
+    return updatedMapping || undefined;
+  }
+
+  async deleteChannelRoomMapping(id: string): Promise<void> {
+    await db.delete(channelRoomMapping).where(eq(channelRoomMapping.id, id));
+  }
+
+  // Swap a channel's whole mapping at once, as saved by the discovery wizard
+  async replaceChannelRoomMappings(channelId: string, mappings: InsertChannelRoomMapping[]): Promise<ChannelRoomMapping[]> {
+    const rows = await Promise.all(mappings.map(async mapping => ({
+      ...mapping,
+      channelId,
+      roomTypeId: await this.channelRoomTypeIdFor(channelId, mapping.hotelRoomType),
+    })));
+    return await db.transaction(async (tx) => {
+      await tx.delete(channelRoomMapping).where(eq(channelRoomMapping.channelId, channelId));
+      if (rows.length === 0) return [];
+      return await tx
+        .insert(channelRoomMapping)
+        .values(rows as any)
+        .returning();
+    });
+  }
+
+  async getChannelBookingsBySubscription(subscriptionId: string): Promise<ChannelBooking[]> {
+    return await db.select().from(channelBookings)
+      .where(eq(channelBookings.icalSubscriptionId, subscriptionId));
+  }
+
+  async getIcalSubscriptions(hotelId: string): Promise<IcalSubscription[]> {
+    return await db.select().from(icalSubscriptions)
+      .where(eq(icalSubscriptions.hotelId, hotelId))
+      .orderBy(icalSubscriptions.createdAt);
+  }
+
+  async getIcalSubscription(id: string): Promise<IcalSubscription | undefined> {
+    const [subscription] = await db.select().from(icalSubscriptions).where(eq(icalSubscriptions.id, id));
+    return subscription || undefined;
+  }
+
+  async getDueIcalSubscriptions(syncedBefore: Date): Promise<IcalSubscription[]> {
+    return await db.select().from(icalSubscriptions)
+      .where(and(
+        eq(icalSubscriptions.isActive, true),
+        or(isNull(icalSubscriptions.lastSyncedAt), lt(icalSubscriptions.lastSyncedAt, syncedBefore))
+      ));
+  }
+
+  async createIcalSubscription(subscription: InsertIcalSubscription & { hotelId: string }): Promise<IcalSubscription> {
+    const [newSubscription] = await db.insert(icalSubscriptions).values(subscription).returning();
+    return newSubscription;
+  }
+
+  async updateIcalSubscription(id: string, updates: Partial<IcalSubscription>): Promise<IcalSubscription | undefined> {
+    const [subscription] = await db
+      .update(icalSubscriptions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(icalSubscriptions.id, id))
+      .returning();
+    return subscription || undefined;
+  }
+
+  // Conditional UPDATE like claimChannelSync, so only one instance imports a feed at a time.
+  // With syncedBefore the subscription must also still be due.
+  async claimIcalSubscriptionSync(id: string, leaseMs: number, syncedBefore?: Date): Promise<IcalSubscription | undefined> {
+    const now = new Date();
+    const conditions: any[] = [
+      eq(icalSubscriptions.id, id),
+      or(isNull(icalSubscriptions.syncLockedUntil), lt(icalSubscriptions.syncLockedUntil, now)),
+    ];
+    if (syncedBefore) {
+      conditions.push(or(isNull(icalSubscriptions.lastSyncedAt), lt(icalSubscriptions.lastSyncedAt, syncedBefore)));
+    }
+    const [subscription] = await db
+      .update(icalSubscriptions)
+      .set({ syncLockedUntil: new Date(now.getTime() + leaseMs) })
+      .where(and(...conditions))
+      .returning();
+    return subscription || undefined;
+  }
+
+  async releaseIcalSubscriptionSync(id: string): Promise<void> {
+    await db.update(icalSubscriptions).set({ syncLockedUntil: null }).where(eq(icalSubscriptions.id, id));
+  }
+
+  async deleteIcalSubscription(id: string): Promise<void> {
+    await db.delete(icalSubscriptions).where(eq(icalSubscriptions.id, id));
+  }
+
+  async getRoomBlocks(hotelId: string, startDate: Date, endDate: Date): Promise<RoomBlock[]> {
+    return await db.select().from(roomBlocks)
+      .where(and(
+        eq(roomBlocks.hotelId, hotelId),
+        lt(roomBlocks.startDate, endDate),
+        sql`${roomBlocks.endDate} > ${startDate}`
+      ));
+  }
+
+  async getRoomBlocksBySubscription(subscriptionId: string): Promise<RoomBlock[]> {
+    return await db.select().from(roomBlocks).where(eq(roomBlocks.subscriptionId, subscriptionId));
+  }
+
+  async getRoomBlocksForRoom(roomId: string): Promise<RoomBlock[]> {
+    return await db.select().from(roomBlocks)
+      .where(eq(roomBlocks.roomId, roomId))
+      .orderBy(desc(roomBlocks.startDate));
+  }
+
+  async getRoomBlock(id: string): Promise<RoomBlock | undefined> {
+    const [block] = await db.select().from(roomBlocks).where(eq(roomBlocks.id, id));
+    return block || undefined;
+  }
+
+  async createRoomBlock(block: InsertRoomBlock): Promise<RoomBlock> {
+    const [newBlock] = await db.insert(roomBlocks).values(block).returning();
+    return newBlock;
+  }
+
+  async updateRoomBlock(id: string, updates: Partial<RoomBlock>): Promise<RoomBlock | undefined> {
+    const [block] = await db
+      .update(roomBlocks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(roomBlocks.id, id))
+      .returning();
+    return block || undefined;
+  }
+
+  async deleteRoomBlocks(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.delete(roomBlocks).where(inArray(roomBlocks.id, ids));
+  }
+
+  // Restrictions for nights between startDate and endDate, both inclusive
+  async getChannelRestrictions(hotelId: string, startDate: Date, endDate: Date): Promise<ChannelRestriction[]> {
+    return await db.select().from(channelRestrictions)
+      .where(and(
+        eq(channelRestrictions.hotelId, hotelId),
+        gte(channelRestrictions.date, startDate),
+        lte(channelRestrictions.date, endDate)
+      ))
+      .orderBy(channelRestrictions.date);
+  }
+
+  // Only the listed fields are written on existing rows, so one bulk edit can set min stay
+  // without touching a stop-sell set earlier. Rows left with no restriction are removed.
+  async upsertChannelRestrictions(records: InsertChannelRestriction[], fields: RestrictionField[]): Promise<void> {
+    if (records.length === 0 || fields.length === 0) return;
+
+    const columns = {
+      stopSell: sql`excluded.stop_sell`,
+      closedToArrival: sql`excluded.closed_to_arrival`,
+      closedToDeparture: sql`excluded.closed_to_departure`,
+      minimumStay: sql`excluded.minimum_stay`,
+      maximumStay: sql`excluded.maximum_stay`,
+    };
+    const set = Object.fromEntries(fields.map(field => [field, columns[field]]));
+
+    const chunkSize = 500;
+    for (let i = 0; i < records.length; i += chunkSize) {
+      await db
+        .insert(channelRestrictions)
+        .values(records.slice(i, i + chunkSize))
+        .onConflictDoUpdate({
+          target: [channelRestrictions.hotelId, channelRestrictions.channelId, channelRestrictions.roomType, channelRestrictions.date],
+          set: { ...set, updatedAt: new Date() },
+        });
+    }
+
+    await db.delete(channelRestrictions).where(and(
+      eq(channelRestrictions.hotelId, records[0].hotelId),
+      isNull(channelRestrictions.stopSell),
+      isNull(channelRestrictions.closedToArrival),
+      isNull(channelRestrictions.closedToDeparture),
+      isNull(channelRestrictions.minimumStay),
+      isNull(channelRestrictions.maximumStay)
+    ));
+  }
+
+  async getConfirmedChannelBookings(hotelId: string, startDate: Date, endDate: Date): Promise<ChannelBooking[]> {
+    return await db.select().from(channelBookings)
+      .where(and(
+        eq(channelBookings.hotelId, hotelId),
+        eq(channelBookings.bookingStatus, "confirmed"),
+        lt(channelBookings.checkInDate, endDate),
+        sql`${channelBookings.checkOutDate} > ${startDate}`
+      ));
+  }
+
+  async getPricingRules(hotelId: string): Promise<PricingRule[]> {
+    return await db.select().from(pricingRules)
+      .where(eq(pricingRules.hotelId, hotelId))
+      .orderBy(desc(pricingRules.priority), pricingRules.createdAt);
+  }
+
+  async getPricingRule(id: string): Promise<PricingRule | undefined> {
+    const [rule] = await db.select().from(pricingRules).where(eq(pricingRules.id, id));
+    return rule || undefined;
+  }
+
+  async createPricingRule(rule: InsertPricingRule & { hotelId: string }): Promise<PricingRule> {
+    const [newRule] = await db
+      .insert(pricingRules)
+      .values(rule as any)
+      .returning();
+    return newRule;
+  }
+
+  async updatePricingRule(id: string, updates: Partial<PricingRule>): Promise<PricingRule | undefined> {
+    const [updatedRule] = await db
+      .update(pricingRules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(pricingRules.id, id))
+      .returning();
+    return updatedRule || undefined;
+  }
+
+  async deletePricingRule(id: string): Promise<void> {
+    await db.delete(pricingRules).where(eq(pricingRules.id, id));
+  }
+
+  // Calendar rates for nights between startDate (inclusive) and endDate (exclusive)
+  async getRoomRates(hotelId: string, startDate: Date, endDate: Date): Promise<RoomRate[]> {
+    return await db.select().from(roomRates)
+      .where(and(
+        eq(roomRates.hotelId, hotelId),
+        gte(roomRates.date, startDate),
+        lt(roomRates.date, endDate)
+      ))
+      .orderBy(roomRates.date, roomRates.roomType);
+  }
+
+  async upsertRoomRates(records: InsertRoomRate[]): Promise<void> {
+    const chunkSize = 500;
+    for (let i = 0; i < records.length; i += chunkSize) {
+      await db
+        .insert(roomRates)
+        .values(records.slice(i, i + chunkSize))
+        .onConflictDoUpdate({
+          target: [roomRates.hotelId, roomRates.roomType, roomRates.date],
+          set: { rate: sql`excluded.rate`, updatedAt: new Date() },
+        });
+    }
+  }
+
+  async deleteRoomRates(hotelId: string, roomTypes: string[], dates: Date[]): Promise<void> {
+    if (roomTypes.length === 0 || dates.length === 0) return;
+    await db.delete(roomRates).where(and(
+      eq(roomRates.hotelId, hotelId),
+      inArray(roomRates.roomType, roomTypes as any),
+      inArray(roomRates.date, dates)
+    ));
+  }
+
+  async getOverbookingAlerts(hotelId: string, status?: OverbookingAlert["status"]): Promise<OverbookingAlert[]> {
+    const conditions = [eq(overbookingAlerts.hotelId, hotelId)];
+    if (status) conditions.push(eq(overbookingAlerts.status, status));
+    return await db.select().from(overbookingAlerts)
+      .where(and(...conditions))
+      .orderBy(overbookingAlerts.date, overbookingAlerts.roomType);
+  }
+
+  async getOverbookingAlert(id: string): Promise<OverbookingAlert | undefined> {
+    const [alert] = await db.select().from(overbookingAlerts).where(eq(overbookingAlerts.id, id));
+    return alert || undefined;
+  }
+
+  // One alert per slot: a slot that is overbooked again reopens its alert with the current conflicts
+  async upsertOverbookingAlert(alert: InsertOverbookingAlert): Promise<OverbookingAlert> {
+    const [row] = await db
+      .insert(overbookingAlerts)
+      .values(alert as any)
+      .onConflictDoUpdate({
+        target: [overbookingAlerts.hotelId, overbookingAlerts.roomType, overbookingAlerts.date],
+        set: {
+          overbookedBy: sql`excluded.overbooked_by`,
+          conflicts: sql`excluded.conflicts`,
+          suggestions: sql`excluded.suggestions`,
+          triggeredBy: sql`excluded.triggered_by`,
+          status: "open",
+          resolutionNote: null,
+          resolvedAt: null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return row;
+  }
+
+  async updateOverbookingAlert(id: string, updates: Partial<OverbookingAlert>): Promise<OverbookingAlert | undefined> {
+    const [alert] = await db
+      .update(overbookingAlerts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(overbookingAlerts.id, id))
+      .returning();
+    return alert || undefined;
+  }
+
+  async getHousekeepingStaff(hotelId: string, includeInactive = false): Promise<HousekeepingStaff[]> {
+    const conditions = [eq(housekeepingStaff.hotelId, hotelId)];
+    if (!includeInactive) conditions.push(eq(housekeepingStaff.isActive, true));
+    return await db.select().from(housekeepingStaff)
+      .where(and(...conditions))
+      .orderBy(housekeepingStaff.name);
+  }
+
+  async getHousekeepingStaffMember(id: string): Promise<HousekeepingStaff | undefined> {
+    const [staff] = await db.select().from(housekeepingStaff).where(eq(housekeepingStaff.id, id));
+    return staff || undefined;
+  }
+
+  async createHousekeepingStaff(staff: InsertHousekeepingStaff & { hotelId: string }): Promise<HousekeepingStaff> {
+    const [newStaff] = await db.insert(housekeepingStaff).values(staff).returning();
+    return newStaff;
+  }
+
+  async updateHousekeepingStaff(id: string, updates: Partial<HousekeepingStaff>): Promise<HousekeepingStaff | undefined> {
+    const [staff] = await db
+      .update(housekeepingStaff)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(housekeepingStaff.id, id))
+      .returning();
+    return staff || undefined;
+  }
+
+  // The day's tasks plus tasks from earlier days that are still open, most urgent first
+  async getHousekeepingTasks(hotelId: string, date: Date): Promise<HousekeepingTaskWithRoom[]> {
+    const results = await db
+      .select({
+        task: housekeepingTasks,
+        roomNumber: rooms.number,
+        roomType: rooms.type,
+      })
+      .from(housekeepingTasks)
+      .innerJoin(rooms, eq(housekeepingTasks.roomId, rooms.id))
+      .where(and(
+        eq(housekeepingTasks.hotelId, hotelId),
+        or(
+          eq(housekeepingTasks.taskDate, date),
+          and(
+            lt(housekeepingTasks.taskDate, date),
+            inArray(housekeepingTasks.status, ["pending", "in_progress"])
+          )
+        )
+      ))
+      .orderBy(desc(housekeepingTasks.priority), housekeepingTasks.taskDate, rooms.number);
+
+    return results.map(r => ({ ...r.task, roomNumber: r.roomNumber, roomType: r.roomType }));
+  }
+
+  async getHousekeepingTask(id: string): Promise<HousekeepingTask | undefined> {
+    const [task] = await db.select().from(housekeepingTasks).where(eq(housekeepingTasks.id, id));
+    return task || undefined;
+  }
+
+  async getOpenHousekeepingTasks(roomId: string): Promise<HousekeepingTask[]> {
+    return await db.select().from(housekeepingTasks)
+      .where(and(
+        eq(housekeepingTasks.roomId, roomId),
+        inArray(housekeepingTasks.status, ["pending", "in_progress"])
+      ))
+      .orderBy(housekeepingTasks.createdAt);
+  }
+
+  async createHousekeepingTask(task: InsertHousekeepingTask): Promise<HousekeepingTask> {
+    const [newTask] = await db.insert(housekeepingTasks).values(task).returning();
+    return newTask;
+  }
+
+  // Undefined when the room already has its stay-over service for the day (housekeeping_tasks_stayover_unique)
+  async createStayoverTaskIfMissing(task: InsertHousekeepingTask): Promise<HousekeepingTask | undefined> {
+    const [newTask] = await db.insert(housekeepingTasks).values(task).onConflictDoNothing().returning();
+    return newTask;
+  }
+
+  async updateHousekeepingTask(id: string, updates: Partial<HousekeepingTask>): Promise<HousekeepingTask | undefined> {
+    const [task] = await db
+      .update(housekeepingTasks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(housekeepingTasks.id, id))
+      .returning();
+    return task || undefined;
+  }
+
+  // Tasks finished (not skipped) in [startDate, endDate), for turnaround reports
+  async getCompletedHousekeepingTasks(hotelId: string, startDate: Date, endDate: Date): Promise<HousekeepingTask[]> {
+    return await db.select().from(housekeepingTasks)
+      .where(and(
+        eq(housekeepingTasks.hotelId, hotelId),
+        eq(housekeepingTasks.status, "done"),
+        gte(housekeepingTasks.completedAt, startDate),
+        lt(housekeepingTasks.completedAt, endDate)
+      ))
+      .orderBy(housekeepingTasks.completedAt);
+  }
+
+  async getWorkOrders(hotelId: string, filters?: { status?: WorkOrder["status"]; roomId?: string }): Promise<WorkOrder[]> {
+    const conditions = [eq(maintenanceWorkOrders.hotelId, hotelId)];
+    if (filters?.status) conditions.push(eq(maintenanceWorkOrders.status, filters.status));
+    if (filters?.roomId) conditions.push(eq(maintenanceWorkOrders.roomId, filters.roomId));
+    return await db.select().from(maintenanceWorkOrders)
+      .where(and(...conditions))
+      .orderBy(desc(maintenanceWorkOrders.createdAt));
+  }
+
+  async getWorkOrder(id: string): Promise<WorkOrder | undefined> {
+    const [workOrder] = await db.select().from(maintenanceWorkOrders).where(eq(maintenanceWorkOrders.id, id));
+    return workOrder || undefined;
+  }
+
+  async createWorkOrder(workOrder: InsertWorkOrder & { hotelId: string; blockId?: string | null; reportedBy?: string | null }): Promise<WorkOrder> {
+    const [newWorkOrder] = await db.insert(maintenanceWorkOrders).values(workOrder as any).returning();
+    return newWorkOrder;
+  }
+
+  async updateWorkOrder(id: string, updates: Partial<WorkOrder>): Promise<WorkOrder | undefined> {
+    const [workOrder] = await db
+      .update(maintenanceWorkOrders)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(maintenanceWorkOrders.id, id))
+      .returning();
+    return workOrder || undefined;
   }
 
   async getRoomsByHotelId(hotelId: string): Promise<Room[]> {
-    const result = await db.select().from(rooms).where(eq(rooms.hotelId, hotelId));
+    const result = await db.select().from(rooms).where(and(eq(rooms.hotelId, hotelId), isNull(rooms.archivedAt)));
     return result;
   }
 
+  // Headline numbers for the channel manager page; per-channel reports are in server/channel-analytics.ts
   async getChannelAnalytics(hotelId: string): Promise<any> {
+    const today = new Date(`${new Date().toISOString().split('T')[0]}T00:00:00.000Z`);
+    const monthStart = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
+
+    const [channels, [lastSync], [{ bookingsToday }], revenueRows] = await Promise.all([
+      db.select().from(otaChannels).where(eq(otaChannels.hotelId, hotelId)),
+      db.select().from(channelSyncLogs)
+        .where(and(eq(channelSyncLogs.hotelId, hotelId), eq(channelSyncLogs.syncType, "inventory")))
+        .orderBy(desc(channelSyncLogs.startedAt))
+        .limit(1),
+      db.select({ bookingsToday: sql<number>`count(*)` }).from(channelBookings)
+        .where(and(eq(channelBookings.hotelId, hotelId), gte(channelBookings.createdAt, today))),
+      // Revenue of reservations arriving this month
+      db.select({
+        source: channelBookings.source,
+        revenue: sql<string>`coalesce(sum(${channelBookings.totalAmount}), 0)`,
+      }).from(channelBookings)
+        .where(and(
+          eq(channelBookings.hotelId, hotelId),
+          ne(channelBookings.bookingStatus, "cancelled"),
+          gte(channelBookings.checkInDate, monthStart),
+        ))
+        .groupBy(channelBookings.source),
+    ]);
+
+    const byChannel: Record<string, number> = {};
+    for (const row of revenueRows) {
+      const channel = channels.find(channel => channel.channelName === row.source);
+      byChannel[channel?.displayName || row.source] = parseFloat(row.revenue);
+    }
+
     return {
-      totalChannels: 0,
-      activeChannels: 0,
-      syncStatus: "pending",
-      lastSyncDate: null,
-      bookingsToday: 0,
+      totalChannels: channels.length,
+      activeChannels: channels.filter(channel => channel.status === "active").length,
+      syncStatus: lastSync?.status || "pending",
+      lastSyncDate: lastSync?.completedAt || lastSync?.startedAt || null,
+      bookingsToday: Number(bookingsToday),
       revenue: {
-        total: 0,
-        byChannel: {},
+        total: Object.values(byChannel).reduce((sum, revenue) => sum + revenue, 0),
+        byChannel,
       },
     };
   }
 
+  async getBookingsByArrival(hotelId: string, startDate: Date, endDate: Date): Promise<BookingWithRooms[]> {
+    return await db.query.bookings.findMany({
+      with: {
+        rooms: true,
+      },
+      where: and(
+        eq(bookings.hotelId, hotelId),
+        gte(bookings.checkInDate, startDate),
+        lt(bookings.checkInDate, endDate)
+      ),
+      orderBy: [bookings.checkInDate],
+    });
+  }
+
+  async getChannelBookingsByArrival(hotelId: string, startDate: Date, endDate: Date): Promise<ChannelBooking[]> {
+    return await db.select().from(channelBookings)
+      .where(and(
+        eq(channelBookings.hotelId, hotelId),
+        gte(channelBookings.checkInDate, startDate),
+        lt(channelBookings.checkInDate, endDate)
+      ))
+      .orderBy(channelBookings.checkInDate);
+  }
+
+  async getCheckInsByArrival(hotelId: string, startDate: Date, endDate: Date): Promise<(CheckIn & { guest: Guest; room: Room })[]> {
+    const results = await db
+      .select({
+        checkIn: checkIns,
+        guest: guests,
+        room: rooms
+      })
+      .from(checkIns)
+      .innerJoin(guests, eq(checkIns.guestId, guests.id))
+      .innerJoin(rooms, eq(checkIns.roomId, rooms.id))
+      .where(and(
+        eq(rooms.hotelId, hotelId),
+        gte(checkIns.checkInDate, startDate),
+        lt(checkIns.checkInDate, endDate)
+      ))
+      .orderBy(checkIns.checkInDate);
+
+    return results.map(r => ({ ...r.checkIn, guest: r.guest, room: r.room }));
+  }
+
   // Hotel Lead methods
   async getLeads(filters?: { status?: string; limit?: number; offset?: number }): Promise<{ leads: HotelLead[], total: number }> {
     const limit = filters?.limit || 50;
@@ -0,0 +1,173 @@
+import { z } from "zod";
+import { storage, type SyncLogFilters } from "./storage";
+import { ChannelSyncService } from "./channel-manager";
+import { ChannelReservationImporter } from "./channel-reservations";
+import type { ChannelSyncLog, OtaChannel } from "@shared/schema";
+import type { OtaInventoryRecord, OtaReservationUpdate, OtaResult } from "./services/ota-adapter";
+
+const MAX_PAGE_SIZE = 200;
+
+// Sync types whose stored request payload can be sent again as is
+const REPLAYABLE_SYNC_TYPES = ["inventory", "booking_update", "booking_webhook"];
+
+const dateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).transform(date => new Date(`${date}T00:00:00.000Z`));
+
+export const syncLogQuerySchema = z.object({
+  channelId: z.string().optional(),
+  syncType: z.string().optional(),
+  direction: z.enum(["push", "pull"]).optional(),
+  status: z.enum(["pending", "success", "failed", "partial"]).optional(),
+  from: dateParam.optional(),
+  to: dateParam.optional(), // inclusive day
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export interface SyncRecordFailure {
+  record: string; // what failed: a reservation id, a room type, or the record's night and room
+  error: string;
+}
+
+export interface ReplayResult {
+  success: boolean;
+  message: string;
+  syncLogId?: string;
+}
+
+// Read side of channelSyncLogs for debugging OTA disputes: filtered listing, per-record failures
+// pulled out of the stored responses, and replay of a stored payload against the channel.
+export class SyncLogExplorer {
+  static toFilters(query: z.infer<typeof syncLogQuerySchema>): SyncLogFilters {
+    return {
+      ...query,
+      // "to" is the last day shown, the storage filter is exclusive
+      to: query.to ? new Date(query.to.getTime() + 24 * 60 * 60 * 1000) : undefined,
+    };
+  }
+
+  static isReplayable(log: Pick<ChannelSyncLog, "syncType" | "channelId" | "requestPayload">): boolean {
+    return REPLAYABLE_SYNC_TYPES.includes(log.syncType) && !!log.channelId && !!log.requestPayload;
+  }
+
+  // Failures of individual records, as far as the response tells them apart
+  static recordFailures(log: ChannelSyncLog): SyncRecordFailure[] {
+    const response: any = log.responseData || {};
+    const failures: SyncRecordFailure[] = [];
+
+    // Reservation imports report an outcome per reservation
+    for (const result of Array.isArray(response.results) ? response.results : []) {
+      if (result?.error) {
+        failures.push({ record: result.reservationId || "(no reservation id)", error: result.error });
+      }
+    }
+
+    // Inventory pushes: rejected records by index into the payload, and unmapped room types
+    const records: any[] = Array.isArray(log.requestPayload) ? log.requestPayload : [];
+    for (const recordError of Array.isArray(response.recordErrors) ? response.recordErrors : []) {
+      const record = records[recordError.index];
+      failures.push({
+        record: record ? `${record.date} ${record.roomType}${record.ratePlanId ? ` / ${record.ratePlanId}` : ""}` : `#${recordError.index}`,
+        error: recordError.error,
+      });
+    }
+    for (const roomType of Array.isArray(response.unmappedRoomTypes) ? response.unmappedRoomTypes : []) {
+      failures.push({ record: roomType, error: "No room mapping - not sent" });
+    }
+
+    return failures;
+  }
+
+  static async replay(log: ChannelSyncLog): Promise<ReplayResult> {
+    if (!this.isReplayable(log)) {
+      return { success: false, message: `${log.syncType} syncs cannot be replayed` };
+    }
+    const channel = await storage.getOtaChannel(log.channelId!);
+    if (!channel || channel.status !== "active") {
+      return { success: false, message: "Channel not active or not found" };
+    }
+
+    switch (log.syncType) {
+      case "inventory":
+        return await this.replayInventory(channel, log);
+      case "booking_update": {
+        const { reservationId, ...update } = log.requestPayload as OtaReservationUpdate & { reservationId: string };
+        return await this.send(channel, log, () => ChannelSyncService.updateChannelReservation(channel, reservationId, update));
+      }
+      default: {
+        // Webhook payloads go through the importer again, which logs the run itself
+        const summary = await ChannelReservationImporter.importWebhookPayload(channel, log.requestPayload);
+        if (summary.syncLogId) {
+          await storage.updateChannelSyncLog(summary.syncLogId, { replayOfId: log.id });
+        }
+        return { success: summary.success, message: summary.message, syncLogId: summary.syncLogId };
+      }
+    }
+  }
+
+  // Re-send the records exactly as logged. They may be out of date, so the nights are marked
+  // dirty afterwards and the current values are pushed straight away, like a stop-sell, rather
+  // than leaving the OTA on the replayed availability until the next scheduled sync.
+  private static async replayInventory(channel: OtaChannel, log: ChannelSyncLog): Promise<ReplayResult> {
+    const records = log.requestPayload as OtaInventoryRecord[];
+    if (!Array.isArray(records) || records.length === 0) {
+      return { success: false, message: "This sync sent no records" };
+    }
+    const result = await this.send(channel, log, () => ChannelSyncService.sendInventoryRecords(channel, records), records.length);
+
+    const dates = records.map(record => record.date).filter(Boolean).sort();
+    if (dates.length > 0) {
+      await ChannelSyncService.markInventoryDirty(
+        channel.hotelId,
+        new Date(`${dates[0]}T00:00:00.000Z`),
+        new Date(`${dates[dates.length - 1]}T00:00:00.000Z`),
+        { channelId: channel.id, force: true },
+      );
+      try {
+        const correction = await ChannelSyncService.pushDirtyInventory(channel.id);
+        if ("syncLogId" in correction && correction.syncLogId) {
+          // Part of the replay: shown with it in the log explorer
+          await storage.updateChannelSyncLog(correction.syncLogId, { replayOfId: log.id });
+        }
+        if (!correction.success) {
+          console.error(`Push after replaying sync log ${log.id} failed:`, correction.error || correction.message);
+        }
+      } catch (error) {
+        console.error(`Push after replaying sync log ${log.id} failed:`, error);
+      }
+    }
+    return result;
+  }
+
+  private static async send(channel: OtaChannel, log: ChannelSyncLog, operation: () => Promise<OtaResult>, recordCount = 1): Promise<ReplayResult> {
+    const replayLog = await storage.createChannelSyncLog({
+      hotelId: channel.hotelId,
+      channelId: channel.id,
+      syncType: log.syncType,
+      direction: log.direction,
+      status: "pending",
+      startedAt: new Date(),
+      requestPayload: log.requestPayload as any,
+      replayOfId: log.id,
+    });
+
+    const response = await operation();
+    const errorMessage = response.success ? null : (response.error || response.message || "Replay failed");
+    const completedAt = new Date();
+    await storage.updateChannelSyncLog(replayLog.id, {
+      status: response.success ? "success" : "failed",
+      responseData: response,
+      completedAt,
+      durationMs: completedAt.getTime() - replayLog.startedAt.getTime(),
+      recordsProcessed: recordCount,
+      recordsSuccessful: response.success ? recordCount : 0,
+      recordsFailed: response.success ? 0 : recordCount,
+      errorMessage,
+    });
+
+    return {
+      success: response.success,
+      message: response.success ? `Replayed ${log.syncType} sync to ${channel.displayName}` : errorMessage!,
+      syncLogId: replayLog.id,
+    };
+  }
+}
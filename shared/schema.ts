@@ -1,11 +1,10 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, pgEnum, boolean, decimal, json } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, pgEnum, boolean, decimal, json, unique, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
 
 export const roomStatusEnum = pgEnum("room_status", ["available", "occupied", "cleaning", "maintenance"]);
-export const roomTypeEnum = pgEnum("room_type", ["standard", "deluxe", "suite"]);
 export const purposeEnum = pgEnum("purpose", ["business", "leisure", "conference", "wedding", "other"]);
 export const paymentStatusEnum = pgEnum("payment_status", ["pending", "paid", "partial", "refunded"]);
 
@@ -15,6 +14,15 @@ export const selfCheckInStatusEnum = pgEnum("self_checkin_status", ["pending", "
 // Channel Manager enums
 export const channelStatusEnum = pgEnum("channel_status", ["active", "inactive", "testing", "error"]);
 export const syncStatusEnum = pgEnum("sync_status", ["pending", "success", "failed", "partial"]);
+export const pricingRuleTypeEnum = pgEnum("pricing_rule_type", ["occupancy", "lead_time", "length_of_stay", "day_of_week"]);
+export const pricingAdjustmentTypeEnum = pgEnum("pricing_adjustment_type", ["percent", "amount"]);
+export const outboxStatusEnum = pgEnum("outbox_status", ["pending", "processing", "succeeded", "dead_letter"]);
+export const overbookingAlertStatusEnum = pgEnum("overbooking_alert_status", ["open", "resolved", "dismissed"]);
+export const housekeepingTaskTypeEnum = pgEnum("housekeeping_task_type", ["checkout_clean", "stayover_service", "inspection"]);
+export const housekeepingTaskStatusEnum = pgEnum("housekeeping_task_status", ["pending", "in_progress", "done", "skipped"]);
+export const housekeepingPriorityEnum = pgEnum("housekeeping_priority", ["low", "normal", "high", "urgent"]);
+export const workOrderStatusEnum = pgEnum("work_order_status", ["open", "in_progress", "on_hold", "completed", "cancelled"]);
+export const workOrderCategoryEnum = pgEnum("work_order_category", ["plumbing", "electrical", "hvac", "furniture", "appliance", "structural", "other"]);
 export const bookingSourceEnum = pgEnum("booking_source", ["direct", "booking_com", "makemytrip", "agoda", "expedia", "goibibo", "cleartrip", "trivago", "traveloka", "airbnb"]);
 
 // User roles enum - superadmin has full platform access, admin manages hotels, hotelier manages their property
@@ -188,6 +196,8 @@ export const hotels = pgTable("hotels", {
     weekendSurcharge: number;
     seasonalRates: Record<string, number>;
     taxRate: number;
+    // Bounds for dynamically priced rates per room type
+    rateLimits?: Record<string, { floor?: number; ceiling?: number }>;
   }>().default({
     baseRate: 2000,
     weekendSurcharge: 500,
@@ -201,6 +211,8 @@ export const hotels = pgTable("hotels", {
     autoConfirm: boolean;
     enablePayments: boolean;
     currency: string;
+    // Cleaned rooms wait for a supervisor's inspection before they are available again
+    inspectAfterCleaning?: boolean;
   }>().default({
     allowAdvanceBooking: true,
     advanceBookingDays: 90,
@@ -227,7 +239,7 @@ export const selfCheckInRequests = pgTable("self_checkin_requests", {
   numberOfChildren: integer("number_of_children").default(0),
   checkInDate: timestamp("check_in_date").notNull(),
   checkOutDate: timestamp("check_out_date"),
-  preferredRoomType: roomTypeEnum("preferred_room_type"),
+  preferredRoomType: varchar("preferred_room_type", { length: 50 }), // room type code
   documentType: varchar("document_type", { length: 50 }),
   documentNumber: varchar("document_number", { length: 50 }),
   documentImage: text("document_image"),
@@ -243,15 +255,47 @@ export const selfCheckInRequests = pgTable("self_checkin_requests", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Room types defined by each hotel (dorm beds, cottages, family rooms...). Other tables refer to a
+// type by its code, which is what rate plans, mappings and channel inventory are keyed on, and
+// rooms, bookings, rate plans and mappings also keep roomTypeId.
+export const roomTypes = pgTable("room_types", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hotelId: varchar("hotel_id").notNull().references(() => hotels.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  code: varchar("code", { length: 50 }).notNull(), // stable key, e.g. "deluxe" or "dorm_bed"
+  baseOccupancy: integer("base_occupancy").notNull().default(2),
+  maxOccupancy: integer("max_occupancy").notNull().default(2),
+  extraBedPrice: decimal("extra_bed_price", { precision: 10, scale: 2 }).default("0.00"),
+  amenities: json("amenities").$type<string[]>().default([]),
+  photos: json("photos").$type<string[]>().default([]),
+  defaultRate: decimal("default_rate", { precision: 10, scale: 2 }).notNull(), // direct rate before rate calendar and pricing rules
+  sortOrder: integer("sort_order").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  hotelCodeUnique: unique("room_types_hotel_code_unique").on(table.hotelId, table.code),
+}));
+
 export const rooms = pgTable("rooms", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   hotelId: varchar("hotel_id").notNull().references(() => hotels.id),
   number: varchar("number", { length: 10 }).notNull(),
-  type: roomTypeEnum("type").notNull(),
+  type: varchar("type", { length: 50 }).notNull(), // room type code
+  roomTypeId: varchar("room_type_id").references(() => roomTypes.id),
   status: roomStatusEnum("status").notNull().default("available"),
   basePrice: decimal("base_price", { precision: 10, scale: 2 }).notNull(),
+  floor: integer("floor"),
+  wing: varchar("wing", { length: 50 }),
+  view: varchar("view", { length: 50 }), // e.g. sea, garden, city
+  bedConfiguration: varchar("bed_configuration", { length: 100 }), // e.g. "1 king", "2 twin"
+  isAccessible: boolean("is_accessible").notNull().default(false),
+  isSmoking: boolean("is_smoking").notNull().default(false),
+  archivedAt: timestamp("archived_at"), // archived rooms keep their history but are no longer sold or listed
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  unique("rooms_hotel_number_unique").on(table.hotelId, table.number),
+]);
 
 export const guests = pgTable("guests", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -297,7 +341,8 @@ export const bookings = pgTable("bookings", {
   guestName: text("guest_name").notNull(),
   guestPhone: varchar("guest_phone", { length: 20 }).notNull(),
   guestEmail: varchar("guest_email", { length: 255 }),
-  roomType: roomTypeEnum("room_type"), // Optional for multi-room bookings
+  roomType: varchar("room_type", { length: 50 }), // Optional for multi-room bookings
+  roomTypeId: varchar("room_type_id").references(() => roomTypes.id),
   numberOfRooms: integer("number_of_rooms").default(1),
   checkInDate: timestamp("check_in_date").notNull(),
   checkOutDate: timestamp("check_out_date").notNull(),
@@ -308,6 +353,7 @@ export const bookings = pgTable("bookings", {
   roomNumber: varchar("room_number", { length: 10 }),
   bookingStatus: varchar("booking_status", { length: 20 }).notNull().default("confirmed"), // confirmed, cancelled, checked_in
   paymentStatus: paymentStatusEnum("payment_status").default("pending"),
+  source: bookingSourceEnum("source").default("direct"), // OTA reservations are imported as bookings too
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -316,7 +362,8 @@ export const bookings = pgTable("bookings", {
 export const bookingRooms = pgTable("booking_rooms", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   bookingId: varchar("booking_id").notNull().references(() => bookings.id, { onDelete: "cascade" }),
-  roomType: roomTypeEnum("room_type").notNull(),
+  roomType: varchar("room_type", { length: 50 }).notNull(),
+  roomTypeId: varchar("room_type_id").references(() => roomTypes.id),
   roomNumber: varchar("room_number", { length: 10 }), // Optional specific room number
   roomRate: decimal("room_rate", { precision: 10, scale: 2 }).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
@@ -465,11 +512,49 @@ export const insertHotelSchema = createInsertSchema(hotels).omit({
   isActive: true,
 });
 
+const roomTypeBase = createInsertSchema(roomTypes).omit({
+  id: true,
+  hotelId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1).max(100),
+  code: z.string().min(1).max(50).regex(/^[a-z0-9_]+$/, "Use lowercase letters, digits and underscores"),
+  baseOccupancy: z.number().int().min(1).optional(),
+  maxOccupancy: z.number().int().min(1).optional(),
+  extraBedPrice: z.union([z.string(), z.number().transform((num) => num.toString())]).optional(),
+  defaultRate: z.union([z.string(), z.number().transform((num) => num.toString())]),
+  amenities: z.array(z.string()).optional(),
+  photos: z.array(z.string()).optional(),
+});
+
+export const insertRoomTypeSchema = roomTypeBase.refine(
+  (roomType) => (roomType.maxOccupancy ?? 2) >= (roomType.baseOccupancy ?? 2),
+  { message: "Maximum occupancy cannot be below base occupancy", path: ["maxOccupancy"] },
+);
+export const updateRoomTypeSchema = roomTypeBase.partial();
+
 export const insertRoomSchema = createInsertSchema(rooms).omit({
   id: true,
   createdAt: true,
+  roomTypeId: true,
+  archivedAt: true,
+}).extend({
+  number: z.string().trim().min(1).max(10),
+  floor: z.number().int().min(-5).max(200).nullable().optional(),
 });
 
+export const updateRoomSchema = insertRoomSchema.omit({ hotelId: true, status: true }).partial();
+
+// "Rooms 101-120, deluxe, floor 1": numbers from start to end with an optional prefix, sharing
+// the type, price and attributes
+export const bulkCreateRoomsSchema = insertRoomSchema.omit({ number: true, status: true, hotelId: true }).extend({
+  prefix: z.string().trim().max(5).default(""),
+  startNumber: z.number().int().min(0),
+  endNumber: z.number().int().min(0),
+}).refine(bulk => bulk.startNumber <= bulk.endNumber, { message: "endNumber must not be below startNumber", path: ["endNumber"] })
+  .refine(bulk => bulk.endNumber - bulk.startNumber < 200, { message: "Create at most 200 rooms at a time", path: ["endNumber"] });
+
 export const insertGuestSchema = createInsertSchema(guests).omit({
   id: true,
   createdAt: true,
@@ -514,7 +599,11 @@ export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertHotel = z.infer<typeof insertHotelSchema>;
 export type Hotel = typeof hotels.$inferSelect;
+export type InsertRoomType = z.infer<typeof insertRoomTypeSchema>;
+export type RoomType = typeof roomTypes.$inferSelect;
 export type InsertRoom = z.infer<typeof insertRoomSchema>;
+export type UpdateRoom = z.infer<typeof updateRoomSchema>;
+export type BulkCreateRooms = z.infer<typeof bulkCreateRoomsSchema>;
 export type Room = typeof rooms.$inferSelect;
 export type InsertGuest = z.infer<typeof insertGuestSchema>;
 export type Guest = typeof guests.$inferSelect;
@@ -532,6 +621,12 @@ export const insertBookingSchema = createInsertSchema(bookings).omit({
   totalAmount: z.union([z.string(), z.number().transform((num) => num.toString())]).optional(),
 });
 
+export const bookingStatusValues = ["confirmed", "cancelled", "no_show", "checked_in", "checked_out"] as const;
+
+export const updateBookingStatusSchema = z.object({
+  status: z.enum(bookingStatusValues),
+});
+
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 export type Invoice = typeof invoices.$inferSelect;
 
@@ -547,6 +642,21 @@ export type InsertPaymentTransaction = typeof paymentTransactions.$inferInsert;
 
 // Channel Manager Tables
 
+export interface OtaApiCredentials {
+  username: string;
+  password: string;
+  apiKey?: string;
+}
+
+// Envelope-encrypted credentials: the JSON is sealed with a per-channel data key (AES-256-GCM),
+// and the data key is sealed with a server-side master key identified by keyId
+export interface EncryptedCredentials {
+  version: 1;
+  keyId: string;
+  wrappedKey: string; // base64 iv|tag|ciphertext
+  ciphertext: string; // base64 iv|tag|ciphertext
+}
+
 // OTA Channels configuration
 export const otaChannels = pgTable("ota_channels", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -557,17 +667,20 @@ export const otaChannels = pgTable("ota_channels", {
   
   // API Configuration
   apiEndpoint: varchar("api_endpoint", { length: 500 }),
-  apiCredentials: json("api_credentials").$type<{
-    username: string;
-    password: string;
-    apiKey?: string;
-  }>(),
+  // Legacy plaintext credentials - encrypted into encryptedCredentials and cleared on startup
+  apiCredentials: json("api_credentials").$type<OtaApiCredentials>(),
+  encryptedCredentials: json("encrypted_credentials").$type<EncryptedCredentials>(), // see server/credential-vault.ts
+  credentialsKeyId: varchar("credentials_key_id", { length: 64 }), // master key wrapping the data key, for rotation
+  credentialsUpdatedAt: timestamp("credentials_updated_at"),
   propertyId: varchar("property_id", { length: 100 }), // Hotel ID on the OTA platform
+  webhookSecret: varchar("webhook_secret", { length: 128 }), // Shared secret signing inbound reservation webhooks
   
   // Channel Settings
   settings: json("settings").$type<{
     autoSync: boolean;
     rateParity: boolean; // Maintain same rates across channels
+    rateParityTolerance?: number; // % difference from the direct rate before a night is flagged
+    rateParityAutoCorrect?: boolean; // push the direct rate for flagged nights
     inventoryBuffer: number; // Reserve rooms (e.g., keep 2 rooms unavailable)
     minimumStay: number;
     maximumStay: number;
@@ -590,6 +703,10 @@ export const otaChannels = pgTable("ota_channels", {
   nextSyncAt: timestamp("next_sync_at"),
   syncFrequency: integer("sync_frequency").default(30), // minutes
   
+  // Scheduler lease - prevents two server instances syncing the same channel at once
+  syncLockedBy: varchar("sync_locked_by", { length: 100 }),
+  syncLockedUntil: timestamp("sync_locked_until"),
+  
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -600,7 +717,8 @@ export const channelRatePlans = pgTable("channel_rate_plans", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   channelId: varchar("channel_id").notNull().references(() => otaChannels.id, { onDelete: "cascade" }),
   planName: varchar("plan_name", { length: 100 }).notNull(), // "Standard Rate", "Weekend Special", etc.
-  roomType: roomTypeEnum("room_type").notNull(),
+  roomType: varchar("room_type", { length: 50 }).notNull(),
+  roomTypeId: varchar("room_type_id").references(() => roomTypes.id),
   
   // Rate Configuration
   baseRate: decimal("base_rate", { precision: 10, scale: 2 }).notNull(),
@@ -630,7 +748,7 @@ export const channelInventory = pgTable("channel_inventory", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   channelId: varchar("channel_id").notNull().references(() => otaChannels.id, { onDelete: "cascade" }),
   ratePlanId: varchar("rate_plan_id").notNull().references(() => channelRatePlans.id, { onDelete: "cascade" }),
-  roomType: roomTypeEnum("room_type").notNull(),
+  roomType: varchar("room_type", { length: 50 }).notNull(),
   date: timestamp("date").notNull(), // Inventory for specific date
   
   // Inventory Details
@@ -648,14 +766,79 @@ export const channelInventory = pgTable("channel_inventory", {
   maximumStay: integer("maximum_stay").default(30),
   
   // Sync Status
+  isDirty: boolean("is_dirty").notNull().default(true), // changed since it was last pushed to the OTA
   lastSyncedAt: timestamp("last_synced_at"),
   syncStatus: syncStatusEnum("sync_status").default("pending"),
   syncErrorMessage: text("sync_error_message"),
   
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // One row per channel, rate plan, room type and night
+  unique("channel_inventory_slot_unique").on(table.channelId, table.ratePlanId, table.roomType, table.date),
+]);
+
+// Restrictions set by the hotel per room type and night, merged over the rate plan defaults
+// when channel inventory is generated. A null channelId applies to every channel; a channel row
+// overrides it field by field. Null fields are not set at that level.
+export const channelRestrictions = pgTable("channel_restrictions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hotelId: varchar("hotel_id").notNull().references(() => hotels.id),
+  channelId: varchar("channel_id").references(() => otaChannels.id, { onDelete: "cascade" }),
+  roomType: varchar("room_type", { length: 50 }).notNull(),
+  date: timestamp("date").notNull(), // UTC midnight of the night
+  
+  stopSell: boolean("stop_sell"),
+  closedToArrival: boolean("closed_to_arrival"),
+  closedToDeparture: boolean("closed_to_departure"),
+  minimumStay: integer("minimum_stay"),
+  maximumStay: integer("maximum_stay"),
+  
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("channel_restrictions_slot_unique").on(table.hotelId, table.channelId, table.roomType, table.date).nullsNotDistinct(),
+]);
+
+// Revenue rules applied on top of the direct rate and channel rate plans, per room type and
+// night. Bounds are inclusive; a null bound is open. Only the bounds of the rule's type are used.
+export const pricingRules = pgTable("pricing_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hotelId: varchar("hotel_id").notNull().references(() => hotels.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  ruleType: pricingRuleTypeEnum("rule_type").notNull(),
+  roomType: varchar("room_type", { length: 50 }), // null: every room type
+  
+  minOccupancy: integer("min_occupancy"), // forecast occupancy percent
+  maxOccupancy: integer("max_occupancy"),
+  minDaysBefore: integer("min_days_before"), // days between today and arrival
+  maxDaysBefore: integer("max_days_before"),
+  minNights: integer("min_nights"), // length of stay
+  maxNights: integer("max_nights"),
+  daysOfWeek: json("days_of_week").$type<number[]>(), // 0 = Sunday
+  
+  adjustmentType: pricingAdjustmentTypeEnum("adjustment_type").notNull().default("percent"),
+  adjustmentValue: decimal("adjustment_value", { precision: 10, scale: 2 }).notNull(), // negative lowers the rate
+  priority: integer("priority").default(0), // higher applies first
+  isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Direct (own website / front desk) rate per room type and night. Nights without a row fall
+// back to hotels.pricing; pricing rules are applied on top of either.
+export const roomRates = pgTable("room_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hotelId: varchar("hotel_id").notNull().references(() => hotels.id, { onDelete: "cascade" }),
+  roomType: varchar("room_type", { length: 50 }).notNull(),
+  date: timestamp("date").notNull(), // UTC midnight of the night
+  rate: decimal("rate", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("room_rates_slot_unique").on(table.hotelId, table.roomType, table.date),
+]);
+
 // Channel sync logs for tracking and debugging
 export const channelSyncLogs = pgTable("channel_sync_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -682,16 +865,42 @@ export const channelSyncLogs = pgTable("channel_sync_logs", {
   completedAt: timestamp("completed_at"),
   durationMs: integer("duration_ms"),
   
+  replayOfId: varchar("replay_of_id"), // log whose stored payload this sync re-sent
+  
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Durable outbox of channel updates that failed to push and are waiting to be retried
+export const channelSyncOutbox = pgTable("channel_sync_outbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hotelId: varchar("hotel_id").notNull().references(() => hotels.id),
+  channelId: varchar("channel_id").notNull().references(() => otaChannels.id, { onDelete: "cascade" }),
+  
+  syncType: varchar("sync_type", { length: 50 }).notNull(), // "inventory", "rates"
+  payload: json("payload").$type<any[]>().notNull(),
+  status: outboxStatusEnum("status").notNull().default("pending"),
+  
+  // Retry tracking
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(8),
+  nextAttemptAt: timestamp("next_attempt_at").notNull(),
+  lastError: text("last_error"),
+  lastSyncLogId: varchar("last_sync_log_id").references(() => channelSyncLogs.id),
+  
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Channel room mapping - map hotel room types to OTA room types  
 export const channelRoomMapping = pgTable("channel_room_mapping", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   channelId: varchar("channel_id").notNull().references(() => otaChannels.id, { onDelete: "cascade" }),
-  hotelRoomType: roomTypeEnum("hotel_room_type").notNull(),
+  hotelRoomType: varchar("hotel_room_type", { length: 50 }).notNull(),
+  roomTypeId: varchar("room_type_id").references(() => roomTypes.id),
   channelRoomTypeId: varchar("channel_room_type_id", { length: 100 }).notNull(), // OTA's room type identifier
   channelRoomTypeName: varchar("channel_room_type_name", { length: 200 }).notNull(), // OTA's room type name
+  channelRatePlanId: varchar("channel_rate_plan_id", { length: 100 }), // OTA's rate plan; null sends our rate plan id
+  channelRatePlanName: varchar("channel_rate_plan_name", { length: 200 }),
   
   // Room details for OTA
   maxOccupancy: integer("max_occupancy").default(2),
@@ -702,7 +911,10 @@ export const channelRoomMapping = pgTable("channel_room_mapping", {
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  // An OTA room / rate plan maps to exactly one hotel room type
+  unique("channel_room_mapping_ota_unique").on(table.channelId, table.channelRoomTypeId, table.channelRatePlanId).nullsNotDistinct(),
+]);
 
 // Enhanced bookings table with channel source
 export const channelBookings = pgTable("channel_bookings", {
@@ -713,6 +925,8 @@ export const channelBookings = pgTable("channel_bookings", {
   // Channel booking details
   channelBookingId: varchar("channel_booking_id", { length: 100 }), // OTA's booking reference
   source: bookingSourceEnum("source").notNull(),
+  bookingId: varchar("booking_id").references(() => bookings.id, { onDelete: "set null" }), // Matching row on the bookings page
+  icalSubscriptionId: varchar("ical_subscription_id").references(() => icalSubscriptions.id, { onDelete: "set null" }), // Imported from an iCal feed
   
   // Guest Information
   guestName: text("guest_name").notNull(),
@@ -721,7 +935,7 @@ export const channelBookings = pgTable("channel_bookings", {
   guestNationality: varchar("guest_nationality", { length: 100 }),
   
   // Booking Details
-  roomType: roomTypeEnum("room_type").notNull(),
+  roomType: varchar("room_type", { length: 50 }).notNull(),
   numberOfRooms: integer("number_of_rooms").default(1),
   numberOfAdults: integer("number_of_adults").default(1),
   numberOfChildren: integer("number_of_children").default(0),
@@ -746,15 +960,177 @@ export const channelBookings = pgTable("channel_bookings", {
   // Sync tracking
   lastSyncedAt: timestamp("last_synced_at"),
   syncStatus: syncStatusEnum("sync_status").default("success"),
+  syncError: text("sync_error"), // why the last push of a local change to the OTA failed
   
   // Modifications
   isModified: boolean("is_modified").default(false),
   modificationNotes: text("modification_notes"),
   
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // An OTA reservation is imported once per channel, however often it is fetched
+  unique("channel_bookings_reference_unique").on(table.channelId, table.channelBookingId),
+]);
+
+// External iCal feeds (e.g. an Airbnb listing calendar) imported for a room or room type
+export const icalSubscriptions = pgTable("ical_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hotelId: varchar("hotel_id").notNull().references(() => hotels.id),
+  roomId: varchar("room_id").references(() => rooms.id, { onDelete: "cascade" }), // Null for a room type listing
+  roomType: varchar("room_type", { length: 50 }).notNull(),
+  name: varchar("name", { length: 100 }).notNull(), // "Airbnb - Garden Suite"
+  url: text("url").notNull(),
+  source: bookingSourceEnum("source").notNull().default("airbnb"),
+  importAs: varchar("import_as", { length: 20 }).notNull().default("block"), // block, booking
+  
+  isActive: boolean("is_active").default(true),
+  lastSyncedAt: timestamp("last_synced_at"),
+  lastSyncStatus: syncStatusEnum("last_sync_status"),
+  lastError: text("last_error"),
+  eventsImported: integer("events_imported").default(0),
+  syncLockedUntil: timestamp("sync_locked_until"), // lease held while one instance imports the feed
+  
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Date ranges during which a room (or one room of a type) cannot be sold
+export const roomBlocks = pgTable("room_blocks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hotelId: varchar("hotel_id").notNull().references(() => hotels.id),
+  roomId: varchar("room_id").references(() => rooms.id, { onDelete: "cascade" }), // Null blocks one room of roomType
+  roomType: varchar("room_type", { length: 50 }).notNull(),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(), // Exclusive, like a checkout date
+  reason: text("reason"),
+  source: varchar("source", { length: 30 }).notNull().default("manual"), // manual, ical, maintenance
+  blockType: varchar("block_type", { length: 20 }), // maintenance blocks: out_of_order or out_of_service
+  
+  // iCal imports
+  subscriptionId: varchar("subscription_id").references(() => icalSubscriptions.id, { onDelete: "cascade" }),
+  externalUid: varchar("external_uid", { length: 255 }),
+  
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("room_blocks_subscription_uid_unique").on(table.subscriptionId, table.externalUid),
+]);
+
+// A reservation claiming a room type on an overbooked night
+export interface OverbookingConflict {
+  kind: "booking" | "channel_booking" | "check_in";
+  id: string;
+  guestName: string;
+  source: string; // direct, an OTA, ical or walk_in
+  checkInDate: string; // YYYY-MM-DD
+  checkOutDate: string; // YYYY-MM-DD, exclusive
+  rooms: number;
+  inHouse: boolean; // already checked in, cannot be relocated
+}
+
+// A way to move one conflicting reservation off the overbooked night
+export interface RelocationSuggestion {
+  conflictId: string;
+  kind: "upgrade" | "move";
+  roomType: string;
+  checkInDate: string;
+  checkOutDate: string;
+  description: string;
+}
+
+// One alert per room type and night that has more reservations than sellable rooms. Raised when
+// a booking is inserted; a stop-sell is pushed for the slot until the alert is resolved.
+export const overbookingAlerts = pgTable("overbooking_alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hotelId: varchar("hotel_id").notNull().references(() => hotels.id, { onDelete: "cascade" }),
+  roomType: varchar("room_type", { length: 50 }).notNull(),
+  date: timestamp("date").notNull(), // UTC midnight of the night
+  overbookedBy: integer("overbooked_by").notNull(), // reservations beyond the sellable rooms
+  conflicts: json("conflicts").$type<OverbookingConflict[]>().notNull(),
+  suggestions: json("suggestions").$type<RelocationSuggestion[]>().notNull(),
+  status: overbookingAlertStatusEnum("status").notNull().default("open"),
+  stopSellApplied: boolean("stop_sell_applied").notNull().default(false), // set by the detector, lifted on resolve
+  previousStopSell: boolean("previous_stop_sell"), // the hotel's own stop-sell before the detector's, restored on resolve
+  triggeredBy: varchar("triggered_by", { length: 100 }), // the insert that revealed it, e.g. "booking:<id>"
+  resolutionNote: text("resolution_note"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("overbooking_alerts_slot_unique").on(table.hotelId, table.roomType, table.date),
+]);
+
+// Housekeeping attendants. They do not log in; the hotel's housekeeping board assigns tasks to them.
+export const housekeepingStaff = pgTable("housekeeping_staff", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hotelId: varchar("hotel_id").notNull().references(() => hotels.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  phone: varchar("phone", { length: 20 }),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Cleaning and inspection work on a room. Checkout creates a checkout clean, stay-over service is
+// created daily for occupied rooms, and an inspection follows a clean when the hotel requires one.
+export const housekeepingTasks = pgTable("housekeeping_tasks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hotelId: varchar("hotel_id").notNull().references(() => hotels.id, { onDelete: "cascade" }),
+  roomId: varchar("room_id").notNull().references(() => rooms.id, { onDelete: "cascade" }),
+  taskType: housekeepingTaskTypeEnum("task_type").notNull(),
+  status: housekeepingTaskStatusEnum("status").notNull().default("pending"),
+  priority: housekeepingPriorityEnum("priority").notNull().default("normal"),
+  taskDate: timestamp("task_date").notNull(), // UTC midnight of the day the task is for
+  assignedTo: varchar("assigned_to").references(() => housekeepingStaff.id, { onDelete: "set null" }),
+  checkInId: varchar("check_in_id").references(() => checkIns.id, { onDelete: "set null" }), // the stay that checked out or is being serviced
+  notes: text("notes"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"), // set when done or skipped
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // One stay-over service per room and day, however many board loads create them at once
+  uniqueIndex("housekeeping_tasks_stayover_unique")
+    .on(table.roomId, table.taskType, table.taskDate)
+    .where(sql`${table.taskType} = 'stayover_service'`),
+]);
+
+// Repairs on a room. A work order may take the room out of order for a date range through a
+// room block, which the availability engine and channel inventory already honour.
+export const maintenanceWorkOrders = pgTable("maintenance_work_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hotelId: varchar("hotel_id").notNull().references(() => hotels.id, { onDelete: "cascade" }),
+  roomId: varchar("room_id").notNull().references(() => rooms.id, { onDelete: "cascade" }),
+  issue: varchar("issue", { length: 200 }).notNull(),
+  description: text("description"),
+  category: workOrderCategoryEnum("category").notNull().default("other"),
+  photos: json("photos").$type<string[]>().default([]),
+  assignee: varchar("assignee", { length: 100 }), // technician or contractor
+  cost: decimal("cost", { precision: 10, scale: 2 }),
+  status: workOrderStatusEnum("status").notNull().default("open"),
+  blockId: varchar("block_id").references(() => roomBlocks.id, { onDelete: "set null" }),
+  reportedBy: varchar("reported_by", { length: 255 }),
+  resolution: text("resolution"),
+  completedAt: timestamp("completed_at"), // completed or cancelled
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Every change of rooms.status, so the front desk can see how long a room sat dirty and who
+// took it out of order
+export const roomStatusChanges = pgTable("room_status_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hotelId: varchar("hotel_id").notNull().references(() => hotels.id, { onDelete: "cascade" }),
+  roomId: varchar("room_id").notNull().references(() => rooms.id, { onDelete: "cascade" }),
+  fromStatus: roomStatusEnum("from_status"),
+  toStatus: roomStatusEnum("to_status").notNull(),
+  source: varchar("source", { length: 20 }).notNull().default("system"), // manual, check_in, checkout, housekeeping, maintenance, system
+  changedBy: varchar("changed_by", { length: 255 }), // user email or attendant name; null when automatic
+  reason: text("reason"),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+});
+
 // Relations for Channel Manager
 export const otaChannelsRelations = relations(otaChannels, ({ one, many }) => ({
   hotel: one(hotels, {
@@ -804,12 +1180,49 @@ export const insertOtaChannelSchema = createInsertSchema(otaChannels).omit({
   updatedAt: true,
   lastSyncAt: true,
   nextSyncAt: true,
+  syncLockedBy: true,
+  syncLockedUntil: true,
+});
+
+const SEASONAL_PERIOD_KEY = /^(\d{4}-\d{2}-\d{2})_(\d{4}-\d{2}-\d{2})$/;
+
+function isCalendarDate(value: string): boolean {
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+// Seasonal rates keyed by "YYYY-MM-DD_YYYY-MM-DD" (both ends inclusive); periods must not overlap
+export const seasonalRatesSchema = z.record(z.object({
+  rate: z.number().positive(),
+  description: z.string().max(200).default(""),
+})).superRefine((seasonalRates, ctx) => {
+  const periods: { key: string; start: string; end: string }[] = [];
+  for (const key of Object.keys(seasonalRates)) {
+    const match = SEASONAL_PERIOD_KEY.exec(key);
+    if (!match || !isCalendarDate(match[1]) || !isCalendarDate(match[2])) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid seasonal period "${key}", expected YYYY-MM-DD_YYYY-MM-DD`, path: [key] });
+    } else if (match[1] > match[2]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Seasonal period "${key}" ends before it starts`, path: [key] });
+    } else {
+      periods.push({ key, start: match[1], end: match[2] });
+    }
+  }
+
+  periods.sort((a, b) => a.start.localeCompare(b.start));
+  for (let i = 1; i < periods.length; i++) {
+    if (periods[i].start <= periods[i - 1].end) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Seasonal period "${periods[i].key}" overlaps "${periods[i - 1].key}"`, path: [periods[i].key] });
+    }
+  }
 });
 
 export const insertChannelRatePlanSchema = createInsertSchema(channelRatePlans).omit({
   id: true,
+  roomTypeId: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  seasonalRates: seasonalRatesSchema.optional(),
 });
 
 export const insertChannelInventorySchema = createInsertSchema(channelInventory).omit({
@@ -828,12 +1241,149 @@ export const insertChannelBookingSchema = createInsertSchema(channelBookings).om
   checkOutDate: z.union([z.date(), z.string().transform((str) => new Date(str))]),
 });
 
+export const insertChannelSyncLogSchema = createInsertSchema(channelSyncLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertChannelSyncOutboxSchema = createInsertSchema(channelSyncOutbox).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertChannelRoomMappingSchema = createInsertSchema(channelRoomMapping).omit({
   id: true,
+  roomTypeId: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertIcalSubscriptionSchema = createInsertSchema(icalSubscriptions).omit({
+  id: true,
+  hotelId: true,
+  createdAt: true,
+  updatedAt: true,
+  lastSyncedAt: true,
+  lastSyncStatus: true,
+  lastError: true,
+  eventsImported: true,
+  syncLockedUntil: true,
+}).extend({
+  url: z.string().url(),
+  importAs: z.enum(["block", "booking"]).default("block"),
+});
+
+export const insertRoomBlockSchema = createInsertSchema(roomBlocks).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertChannelRestrictionSchema = createInsertSchema(channelRestrictions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertRoomRateSchema = createInsertSchema(roomRates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertOverbookingAlertSchema = createInsertSchema(overbookingAlerts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertHousekeepingStaffSchema = createInsertSchema(housekeepingStaff).omit({
+  id: true,
+  hotelId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1).max(100),
+});
+
+export const updateHousekeepingStaffSchema = insertHousekeepingStaffSchema.partial();
+
+export const insertHousekeepingTaskSchema = createInsertSchema(housekeepingTasks).omit({
+  id: true,
+  hotelId: true,
+  status: true,
+  taskDate: true,
+  checkInId: true,
+  startedAt: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateHousekeepingTaskSchema = insertHousekeepingTaskSchema.pick({
+  priority: true,
+  assignedTo: true,
+  notes: true,
+}).partial();
+
+export const insertWorkOrderSchema = createInsertSchema(maintenanceWorkOrders).omit({
+  id: true,
+  hotelId: true,
+  status: true,
+  blockId: true,
+  reportedBy: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  issue: z.string().trim().min(1).max(200),
+  photos: z.array(z.string().url()).max(6).optional(), // links or image data URLs, like guest documents
+  cost: z.union([z.string(), z.number()]).transform(value => value.toString()).nullable().optional(),
+});
+
+export const updateWorkOrderSchema = insertWorkOrderSchema.omit({ roomId: true }).partial().extend({
+  status: z.enum(workOrderStatusEnum.enumValues).optional(),
+});
+
+const pricingRuleBase = createInsertSchema(pricingRules).omit({
+  id: true,
+  hotelId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  minOccupancy: z.number().int().min(0).max(100).nullable().optional(),
+  maxOccupancy: z.number().int().min(0).max(100).nullable().optional(),
+  minDaysBefore: z.number().int().min(0).nullable().optional(),
+  maxDaysBefore: z.number().int().min(0).nullable().optional(),
+  minNights: z.number().int().min(1).nullable().optional(),
+  maxNights: z.number().int().min(1).nullable().optional(),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).nullable().optional(),
+});
+
+// A rule needs a condition of its own type, and bounds that are in order
+function checkPricingRule(rule: Partial<z.infer<typeof pricingRuleBase>>, ctx: z.RefinementCtx) {
+  const bounds = {
+    occupancy: [rule.minOccupancy, rule.maxOccupancy],
+    lead_time: [rule.minDaysBefore, rule.maxDaysBefore],
+    length_of_stay: [rule.minNights, rule.maxNights],
+  } as const;
+  for (const [ruleType, [min, max]] of Object.entries(bounds)) {
+    if (min != null && max != null && min > max) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Minimum exceeds maximum for ${ruleType.replace(/_/g, " ")}` });
+    }
+    if (rule.ruleType === ruleType && min == null && max == null) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `A ${ruleType.replace(/_/g, " ")} rule needs a minimum or maximum` });
+    }
+  }
+  if (rule.ruleType === "day_of_week" && !rule.daysOfWeek?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A day of week rule needs at least one day", path: ["daysOfWeek"] });
+  }
+}
+
+export const insertPricingRuleSchema = pricingRuleBase.superRefine(checkPricingRule);
+export const updatePricingRuleSchema = pricingRuleBase.partial();
+
 // Extended types for API responses
 export type BookingWithRooms = Booking & {
   rooms: BookingRoom[];
@@ -850,7 +1400,37 @@ export type InsertChannelBooking = z.infer<typeof insertChannelBookingSchema>;
 export type ChannelBooking = typeof channelBookings.$inferSelect;
 export type InsertChannelRoomMapping = z.infer<typeof insertChannelRoomMappingSchema>;
 export type ChannelRoomMapping = typeof channelRoomMapping.$inferSelect;
+export type InsertChannelSyncLog = z.infer<typeof insertChannelSyncLogSchema>;
 export type ChannelSyncLog = typeof channelSyncLogs.$inferSelect;
+export type InsertChannelSyncOutboxItem = z.infer<typeof insertChannelSyncOutboxSchema>;
+export type ChannelSyncOutboxItem = typeof channelSyncOutbox.$inferSelect;
+export type InsertIcalSubscription = z.infer<typeof insertIcalSubscriptionSchema>;
+export type IcalSubscription = typeof icalSubscriptions.$inferSelect;
+export type InsertRoomBlock = z.infer<typeof insertRoomBlockSchema>;
+export type RoomBlock = typeof roomBlocks.$inferSelect;
+export type InsertChannelRestriction = z.infer<typeof insertChannelRestrictionSchema>;
+export type ChannelRestriction = typeof channelRestrictions.$inferSelect;
+export type InsertPricingRule = z.infer<typeof insertPricingRuleSchema>;
+export type PricingRule = typeof pricingRules.$inferSelect;
+export type InsertRoomRate = z.infer<typeof insertRoomRateSchema>;
+export type RoomRate = typeof roomRates.$inferSelect;
+export type InsertOverbookingAlert = z.infer<typeof insertOverbookingAlertSchema>;
+export type OverbookingAlert = typeof overbookingAlerts.$inferSelect;
+export type InsertHousekeepingStaff = z.infer<typeof insertHousekeepingStaffSchema>;
+export type HousekeepingStaff = typeof housekeepingStaff.$inferSelect;
+export type InsertHousekeepingTask = typeof housekeepingTasks.$inferInsert;
+export type HousekeepingTask = typeof housekeepingTasks.$inferSelect;
+export type InsertWorkOrder = z.infer<typeof insertWorkOrderSchema>;
+export type WorkOrder = typeof maintenanceWorkOrders.$inferSelect;
+export type RoomStatusChange = typeof roomStatusChanges.$inferSelect;
+export type RoomStatusSource = "manual" | "check_in" | "checkout" | "housekeeping" | "maintenance" | "system";
+
+// Who or what changed a room's status, recorded with the transition
+export interface RoomStatusChangeContext {
+  source: RoomStatusSource;
+  changedBy?: string | null;
+  reason?: string | null;
+}
 
 // Extended types with relations
 export type OtaChannelWithRatePlans = OtaChannel & {
@@ -861,3 +1441,8 @@ export type OtaChannelWithRatePlans = OtaChannel & {
 export type ChannelBookingWithDetails = ChannelBooking & {
   channel: OtaChannel;
 };
+
+export type HousekeepingTaskWithRoom = HousekeepingTask & {
+  roomNumber: string;
+  roomType: string;
+};